@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli, type CliIO } from '../cli';
+import { parseArgs, UsageError } from '../cli/args';
+import { MBOXParser } from '../parsers/mbox';
+
+const MBOX = `From alice@example.com Mon Jan 15 10:30:00 2024
+From: "Alice" <alice@example.com>
+To: bob@example.com
+Subject: Quarterly report
+Date: Mon, 15 Jan 2024 10:30:00 +0000
+
+Report attached.
+From the finance team
+
+From bob@example.com Tue Jan 16 10:30:00 2024
+From: bob@example.com
+To: alice@example.com
+Subject: Lunch?
+Date: Tue, 16 Jan 2024 10:30:00 +0000
+
+Are you free today?
+`;
+
+function createIO(): CliIO & { out: () => string; err: () => string } {
+  let stdout = '';
+  let stderr = '';
+  return {
+    stdout: { write: (chunk: string) => ((stdout += chunk), true) },
+    stderr: { write: (chunk: string) => ((stderr += chunk), true) },
+    out: () => stdout,
+    err: () => stderr,
+  };
+}
+
+describe('runCli', () => {
+  let dir: string;
+  let archive: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cli-test-'));
+    archive = join(dir, 'archive.mbox');
+    writeFileSync(archive, MBOX);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should print parsed items as NDJSON', async () => {
+    const io = createIO();
+
+    const code = await runCli(['parse', archive, '--quiet'], io);
+
+    expect(code).toBe(0);
+    const items = io.out().trim().split('\n').map((line) => JSON.parse(line));
+    expect(items.filter((item) => item.type === 'email').map((item) => item.email.subject)).toEqual([
+      'Quarterly report',
+      'Lunch?',
+    ]);
+    expect(items.some((item) => item.type === 'contact')).toBe(true);
+  });
+
+  it('should print a ParseResult with --json', async () => {
+    const io = createIO();
+
+    const code = await runCli(['parse', archive, '--json', '-q'], io);
+
+    expect(code).toBe(0);
+    const result = JSON.parse(io.out());
+    expect(result.emails.map((email: { subject: string }) => email.subject)).toEqual(['Quarterly report', 'Lunch?']);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.stats).toEqual({
+      emailCount: 2,
+      contactCount: result.contacts.length,
+      calendarEventCount: 0,
+      taskCount: 0,
+      noteCount: 0,
+      accountCount: 0,
+      purchaseCount: 0,
+      subscriptionCount: 0,
+      newsletterCount: 0,
+    });
+  });
+
+  it('should report progress on stderr', async () => {
+    const io = createIO();
+
+    await runCli(['stats', archive], io);
+
+    expect(io.err()).toContain('Reading MBOX archive');
+    expect(io.out()).toContain('Emails:          2');
+  });
+
+  it('should print stats as JSON', async () => {
+    const io = createIO();
+
+    const code = await runCli(['stats', archive, '--json', '-q'], io);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(io.out())).toMatchObject({
+      format: 'mbox',
+      emailCount: 2,
+      firstEmailDate: '2024-01-15T10:30:00.000Z',
+      lastEmailDate: '2024-01-16T10:30:00.000Z',
+      errorCount: 0,
+    });
+  });
+
+  it('should search with filters and exit 1 without matches', async () => {
+    const io = createIO();
+    expect(await runCli(['search', archive, 'report', '--from', 'alice', '-q'], io)).toBe(0);
+    expect(JSON.parse(io.out())).toMatchObject({ subject: 'Quarterly report', from: 'alice@example.com' });
+
+    const none = createIO();
+    expect(await runCli(['search', archive, 'report', '--since', '2024-01-16', '-q'], none)).toBe(1);
+    expect(none.out()).toBe('');
+  });
+
+  it('should convert to mbox and eml', async () => {
+    const mboxPath = join(dir, 'converted.mbox');
+    expect(await runCli(['convert', archive, '--to', 'mbox', '--out', mboxPath, '-q'], createIO())).toBe(0);
+
+    const converted = readFileSync(mboxPath, 'latin1');
+    expect(converted).toContain('>From the finance team');
+    const reparsed = await new MBOXParser().parse(Buffer.from(converted, 'latin1'));
+    expect(reparsed.emails.map((e) => e.subject)).toEqual(['Quarterly report', 'Lunch?']);
+
+    const emlDir = join(dir, 'eml');
+    expect(await runCli(['convert', archive, '--to=eml', '-o', emlDir, '-q'], createIO())).toBe(0);
+    expect(readdirSync(emlDir).sort()).toEqual(['message-000001.eml', 'message-000002.eml']);
+
+    const stats = createIO();
+    expect(await runCli(['stats', emlDir, '--json', '-q'], stats)).toBe(0);
+    expect(JSON.parse(stats.out())).toMatchObject({ format: 'eml', emailCount: 2 });
+  });
+
+  it('should exit 2 on usage errors', async () => {
+    const io = createIO();
+
+    expect(await runCli(['convert', archive, '--to', 'pst'], io)).toBe(2);
+    expect(io.err()).toContain('--to must be "mbox" or "eml"');
+    expect(await runCli(['frobnicate'], createIO())).toBe(2);
+    expect(await runCli(['parse'], createIO())).toBe(2);
+
+    const none = createIO();
+    expect(await runCli([], none)).toBe(2);
+    expect(none.out()).toBe('');
+    expect(none.err()).toContain('Usage: email-archive-parser <command>');
+
+    const help = createIO();
+    expect(await runCli(['--help'], help)).toBe(0);
+    expect(help.out()).toContain('Usage: email-archive-parser <command>');
+  });
+
+  it('should exit 1 when the archive cannot be read', async () => {
+    const io = createIO();
+
+    expect(await runCli(['parse', join(dir, 'missing.mbox'), '-q'], io)).toBe(1);
+    expect(io.err()).toMatch(/^error: /);
+  });
+
+  it('should exit 130 when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await runCli(['parse', archive, '-q'], createIO(), controller.signal)).toBe(130);
+  });
+});
+
+describe('parseArgs', () => {
+  const spec = { boolean: ['json'], string: ['to'] };
+
+  it('should parse flags, values and positionals', () => {
+    expect(parseArgs(['a.mbox', '--json', '--to', 'eml', '-h', '--', '--x'], spec)).toEqual({
+      positionals: ['a.mbox', '--x'],
+      flags: { json: true, to: 'eml', help: true },
+    });
+  });
+
+  it('should reject unknown flags and missing values', () => {
+    expect(() => parseArgs(['--nope'], spec)).toThrow(UsageError);
+    expect(() => parseArgs(['--to'], spec)).toThrow('requires a value');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { AccountDetector } from '../../detectors/account';
+import { ParseAbortedError } from '../../errors';
 import type { Email } from '../../types';
 
 // Helper to create test emails
@@ -202,6 +203,16 @@ describe('AccountDetector', () => {
       expect(accounts.map((a) => a.serviceName)).toContain('Spotify');
     });
 
+    it('should throw ParseAbortedError when the signal is aborted', () => {
+      const detector = new AccountDetector();
+      const controller = new AbortController();
+      controller.abort();
+
+      expect(() =>
+        detector.detectBatch([createEmail({ subject: 'Welcome to Netflix!' })], controller.signal)
+      ).toThrow(ParseAbortedError);
+    });
+
     it('should deduplicate accounts by service name', () => {
       const detector = new AccountDetector();
       const emails = [
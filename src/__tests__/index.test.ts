@@ -9,6 +9,7 @@ import {
   PurchaseDetector,
   SubscriptionDetector,
   NewsletterDetector,
+  ParseAbortedError,
 } from '../index';
 
 describe('parseArchive', () => {
@@ -74,6 +75,61 @@ This is the body of the email.`;
     expect(result.emails[0].sender).toBe('sender@example.com');
   });
 
+  it('should detect MBOX content in a Buffer', async () => {
+    const mboxContent = `From sender@example.com Mon Jan 15 10:30:00 2024
+From: sender@example.com
+To: recipient@example.com
+Subject: Buffer MBOX
+Date: Mon, 15 Jan 2024 10:30:00 +0000
+
+Body`;
+
+    const result = await parseArchive(Buffer.from(mboxContent));
+
+    expect(result.emails.length).toBe(1);
+    expect(result.emails[0].subject).toBe('Buffer MBOX');
+  });
+
+  it('should parse a single EML message', async () => {
+    const emlContent = `From: "Sender" <sender@example.com>
+To: recipient@example.com
+Subject: Single message
+Date: Mon, 15 Jan 2024 10:30:00 +0000
+
+Body`;
+
+    const result = await parseArchive(Buffer.from(emlContent));
+
+    expect(result.emails.length).toBe(1);
+    expect(result.emails[0].subject).toBe('Single message');
+    expect(result.emails[0].senderName).toBe('Sender');
+  });
+
+  it('should use the format option instead of detection', async () => {
+    const buffer = Buffer.from('not an archive');
+
+    await expect(parseArchive(buffer)).rejects.toThrow('Unable to detect archive format');
+    await expect(parseArchive(buffer, { format: 'olm' })).rejects.toThrow('Failed to parse OLM file');
+  });
+
+  it('should reject truncated files as undetectable', async () => {
+    const header = new Uint8Array(512);
+    header.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+    header.set([0x09, 0x00], 0x1e);
+    header.set([0x10, 0x00, 0x00, 0x00], 0x30);
+
+    await expect(parseArchive(header.buffer)).rejects.toThrow('Unable to detect archive format');
+  });
+
+  it('should reject with an AbortError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      parseArchive(Buffer.from('From a@b.com Mon Jan 15 10:30:00 2024\n'), { signal: controller.signal })
+    ).rejects.toBeInstanceOf(ParseAbortedError);
+  });
+
   it('should call progress callback', async () => {
     const zip = new JSZip();
     const buffer = await zip.generateAsync({ type: 'arraybuffer' });
@@ -145,6 +201,8 @@ This is the body of the email.`;
       emailCount: 0,
       contactCount: 0,
       calendarEventCount: 0,
+      taskCount: 0,
+      noteCount: 0,
       accountCount: 0,
       purchaseCount: 0,
       subscriptionCount: 0,
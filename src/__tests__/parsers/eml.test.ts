@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import JSZip from 'jszip';
+import { EMLParser } from '../../parsers/eml';
+import { ParseAbortedError } from '../../errors';
+import { parseArchive } from '../../index';
+import type { ParseDiagnostic } from '../../types';
+
+function createEmlx(message: string, flags: number): string {
+  const plist = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<plist version="1.0">',
+    '<dict>',
+    '\t<key>date-received</key>',
+    '\t<integer>1705314600</integer>',
+    '\t<key>flags</key>',
+    `\t<integer>${flags}</integer>`,
+    '</dict>',
+    '</plist>',
+    '',
+  ].join('\n');
+  return `${Buffer.byteLength(message)}\n${message}${plist}`;
+}
+
+function createMessage(from: string, subject: string, eol = '\n'): string {
+  return [
+    `From: ${from}`,
+    'To: recipient@example.com',
+    `Subject: ${subject}`,
+    'Date: Mon, 15 Jan 2024 10:30:00 +0000',
+    `Message-ID: <${subject.replace(/\s+/g, '-')}@example.com>`,
+    '',
+    `Body of ${subject}`,
+    '',
+  ].join(eol);
+}
+
+describe('EMLParser', () => {
+  describe('isEMLFile', () => {
+    it('should return true for .eml files', () => {
+      expect(EMLParser.isEMLFile(new File([], 'message.EML'))).toBe(true);
+    });
+
+    it('should return true for Apple Mail .emlx files', () => {
+      expect(EMLParser.isEMLFile(new File([], '12345.emlx'))).toBe(true);
+    });
+
+    it('should return true for message/rfc822 files', () => {
+      expect(EMLParser.isEMLFile(new File([], 'message', { type: 'message/rfc822' }))).toBe(true);
+    });
+
+    it('should return false for other files', () => {
+      expect(EMLParser.isEMLFile(new File([], 'archive.mbox'))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse a single message', async () => {
+      const parser = new EMLParser();
+      const result = await parser.parse(Buffer.from(createMessage('"Alice" <alice@example.com>', 'Hello')));
+
+      expect(result.emails).toHaveLength(1);
+      expect(result.emails[0].subject).toBe('Hello');
+      expect(result.emails[0].sender).toBe('alice@example.com');
+      expect(result.emails[0].body).toContain('Body of Hello');
+      expect(result.contacts).toHaveLength(1);
+      expect(result.stats.emailCount).toBe(1);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should parse messages with CRLF line endings', async () => {
+      const parser = new EMLParser();
+      const result = await parser.parse(Buffer.from(createMessage('alice@example.com', 'Windows', '\r\n')));
+
+      expect(result.emails[0].subject).toBe('Windows');
+      expect(result.emails[0].body.trim()).toBe('Body of Windows');
+    });
+
+    it('should skip a leading mbox From line', async () => {
+      const parser = new EMLParser();
+      const message = 'From alice@example.com Mon Jan 15 10:30:00 2024\n' + createMessage('alice@example.com', 'Saved');
+      const result = await parser.parse(Buffer.from(message));
+
+      expect(result.emails).toHaveLength(1);
+      expect(result.emails[0].subject).toBe('Saved');
+    });
+
+    it('should strip the .emlx byte count and plist', async () => {
+      const parser = new EMLParser();
+      const result = await parser.parse(Buffer.from(createEmlx(createMessage('alice@example.com', 'Apple'), 0)));
+
+      expect(result.emails).toHaveLength(1);
+      expect(result.emails[0].subject).toBe('Apple');
+      expect(result.emails[0].body.trim()).toBe('Body of Apple');
+      expect(result.emails[0].body).not.toContain('plist');
+    });
+
+    it('should map .emlx flags onto email fields', async () => {
+      const parser = new EMLParser();
+      const message = createMessage('alice@example.com', 'Flagged');
+      const result = await parser.parse([
+        Buffer.from(createEmlx(message, 0)),
+        // read, answered and flagged
+        Buffer.from(createEmlx(message, 0b10101)),
+        // forwarded and deleted
+        Buffer.from(createEmlx(message, 0x102)),
+      ]);
+
+      const [none, replied, forwarded] = result.emails;
+      expect(none).toMatchObject({ isRead: false, isStarred: false, isReplied: false, isTrashed: false });
+      expect(replied).toMatchObject({ isRead: true, isStarred: true, isReplied: true, isForwarded: false });
+      expect(forwarded).toMatchObject({ isRead: false, isForwarded: true, isTrashed: true });
+    });
+
+    it('should parse an array of messages', async () => {
+      const parser = new EMLParser();
+      const result = await parser.parse([
+        new File([createMessage('alice@example.com', 'First')], 'first.eml'),
+        Buffer.from(createMessage('bob@example.com', 'Second')),
+      ]);
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['First', 'Second']);
+      expect(result.contacts.map((contact) => contact.email).sort()).toEqual(['alice@example.com', 'bob@example.com']);
+    });
+
+    it('should only read each message file when it is reached', async () => {
+      const first = new File([createMessage('alice@example.com', 'First')], 'first.eml');
+      const second = new File([createMessage('bob@example.com', 'Second')], 'second.eml');
+      const readSecond = vi.spyOn(second, 'arrayBuffer');
+
+      const items = new EMLParser().stream([first, second]);
+      const firstItem = await items.next();
+
+      expect(firstItem.value).toMatchObject({ type: 'email', email: { subject: 'First' } });
+      expect(readSecond).not.toHaveBeenCalled();
+
+      const secondItem = await items.next();
+      expect(secondItem.value).toMatchObject({ type: 'email', email: { subject: 'Second' } });
+      expect(readSecond).toHaveBeenCalledTimes(1);
+      await items.return(undefined);
+    });
+
+    it('should parse a ZIP archive of messages', async () => {
+      const zip = new JSZip();
+      zip.file('Inbox/b.eml', createMessage('bob@example.com', 'Second'));
+      zip.file('Inbox/a.eml', createMessage('alice@example.com', 'First'));
+      zip.file('Inbox/notes.txt', 'not a message');
+      zip.file('__MACOSX/Inbox/._a.eml', 'resource fork');
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const parser = new EMLParser();
+      const result = await parser.parse(buffer);
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['First', 'Second']);
+    });
+
+    it('should not extract contacts when extractContacts is false', async () => {
+      const parser = new EMLParser();
+      const result = await parser.parse(Buffer.from(createMessage('alice@example.com', 'Hello')), {
+        extractContacts: false,
+      });
+
+      expect(result.emails).toHaveLength(1);
+      expect(result.contacts).toEqual([]);
+    });
+
+    it('should report messages without headers with their path', async () => {
+      const warnings: ParseDiagnostic[] = [];
+      const parser = new EMLParser();
+      const result = await parser.parse(
+        [new File(['\n\n'], 'empty.eml'), new File([createMessage('alice@example.com', 'Hello')], 'ok.eml')],
+        { onWarning: (diagnostic) => warnings.push(diagnostic) }
+      );
+
+      expect(result.emails).toHaveLength(1);
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].code).toBe('message_skipped');
+      expect(result.diagnostics[0].location?.path).toBe('empty.eml');
+      expect(warnings).toEqual(result.diagnostics);
+    });
+
+    it('should turn Outlook meeting requests into calendar events', async () => {
+      const message = [
+        'From: Dana <dana@example.com>',
+        'To: recipient@example.com',
+        'Subject: Budget review',
+        'Date: Mon, 15 Jan 2024 10:30:00 +0000',
+        'Message-ID: <budget@example.com>',
+        'Content-Type: multipart/alternative; boundary="b"',
+        '',
+        '--b',
+        'Content-Type: text/plain; charset="utf-8"',
+        '',
+        'When: Tuesday',
+        '--b',
+        'Content-Type: text/calendar; charset="utf-8"; method=REQUEST',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'BEGIN:VCALENDAR',
+        'METHOD:REQUEST',
+        'BEGIN:VEVENT',
+        'UID:040000008200E00074C5B7101A82E008',
+        'SUMMARY;LANGUAGE=en-US:Budget review =E2=80=93 Q1',
+        'DTSTART:20240116T140000Z',
+        'DTEND:20240116T150000Z',
+        'END:VEVENT',
+        'END:VCALENDAR',
+        '--b--',
+        '',
+      ].join('\r\n');
+
+      const result = await new EMLParser().parse(Buffer.from(message));
+
+      expect(result.emails[0].invite?.method).toBe('request');
+      expect(result.calendarEvents).toEqual([
+        expect.objectContaining({
+          title: 'Budget review – Q1',
+          startDate: new Date('2024-01-16T14:00:00Z'),
+          messageId: '<budget@example.com>',
+        }),
+      ]);
+      expect(result.stats.calendarEventCount).toBe(1);
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const parser = new EMLParser();
+
+      await expect(
+        parser.parse(Buffer.from(createMessage('alice@example.com', 'Hello')), { signal: controller.signal })
+      ).rejects.toBeInstanceOf(ParseAbortedError);
+    });
+  });
+
+  describe('parseFile', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'eml-test-'));
+      mkdirSync(join(dir, 'Archive'));
+      writeFileSync(join(dir, 'one.eml'), createMessage('alice@example.com', 'One'));
+      writeFileSync(join(dir, 'Archive', 'two.eml'), createMessage('bob@example.com', 'Two'));
+      writeFileSync(join(dir, 'Archive', 'three.emlx'), createEmlx(createMessage('carol@example.com', 'Three'), 1));
+      writeFileSync(join(dir, 'readme.txt'), 'not a message');
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should parse a directory recursively', async () => {
+      const parser = new EMLParser();
+      const result = await parser.parseFile(dir);
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['Three', 'Two', 'One']);
+      expect(result.emails[0].isRead).toBe(true);
+    });
+
+    it('should parse a single file path', async () => {
+      const parser = new EMLParser();
+      const result = await parser.parseFile(join(dir, 'one.eml'));
+
+      expect(result.emails).toHaveLength(1);
+      expect(result.emails[0].subject).toBe('One');
+    });
+  });
+
+  describe('parseArchive', () => {
+    it('should auto-detect a ZIP of EML files', async () => {
+      const zip = new JSZip();
+      zip.file('message.eml', createMessage('alice@example.com', 'Zipped'));
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const result = await parseArchive(buffer);
+
+      expect(result.emails).toHaveLength(1);
+      expect(result.emails[0].subject).toBe('Zipped');
+    });
+  });
+});
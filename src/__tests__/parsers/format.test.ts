@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { detectArchiveFormat } from '../../parsers/format';
+
+const mboxContent = `From sender@example.com Mon Jan 15 10:30:00 2024
+From: sender@example.com
+To: recipient@example.com
+Subject: Test
+Date: Mon, 15 Jan 2024 10:30:00 +0000
+
+Body`;
+
+const emlContent = `Return-Path: <sender@example.com>
+From: "Sender" <sender@example.com>
+To: recipient@example.com
+Subject: Folded
+ subject line
+Date: Mon, 15 Jan 2024 10:30:00 +0000
+
+Body`;
+
+describe('detectArchiveFormat', () => {
+  it('should detect OLM archives from the ZIP signature', async () => {
+    const zip = new JSZip();
+    zip.file('com.microsoft.__Messages/message_1.xml', '<email/>');
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    expect(await detectArchiveFormat(buffer)).toBe('olm');
+  });
+
+  it('should detect empty ZIP archives as OLM', async () => {
+    const buffer = await new JSZip().generateAsync({ type: 'arraybuffer' });
+
+    expect(await detectArchiveFormat(buffer)).toBe('olm');
+  });
+
+  it('should detect ZIP archives of .eml files as EML', async () => {
+    const zip = new JSZip();
+    zip.file('Inbox/message-1.eml', emlContent);
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    expect(await detectArchiveFormat(buffer)).toBe('eml');
+  });
+
+  it('should detect PST files from the !BDN signature', async () => {
+    const header = new Uint8Array(512);
+    header.set([0x21, 0x42, 0x44, 0x4e, 0x00, 0x00, 0x00, 0x00, 0x53, 0x4d, 0x17, 0x00]);
+
+    expect(await detectArchiveFormat(header)).toBe('pst');
+  });
+
+  it('should detect MBOX from the leading From line', async () => {
+    expect(await detectArchiveFormat(Buffer.from(mboxContent))).toBe('mbox');
+  });
+
+  it('should ignore a BOM and leading blank lines', async () => {
+    expect(await detectArchiveFormat(Buffer.from('﻿\n\n' + mboxContent))).toBe('mbox');
+  });
+
+  it('should detect single EML messages from RFC 822 headers', async () => {
+    expect(await detectArchiveFormat(Buffer.from(emlContent))).toBe('eml');
+  });
+
+  it('should detect Apple Mail .emlx messages from the byte count line', async () => {
+    expect(await detectArchiveFormat(Buffer.from(`${emlContent.length}\n${emlContent}`))).toBe('eml');
+    expect(await detectArchiveFormat(Buffer.from('12\nnot headers'))).toBeNull();
+  });
+
+  it('should read File and ArrayBuffer inputs', async () => {
+    const file = new File([mboxContent], 'no-extension');
+    const arrayBuffer = new TextEncoder().encode(emlContent).buffer;
+
+    expect(await detectArchiveFormat(file)).toBe('mbox');
+    expect(await detectArchiveFormat(arrayBuffer)).toBe('eml');
+  });
+
+  it('should return null for a truncated compound file', async () => {
+    // The header puts the first directory sector past the end of the file
+    const header = new Uint8Array(512);
+    header.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+    header.set([0x09, 0x00], 0x1e);
+    header.set([0x10, 0x00, 0x00, 0x00], 0x30);
+
+    expect(await detectArchiveFormat(header)).toBeNull();
+    expect(await detectArchiveFormat(header.buffer)).toBeNull();
+    expect(await detectArchiveFormat(new Blob([header]))).toBeNull();
+  });
+
+  it('should return null for unrecognized content', async () => {
+    expect(await detectArchiveFormat(Buffer.from('just some text\nnot an email'))).toBeNull();
+    expect(await detectArchiveFormat(Buffer.from(''))).toBeNull();
+  });
+});
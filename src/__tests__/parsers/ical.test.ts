@@ -0,0 +1,317 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ICalendarParser } from '../../parsers/ical';
+import { detectArchiveFormat } from '../../parsers/format';
+import { ParseAbortedError } from '../../errors';
+import { parseArchive } from '../../index';
+
+// Google Calendar export: IANA TZID with a VTIMEZONE, a weekly series and a changed occurrence
+const googleCalendar = [
+  'BEGIN:VCALENDAR',
+  'PRODID:-//Google Inc//Google Calendar 70.9054//EN',
+  'VERSION:2.0',
+  'CALSCALE:GREGORIAN',
+  'BEGIN:VTIMEZONE',
+  'TZID:America/New_York',
+  'X-LIC-LOCATION:America/New_York',
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:-0500',
+  'TZOFFSETTO:-0400',
+  'TZNAME:EDT',
+  'DTSTART:19700308T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0400',
+  'TZOFFSETTO:-0500',
+  'TZNAME:EST',
+  'DTSTART:19701101T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'DTSTART;TZID=America/New_York:20240108T093000',
+  'DTEND;TZID=America/New_York:20240108T100000',
+  'RRULE:FREQ=WEEKLY;WKST=SU;UNTIL=20240630T035959Z;BYDAY=MO,WE',
+  'EXDATE;TZID=America/New_York:20240115T093000,20240117T093000',
+  'EXDATE;TZID=America/New_York:20240527T093000',
+  'UID:standup-1234@google.com',
+  'ORGANIZER;CN=Alice Smith:mailto:alice@example.com',
+  'ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;CN=Alice Smith;X-NUM-GUESTS=0:',
+  ' mailto:alice@example.com',
+  'ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=OPT-PARTICIPANT;PARTSTAT=TENTATIVE;CN="Bob, Jr.";X-NUM-GUESTS=0:mailto:B',
+  ' ob@Example.com',
+  'ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;X-NUM-GUESTS=0:mailto:carol@examp',
+  ' le.com',
+  'SUMMARY:Standup',
+  'LOCATION:https://meet.google.com/abc-defg-hij',
+  'DESCRIPTION:Daily sync\\, keep it short.\\nAgenda in the doc.',
+  'STATUS:CONFIRMED',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'DESCRIPTION:This is an event reminder',
+  'TRIGGER:-P0DT0H10M0S',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;TZID=America/New_York:20240311T110000',
+  'DTEND;TZID=America/New_York:20240311T113000',
+  'RECURRENCE-ID;TZID=America/New_York:20240311T093000',
+  'UID:standup-1234@google.com',
+  'SUMMARY:Standup (moved)',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+// Outlook export: Windows time zone name, defined only by the file's VTIMEZONE
+const outlookCalendar = [
+  'BEGIN:VCALENDAR',
+  'METHOD:PUBLISH',
+  'PRODID:Microsoft Exchange Server 2010',
+  'VERSION:2.0',
+  'BEGIN:VTIMEZONE',
+  'TZID:W. Europe Standard Time',
+  'BEGIN:STANDARD',
+  'DTSTART:16010101T030000',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=10',
+  'END:STANDARD',
+  'BEGIN:DAYLIGHT',
+  'DTSTART:16010101T020000',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=3',
+  'END:DAYLIGHT',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'UID:040000008200E00074C5B7101A82E008',
+  'SUMMARY;LANGUAGE=de-DE:Quartalsplanung',
+  'DTSTART;TZID=W. Europe Standard Time:20240328T140000',
+  'DTEND;TZID=W. Europe Standard Time:20240328T153000',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:040000008200E00074C5B7101A82E009',
+  'SUMMARY:Jahresabschluss',
+  'DTSTART;TZID=W. Europe Standard Time:20240402T090000',
+  'DURATION:PT2H',
+  'STATUS:CANCELLED',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'TRIGGER;RELATED=END:-PT30M',
+  'END:VALARM',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+describe('ICalendarParser', () => {
+  describe('isICalendarFile', () => {
+    it('should return true for .ics files and the text/calendar MIME type', () => {
+      expect(ICalendarParser.isICalendarFile(new File([], 'basic.ICS'))).toBe(true);
+      expect(ICalendarParser.isICalendarFile(new File([], 'invite', { type: 'text/calendar' }))).toBe(true);
+    });
+
+    it('should return false for other files', () => {
+      expect(ICalendarParser.isICalendarFile(new File([], 'contacts.vcf'))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should read times in the time zone of a Google Calendar export', async () => {
+      const result = await new ICalendarParser().parse(Buffer.from(googleCalendar));
+
+      expect(result.calendarEvents).toHaveLength(2);
+      expect(result.calendarEvents[0]).toMatchObject({
+        title: 'Standup',
+        // EST in January, EDT after the second Sunday of March
+        startDate: new Date('2024-01-08T14:30:00Z'),
+        endDate: new Date('2024-01-08T15:00:00Z'),
+        location: 'https://meet.google.com/abc-defg-hij',
+        description: 'Daily sync, keep it short.\nAgenda in the doc.',
+        isAllDay: false,
+        uid: 'standup-1234@google.com',
+        status: 'confirmed',
+        timeZone: 'America/New_York',
+      });
+      expect(result.calendarEvents[1]).toMatchObject({
+        title: 'Standup (moved)',
+        startDate: new Date('2024-03-11T15:00:00Z'),
+        recurrenceId: new Date('2024-03-11T13:30:00Z'),
+        uid: 'standup-1234@google.com',
+      });
+      expect(result.stats.calendarEventCount).toBe(2);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should read the organizer and attendees with their replies', async () => {
+      const [event] = (await new ICalendarParser().parse(Buffer.from(googleCalendar))).calendarEvents;
+
+      expect(event.organizer).toBe('alice@example.com');
+      expect(event.attendees).toEqual(['alice@example.com', 'bob@example.com', 'carol@example.com']);
+      expect(event.participants).toEqual([
+        { email: 'alice@example.com', name: 'Alice Smith', status: 'accepted', role: 'required' },
+        { email: 'bob@example.com', name: 'Bob, Jr.', status: 'tentative', role: 'optional' },
+        { email: 'carol@example.com', status: 'needs-action', role: 'required' },
+      ]);
+    });
+
+    it('should read the recurrence rule and excluded dates', async () => {
+      const [event] = (await new ICalendarParser().parse(Buffer.from(googleCalendar))).calendarEvents;
+
+      expect(event.recurrence).toEqual({
+        rule: 'FREQ=WEEKLY;WKST=SU;UNTIL=20240630T035959Z;BYDAY=MO,WE',
+        frequency: 'weekly',
+        interval: 1,
+        count: undefined,
+        until: new Date('2024-06-30T03:59:59Z'),
+        byDay: ['MO', 'WE'],
+        byMonthDay: undefined,
+        byMonth: undefined,
+        exceptions: [
+          new Date('2024-01-15T14:30:00Z'),
+          new Date('2024-01-17T14:30:00Z'),
+          new Date('2024-05-27T13:30:00Z'),
+        ],
+      });
+    });
+
+    it('should read VALARM reminders', async () => {
+      const google = (await new ICalendarParser().parse(Buffer.from(googleCalendar))).calendarEvents;
+      const outlook = (await new ICalendarParser().parse(Buffer.from(outlookCalendar))).calendarEvents;
+
+      expect(google[0]).toMatchObject({ reminder: true, reminderMinutes: 10 });
+      expect(google[1]).toMatchObject({ reminder: false, reminderMinutes: undefined });
+      // 30 minutes before the end of a 2 hour event
+      expect(outlook[1]).toMatchObject({ reminder: true, reminderMinutes: -90 });
+    });
+
+    it('should use VTIMEZONE definitions for time zones that are not IANA names', async () => {
+      const result = await new ICalendarParser().parse(Buffer.from(outlookCalendar));
+
+      expect(result.calendarEvents[0]).toMatchObject({
+        title: 'Quartalsplanung',
+        // CET until the last Sunday of March 2024 (the 31st)
+        startDate: new Date('2024-03-28T13:00:00Z'),
+        endDate: new Date('2024-03-28T14:30:00Z'),
+        timeZone: 'W. Europe Standard Time',
+      });
+      expect(result.calendarEvents[1]).toMatchObject({
+        title: 'Jahresabschluss',
+        startDate: new Date('2024-04-02T07:00:00Z'),
+        endDate: new Date('2024-04-02T09:00:00Z'),
+        status: 'cancelled',
+      });
+    });
+
+    it('should use IANA time zones that the file does not define', async () => {
+      const text = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=Europe/Berlin:20240715T100000',
+        'DTEND;TZID=/mozilla.org/20070129_1/Europe/Berlin:20240715T110000',
+        'SUMMARY:Summer',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=Asia/Kolkata:20240115T100000',
+        'SUMMARY:Winter',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const result = await new ICalendarParser().parse(Buffer.from(text));
+
+      expect(result.calendarEvents[0].startDate).toEqual(new Date('2024-07-15T08:00:00Z'));
+      expect(result.calendarEvents[0].endDate).toEqual(new Date('2024-07-15T09:00:00Z'));
+      expect(result.calendarEvents[1].startDate).toEqual(new Date('2024-01-15T04:30:00Z'));
+    });
+
+    it('should read all-day events and floating times as local time', async () => {
+      const text = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20240101',
+        'DTEND;VALUE=DATE:20240103',
+        'SUMMARY:New Year',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=Unknown/Zone:20240105T083000',
+        'SUMMARY:Floating',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n');
+
+      const result = await new ICalendarParser().parse(Buffer.from(text));
+
+      expect(result.calendarEvents[0]).toMatchObject({
+        title: 'New Year',
+        startDate: new Date(2024, 0, 1),
+        endDate: new Date(2024, 0, 3),
+        isAllDay: true,
+      });
+      expect(result.calendarEvents[1]).toMatchObject({
+        startDate: new Date(2024, 0, 5, 8, 30),
+        endDate: new Date(2024, 0, 5, 8, 30),
+        isAllDay: false,
+      });
+    });
+
+    it('should keep the complete events of a truncated file', async () => {
+      const truncated = googleCalendar.slice(0, googleCalendar.indexOf('SUMMARY:Standup (moved)'));
+
+      const result = await new ICalendarParser().parse(Buffer.from(truncated));
+
+      expect(result.calendarEvents.map((event) => event.title)).toEqual(['Standup']);
+      // The time zone still applies
+      expect(result.calendarEvents[0].startDate).toEqual(new Date('2024-01-08T14:30:00Z'));
+    });
+
+    it('should parse several files', async () => {
+      const result = await new ICalendarParser().parse([
+        new File([googleCalendar], 'google.ics'),
+        Buffer.from(outlookCalendar),
+      ]);
+
+      expect(result.calendarEvents).toHaveLength(4);
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        new ICalendarParser().parse(Buffer.from(googleCalendar), { signal: controller.signal })
+      ).rejects.toBeInstanceOf(ParseAbortedError);
+    });
+  });
+
+  describe('parseFile', () => {
+    it('should parse an iCalendar file from disk', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'ical-test-'));
+      try {
+        const filePath = join(dir, 'calendar.ics');
+        writeFileSync(filePath, outlookCalendar);
+
+        const result = await new ICalendarParser().parseFile(filePath);
+
+        expect(result.calendarEvents).toHaveLength(2);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('parseArchive', () => {
+    it('should auto-detect iCalendar files', async () => {
+      const buffer = Buffer.from(googleCalendar);
+
+      expect(await detectArchiveFormat(buffer)).toBe('icalendar');
+      const result = await parseArchive(buffer);
+      expect(result.calendarEvents).toHaveLength(2);
+      expect(result.emails).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MaildirParser } from '../../parsers/maildir';
+import { ParseAbortedError } from '../../errors';
+import type { ParseProgress } from '../../types';
+
+function createMessage(from: string, subject: string): string {
+  return [
+    `From: ${from}`,
+    'To: alice@example.com',
+    `Subject: ${subject}`,
+    'Date: Mon, 15 Jan 2024 10:30:00 +0000',
+    '',
+    `Body of ${subject}`,
+    '',
+  ].join('\n');
+}
+
+function createFolder(path: string): void {
+  for (const subdir of ['cur', 'new', 'tmp']) {
+    mkdirSync(join(path, subdir), { recursive: true });
+  }
+}
+
+describe('MaildirParser', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'maildir-test-'));
+    const maildir = join(root, 'Maildir');
+
+    createFolder(maildir);
+    writeFileSync(join(maildir, 'cur', '1705314600.M1P1.host:2,S'), createMessage('bob@example.com', 'Seen'));
+    writeFileSync(join(maildir, 'cur', '1705314601.M2P1.host:2,FRS'), createMessage('carol@example.com', 'Flagged'));
+    writeFileSync(join(maildir, 'cur', '1705314602.M3P1.host:2,'), createMessage('bob@example.com', 'Unseen'));
+    writeFileSync(join(maildir, 'new', '1705314603.M4P1.host'), createMessage('dave@example.com', 'New'));
+    writeFileSync(join(maildir, 'tmp', '1705314604.M5P1.host'), createMessage('eve@example.com', 'Delivering'));
+
+    createFolder(join(maildir, '.Sent'));
+    writeFileSync(join(maildir, '.Sent', 'cur', '1705314605.M6P1.host:2,PS'), createMessage('alice@example.com', 'Sent'));
+
+    createFolder(join(maildir, '.Drafts'));
+    writeFileSync(join(maildir, '.Drafts', 'cur', '1705314606.M7P1.host:2,DS'), createMessage('alice@example.com', 'Draft'));
+
+    createFolder(join(maildir, '.Work.Projects'));
+    writeFileSync(join(maildir, '.Work.Projects', 'cur', '1705314607.M8P1.host;2,ST'), createMessage('bob@example.com', 'Deleted'));
+
+    mkdirSync(join(root, 'not-a-maildir'));
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('isMaildir', () => {
+    it('should recognize directories with cur/ and new/', async () => {
+      expect(await MaildirParser.isMaildir(join(root, 'Maildir'))).toBe(true);
+      expect(await MaildirParser.isMaildir(join(root, 'not-a-maildir'))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should read cur/ and new/ of every folder but not tmp/', async () => {
+      const parser = new MaildirParser();
+      const result = await parser.parse(join(root, 'Maildir'));
+
+      expect(result.emails.map((email) => email.subject)).toEqual([
+        'Seen',
+        'Flagged',
+        'Unseen',
+        'New',
+        'Draft',
+        'Sent',
+        'Deleted',
+      ]);
+      expect(result.stats.emailCount).toBe(7);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should map folders to folder IDs', async () => {
+      const parser = new MaildirParser();
+      const result = await parser.parse(join(root, 'Maildir'));
+      const folderOf = (subject: string) => result.emails.find((email) => email.subject === subject)?.folderId;
+
+      expect(folderOf('Seen')).toBe('inbox');
+      expect(folderOf('Sent')).toBe('sent');
+      expect(folderOf('Draft')).toBe('drafts');
+      expect(folderOf('Deleted')).toBe('work/projects');
+    });
+
+    it('should list the folders with their roles and email counts', async () => {
+      const result = await new MaildirParser().parse(join(root, 'Maildir'));
+
+      expect(result.folders).toEqual([
+        { id: 'inbox', name: 'Inbox', path: 'Inbox', role: 'inbox', emailCount: 4 },
+        { id: 'drafts', name: 'Drafts', path: 'Drafts', role: 'drafts', emailCount: 1 },
+        { id: 'sent', name: 'Sent', path: 'Sent', role: 'sent', emailCount: 1 },
+        { id: 'work', name: 'Work', path: 'Work', emailCount: 0 },
+        { id: 'work/projects', name: 'Projects', path: 'Work/Projects', parentId: 'work', emailCount: 1 },
+      ]);
+    });
+
+    it('should keep folders with non-Latin names apart', async () => {
+      const maildir = mkdtempSync(join(tmpdir(), 'maildir-intl-'));
+      try {
+        const folders = ['.受信トレイ', '.送信済み', '.Inbox.Проекты', '.Inbox.Личное', '.Work.Q1 Plänе', '.★'];
+        folders.forEach((folder, i) => {
+          createFolder(join(maildir, folder));
+          writeFileSync(join(maildir, folder, 'cur', `170531460${i}.M${i}P1.host:2,S`), createMessage('bob@example.com', folder));
+        });
+
+        const result = await new MaildirParser().parse(maildir);
+        const folderOf = (subject: string) => result.emails.find((email) => email.subject === subject)?.folderId;
+
+        expect(folderOf('.受信トレイ')).toBe('受信トレイ');
+        expect(folderOf('.送信済み')).toBe('送信済み');
+        expect(folderOf('.Inbox.Проекты')).toBe('inbox/проекты');
+        expect(folderOf('.Inbox.Личное')).toBe('inbox/личное');
+        expect(folderOf('.Work.Q1 Plänе')).toBe('work/q1-plänе');
+        expect(folderOf('.★')).toBe('2605');
+        expect(new Set(result.folders.map((folder) => folder.id)).size).toBe(result.folders.length);
+      } finally {
+        rmSync(maildir, { recursive: true, force: true });
+      }
+    });
+
+    it('should map info flags onto email state', async () => {
+      const parser = new MaildirParser();
+      const result = await parser.parse(join(root, 'Maildir'));
+      const find = (subject: string) => result.emails.find((email) => email.subject === subject)!;
+
+      expect(find('Seen')).toMatchObject({ isRead: true, isStarred: false, isReplied: false });
+      expect(find('Flagged')).toMatchObject({ isRead: true, isStarred: true, isReplied: true });
+      expect(find('Unseen')).toMatchObject({ isRead: false, isStarred: false });
+      expect(find('New')).toMatchObject({ isRead: false, isTrashed: false });
+      expect(find('Sent')).toMatchObject({ isRead: true, isForwarded: true });
+      expect(find('Draft')).toMatchObject({ isDraft: true });
+      expect(find('Deleted')).toMatchObject({ isRead: true, isTrashed: true });
+    });
+
+    it('should extract sender contacts', async () => {
+      const parser = new MaildirParser();
+      const result = await parser.parse(join(root, 'Maildir'));
+
+      expect(result.contacts.find((contact) => contact.email === 'bob@example.com')?.emailCount).toBe(3);
+
+      const withoutContacts = await parser.parse(join(root, 'Maildir'), { extractContacts: false });
+      expect(withoutContacts.contacts).toEqual([]);
+    });
+
+    it('should report progress', async () => {
+      const stages: ParseProgress['stage'][] = [];
+      const parser = new MaildirParser();
+      await parser.parse(join(root, 'Maildir'), { onProgress: (p) => stages.push(p.stage) });
+
+      expect(stages[0]).toBe('extracting');
+      expect(stages).toContain('parsing_emails');
+      expect(stages[stages.length - 1]).toBe('complete');
+    });
+
+    it('should reject directories that are not a Maildir', async () => {
+      const parser = new MaildirParser();
+
+      await expect(parser.parse(join(root, 'not-a-maildir'))).rejects.toThrow('Not a Maildir');
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const parser = new MaildirParser();
+
+      await expect(
+        parser.parse(join(root, 'Maildir'), {
+          signal: controller.signal,
+          onProgress: (p) => p.stage === 'parsing_emails' && controller.abort(),
+        })
+      ).rejects.toBeInstanceOf(ParseAbortedError);
+    });
+  });
+});
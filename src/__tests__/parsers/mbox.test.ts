@@ -1,5 +1,11 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
 import { MBOXParser } from '../../parsers/mbox';
+import { ParseAbortedError, ParseError } from '../../errors';
+import type { ArchiveItem, StreamInput } from '../../types';
 
 // Helper to create MBOX content
 function createMboxEmail(options: {
@@ -74,6 +80,11 @@ describe('MBOXParser', () => {
       const file = new File([], 'archive', { type: 'application/mbox' });
       expect(MBOXParser.isMBOXFile(file)).toBe(true);
     });
+
+    it('should return true for the mbox file of an Apple Mail bundle', () => {
+      const file = new File([], 'mbox');
+      expect(MBOXParser.isMBOXFile(file)).toBe(true);
+    });
   });
 
   describe('parseGmailLabels', () => {
@@ -252,6 +263,23 @@ Body`;
       expect(result.emails[0].isStarred).toBe(true);
     });
 
+    it('should put emails in a folder for each Gmail label', async () => {
+      const mboxContent = [
+        createMboxEmail({ subject: 'Receipt', labels: 'Inbox,Important,Receipts,"Work, Projects"' }),
+        createMboxEmail({ subject: 'Old receipt', labels: 'Receipts,Opened' }),
+      ].join('\n\n');
+
+      const result = await new MBOXParser().parse(Buffer.from(mboxContent));
+
+      expect(result.emails[0].folderIds).toEqual(['inbox', 'receipts', 'work-projects']);
+      expect(result.emails[1].folderId).toBe('receipts');
+      expect(result.folders).toEqual([
+        { id: 'inbox', name: 'Inbox', path: 'Inbox', role: 'inbox', emailCount: 1 },
+        { id: 'receipts', name: 'receipts', path: 'receipts', emailCount: 2 },
+        { id: 'work-projects', name: 'work, projects', path: 'work, projects', emailCount: 1 },
+      ]);
+    });
+
     it('should detect unread emails from Gmail labels', async () => {
       const parser = new MBOXParser();
       const mboxContent = createMboxEmail({
@@ -305,6 +333,102 @@ Content-Type: text/html
       expect(result.emails[0].htmlBody).toContain('HTML content');
     });
 
+    it('should extract attachments from multipart emails', async () => {
+      const parser = new MBOXParser();
+      const mboxContent = `From sender@example.com Mon Jan 15 10:30:00 2024
+From: sender@example.com
+To: recipient@example.com
+Subject: Invoice attached
+Date: Mon, 15 Jan 2024 10:30:00 +0000
+Content-Type: multipart/mixed; boundary="outer"
+
+This is a multi-part message in MIME format.
+--outer
+Content-Type: multipart/alternative; boundary="inner"
+
+--inner
+Content-Type: text/plain
+
+See attached invoice.
+--inner
+Content-Type: text/html
+
+<p>See attached invoice.</p>
+--inner--
+--outer
+Content-Type: application/pdf; name="invoice.pdf"
+Content-Disposition: attachment; filename="invoice.pdf"
+Content-Transfer-Encoding: base64
+
+SGVsbG8gV29ybGQ=
+--outer
+Content-Type: image/png
+Content-Disposition: inline
+Content-ID: <logo@example.com>
+Content-Transfer-Encoding: base64
+
+iVBORw0KGgo=
+--outer--`;
+
+      const result = await parser.parse(Buffer.from(mboxContent));
+      const email = result.emails[0];
+
+      expect(email.body).toBe('See attached invoice.');
+      expect(email.htmlBody).toContain('<p>See attached invoice.</p>');
+      expect(email.hasAttachments).toBe(true);
+      expect(email.attachments).toHaveLength(2);
+      expect(email.attachments[0]).toMatchObject({
+        filename: 'invoice.pdf',
+        mimeType: 'application/pdf',
+        size: 11,
+      });
+      expect(email.attachments[0].data).toBeUndefined();
+      expect(email.attachments[1]).toMatchObject({
+        id: 'logo@example.com',
+        filename: 'attachment-2.png',
+        mimeType: 'image/png',
+        size: 8,
+      });
+    });
+
+    it('should include attachment data when includeAttachments is set', async () => {
+      const parser = new MBOXParser();
+      const mboxContent = `From sender@example.com Mon Jan 15 10:30:00 2024
+From: sender@example.com
+To: recipient@example.com
+Subject: Notes
+Date: Mon, 15 Jan 2024 10:30:00 +0000
+Content-Type: multipart/mixed; boundary="b1"
+
+--b1
+Content-Type: text/plain
+
+Body text
+--b1
+Content-Type: text/plain
+Content-Disposition: attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.txt
+Content-Transfer-Encoding: quoted-printable
+
+Hello=20World
+--b1--`;
+
+      const result = await parser.parse(Buffer.from(mboxContent), { includeAttachments: true });
+      const [attachment] = result.emails[0].attachments;
+
+      expect(result.emails[0].body).toBe('Body text');
+      expect(attachment.filename).toBe('résumé.txt');
+      expect(attachment.size).toBe(11);
+      expect(Buffer.from(attachment.data!, 'base64').toString()).toBe('Hello World');
+    });
+
+    it('should report no attachments for plain emails', async () => {
+      const parser = new MBOXParser();
+      const result = await parser.parse(Buffer.from(createMboxEmail({})));
+
+      expect(result.emails[0].attachments).toEqual([]);
+      expect(result.emails[0].hasAttachments).toBe(false);
+    });
+
     it('should generate thread ID from subject', async () => {
       const parser = new MBOXParser();
       const mboxContent = createMboxEmail({
@@ -336,6 +460,67 @@ Body`;
       expect(result.emails[0].recipients).toContain('three@example.com');
     });
 
+    it('should parse CC, BCC and Reply-To with display names', async () => {
+      const parser = new MBOXParser();
+      const mboxContent = `From sender@example.com Mon Jan 15 10:30:00 2024
+From: "Smith, Alice" <alice@example.com>
+To: "Doe, John" <john@example.com>, jane@example.com
+Cc: Team: bob@example.com, "Carol" <carol@example.com>;
+Bcc: undisclosed-recipients:;
+Reply-To: =?UTF-8?Q?Ren=C3=A9?= <rene@example.com>
+Subject: Addresses
+Date: Mon, 15 Jan 2024 10:30:00 +0000
+
+Body`;
+
+      const result = await parser.parse(Buffer.from(mboxContent));
+      const email = result.emails[0];
+
+      expect(email.sender).toBe('alice@example.com');
+      expect(email.senderName).toBe('Smith, Alice');
+      expect(email.fromAddress).toEqual({ name: 'Smith, Alice', address: 'alice@example.com' });
+      expect(email.recipients).toEqual(['john@example.com', 'jane@example.com']);
+      expect(email.toAddresses?.[0]).toEqual({ name: 'Doe, John', address: 'john@example.com' });
+      expect(email.cc).toEqual(['bob@example.com', 'carol@example.com']);
+      expect(email.ccAddresses?.[1]).toEqual({ name: 'Carol', address: 'carol@example.com' });
+      expect(email.bcc).toBeUndefined();
+      expect(email.replyTo).toEqual(['rene@example.com']);
+      expect(email.replyToAddresses?.[0].name).toBe('René');
+    });
+
+    it('should keep all raw headers when includeHeaders is set', async () => {
+      const parser = new MBOXParser();
+      const mboxContent = `From sender@example.com Mon Jan 15 10:30:00 2024
+Received: from mx2.example.com
+  by mx1.example.com
+Received: from client.example.com by mx2.example.com
+From: sender@example.com
+To: recipient@example.com
+Subject: =?UTF-8?B?SGVsbG8=?=
+X-Mailer: TestMailer 1.0
+Date: Mon, 15 Jan 2024 10:30:00 +0000
+
+Body`;
+
+      const withHeaders = await parser.parse(Buffer.from(mboxContent), { includeHeaders: true });
+      const headers = withHeaders.emails[0].headers!;
+
+      expect(headers.map((h) => h.name)).toEqual([
+        'Received',
+        'Received',
+        'From',
+        'To',
+        'Subject',
+        'X-Mailer',
+        'Date',
+      ]);
+      expect(headers[0].value).toBe('from mx2.example.com by mx1.example.com');
+      expect(headers[4].value).toBe('=?UTF-8?B?SGVsbG8=?=');
+
+      const withoutHeaders = await parser.parse(Buffer.from(mboxContent));
+      expect(withoutHeaders.emails[0].headers).toBeUndefined();
+    });
+
     it('should handle RFC 2047 encoded subject', async () => {
       const parser = new MBOXParser();
       const mboxContent = `From sender@example.com Mon Jan 15 10:30:00 2024
@@ -352,6 +537,124 @@ Body`;
       expect(result.emails[0].subject).toBe('Hello World');
     });
 
+    it('should decode 8-bit bodies using the declared charset', async () => {
+      const parser = new MBOXParser();
+      const header = Buffer.from(createMboxEmail({
+        contentType: 'text/plain; charset=iso-8859-1',
+        encoding: '8bit',
+        body: '',
+      }));
+      const buffer = Buffer.concat([header, Buffer.from('Caf\xe9 cr\xe8me', 'latin1')]);
+
+      const result = await parser.parse(buffer);
+
+      expect(result.emails[0].body).toBe('Café crème');
+    });
+
+    it('should decode multipart bodies using each part charset', async () => {
+      const parser = new MBOXParser();
+      const mboxContent = `From sender@example.com Mon Jan 15 10:30:00 2024
+From: =?koi8-r?Q?=F0=D2=C9=D7=C5=D4?= <ivan@example.ru>
+To: recipient@example.com
+Subject: =?Shift_JIS?B?k/qWe4zq?=
+Date: Mon, 15 Jan 2024 10:30:00 +0000
+Content-Type: multipart/alternative; boundary="b1"
+
+--b1
+Content-Type: text/plain; charset="windows-1251"
+Content-Transfer-Encoding: quoted-printable
+
+=CF=F0=E8=E2=E5=F2
+--b1
+Content-Type: text/html; charset=gb2312
+Content-Transfer-Encoding: base64
+
+1tDOxA==
+--b1--`;
+
+      const result = await parser.parse(Buffer.from(mboxContent));
+      const email = result.emails[0];
+
+      expect(email.subject).toBe('日本語');
+      expect(email.senderName).toBe('Привет');
+      expect(email.body).toBe('Привет');
+      expect(email.htmlBody).toBe('中文');
+    });
+
+    it('should decode raw UTF-8 headers and use the fallback charset otherwise', async () => {
+      const parser = new MBOXParser();
+      const utf8 = Buffer.from(createMboxEmail({ subject: 'Grüße' }));
+      const latin1 = Buffer.from(createMboxEmail({ subject: 'Gr\xfc\xdfe' }), 'latin1');
+
+      expect((await parser.parse(utf8)).emails[0].subject).toBe('Grüße');
+      expect((await parser.parse(latin1)).emails[0].subject).toBe('Grüße');
+
+      const koi8 = Buffer.from(createMboxEmail({ subject: '\xf0\xd2\xc9\xd7\xc5\xd4' }), 'latin1');
+      expect((await parser.parse(koi8, { fallbackCharset: 'koi8-r' })).emails[0].subject).toBe('Привет');
+    });
+
+    it('should reject with ParseAbortedError when already aborted', async () => {
+      const parser = new MBOXParser();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        parser.parse(Buffer.from(createMboxEmail({})), { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('should report skipped messages with their byte offset', async () => {
+      const parser = new MBOXParser();
+      const first = createMboxEmail({ subject: 'Kept' });
+      const second = `From someone Mon Jan 15 10:30:00 2024
+From: not-an-address
+Subject: Dropped
+Message-ID: <dropped@example.com>
+
+Body`;
+      const onWarning = vi.fn();
+
+      const result = await parser.parse(Buffer.from(`${first}\r\n${second}`), { onWarning });
+
+      expect(result.emails.map((e) => e.subject)).toEqual(['Kept']);
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          severity: 'warning',
+          code: 'message_skipped',
+          location: { offset: first.length + 2 },
+          messageId: '<dropped@example.com>',
+        }),
+      ]);
+      expect(onWarning).toHaveBeenCalledWith(result.diagnostics[0]);
+    });
+
+    it('should report messages that fail to parse, and throw in strict mode', async () => {
+      const parser = new MBOXParser();
+      // Each part opens another multipart body, far deeper than any real message
+      let body = 'Hi';
+      for (let level = 150; level > 0; level--) {
+        body = `--b${level}-\nContent-Type: multipart/mixed; boundary="b${level + 1}-"\n\n${body}`;
+      }
+      const mbox = createMboxEmail({
+        subject: 'Broken',
+        contentType: 'multipart/mixed; boundary="b1-"',
+        body,
+      });
+
+      const result = await parser.parse(Buffer.from(mbox));
+      expect(result.emails).toEqual([]);
+      expect(result.diagnostics[0]).toMatchObject({
+        severity: 'error',
+        code: 'message_parse_failed',
+        message: 'Failed to parse message: Multipart body is nested more than 100 levels deep',
+        location: { offset: 0 },
+      });
+
+      const strict = parser.parse(Buffer.from(mbox), { strict: true });
+      await expect(strict).rejects.toBeInstanceOf(ParseError);
+      await expect(strict).rejects.toMatchObject({ diagnostic: { code: 'message_parse_failed' } });
+    });
+
     it('should handle empty mbox', async () => {
       const parser = new MBOXParser();
       const buffer = Buffer.from('');
@@ -374,5 +677,521 @@ Body`;
       expect(result.emails[0].subject).toBe('Valid Email');
     });
   });
-});
 
+  describe('stream', () => {
+    const mboxContent = [
+      createMboxEmail({ subject: 'First', from: 'alice@example.com' }),
+      createMboxEmail({ subject: 'Second', from: 'bob@example.com' }),
+      createMboxEmail({ subject: 'Third', from: 'alice@example.com' }),
+    ].join('\n\n');
+
+    async function collect(input: StreamInput): Promise<ArchiveItem[]> {
+      const items: ArchiveItem[] = [];
+      for await (const item of new MBOXParser().stream(input)) {
+        items.push(item);
+      }
+      return items;
+    }
+
+    function subjects(items: ArchiveItem[]): string[] {
+      return items.flatMap((item) => (item.type === 'email' ? [item.email.subject] : []));
+    }
+
+    it('should yield emails then sender contacts from a Buffer', async () => {
+      const items = await collect(Buffer.from(mboxContent));
+
+      expect(subjects(items)).toEqual(['First', 'Second', 'Third']);
+      const contacts = items.flatMap((item) => (item.type === 'contact' ? [item.contact] : []));
+      expect(contacts.map((c) => c.email).sort()).toEqual(['alice@example.com', 'bob@example.com']);
+      expect(contacts.find((c) => c.email === 'alice@example.com')!.emailCount).toBe(2);
+    });
+
+    it('should stream from a file path', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'mbox-stream-'));
+      try {
+        const filePath = join(dir, 'archive.mbox');
+        writeFileSync(filePath, mboxContent);
+
+        expect(subjects(await collect(filePath))).toEqual(['First', 'Second', 'Third']);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should stream from a ReadableStream split mid-message', async () => {
+      const bytes = Buffer.from(mboxContent);
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let offset = 0; offset < bytes.length; offset += 7) {
+            controller.enqueue(bytes.subarray(offset, offset + 7));
+          }
+          controller.close();
+        },
+      });
+
+      expect(subjects(await collect(stream))).toEqual(['First', 'Second', 'Third']);
+    });
+
+    it('should stream from a Node.js Readable', async () => {
+      const readable = Readable.from([
+        Buffer.from(mboxContent.slice(0, 100)),
+        Buffer.from(mboxContent.slice(100)),
+      ]);
+
+      expect(subjects(await collect(readable))).toEqual(['First', 'Second', 'Third']);
+    });
+
+    it('should stop reading when the consumer breaks early', async () => {
+      let pulled = 0;
+      const parts = mboxContent.split(/(?=^From )/m);
+      async function* source() {
+        for (const part of parts) {
+          pulled++;
+          yield Buffer.from(part);
+        }
+      }
+
+      for await (const item of new MBOXParser().stream(source())) {
+        expect(item.type).toBe('email');
+        break;
+      }
+
+      expect(pulled).toBeLessThan(parts.length);
+    });
+
+    it('should reject with ParseAbortedError and cancel the source when aborted', async () => {
+      const controller = new AbortController();
+      const cancel = vi.fn();
+      const bytes = Buffer.from(mboxContent);
+      const stream = new ReadableStream<Uint8Array>({
+        pull(streamController) {
+          // Never ends on its own, like a huge file
+          streamController.enqueue(bytes);
+        },
+        cancel,
+      });
+
+      const items: ArchiveItem[] = [];
+      const consume = async () => {
+        for await (const item of new MBOXParser().stream(stream, { signal: controller.signal })) {
+          items.push(item);
+          if (items.length === 2) controller.abort();
+        }
+      };
+
+      await expect(consume()).rejects.toBeInstanceOf(ParseAbortedError);
+      expect(items.length).toBe(2);
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it('should skip contacts when extractContacts is false', async () => {
+      const items: ArchiveItem[] = [];
+      for await (const item of new MBOXParser().stream(Buffer.from(mboxContent), { extractContacts: false })) {
+        items.push(item);
+      }
+
+      expect(items.map((item) => item.type)).toEqual(['email', 'email', 'email', 'folder']);
+    });
+  });
+
+  describe('mbox variants', () => {
+    function message(subject: string, body: string[], contentLength = true): string {
+      const text = body.join('\n') + '\n';
+      return [
+        'From alice@example.com Mon Jan 15 10:30:00 2024',
+        'From: alice@example.com',
+        `Subject: ${subject}`,
+        'Date: Mon, 15 Jan 2024 10:30:00 +0000',
+        ...(contentLength ? [`Content-Length: ${Buffer.byteLength(text)}`] : []),
+        '',
+        text,
+      ].join('\n');
+    }
+
+    it('should unquote mboxrd From lines by default', async () => {
+      const mbox = message('Quoted', ['>From the start', '>>From a reply', 'Plain'], false);
+      const result = await new MBOXParser().parse(Buffer.from(mbox));
+
+      expect(result.emails[0].body.trim()).toBe('From the start\n>From a reply\nPlain');
+    });
+
+    it('should only unquote one level for mboxo', async () => {
+      const mbox = message('Quoted', ['>From the start', '>>From a reply'], false);
+      const result = await new MBOXParser().parse(Buffer.from(mbox), { variant: 'mboxo' });
+
+      expect(result.emails[0].body.trim()).toBe('From the start\n>>From a reply');
+    });
+
+    it('should use Content-Length to keep From lines inside mboxcl2 bodies', async () => {
+      const mbox =
+        message('First', ['From bob@example.com Tue Jan 16 09:00:00 2024', '>From quoted']) +
+        '\n' +
+        message('Second', ['Hello']);
+      const result = await new MBOXParser().parse(Buffer.from(mbox));
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['First', 'Second']);
+      expect(result.emails[0].body.trim()).toBe('From bob@example.com Tue Jan 16 09:00:00 2024\n>From quoted');
+    });
+
+    it('should unquote mboxcl bodies', async () => {
+      const mbox = message('Counted', ['>From the start']);
+      const result = await new MBOXParser().parse(Buffer.from(mbox));
+
+      expect(result.emails[0].body.trim()).toBe('From the start');
+    });
+
+    it('should fall back to From lines when Content-Length is wrong', async () => {
+      const first = message('First', ['Hello']).replace(/Content-Length: \d+/, 'Content-Length: 3');
+      const result = await new MBOXParser().parse(Buffer.from(first + '\n' + message('Second', ['Hi'])));
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['First', 'Second']);
+    });
+
+    it('should ignore Content-Length for mboxrd', async () => {
+      const mbox = message('First', [
+        'From bob@example.com Tue Jan 16 09:00:00 2024',
+        'From: bob@example.com',
+        'Subject: Inner',
+        '',
+        'Hi',
+      ]);
+      const result = await new MBOXParser().parse(Buffer.from(mbox), { variant: 'mboxrd' });
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['First', 'Inner']);
+    });
+
+    it('should not split on From lines without a date', async () => {
+      const mbox = message('Prose', ['From now on we meet on Mondays.', 'From what I hear, it works.'], false);
+      const result = await new MBOXParser().parse(Buffer.from(mbox));
+
+      expect(result.emails).toHaveLength(1);
+      expect(result.emails[0].body).toContain('From now on');
+    });
+
+    it('should keep Content-Length delimited messages whole across stream chunks', async () => {
+      const mbox =
+        message('First', ['From bob@example.com Tue Jan 16 09:00:00 2024', 'Body']) + '\n' + message('Second', ['Hi']);
+      const bytes = Buffer.from(mbox);
+      async function* source() {
+        for (let offset = 0; offset < bytes.length; offset += 11) {
+          yield bytes.subarray(offset, offset + 11);
+        }
+      }
+
+      const subjects: string[] = [];
+      for await (const item of new MBOXParser().stream(source(), { extractContacts: false })) {
+        if (item.type === 'email') subjects.push(item.email.subject);
+      }
+
+      expect(subjects).toEqual(['First', 'Second']);
+    });
+  });
+
+  describe('Apple Mail bundles', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      // Export/Inbox.mbox/{mbox,table_of_contents}, with Projects nested inside Inbox
+      dir = mkdtempSync(join(tmpdir(), 'mbox-bundle-'));
+      const inbox = join(dir, 'Inbox.mbox');
+      const projects = join(inbox, 'Projects.mbox');
+      const sent = join(dir, 'Sent.mbox');
+      for (const bundle of [inbox, projects, sent]) {
+        mkdirSync(bundle);
+        writeFileSync(join(bundle, 'table_of_contents'), Buffer.from([0, 1, 2, 3]));
+      }
+      writeFileSync(join(inbox, 'mbox'), createMboxEmail({ subject: 'Inbox' }));
+      writeFileSync(join(projects, 'mbox'), createMboxEmail({ subject: 'Projects' }));
+      writeFileSync(join(sent, 'mbox'), createMboxEmail({ subject: 'Sent', from: 'me@example.com' }));
+      mkdirSync(join(dir, 'Empty'));
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should parse a single bundle', async () => {
+      const result = await new MBOXParser().parseFile(join(dir, 'Sent.mbox'));
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['Sent']);
+    });
+
+    it('should parse every bundle in an export folder, including nested ones', async () => {
+      const result = await new MBOXParser().parseFile(dir);
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['Inbox', 'Projects', 'Sent']);
+      expect(result.contacts.map((contact) => contact.email).sort()).toEqual(['me@example.com', 'sender@example.com']);
+    });
+
+    it('should put emails in the folder of their bundle', async () => {
+      const result = await new MBOXParser().parseFile(dir);
+
+      expect(result.emails.map((email) => email.folderId)).toEqual(['inbox', 'inbox/projects', 'sent']);
+      expect(result.folders.map(({ id, path, parentId, role }) => ({ id, path, parentId, role }))).toEqual([
+        { id: 'inbox', path: 'Inbox', role: 'inbox' },
+        { id: 'inbox/projects', path: 'Inbox/Projects', parentId: 'inbox' },
+        { id: 'sent', path: 'Sent', role: 'sent' },
+      ]);
+    });
+
+    it('should stream from a bundle path', async () => {
+      const subjects: string[] = [];
+      for await (const item of new MBOXParser().stream(join(dir, 'Inbox.mbox'))) {
+        if (item.type === 'email') subjects.push(item.email.subject);
+      }
+
+      expect(subjects).toEqual(['Inbox', 'Projects']);
+    });
+
+    it('should reject a directory without bundles', async () => {
+      await expect(new MBOXParser().parseFile(join(dir, 'Empty'))).rejects.toThrow('Not an MBOX bundle');
+    });
+
+    it('should recognize bundles and export folders', async () => {
+      expect(await MBOXParser.isMBOXBundle(join(dir, 'Inbox.mbox'))).toBe(true);
+      expect(await MBOXParser.isMBOXBundle(dir)).toBe(true);
+      expect(await MBOXParser.isMBOXBundle(join(dir, 'Empty'))).toBe(false);
+    });
+  });
+
+  describe('Thunderbird mail folders', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      // Local Folders/{Inbox,Inbox.msf,Inbox.sbd/Receipts,Junk,...}
+      dir = mkdtempSync(join(tmpdir(), 'mbox-thunderbird-'));
+      mkdirSync(join(dir, 'Inbox.sbd'));
+      const mailboxes: Record<string, string> = {
+        Inbox: 'Hello',
+        'Inbox.sbd/Receipts': 'Your order',
+        Junk: 'Win a prize',
+        'Unsent Messages': 'Draft reply',
+      };
+      for (const [mailbox, subject] of Object.entries(mailboxes)) {
+        writeFileSync(join(dir, mailbox), createMboxEmail({ subject }));
+        writeFileSync(join(dir, `${mailbox}.msf`), '// <!-- <mdb:mork:z v="1.4"/> -->');
+      }
+      writeFileSync(join(dir, 'msgFilterRules.dat'), 'version="9"');
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should map each mailbox file to a folder', async () => {
+      const result = await new MBOXParser().parseFile(dir);
+
+      expect(result.emails.map((email) => [email.subject, email.folderId])).toEqual([
+        ['Hello', 'inbox'],
+        ['Your order', 'inbox/receipts'],
+        ['Win a prize', 'spam'],
+        ['Draft reply', 'outbox'],
+      ]);
+      expect(result.folders.find((folder) => folder.id === 'inbox/receipts')).toMatchObject({
+        name: 'Receipts',
+        parentId: 'inbox',
+        emailCount: 1,
+      });
+    });
+
+    it('should name the folder of a single mailbox file', async () => {
+      const result = await new MBOXParser().parseFile(join(dir, 'Junk'));
+
+      expect(result.emails[0].folderId).toBe('spam');
+      expect(result.folders).toEqual([{ id: 'spam', name: 'Junk', path: 'Junk', role: 'spam', emailCount: 1 }]);
+    });
+
+    it('should recognize Thunderbird mail folders', async () => {
+      expect(await MBOXParser.isMBOXBundle(dir)).toBe(true);
+    });
+  });
+
+  describe('calendar invitations', () => {
+    const calendar = (method: string, ...event: string[]) =>
+      [
+        'BEGIN:VCALENDAR',
+        'PRODID:-//Google Inc//Google Calendar 70.9054//EN',
+        'VERSION:2.0',
+        `METHOD:${method}`,
+        'BEGIN:VEVENT',
+        ...event,
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+    const planning = (sequence: number, start: string) => [
+      'UID:planning@google.com',
+      `SEQUENCE:${sequence}`,
+      `DTSTART:${start}`,
+      'DURATION:PT1H',
+      'SUMMARY:Planning',
+      'ORGANIZER;CN=Alice:mailto:alice@example.com',
+      'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;CN=Bob:mailto:bob@example.com',
+      'ATTENDEE;ROLE=OPT-PARTICIPANT;PARTSTAT=NEEDS-ACTION;CN=Carol:mailto:carol@example.com',
+    ];
+
+    // Gmail sends the invitation inline and as an invite.ics attachment
+    const gmailInvite = (messageId: string, date: string, ics: string) =>
+      [
+        `From alice@example.com ${date}`,
+        'From: Alice <alice@example.com>',
+        'To: bob@example.com, carol@example.com',
+        'Subject: Invitation: Planning',
+        `Date: ${date}`,
+        `Message-ID: <${messageId}>`,
+        'MIME-Version: 1.0',
+        'Content-Type: multipart/mixed; boundary="mixed"',
+        '',
+        '--mixed',
+        'Content-Type: multipart/alternative; boundary="alt"',
+        '',
+        '--alt',
+        'Content-Type: text/plain; charset="UTF-8"',
+        '',
+        'You have been invited to Planning',
+        '--alt',
+        'Content-Type: text/calendar; charset="UTF-8"; method=REQUEST',
+        'Content-Transfer-Encoding: 7bit',
+        '',
+        ics,
+        '--alt--',
+        '--mixed',
+        'Content-Type: application/ics; name="invite.ics"',
+        'Content-Disposition: attachment; filename="invite.ics"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from(ics).toString('base64'),
+        '--mixed--',
+        '',
+      ].join('\n');
+
+    const singlePart = (from: string, messageId: string, date: string, ics: string) =>
+      [
+        `From ${from} ${date}`,
+        `From: ${from}`,
+        'To: alice@example.com',
+        'Subject: Calendar update',
+        `Date: ${date}`,
+        `Message-ID: <${messageId}>`,
+        'Content-Type: text/calendar; charset=UTF-8; method=REPLY',
+        '',
+        ics,
+        '',
+      ].join('\n');
+
+    // Read out of order: the update comes before the original invitation
+    const mbox = [
+      gmailInvite('update@example.com', 'Wed, 10 Jan 2024 09:00:00 +0000', calendar('REQUEST', ...planning(1, '20240116T150000Z'))),
+      gmailInvite('invite@example.com', 'Mon, 08 Jan 2024 09:00:00 +0000', calendar('REQUEST', ...planning(0, '20240115T150000Z'))),
+      singlePart(
+        'bob@example.com',
+        'reply@example.com',
+        'Thu, 11 Jan 2024 09:00:00 +0000',
+        calendar(
+          'REPLY',
+          'UID:planning@google.com',
+          'SEQUENCE:1',
+          'DTSTART:20240116T150000Z',
+          'ATTENDEE;PARTSTAT=ACCEPTED;CN=Bob:mailto:bob@example.com'
+        )
+      ),
+      singlePart(
+        'alice@example.com',
+        'series@example.com',
+        'Fri, 12 Jan 2024 09:00:00 +0000',
+        calendar(
+          'REQUEST',
+          'UID:weekly@google.com',
+          'DTSTART:20240115T100000Z',
+          'DTEND:20240115T103000Z',
+          'RRULE:FREQ=WEEKLY',
+          'SUMMARY:Weekly'
+        )
+      ),
+      singlePart(
+        'alice@example.com',
+        'cancel-occurrence@example.com',
+        'Sat, 13 Jan 2024 09:00:00 +0000',
+        calendar(
+          'CANCEL',
+          'UID:weekly@google.com',
+          'RECURRENCE-ID:20240122T100000Z',
+          'DTSTART:20240122T100000Z',
+          'SEQUENCE:1',
+          'SUMMARY:Weekly',
+          'STATUS:CANCELLED'
+        )
+      ),
+      singlePart(
+        'alice@example.com',
+        'lunch@example.com',
+        'Sat, 13 Jan 2024 10:00:00 +0000',
+        calendar('REQUEST', 'UID:lunch@google.com', 'DTSTART:20240119T120000Z', 'SUMMARY:Lunch')
+      ),
+      singlePart(
+        'alice@example.com',
+        'cancel-lunch@example.com',
+        'Sun, 14 Jan 2024 10:00:00 +0000',
+        calendar('CANCEL', 'UID:lunch@google.com', 'SEQUENCE:1', 'DTSTART:20240119T120000Z', 'SUMMARY:Lunch')
+      ),
+    ].join('');
+
+    it('should attach the invitation to its email once, even when sent inline and attached', async () => {
+      const result = await new MBOXParser().parse(Buffer.from(mbox));
+      const email = result.emails.find((e) => e.messageId === '<invite@example.com>')!;
+
+      expect(email.invite?.method).toBe('request');
+      expect(email.invite?.events).toHaveLength(1);
+      expect(email.invite?.events[0]).toMatchObject({ uid: 'planning@google.com', sequence: 0 });
+      expect(email.attachments.map((attachment) => attachment.filename)).toEqual(['invite.ics']);
+      expect(email.body).toBe('You have been invited to Planning');
+    });
+
+    it('should apply updates and replies by UID, whatever the email order', async () => {
+      const result = await new MBOXParser().parse(Buffer.from(mbox));
+      const planning = result.calendarEvents.find((event) => event.uid === 'planning@google.com');
+
+      expect(planning).toMatchObject({
+        title: 'Planning',
+        startDate: new Date('2024-01-16T15:00:00Z'),
+        endDate: new Date('2024-01-16T16:00:00Z'),
+        sequence: 1,
+        organizer: 'alice@example.com',
+        messageId: '<update@example.com>',
+      });
+      expect(planning?.status).toBeUndefined();
+      expect(planning?.participants?.map((participant) => [participant.email, participant.status])).toEqual([
+        ['bob@example.com', 'accepted'],
+        ['carol@example.com', 'needs-action'],
+      ]);
+    });
+
+    it('should mark cancelled meetings and remove cancelled occurrences from their series', async () => {
+      const result = await new MBOXParser().parse(Buffer.from(mbox));
+      const byUid = (uid: string) => result.calendarEvents.filter((event) => event.uid === uid);
+
+      expect(byUid('lunch@google.com')).toEqual([
+        expect.objectContaining({ title: 'Lunch', status: 'cancelled', messageId: '<cancel-lunch@example.com>' }),
+      ]);
+
+      const [series, occurrence] = byUid('weekly@google.com');
+      expect(series.recurrence?.exceptions).toEqual([new Date('2024-01-22T10:00:00Z')]);
+      expect(series.status).toBeUndefined();
+      expect(occurrence).toMatchObject({ recurrenceId: new Date('2024-01-22T10:00:00Z'), status: 'cancelled' });
+
+      expect(result.calendarEvents).toHaveLength(4);
+      expect(result.stats.calendarEventCount).toBe(4);
+    });
+
+    it('should stream the calendar events after the emails and contacts', async () => {
+      const items: ArchiveItem[] = [];
+      for await (const item of new MBOXParser().stream(Buffer.from(mbox))) {
+        items.push(item);
+      }
+
+      const types = items.map((item) => item.type);
+      expect(types.filter((type) => type === 'calendarEvent')).toHaveLength(4);
+      expect(types.indexOf('calendarEvent')).toBeGreaterThan(types.lastIndexOf('contact'));
+    });
+  });
+});
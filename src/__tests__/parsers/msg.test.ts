@@ -0,0 +1,542 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MSGParser } from '../../parsers/msg';
+import { detectArchiveFormat } from '../../parsers/format';
+import { parseArchive } from '../../index';
+
+// ----------------------------------------------------------------------------
+// Minimal compound file writer: 512-byte sectors, streams under 4096 bytes in the mini stream
+// ----------------------------------------------------------------------------
+
+interface StreamNode {
+  name: string;
+  data: Uint8Array;
+}
+
+interface StorageNode {
+  name: string;
+  children: Array<StreamNode | StorageNode>;
+}
+
+const SECTOR = 512;
+const MINI_SECTOR = 64;
+const END_OF_CHAIN = 0xfffffffe;
+const FAT_SECTOR = 0xfffffffd;
+const NO_STREAM = 0xffffffff;
+
+function buildCompoundFile(root: StorageNode): Uint8Array<ArrayBuffer> {
+  // Flatten the tree; siblings are chained through their right pointers
+  const entries: Array<{ node: StreamNode | StorageNode; type: number; right: number; child: number }> = [];
+  const add = (node: StreamNode | StorageNode, type: number): number => {
+    const index = entries.length;
+    entries.push({ node, type, right: NO_STREAM, child: NO_STREAM });
+    if ('children' in node) {
+      const children = node.children.map((child) => add(child, 'children' in child ? 1 : 2));
+      entries[index].child = children[0] ?? NO_STREAM;
+      children.forEach((child, i) => (entries[child].right = children[i + 1] ?? NO_STREAM));
+    }
+    return index;
+  };
+  add(root, 5);
+
+  // Small streams go into the mini stream, the rest into regular sectors
+  const miniChunks: Buffer[] = [];
+  const miniFat: number[] = [];
+  const bigStreams: Array<{ entry: number; data: Uint8Array }> = [];
+  const starts = new Map<number, number>();
+  entries.forEach(({ node, type }, index) => {
+    if (type !== 2 || !('data' in node) || node.data.length === 0) return;
+    if (node.data.length >= 4096) {
+      bigStreams.push({ entry: index, data: node.data });
+      return;
+    }
+    const count = Math.ceil(node.data.length / MINI_SECTOR);
+    starts.set(index, miniFat.length);
+    for (let i = 0; i < count; i++) miniFat.push(i === count - 1 ? END_OF_CHAIN : miniFat.length + 1);
+    const padded = Buffer.alloc(count * MINI_SECTOR);
+    padded.set(node.data);
+    miniChunks.push(padded);
+  });
+  const miniStream = Buffer.concat(miniChunks);
+
+  const sectorCount = (bytes: number) => Math.ceil(bytes / SECTOR);
+  const dirSectors = sectorCount(entries.length * 128);
+  const miniFatSectors = sectorCount(miniFat.length * 4);
+  const miniStreamSectors = sectorCount(miniStream.length);
+  const bigSectors = bigStreams.reduce((sum, { data }) => sum + sectorCount(data.length), 0);
+  const contentSectors = dirSectors + miniFatSectors + miniStreamSectors + bigSectors;
+  let fatSectors = 1;
+  while (fatSectors * (SECTOR / 4) < fatSectors + contentSectors) fatSectors++;
+
+  const fat: number[] = [];
+  const chain = (count: number): number => {
+    if (count === 0) return END_OF_CHAIN;
+    const start = fat.length;
+    for (let i = 0; i < count; i++) fat.push(i === count - 1 ? END_OF_CHAIN : fat.length + 1);
+    return start;
+  };
+  for (let i = 0; i < fatSectors; i++) fat.push(FAT_SECTOR);
+  const dirStart = chain(dirSectors);
+  const miniFatStart = chain(miniFatSectors);
+  const miniStreamStart = chain(miniStreamSectors);
+  for (const { entry, data } of bigStreams) starts.set(entry, chain(sectorCount(data.length)));
+
+  const directory = Buffer.alloc(dirSectors * SECTOR);
+  entries.forEach(({ node, type, right, child }, i) => {
+    const offset = i * 128;
+    const name = Buffer.from(node.name + '\0', 'utf16le');
+    directory.set(name, offset);
+    directory.writeUInt16LE(name.length, offset + 0x40);
+    directory[offset + 0x42] = type;
+    directory[offset + 0x43] = 1;
+    directory.writeUInt32LE(NO_STREAM, offset + 0x44);
+    directory.writeUInt32LE(right, offset + 0x48);
+    directory.writeUInt32LE(child, offset + 0x4c);
+    if (type === 5) {
+      directory.writeUInt32LE(miniStream.length > 0 ? miniStreamStart : END_OF_CHAIN, offset + 0x74);
+      directory.writeUInt32LE(miniStream.length, offset + 0x78);
+    } else if (type === 2) {
+      const size = (node as StreamNode).data.length;
+      directory.writeUInt32LE(size > 0 ? starts.get(i)! : END_OF_CHAIN, offset + 0x74);
+      directory.writeUInt32LE(size, offset + 0x78);
+    }
+  });
+
+  const header = Buffer.alloc(SECTOR);
+  header.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+  header.writeUInt16LE(0x3e, 0x18);
+  header.writeUInt16LE(3, 0x1a);
+  header.writeUInt16LE(0xfffe, 0x1c);
+  header.writeUInt16LE(9, 0x1e);
+  header.writeUInt16LE(6, 0x20);
+  header.writeUInt32LE(fatSectors, 0x2c);
+  header.writeUInt32LE(dirStart, 0x30);
+  header.writeUInt32LE(4096, 0x38);
+  header.writeUInt32LE(miniFatStart, 0x3c);
+  header.writeUInt32LE(miniFatSectors, 0x40);
+  header.writeUInt32LE(END_OF_CHAIN, 0x44);
+  for (let i = 0; i < 109; i++) header.writeUInt32LE(i < fatSectors ? i : NO_STREAM, 0x4c + i * 4);
+
+  const fatBytes = Buffer.alloc(fatSectors * SECTOR, 0xff);
+  fat.forEach((value, i) => fatBytes.writeUInt32LE(value, i * 4));
+  const miniFatBytes = Buffer.alloc(miniFatSectors * SECTOR, 0xff);
+  miniFat.forEach((value, i) => miniFatBytes.writeUInt32LE(value, i * 4));
+  const pad = (data: Uint8Array) => {
+    const padded = Buffer.alloc(sectorCount(data.length) * SECTOR);
+    padded.set(data);
+    return padded;
+  };
+
+  return new Uint8Array(
+    Buffer.concat([
+      header,
+      fatBytes,
+      directory,
+      miniFatBytes,
+      pad(miniStream),
+      ...bigStreams.map(({ data }) => pad(data)),
+    ])
+  );
+}
+
+// ----------------------------------------------------------------------------
+// MSG structure
+// ----------------------------------------------------------------------------
+
+const Type = { Integer32: 0x03, Boolean: 0x0b, String8: 0x1e, Unicode: 0x1f, Time: 0x40, Binary: 0x102 };
+
+type Value = number | boolean | string | Date | Uint8Array;
+type Props = Array<[id: number, type: number, value: Value]>;
+
+const tagName = (id: number, type: number, lowercase = false) => {
+  const hex = (((id << 16) | type) >>> 0).toString(16).padStart(8, '0');
+  return `__substg1.0_${lowercase ? hex : hex.toUpperCase()}`;
+};
+
+/**
+ * Property stream plus one stream per variable-size value
+ * @param headerSize - 32 for a message, 24 for an embedded message, 8 for recipients and attachments
+ */
+function properties(props: Props, headerSize: number, lowercase = false): StreamNode[] {
+  const stream = Buffer.alloc(headerSize + props.length * 16);
+  const streams: StreamNode[] = [];
+
+  props.forEach(([id, type, value], i) => {
+    const offset = headerSize + i * 16;
+    stream.writeUInt16LE(type, offset);
+    stream.writeUInt16LE(id, offset + 2);
+    stream.writeUInt32LE(6, offset + 4);
+
+    if (type === Type.Integer32 || type === Type.Boolean) {
+      stream.writeInt32LE(Number(value), offset + 8);
+    } else if (type === Type.Time) {
+      stream.writeBigUInt64LE(BigInt((value as Date).getTime() + 11644473600000) * 10000n, offset + 8);
+    } else {
+      const data =
+        value instanceof Uint8Array
+          ? value
+          : Buffer.from(`${value}\0`, type === Type.Unicode ? 'utf16le' : 'latin1');
+      stream.writeUInt32LE(data.length, offset + 8);
+      streams.push({ name: tagName(id, type, lowercase), data });
+    }
+  });
+
+  return [{ name: '__properties_version1.0', data: stream }, ...streams];
+}
+
+function recipient(index: number, type: number, name: string, address: string): StorageNode {
+  return {
+    name: `__recip_version1.0_#${index.toString(16).toUpperCase().padStart(8, '0')}`,
+    children: properties(
+      [
+        [Tag.RecipientType, Type.Integer32, type],
+        [Tag.DisplayName, Type.Unicode, name],
+        [Tag.AddressType, Type.Unicode, address.startsWith('/') ? 'EX' : 'SMTP'],
+        [Tag.EmailAddress, Type.Unicode, address],
+      ],
+      8
+    ),
+  };
+}
+
+function attachment(index: number, props: Props, embedded?: StorageNode): StorageNode {
+  return {
+    name: `__attach_version1.0_#${index.toString(16).toUpperCase().padStart(8, '0')}`,
+    children: [...properties(props, 8), ...(embedded ? [embedded] : [])],
+  };
+}
+
+function message(props: Props, children: StorageNode[] = [], lowercase = false): Uint8Array<ArrayBuffer> {
+  return buildCompoundFile({
+    name: 'Root Entry',
+    children: [...properties(props, 32, lowercase), ...children],
+  });
+}
+
+const Tag = {
+  MessageClass: 0x001a,
+  Subject: 0x0037,
+  ClientSubmitTime: 0x0039,
+  TransportMessageHeaders: 0x007d,
+  RecipientType: 0x0c15,
+  SenderName: 0x0c1a,
+  SenderAddressType: 0x0c1e,
+  SenderEmailAddress: 0x0c1f,
+  MessageFlags: 0x0e07,
+  AttachSize: 0x0e20,
+  Body: 0x1000,
+  RtfCompressed: 0x1009,
+  Html: 0x1013,
+  InternetMessageId: 0x1035,
+  LastVerbExecuted: 0x1081,
+  FlagStatus: 0x1090,
+  DisplayName: 0x3001,
+  AddressType: 0x3002,
+  EmailAddress: 0x3003,
+  AttachDataBinary: 0x3701,
+  AttachMethod: 0x3705,
+  AttachLongFilename: 0x3707,
+  AttachMimeTag: 0x370e,
+  BusinessTelephoneNumber: 0x3a08,
+  CompanyName: 0x3a16,
+  Title: 0x3a17,
+  MobileTelephoneNumber: 0x3a1c,
+  InternetCodepage: 0x3fde,
+  SenderSmtpAddress: 0x5d01,
+};
+
+/** Example compressed RTF from MS-OXRTFCP 3.1.1 */
+const COMPRESSED_RTF = Buffer.from(
+  '2d0000002b0000004c5a4675f1c5c7a703000a007263706731323542320af32068656c090020627705b06c647d0a800fa0',
+  'hex'
+);
+
+/** Large enough to be stored in regular sectors rather than the mini stream */
+const PDF_DATA = Buffer.concat([Buffer.from('%PDF-1.4\n', 'latin1'), Buffer.alloc(5000, 0x20)]);
+
+function reportMessage(): Uint8Array<ArrayBuffer> {
+  const original: StorageNode = {
+    name: '__substg1.0_3701000D',
+    children: [
+      ...properties(
+        [
+          [Tag.Subject, Type.Unicode, 'Budget numbers'],
+          [Tag.SenderName, Type.Unicode, 'Dave Brown'],
+          [Tag.SenderSmtpAddress, Type.Unicode, 'dave@example.com'],
+          [Tag.ClientSubmitTime, Type.Time, new Date('2024-01-10T08:00:00Z')],
+          [Tag.Body, Type.Unicode, 'Numbers attached.'],
+        ],
+        24
+      ),
+      recipient(0, 1, 'Bob Smith', 'bob@example.com'),
+    ],
+  };
+
+  return message(
+    [
+      [Tag.MessageClass, Type.Unicode, 'IPM.Note'],
+      [Tag.Subject, Type.Unicode, 'Quarterly report'],
+      [Tag.SenderName, Type.Unicode, 'Bob Smith'],
+      [Tag.SenderSmtpAddress, Type.Unicode, 'bob@example.com'],
+      [Tag.ClientSubmitTime, Type.Time, new Date('2024-01-15T10:30:00Z')],
+      [Tag.MessageFlags, Type.Integer32, 0x01],
+      [Tag.FlagStatus, Type.Integer32, 2],
+      [Tag.Body, Type.Unicode, 'Please find the report attached.'],
+      [Tag.InternetMessageId, Type.Unicode, '<report@example.com>'],
+    ],
+    [
+      recipient(0, 1, 'Alice Jones', 'alice@example.com'),
+      recipient(1, 2, 'Carol White', 'carol@example.com'),
+      recipient(2, 3, 'Erin Green', 'erin@example.com'),
+      attachment(0, [
+        [Tag.AttachMethod, Type.Integer32, 1],
+        [Tag.AttachLongFilename, Type.Unicode, 'report.pdf'],
+        [Tag.AttachMimeTag, Type.Unicode, 'application/pdf'],
+        [Tag.AttachSize, Type.Integer32, PDF_DATA.length + 300],
+        [Tag.AttachDataBinary, Type.Binary, PDF_DATA],
+      ]),
+      attachment(
+        1,
+        [
+          [Tag.AttachMethod, Type.Integer32, 5],
+          [Tag.DisplayName, Type.Unicode, 'Budget numbers'],
+        ],
+        original
+      ),
+    ]
+  );
+}
+
+/** Exchange addresses, 8-bit strings, HTML and RTF bodies, lowercase stream names */
+function lunchMessage(): Uint8Array<ArrayBuffer> {
+  return message(
+    [
+      [Tag.Subject, Type.String8, '\x01\x04RE: Lunch?'],
+      [Tag.SenderName, Type.String8, 'Dave Brown'],
+      [Tag.SenderAddressType, Type.String8, 'EX'],
+      [Tag.SenderEmailAddress, Type.String8, '/O=EXAMPLE/OU=FIRST/CN=RECIPIENTS/CN=DAVE'],
+      [Tag.ClientSubmitTime, Type.Time, new Date('2024-01-16T12:00:00Z')],
+      [Tag.MessageFlags, Type.Integer32, 0],
+      [Tag.LastVerbExecuted, Type.Integer32, 102],
+      [
+        Tag.TransportMessageHeaders,
+        Type.String8,
+        'From: Dave Brown <dave@example.com>\r\nTo: Alice Jones <alice@example.com>\r\nX-Mailer: Outlook\r\n\r\n',
+      ],
+      [Tag.InternetCodepage, Type.Integer32, 65001],
+      [Tag.Html, Type.Binary, Buffer.from('<p>Sure, <b>noon</b> works – see you!</p>', 'utf8')],
+      [Tag.RtfCompressed, Type.Binary, COMPRESSED_RTF],
+    ],
+    [recipient(0, 1, 'Alice Jones', '/O=EXAMPLE/OU=FIRST/CN=RECIPIENTS/CN=ALICE')],
+    true
+  );
+}
+
+function rtfMessage(): Uint8Array<ArrayBuffer> {
+  return message([
+    [Tag.Subject, Type.Unicode, 'Project kickoff'],
+    [Tag.SenderSmtpAddress, Type.Unicode, 'bob@example.com'],
+    [Tag.RtfCompressed, Type.Binary, COMPRESSED_RTF],
+  ]);
+}
+
+/** A contact whose addresses are named properties (PSETID_Address, LIDs 0x8083 and 0x8093) */
+function contactMessage(): Uint8Array<ArrayBuffer> {
+  const entry = Buffer.alloc(16);
+  entry.writeUInt32LE(0x8083, 0);
+  entry.writeUInt16LE(3 << 1, 4);
+  entry.writeUInt32LE(0x8093, 8);
+  entry.writeUInt16LE(3 << 1, 12);
+  entry.writeUInt16LE(1, 14);
+
+  return message(
+    [
+      [Tag.MessageClass, Type.Unicode, 'IPM.Contact'],
+      [Tag.DisplayName, Type.Unicode, 'Carol White'],
+      [0x8000, Type.Unicode, 'carol@example.com'],
+      [0x8001, Type.Unicode, 'carol.white@example.org'],
+      [Tag.MobileTelephoneNumber, Type.Unicode, '+1 555 0100'],
+      [Tag.BusinessTelephoneNumber, Type.Unicode, '+1 555 0199'],
+      [Tag.CompanyName, Type.Unicode, 'Example Corp'],
+      [Tag.Title, Type.Unicode, 'Engineer'],
+    ],
+    [
+      {
+        name: '__nameid_version1.0',
+        children: [
+          { name: '__substg1.0_00020102', data: Buffer.from('0420060000000000c000000000000046', 'hex') },
+          { name: '__substg1.0_00030102', data: entry },
+          { name: '__substg1.0_00040102', data: Buffer.alloc(0) },
+        ],
+      },
+    ]
+  );
+}
+
+describe('MSGParser', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'msg-test-'));
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('isMSGFile', () => {
+    it('should recognize .msg files', () => {
+      expect(MSGParser.isMSGFile(new File([], 'Meeting notes.MSG'))).toBe(true);
+      expect(MSGParser.isMSGFile(new File([], 'message.eml'))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should read the subject, addresses and state of a message', async () => {
+      const result = await new MSGParser().parse(reportMessage());
+
+      expect(result.emails).toHaveLength(1);
+      const email = result.emails[0];
+      expect(email).toMatchObject({
+        subject: 'Quarterly report',
+        sender: 'bob@example.com',
+        senderName: 'Bob Smith',
+        recipients: ['alice@example.com'],
+        cc: ['carol@example.com'],
+        bcc: ['erin@example.com'],
+        body: 'Please find the report attached.',
+        messageId: '<report@example.com>',
+        folderId: 'archive',
+        isRead: true,
+        isStarred: true,
+        isReplied: false,
+      });
+      expect(email.date.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+      expect(email.size).toBeGreaterThan(0);
+    });
+
+    it('should read attachments and embedded messages', async () => {
+      const parser = new MSGParser();
+
+      const withoutData = await parser.parse(reportMessage());
+      expect(withoutData.emails[0].attachments).toEqual([
+        { id: 'att-1', filename: 'report.pdf', mimeType: 'application/pdf', size: PDF_DATA.length + 300, data: undefined },
+        { id: 'att-2', filename: 'Budget numbers.eml', mimeType: 'message/rfc822', size: 0, data: undefined },
+      ]);
+
+      const withData = await parser.parse(reportMessage(), { includeAttachments: true });
+      const [pdf, embedded] = withData.emails[0].attachments;
+      expect(Buffer.from(pdf.data!, 'base64').equals(PDF_DATA)).toBe(true);
+      expect(pdf.size).toBe(PDF_DATA.length);
+
+      const original = Buffer.from(embedded.data!, 'base64').toString('utf8');
+      expect(original).toContain('Subject: Budget numbers');
+      expect(original).toContain('From: "Dave Brown" <dave@example.com>');
+      expect(original).toContain('To: "Bob Smith" <bob@example.com>');
+      expect(original).toContain('Numbers attached.');
+    });
+
+    it('should resolve Exchange addresses and decode 8-bit strings and HTML bodies', async () => {
+      const result = await new MSGParser().parse(lunchMessage(), { includeHeaders: true });
+      const email = result.emails[0];
+
+      expect(email).toMatchObject({
+        subject: 'RE: Lunch?',
+        sender: 'dave@example.com',
+        senderName: 'Dave Brown',
+        recipients: ['alice@example.com'],
+        htmlBody: '<p>Sure, <b>noon</b> works – see you!</p>',
+        body: 'hello world',
+        isRead: false,
+        isReplied: true,
+      });
+      expect(email.headers).toContainEqual({ name: 'X-Mailer', value: 'Outlook' });
+    });
+
+    it('should recover the body from compressed RTF', async () => {
+      const result = await new MSGParser().parse(rtfMessage());
+
+      expect(result.emails[0].body).toBe('hello world');
+    });
+
+    it('should read contact items with named properties', async () => {
+      const result = await new MSGParser().parse(contactMessage());
+
+      expect(result.emails).toHaveLength(0);
+      expect(result.contacts).toHaveLength(1);
+      expect(result.contacts[0]).toMatchObject({
+        name: 'Carol White',
+        email: 'carol@example.com',
+        emails: ['carol@example.com', 'carol.white@example.org'],
+        phone: '+1 555 0100',
+        phones: ['+1 555 0100', '+1 555 0199'],
+        organization: 'Example Corp',
+        title: 'Engineer',
+      });
+      expect(result.contacts[0].tags).toBeUndefined();
+    });
+
+    it('should parse several files and build contacts from senders', async () => {
+      const result = await new MSGParser().parse([
+        new File([reportMessage()], 'report.msg'),
+        new File([lunchMessage()], 'lunch.msg'),
+        new File([contactMessage()], 'carol.msg'),
+      ]);
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['Quarterly report', 'RE: Lunch?']);
+      expect(result.contacts.map((contact) => contact.email)).toEqual([
+        'carol@example.com',
+        'bob@example.com',
+        'dave@example.com',
+      ]);
+      expect(result.stats).toMatchObject({ emailCount: 2, contactCount: 3 });
+    });
+
+    it('should read a directory of .msg files', async () => {
+      const dir = join(root, 'messages');
+      mkdirSync(join(dir, 'nested'), { recursive: true });
+      writeFileSync(join(dir, 'a-report.msg'), reportMessage());
+      writeFileSync(join(dir, 'nested', 'b-kickoff.msg'), rtfMessage());
+      writeFileSync(join(dir, 'notes.txt'), 'not a message');
+
+      const result = await new MSGParser().parseFile(dir);
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['Quarterly report', 'Project kickoff']);
+    });
+
+    it('should report files that are not Outlook messages as diagnostics', async () => {
+      const result = await new MSGParser().parse([
+        new File(['From: someone@example.com\n\nHello'], 'plain.msg'),
+        new File([rtfMessage()], 'kickoff.msg'),
+      ]);
+
+      expect(result.emails).toHaveLength(1);
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0]).toMatchObject({
+        severity: 'error',
+        code: 'message_parse_failed',
+        location: { path: 'plain.msg' },
+      });
+    });
+  });
+
+  describe('detection', () => {
+    it('should detect MSG files and parse them with parseArchive', async () => {
+      expect(await detectArchiveFormat(reportMessage())).toBe('msg');
+
+      const result = await parseArchive(Buffer.from(reportMessage()));
+      expect(result.emails[0].subject).toBe('Quarterly report');
+    });
+
+    it('should not detect other compound files as MSG', async () => {
+      const document = buildCompoundFile({
+        name: 'Root Entry',
+        children: [{ name: 'WordDocument', data: Buffer.alloc(100) }],
+      });
+
+      expect(await detectArchiveFormat(document)).toBeNull();
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi } from 'vitest';
 import JSZip from 'jszip';
 import { OLMParser } from '../../parsers/olm';
+import { ParseAbortedError, ParseError } from '../../errors';
+import type { ArchiveItem } from '../../types';
 
 describe('OLMParser', () => {
   describe('isOLMFile', () => {
@@ -85,10 +87,317 @@ describe('OLMParser', () => {
       expect(result.emails[0].subject).toBe('Test Subject');
       expect(result.emails[0].body).toBe('Test body content');
       expect(result.emails[0].sender).toBe('sender@example.com');
-      // Note: senderName may not be extracted in Node.js without DOMParser
+      expect(result.emails[0].senderName).toBe('Sender Name');
+      expect(result.emails[0].recipients).toEqual(['recipient@example.com']);
+      expect(result.emails[0].isRead).toBe(true);
+      expect(result.emails[0].date).toEqual(new Date('2024-01-15T10:30:00Z'));
       expect(result.stats.emailCount).toBe(1);
     });
 
+    it('should take the sender from the From addresses, whatever their position', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      zip.file('com.microsoft.__Messages/message_1.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<email>
+  <OPFMessageCopyToAddresses>
+    <emailAddress OPFContactEmailAddressAddress="first@example.com" OPFContactEmailAddressName="First"/>
+    <emailAddress OPFContactEmailAddressAddress="second@example.com"/>
+  </OPFMessageCopyToAddresses>
+  <OPFMessageCopyFromAddresses>
+    <emailAddress OPFContactEmailAddressAddress="sender@example.com" OPFContactEmailAddressName="O'Brien &amp; Sons"/>
+  </OPFMessageCopyFromAddresses>
+  <OPFMessageCopySubject>Order</OPFMessageCopySubject>
+</email>`);
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const [email] = (await parser.parse(buffer)).emails;
+
+      expect(email.sender).toBe('sender@example.com');
+      expect(email.senderName).toBe("O'Brien & Sons");
+      expect(email.recipients).toEqual(['first@example.com', 'second@example.com']);
+    });
+
+    it('should read CC/BCC, flags, priority, categories and reply headers', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      zip.file('com.microsoft.__Messages/message_1.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<email>
+  <OPFMessageCopySubject>Re: Budget</OPFMessageCopySubject>
+  <OPFMessageCopyFromAddresses>
+    <emailAddress OPFContactEmailAddressAddress="dana@example.com" OPFContactEmailAddressName="Dana"/>
+  </OPFMessageCopyFromAddresses>
+  <OPFMessageCopyCCAddresses>
+    <emailAddress OPFContactEmailAddressAddress="cc@example.com" OPFContactEmailAddressName="Copy"/>
+  </OPFMessageCopyCCAddresses>
+  <OPFMessageCopyBCCAddresses>
+    <emailAddress OPFContactEmailAddressAddress="bcc@example.com"/>
+  </OPFMessageCopyBCCAddresses>
+  <OPFMessageGetIsFlagged>1</OPFMessageGetIsFlagged>
+  <OPFMessageGetHasReplied>1</OPFMessageGetHasReplied>
+  <OPFMessageGetHasForwarded>0</OPFMessageGetHasForwarded>
+  <OPFMessageGetPriority>1</OPFMessageGetPriority>
+  <OPFMessageCopyCategoryList>
+    <category OPFCategoryCopyName="Finance" OPFCategoryCopyBackgroundColor="#FF0000"/>
+    <category OPFCategoryCopyName="Follow up"/>
+  </OPFMessageCopyCategoryList>
+  <OPFMessageCopyMessageID>&lt;reply@example.com&gt;</OPFMessageCopyMessageID>
+  <OPFMessageCopyInReplyTo>&lt;budget@example.com&gt;</OPFMessageCopyInReplyTo>
+  <OPFMessageCopyReferences>&lt;start@example.com&gt; &lt;budget@example.com&gt;</OPFMessageCopyReferences>
+</email>`);
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const [email] = (await parser.parse(buffer)).emails;
+
+      expect(email).toMatchObject({
+        fromAddress: { name: 'Dana', address: 'dana@example.com' },
+        cc: ['cc@example.com'],
+        ccAddresses: [{ name: 'Copy', address: 'cc@example.com' }],
+        bcc: ['bcc@example.com'],
+        isStarred: true,
+        isReplied: true,
+        isForwarded: false,
+        priority: 'high',
+        categories: ['Finance', 'Follow up'],
+        messageId: '<reply@example.com>',
+        inReplyTo: '<budget@example.com>',
+        references: ['<start@example.com>', '<budget@example.com>'],
+      });
+    });
+
+    it('should leave unrecorded message metadata unset', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      zip.file(
+        'com.microsoft.__Messages/message_1.xml',
+        '<email><OPFMessageCopySubject>Plain</OPFMessageCopySubject><OPFMessageGetPriority>5</OPFMessageGetPriority></email>'
+      );
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const [email] = (await parser.parse(buffer)).emails;
+
+      expect(email.priority).toBe('low');
+      expect(email.isStarred).toBe(false);
+      expect(email.isReplied).toBeUndefined();
+      expect(email.isForwarded).toBeUndefined();
+      expect(email.categories).toBeUndefined();
+      expect(email.cc).toBeUndefined();
+      expect(email.inReplyTo).toBeUndefined();
+    });
+
+    it('should decode entities and CDATA sections', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      zip.file('com.microsoft.__Messages/message_1.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<!-- Exported by Outlook -->
+<email>
+  <OPFMessageCopySubject>Q&amp;A &lt;draft&gt; &#8211; caf&#xE9;</OPFMessageCopySubject>
+  <OPFMessageCopyBody>Line one
+Line two</OPFMessageCopyBody>
+  <OPFMessageCopyHTMLBody><![CDATA[<p>Tom &amp; Jerry</p>]]></OPFMessageCopyHTMLBody>
+  <OPFMessageCopyThreadTopic>Q&amp;A</OPFMessageCopyThreadTopic>
+</email>`);
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const [email] = (await parser.parse(buffer)).emails;
+
+      expect(email.subject).toBe('Q&A <draft> – café');
+      expect(email.body).toBe('Line one\nLine two');
+      expect(email.htmlBody).toBe('<p>Tom &amp; Jerry</p>');
+      expect(email.threadId).toBe('Q&A');
+    });
+
+    it('should parse the same way with and without a DOMParser', async () => {
+      const zip = new JSZip();
+      zip.file('com.microsoft.__Messages/message_1.xml', `<email>
+  <OPFMessageCopySubject>Same &amp; everywhere</OPFMessageCopySubject>
+  <OPFMessageCopyHTMLBody><![CDATA[<b>Hi</b>]]></OPFMessageCopyHTMLBody>
+  <OPFMessageCopySentTime>2024-01-15T10:30:00Z</OPFMessageCopySentTime>
+  <OPFMessageCopyFromAddresses>
+    <emailAddress OPFContactEmailAddressAddress="sender@example.com" OPFContactEmailAddressName="Sender"/>
+  </OPFMessageCopyFromAddresses>
+</email>`);
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const node = await new OLMParser().parse(buffer);
+      vi.stubGlobal('DOMParser', class {
+        parseFromString(): never {
+          throw new Error('DOMParser should not be used');
+        }
+      });
+      try {
+        const browser = await new OLMParser().parse(buffer);
+        expect(browser.emails).toEqual(node.emails);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should resolve attachments from com.microsoft.__Attachments', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      const emailXml = `<?xml version="1.0" encoding="UTF-8"?>
+<email>
+  <OPFMessageCopySubject>Report</OPFMessageCopySubject>
+  <OPFMessageCopyBody>See attached</OPFMessageCopyBody>
+  <OPFMessageCopyAttachmentList>
+    <messageAttachment OPFAttachmentContentType="application/pdf" OPFAttachmentName="report.pdf" OPFAttachmentURL="Accounts/me/com.microsoft.__Attachments/report_1.pdf"/>
+    <messageAttachment OPFAttachmentContentType="image/png" OPFAttachmentName="missing.png" OPFAttachmentContentFileSize="42"/>
+  </OPFMessageCopyAttachmentList>
+</email>`;
+
+      zip.file('Accounts/me/com.microsoft.__Messages/Inbox/message_1.xml', emailXml);
+      zip.file('Accounts/me/com.microsoft.__Attachments/report_1.pdf', 'Hello World');
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const result = await parser.parse(buffer);
+      const email = result.emails[0];
+
+      expect(email.hasAttachments).toBe(true);
+      expect(email.attachments).toHaveLength(2);
+      expect(email.attachments[0]).toMatchObject({
+        filename: 'report.pdf',
+        mimeType: 'application/pdf',
+        size: 11,
+      });
+      expect(email.attachments[0].data).toBeUndefined();
+      expect(email.attachments[1]).toMatchObject({ filename: 'missing.png', size: 42 });
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should resolve attachment URLs relative to the account folder', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      zip.file(
+        'Accounts/me/com.microsoft.__Messages/Inbox/message_1.xml',
+        `<email>
+  <OPFMessageCopySubject>Photos</OPFMessageCopySubject>
+  <OPFMessageCopyAttachmentList>
+    <messageAttachment OPFAttachmentName="a.png" OPFAttachmentURL="com.microsoft.__Attachments/a.png"/>
+    <messageAttachment OPFAttachmentName="b c.png" OPFAttachmentURL="file:///Users/me/com.microsoft.__Attachments/b%20c.png"/>
+    <messageAttachment OPFAttachmentName="d.png" OPFAttachmentURL="d.png"/>
+  </OPFMessageCopyAttachmentList>
+</email>`
+      );
+      zip.file('Accounts/me/com.microsoft.__Attachments/a.png', 'A');
+      zip.file('Accounts/me/com.microsoft.__Attachments/b c.png', 'BC');
+      zip.file('Accounts/me/com.microsoft.__Attachments/d.png', 'DDD');
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const result = await parser.parse(buffer);
+
+      expect(result.emails[0].attachments.map((a) => a.size)).toEqual([1, 2, 3]);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should report attachments missing from the archive', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      zip.file(
+        'com.microsoft.__Messages/message_1.xml',
+        `<email>
+  <OPFMessageCopySubject>Report</OPFMessageCopySubject>
+  <OPFMessageCopyAttachmentList>
+    <messageAttachment OPFAttachmentName="gone.pdf" OPFAttachmentURL="com.microsoft.__Attachments/gone.pdf"/>
+  </OPFMessageCopyAttachmentList>
+</email>`
+      );
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const result = await parser.parse(buffer);
+
+      expect(result.emails[0].attachments).toHaveLength(1);
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          severity: 'warning',
+          code: 'attachment_missing',
+          location: { path: 'com.microsoft.__Attachments/gone.pdf' },
+        }),
+      ]);
+    });
+
+    it('should report skipped and unparseable messages with their zip entry path', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      zip.file('com.microsoft.__Messages/message_1.xml', '<email></email>');
+      zip.file(
+        'com.microsoft.__Messages/message_2.xml',
+        '<email><OPFMessageCopySubject>Broken</email>'
+      );
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const result = await parser.parse(buffer);
+
+      expect(result.emails).toEqual([]);
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          severity: 'warning',
+          code: 'message_skipped',
+          location: { path: 'com.microsoft.__Messages/message_1.xml' },
+        }),
+        expect.objectContaining({
+          severity: 'error',
+          code: 'xml_parse_failed',
+          location: { path: 'com.microsoft.__Messages/message_2.xml' },
+        }),
+      ]);
+
+      await expect(parser.parse(buffer, { strict: true })).rejects.toBeInstanceOf(ParseError);
+    });
+
+    it('should include attachment data when includeAttachments is set', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      zip.file('com.microsoft.__Messages/message_1.xml', `<?xml version="1.0"?>
+<email>
+  <OPFMessageCopySubject>Report</OPFMessageCopySubject>
+  <OPFMessageCopyAttachmentList>
+    <messageAttachment OPFAttachmentContentType="text/plain" OPFAttachmentName="notes.txt" OPFAttachmentURL="com.microsoft.__Attachments/notes.txt"/>
+  </OPFMessageCopyAttachmentList>
+</email>`);
+      zip.file('com.microsoft.__Attachments/notes.txt', 'Hello World');
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const result = await parser.parse(buffer, { includeAttachments: true });
+      const [attachment] = result.emails[0].attachments;
+
+      expect(attachment.size).toBe(11);
+      expect(Buffer.from(attachment.data!, 'base64').toString()).toBe('Hello World');
+    });
+
+    it('should keep unmapped elements as headers when includeHeaders is set', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      zip.file('com.microsoft.__Messages/message_1.xml', `<?xml version="1.0"?>
+<email>
+  <OPFMessageCopySubject>Headers</OPFMessageCopySubject>
+  <OPFMessageCopyBody>Body</OPFMessageCopyBody>
+  <OPFMessageCopyMessageID>&lt;abc@example.com&gt;</OPFMessageCopyMessageID>
+  <OPFMessageCopyFromAddresses>
+    <emailAddress OPFContactEmailAddressAddress="sender@example.com"/>
+  </OPFMessageCopyFromAddresses>
+</email>`);
+      const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const result = await parser.parse(buffer, { includeHeaders: true });
+      const names = result.emails[0].headers!.map((h) => h.name);
+
+      expect(names).toEqual([
+        'OPFMessageCopySubject',
+        'OPFMessageCopyBody',
+        'OPFMessageCopyMessageID',
+      ]);
+    });
+
     it('should parse multiple emails', async () => {
       const parser = new OLMParser();
       const zip = new JSZip();
@@ -146,10 +455,9 @@ describe('OLMParser', () => {
 
       const result = await parser.parse(buffer);
 
-      // Note: Contact parsing requires DOMParser which may not be available in Node.js
-      // This test verifies the structure is correct
-      expect(result.contacts).toBeDefined();
-      expect(Array.isArray(result.contacts)).toBe(true);
+      expect(result.contacts).toEqual([
+        expect.objectContaining({ name: 'John Doe', email: 'john@example.com', phone: '555-1234' }),
+      ]);
     });
 
     it('should parse calendar events from OLM', async () => {
@@ -172,10 +480,185 @@ describe('OLMParser', () => {
 
       const result = await parser.parse(buffer);
 
-      // Note: Calendar parsing requires DOMParser which may not be available in Node.js
-      // This test verifies the structure is correct
-      expect(result.calendarEvents).toBeDefined();
-      expect(Array.isArray(result.calendarEvents)).toBe(true);
+      expect(result.calendarEvents).toEqual([
+        expect.objectContaining({
+          title: 'Team Meeting',
+          startDate: new Date('2024-01-15T10:00:00Z'),
+          endDate: new Date('2024-01-15T11:00:00Z'),
+          location: 'Conference Room A',
+          isAllDay: false,
+        }),
+      ]);
+    });
+
+    it('should parse tasks and notes from OLM', async () => {
+      const zip = new JSZip();
+      zip.file('Accounts/me/Tasks/Tasks.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<tasks>
+  <task>
+    <OPFTaskCopyName>File taxes</OPFTaskCopyName>
+    <OPFTaskCopyPlainTextBody>Gather receipts &amp; forms</OPFTaskCopyPlainTextBody>
+    <OPFTaskGetStartDate>2024-03-01T09:00:00Z</OPFTaskGetStartDate>
+    <OPFTaskGetDueDate>2024-04-15T17:00:00Z</OPFTaskGetDueDate>
+    <OPFTaskGetPriority>1</OPFTaskGetPriority>
+    <OPFTaskCopyCategoryList>
+      <category OPFCategoryCopyName="Personal"/>
+    </OPFTaskCopyCategoryList>
+  </task>
+  <task>
+    <OPFTaskCopyName>Renew passport</OPFTaskCopyName>
+    <OPFTaskGetCompletedDateTime>2024-02-10T12:00:00Z</OPFTaskGetCompletedDateTime>
+  </task>
+  <task>
+    <OPFTaskGetDueDate>2024-05-01T00:00:00Z</OPFTaskGetDueDate>
+  </task>
+</tasks>`);
+      zip.file('Accounts/me/Notes/Notes.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<notes>
+  <note>
+    <OPFNoteCopyTitle>Wi-Fi</OPFNoteCopyTitle>
+    <OPFNoteCopyPlainTextBody>Password: hunter2</OPFNoteCopyPlainTextBody>
+    <OPFNoteGetCreatedDate>2024-01-05T08:00:00Z</OPFNoteGetCreatedDate>
+    <OPFNoteGetModDate>2024-01-06T08:00:00Z</OPFNoteGetModDate>
+  </note>
+  <note>
+    <OPFNoteCopyPlainTextBody>Groceries
+Milk, eggs</OPFNoteCopyPlainTextBody>
+  </note>
+</notes>`);
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+      const onProgress = vi.fn();
+
+      const result = await new OLMParser().parse(buffer, { onProgress });
+
+      expect(result.tasks).toEqual([
+        {
+          subject: 'File taxes',
+          body: 'Gather receipts & forms',
+          startDate: new Date('2024-03-01T09:00:00Z'),
+          dueDate: new Date('2024-04-15T17:00:00Z'),
+          isCompleted: false,
+          completedDate: undefined,
+          priority: 'high',
+          categories: ['Personal'],
+        },
+        expect.objectContaining({
+          subject: 'Renew passport',
+          isCompleted: true,
+          completedDate: new Date('2024-02-10T12:00:00Z'),
+        }),
+      ]);
+      expect(result.notes).toEqual([
+        expect.objectContaining({
+          title: 'Wi-Fi',
+          body: 'Password: hunter2',
+          createdDate: new Date('2024-01-05T08:00:00Z'),
+          modifiedDate: new Date('2024-01-06T08:00:00Z'),
+        }),
+        expect.objectContaining({ title: 'Groceries', body: 'Groceries\nMilk, eggs' }),
+      ]);
+      expect(result.stats).toMatchObject({ taskCount: 2, noteCount: 2 });
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'parsing_tasks' }));
+    });
+
+    it('should report unparseable task files', async () => {
+      const zip = new JSZip();
+      zip.file('Tasks/Tasks.xml', '<tasks><task><OPFTaskCopyName>Broken</task></tasks>');
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const result = await new OLMParser().parse(buffer);
+
+      expect(result.tasks).toEqual([]);
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ severity: 'error', code: 'xml_parse_failed', location: { path: 'Tasks/Tasks.xml' } }),
+      ]);
+    });
+
+    it('should assign emails to folders from their paths', async () => {
+      const zip = new JSZip();
+      const message = (subject: string) =>
+        `<email><OPFMessageCopySubject>${subject}</OPFMessageCopySubject></email>`;
+      const messages = 'Accounts/alice@example.com/com.microsoft.__Messages';
+      zip.file(`${messages}/Inbox/message_1.xml`, message('Hello'));
+      zip.file(`${messages}/Inbox/Projects/Q1 Plans/message_2.xml`, message('Plan'));
+      zip.file(`${messages}/Sent Items/message_3.xml`, message('Reply'));
+      zip.file(`${messages}/Sent Items/message_4.xml`, message('Another reply'));
+      zip.folder(`${messages}/Deleted Items`);
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const result = await new OLMParser().parse(buffer);
+
+      expect(Object.fromEntries(result.emails.map((email) => [email.subject, email.folderId]))).toEqual({
+        Hello: 'inbox',
+        Plan: 'inbox/projects/q1-plans',
+        Reply: 'sent',
+        'Another reply': 'sent',
+      });
+      const account = 'alice@example.com';
+      expect(result.folders).toEqual(
+        expect.arrayContaining([
+          { id: 'inbox', name: 'Inbox', path: 'Inbox', role: 'inbox', account, emailCount: 1 },
+          { id: 'inbox/projects', name: 'Projects', path: 'Inbox/Projects', parentId: 'inbox', account, emailCount: 0 },
+          {
+            id: 'inbox/projects/q1-plans',
+            name: 'Q1 Plans',
+            path: 'Inbox/Projects/Q1 Plans',
+            parentId: 'inbox/projects',
+            account,
+            emailCount: 1,
+          },
+          { id: 'sent', name: 'Sent Items', path: 'Sent Items', role: 'sent', account, emailCount: 2 },
+          { id: 'trash', name: 'Deleted Items', path: 'Deleted Items', role: 'trash', account, emailCount: 0 },
+        ])
+      );
+      expect(result.folders).toHaveLength(5);
+    });
+
+    it('should keep localized sibling folders apart', async () => {
+      const zip = new JSZip();
+      const message = (subject: string) =>
+        `<email><OPFMessageCopySubject>${subject}</OPFMessageCopySubject></email>`;
+      zip.file('com.microsoft.__Messages/受信トレイ/message_1.xml', message('Japanese'));
+      zip.file('com.microsoft.__Messages/送信済み/message_2.xml', message('Sent'));
+      zip.file('com.microsoft.__Messages/Inbox/Проекты/message_3.xml', message('Projects'));
+      zip.file('com.microsoft.__Messages/Inbox/Личное/message_4.xml', message('Personal'));
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const result = await new OLMParser().parse(buffer);
+
+      expect(Object.fromEntries(result.emails.map((email) => [email.subject, email.folderId]))).toEqual({
+        Japanese: '受信トレイ',
+        Sent: '送信済み',
+        Projects: 'inbox/проекты',
+        Personal: 'inbox/личное',
+      });
+      expect(result.folders.map((folder) => [folder.id, folder.name, folder.emailCount])).toEqual(
+        expect.arrayContaining([
+          ['受信トレイ', '受信トレイ', 1],
+          ['送信済み', '送信済み', 1],
+          ['inbox/проекты', 'Проекты', 1],
+          ['inbox/личное', 'Личное', 1],
+        ])
+      );
+    });
+
+    it('should keep the folders of each account apart', async () => {
+      const zip = new JSZip();
+      const message = '<email><OPFMessageCopySubject>Hello</OPFMessageCopySubject></email>';
+      zip.file('Accounts/alice@example.com/com.microsoft.__Messages/Inbox/message_1.xml', message);
+      zip.file('Accounts/Bob@example.com/com.microsoft.__Messages/Inbox/message_1.xml', message);
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const result = await new OLMParser().parse(buffer);
+
+      expect(result.emails.map((email) => email.folderId)).toEqual([
+        'alice@example.com/inbox',
+        'bob@example.com/inbox',
+      ]);
+      expect(result.folders?.map((folder) => [folder.id, folder.account])).toEqual([
+        ['alice@example.com/inbox', 'alice@example.com'],
+        ['bob@example.com/inbox', 'Bob@example.com'],
+      ]);
     });
 
     it('should throw error for invalid archive', async () => {
@@ -218,11 +701,88 @@ describe('OLMParser', () => {
 
       const result = await parser.parse(buffer);
 
-      // Note: threadId generation may require DOMParser
-      // In Node.js without DOMParser, the manual parser may not set threadId
       expect(result.emails.length).toBe(1);
       expect(result.emails[0].subject).toContain('Important Discussion');
+      expect(result.emails[0].threadId).toBe('subject:important-discussion');
     });
   });
-});
 
+  describe('stream', () => {
+    it('should yield tasks and notes after calendar events', async () => {
+      const zip = new JSZip();
+      zip.file('Notes/Notes.xml', '<notes><note><OPFNoteCopyTitle>Idea</OPFNoteCopyTitle></note></notes>');
+      zip.file('Tasks/Tasks.xml', '<tasks><task><OPFTaskCopyName>Call Bob</OPFTaskCopyName></task></tasks>');
+      zip.file(
+        'Calendar/Calendar.xml',
+        '<calendar><appointment><OPFCalendarEventCopySummary>Standup</OPFCalendarEventCopySummary></appointment></calendar>'
+      );
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const items: ArchiveItem[] = [];
+      for await (const item of new OLMParser().stream(buffer)) {
+        items.push(item);
+      }
+
+      expect(items.map((item) => item.type)).toEqual(['calendarEvent', 'task', 'note']);
+    });
+
+    it('should yield emails before contacts', async () => {
+      const parser = new OLMParser();
+      const zip = new JSZip();
+
+      zip.file(
+        'com.microsoft.__Messages/message_1.xml',
+        `<?xml version="1.0"?>
+<email>
+  <OPFMessageCopySubject>Streamed</OPFMessageCopySubject>
+  <OPFMessageCopyBody>Body</OPFMessageCopyBody>
+  <OPFMessageCopyFromAddresses>
+    <emailAddress OPFContactEmailAddressAddress="sender@example.com" OPFContactEmailAddressName="Sender"/>
+  </OPFMessageCopyFromAddresses>
+</email>`
+      );
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const items: ArchiveItem[] = [];
+      for await (const item of parser.stream(buffer)) {
+        items.push(item);
+      }
+
+      expect(items.map((item) => item.type)).toEqual(['email', 'folder', 'contact']);
+      expect(items[0].type === 'email' && items[0].email.subject).toBe('Streamed');
+      expect(items[1].type === 'folder' && items[1].folder.id).toBe('inbox');
+      expect(items[2].type === 'contact' && items[2].contact.email).toBe('sender@example.com');
+    });
+
+    it('should stop between zip entries when aborted', async () => {
+      const parser = new OLMParser();
+      const controller = new AbortController();
+      const zip = new JSZip();
+      for (let i = 1; i <= 3; i++) {
+        zip.file(
+          `com.microsoft.__Messages/message_${i}.xml`,
+          `<email><OPFMessageCopySubject>Message ${i}</OPFMessageCopySubject></email>`
+        );
+      }
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const subjects: string[] = [];
+      const consume = async () => {
+        for await (const item of parser.stream(buffer, { signal: controller.signal })) {
+          if (item.type === 'email') subjects.push(item.email.subject);
+          controller.abort();
+        }
+      };
+
+      await expect(consume()).rejects.toBeInstanceOf(ParseAbortedError);
+      expect(subjects.length).toBe(1);
+    });
+
+    it('should reject invalid archives', async () => {
+      const parser = new OLMParser();
+      const iterator = parser.stream(Buffer.from('not a zip'));
+
+      await expect(iterator.next()).rejects.toThrow('Failed to parse OLM file');
+    });
+  });
+});
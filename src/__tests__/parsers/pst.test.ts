@@ -0,0 +1,765 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PSTParser } from '../../parsers/pst';
+import { ParseAbortedError } from '../../errors';
+import type { ParseProgress } from '../../types';
+
+// ----------------------------------------------------------------------------
+// Minimal PST writer: one heap block per node, small B-trees, no free space maps
+// ----------------------------------------------------------------------------
+
+const Type = { Integer32: 0x03, Boolean: 0x0b, String8: 0x1e, Unicode: 0x1f, Time: 0x40, Binary: 0x102 };
+
+type Value = number | boolean | string | Date | Uint8Array;
+type Props = Array<[id: number, type: number, value: Value]>;
+
+interface SubnodeSpec {
+  nid: number;
+  data: Uint8Array;
+  subnodes?: SubnodeSpec[];
+}
+
+interface NodeSpec extends SubnodeSpec {
+  /** Point the node at a block that isn't in the file */
+  broken?: boolean;
+}
+
+/** mpbbR: encoding table for compressible encryption (MS-PST 5.1) */
+const PERMUTE_ENCODE = Uint8Array.from(
+  Buffer.from(
+    '41361362a8216ebbf416cc047f64e85d1ef2cb2a74c55e35d295479e962d9a884c7d843fdbac31b6485ff6c4d8398be7233b388ec8c1df25b120a546604e9cfb' +
+      'aad35651457c550007c92b9d859b09a08fadb30f63ab894bd7a7155a716642bf264a6b98faea7753b270052cfd593a867ece06eb827857c78d43afb41cd45bcd' +
+      'e2e9274fc3087280cfb0eff5286dbe304d3492d50e3c2232e5e4f99fc2d10a8112e1ee918376e397e6618a1779a4b7dc907a5c8c02a6ca69de501a1193b95287' +
+      '58fced1d37491b6ae0293399bd6cd994f340546ff0c673b8d63e6518441fdd6710f10c19ecae03a1147ba90bfff8a3c0a201f72ebc2468750dfeba2fb5d0da3d',
+    'hex'
+  )
+);
+
+function encodeValue(type: number, value: Value): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (type === Type.Unicode) return Buffer.from(value as string, 'utf16le');
+  if (type === Type.String8) return Buffer.from(value as string, 'latin1');
+
+  const bytes = Buffer.alloc(type === Type.Time ? 8 : 4);
+  if (type === Type.Time) {
+    bytes.writeBigUInt64LE(BigInt((value as Date).getTime() + 11644473600000) * 10000n);
+  } else {
+    bytes.writeInt32LE(Number(value));
+  }
+  return bytes;
+}
+
+const hid = (index: number) => index << 5;
+
+/** Heap-on-node with the given items; the user root is the first item */
+function heap(clientSignature: number, items: Uint8Array[]): Uint8Array {
+  const offsets = [12];
+  for (const item of items) offsets.push(offsets[offsets.length - 1] + item.length);
+  const pageMap = offsets[offsets.length - 1] + (offsets[offsets.length - 1] % 2);
+
+  const block = Buffer.alloc(pageMap + 4 + offsets.length * 2);
+  block.writeUInt16LE(pageMap, 0);
+  block[2] = 0xec;
+  block[3] = clientSignature;
+  block.writeUInt32LE(hid(1), 4);
+  items.forEach((item, i) => block.set(item, offsets[i]));
+  block.writeUInt16LE(items.length, pageMap);
+  offsets.forEach((offset, i) => block.writeUInt16LE(offset, pageMap + 4 + i * 2));
+  return block;
+}
+
+function bthHeader(keySize: number, dataSize: number, root: number): Uint8Array {
+  const header = Buffer.alloc(8);
+  header.set([0xb5, keySize, dataSize, 0]);
+  header.writeUInt32LE(root, 4);
+  return header;
+}
+
+function propertyContext(props: Props): Uint8Array {
+  const values: Uint8Array[] = [];
+  const records = Buffer.alloc(props.length * 8);
+
+  [...props]
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([id, type, value], i) => {
+      records.writeUInt16LE(id, i * 8);
+      records.writeUInt16LE(type, i * 8 + 2);
+      if (type === Type.Integer32 || type === Type.Boolean) {
+        records.writeInt32LE(Number(value), i * 8 + 4);
+      } else {
+        values.push(encodeValue(type, value));
+        records.writeUInt32LE(hid(2 + values.length), i * 8 + 4);
+      }
+    });
+
+  return heap(0xbc, [bthHeader(2, 6, records.length > 0 ? hid(2) : 0), records, ...values]);
+}
+
+/** Table context; the first column must be the row ID (0x67F2) */
+function tableContext(columns: Array<[id: number, type: number]>, rows: Array<Array<Value | undefined>>): Uint8Array {
+  const values: Uint8Array[] = [];
+  const fixedSize = columns.length * 4;
+  const rowSize = fixedSize + Math.ceil(columns.length / 8);
+
+  const matrix = Buffer.alloc(rows.length * rowSize);
+  const rowIndex = Buffer.alloc(rows.length * 8);
+  rows.forEach((row, r) => {
+    const offset = r * rowSize;
+    columns.forEach(([, type], c) => {
+      const value = row[c];
+      if (value === undefined) return;
+      matrix[offset + fixedSize + (c >> 3)] |= 0x80 >> (c & 7);
+      if (type === Type.Integer32) {
+        matrix.writeInt32LE(Number(value), offset + c * 4);
+      } else {
+        values.push(encodeValue(type, value));
+        matrix.writeUInt32LE(hid(4 + values.length), offset + c * 4);
+      }
+    });
+    rowIndex.writeUInt32LE(Number(row[0]), r * 8);
+    rowIndex.writeUInt32LE(r, r * 8 + 4);
+  });
+
+  const info = Buffer.alloc(22 + columns.length * 8);
+  info[0] = 0x7c;
+  info[1] = columns.length;
+  [fixedSize, fixedSize, fixedSize, rowSize].forEach((end, i) => info.writeUInt16LE(end, 2 + i * 2));
+  info.writeUInt32LE(hid(2), 10);
+  info.writeUInt32LE(rows.length > 0 ? hid(4) : 0, 14);
+  columns
+    .map(([id, type], c) => ({ tag: ((id << 16) | type) >>> 0, c }))
+    .sort((a, b) => a.tag - b.tag)
+    .forEach(({ tag, c }, i) => {
+      info.writeUInt32LE(tag, 22 + i * 8);
+      info.writeUInt16LE(c * 4, 26 + i * 8);
+      info[28 + i * 8] = 4;
+      info[29 + i * 8] = c;
+    });
+
+  return heap(0x7c, [info, bthHeader(4, 4, rows.length > 0 ? hid(3) : 0), rowIndex, matrix, ...values]);
+}
+
+/** Assemble a PST file from nodes */
+function buildPST(nodes: NodeSpec[], { ansi = false, encrypt = false } = {}): Uint8Array {
+  const idSize = ansi ? 4 : 8;
+  const blocks: Array<{ bid: number; data: Uint8Array; offset?: number }> = [];
+  let nextBid = 4;
+
+  const addBlock = (data: Uint8Array, internal: boolean): number => {
+    const bid = nextBid | (internal ? 2 : 0);
+    nextBid += 4;
+    const stored = encrypt && !internal ? data.map((byte) => PERMUTE_ENCODE[byte]) : data;
+    blocks.push({ bid, data: stored });
+    return bid;
+  };
+
+  const writeId = (buffer: Buffer, value: number, offset: number) => {
+    if (ansi) buffer.writeUInt32LE(value, offset);
+    else buffer.writeBigUInt64LE(BigInt(value), offset);
+  };
+
+  const addSubnodes = (subnodes: SubnodeSpec[]): number => {
+    const entries = subnodes.map((subnode) => ({
+      nid: subnode.nid,
+      bidData: addBlock(subnode.data, false),
+      bidSub: subnode.subnodes ? addSubnodes(subnode.subnodes) : 0,
+    }));
+    const headerSize = ansi ? 4 : 8;
+    const block = Buffer.alloc(headerSize + entries.length * idSize * 3);
+    block[0] = 0x02;
+    block.writeUInt16LE(entries.length, 2);
+    entries.forEach((entry, i) => {
+      const offset = headerSize + i * idSize * 3;
+      writeId(block, entry.nid, offset);
+      writeId(block, entry.bidData, offset + idSize);
+      writeId(block, entry.bidSub, offset + idSize * 2);
+    });
+    return addBlock(block, true);
+  };
+
+  const nodeEntries = nodes.map((node) => ({
+    nid: node.nid,
+    bidData: node.broken ? 0xfff0 : addBlock(node.data, false),
+    bidSub: node.subnodes ? addSubnodes(node.subnodes) : 0,
+  }));
+
+  // Blocks after the header, then the B-tree pages
+  const chunks: Uint8Array[] = [];
+  let position = 1024;
+  for (const block of blocks) {
+    block.offset = position;
+    chunks.push(block.data);
+    const padded = Math.ceil(block.data.length / 64) * 64;
+    chunks.push(new Uint8Array(padded - block.data.length));
+    position += padded;
+  }
+
+  const writeTree = (entries: Buffer[], keys: number[], pageType: number): number => {
+    const entrySize = entries[0].length;
+    const layout = ansi ? { count: 496, type: 500 } : { count: 488, type: 496 };
+    const page = (items: Buffer[], size: number, level: number): number => {
+      const bytes = Buffer.alloc(512);
+      items.forEach((item, i) => bytes.set(item, i * size));
+      bytes[layout.count] = items.length;
+      bytes[layout.count + 1] = Math.floor(layout.count / size);
+      bytes[layout.count + 2] = size;
+      bytes[layout.count + 3] = level;
+      bytes[layout.type] = pageType;
+      bytes[layout.type + 1] = pageType;
+      chunks.push(bytes);
+      position += 512;
+      return position - 512;
+    };
+
+    const capacity = Math.floor(layout.count / entrySize);
+    const leaves: Array<{ key: number; offset: number }> = [];
+    for (let i = 0; i < entries.length; i += capacity) {
+      leaves.push({ key: keys[i], offset: page(entries.slice(i, i + capacity), entrySize, 0) });
+    }
+    if (leaves.length === 1) return leaves[0].offset;
+
+    const branches = leaves.map(({ key, offset }) => {
+      const branch = Buffer.alloc(idSize * 3);
+      writeId(branch, key, 0);
+      writeId(branch, offset, idSize * 2);
+      return branch;
+    });
+    return page(branches, idSize * 3, 1);
+  };
+
+  nodeEntries.sort((a, b) => a.nid - b.nid);
+  const nodeTree = writeTree(
+    nodeEntries.map((entry) => {
+      const bytes = Buffer.alloc(ansi ? 16 : 32);
+      writeId(bytes, entry.nid, 0);
+      writeId(bytes, entry.bidData, idSize);
+      writeId(bytes, entry.bidSub, idSize * 2);
+      return bytes;
+    }),
+    nodeEntries.map((entry) => entry.nid),
+    0x81
+  );
+
+  blocks.sort((a, b) => a.bid - b.bid);
+  const blockTree = writeTree(
+    blocks.map((block) => {
+      const bytes = Buffer.alloc(ansi ? 12 : 24);
+      writeId(bytes, block.bid, 0);
+      writeId(bytes, block.offset!, idSize);
+      bytes.writeUInt16LE(block.data.length, idSize * 2);
+      bytes.writeUInt16LE(2, idSize * 2 + 2);
+      return bytes;
+    }),
+    blocks.map((block) => block.bid),
+    0x80
+  );
+
+  const header = Buffer.alloc(1024);
+  header.write('!BDN', 0, 'latin1');
+  header.write('SM', 8, 'latin1');
+  header.writeUInt16LE(ansi ? 14 : 23, 10);
+  if (ansi) {
+    header.writeUInt32LE(nodeTree, 0xbc);
+    header.writeUInt32LE(blockTree, 0xc4);
+    header[0x1cd] = encrypt ? 1 : 0;
+  } else {
+    header.writeBigUInt64LE(BigInt(nodeTree), 0xe0);
+    header.writeBigUInt64LE(BigInt(blockTree), 0xf0);
+    header[0x201] = encrypt ? 1 : 0;
+  }
+
+  return Buffer.concat([header, ...chunks]);
+}
+
+// ----------------------------------------------------------------------------
+// Test mailbox
+// ----------------------------------------------------------------------------
+
+const Tag = {
+  MessageClass: 0x001a,
+  Subject: 0x0037,
+  ClientSubmitTime: 0x0039,
+  TransportMessageHeaders: 0x007d,
+  RecipientType: 0x0c15,
+  SenderName: 0x0c1a,
+  SenderAddressType: 0x0c1e,
+  SenderEmailAddress: 0x0c1f,
+  MessageDeliveryTime: 0x0e06,
+  MessageFlags: 0x0e07,
+  MessageSize: 0x0e08,
+  AttachSize: 0x0e20,
+  Body: 0x1000,
+  RtfCompressed: 0x1009,
+  Html: 0x1013,
+  InternetMessageId: 0x1035,
+  LastVerbExecuted: 0x1081,
+  FlagStatus: 0x1090,
+  DisplayName: 0x3001,
+  AddressType: 0x3002,
+  EmailAddress: 0x3003,
+  AttachDataBinary: 0x3701,
+  AttachMethod: 0x3705,
+  AttachLongFilename: 0x3707,
+  AttachMimeTag: 0x370e,
+  SmtpAddress: 0x39fe,
+  BusinessTelephoneNumber: 0x3a08,
+  CompanyName: 0x3a16,
+  Title: 0x3a17,
+  MobileTelephoneNumber: 0x3a1c,
+  InternetCodepage: 0x3fde,
+  SenderSmtpAddress: 0x5d01,
+  RowId: 0x67f2,
+};
+
+/** Named property IDs assigned by the name-to-ID map below */
+const Named = {
+  Email1EmailAddress: 0x8000,
+  AppointmentStartWhole: 0x8001,
+  AppointmentEndWhole: 0x8002,
+  Location: 0x8003,
+  Email2EmailAddress: 0x8004,
+};
+
+/** Example compressed RTF from MS-OXRTFCP 3.1.1 */
+const COMPRESSED_RTF = Uint8Array.from(
+  Buffer.from(
+    '2d0000002b0000004c5a4675f1c5c7a703000a007263706731323542320af32068656c090020627705b06c647d0a800fa0',
+    'hex'
+  )
+);
+
+const PDF_DATA = Buffer.from('%PDF-1.4 test document', 'latin1');
+
+function folder(nid: number, name: string): NodeSpec {
+  return { nid, data: propertyContext([[Tag.DisplayName, Type.Unicode, name]]) };
+}
+
+function rowTable(nid: number, rowIds: number[]): NodeSpec {
+  return { nid, data: tableContext([[Tag.RowId, Type.Integer32]], rowIds.map((id) => [id])) };
+}
+
+function recipients(list: Array<[type: number, name: string, addressType: string, address: string]>): SubnodeSpec {
+  return {
+    nid: 0x692,
+    data: tableContext(
+      [
+        [Tag.RowId, Type.Integer32],
+        [Tag.RecipientType, Type.Integer32],
+        [Tag.DisplayName, Type.Unicode],
+        [Tag.AddressType, Type.Unicode],
+        [Tag.EmailAddress, Type.Unicode],
+        [Tag.SmtpAddress, Type.Unicode],
+      ],
+      list.map(([type, name, addressType, address], i) => [
+        i,
+        type,
+        name,
+        addressType,
+        address,
+        addressType === 'SMTP' ? address : undefined,
+      ])
+    ),
+  };
+}
+
+function createMailbox(): NodeSpec[] {
+  // Name-to-ID map: PSETID_Address and PSETID_Appointment, five named properties
+  const guidStream = Buffer.concat([
+    Buffer.from('0420060000000000c000000000000046', 'hex'),
+    Buffer.from('0220060000000000c000000000000046', 'hex'),
+  ]);
+  const entryStream = Buffer.alloc(40);
+  [
+    [0x8083, 3],
+    [0x820d, 4],
+    [0x820e, 4],
+    [0x8208, 4],
+    [0x8093, 3],
+  ].forEach(([id, guidIndex], i) => {
+    entryStream.writeUInt32LE(id, i * 8);
+    entryStream.writeUInt16LE(guidIndex << 1, i * 8 + 4);
+    entryStream.writeUInt16LE(i, i * 8 + 6);
+  });
+
+  // IPM subtree entry ID: flags, provider UID, then the folder NID
+  const ipmSubtree = Buffer.alloc(24);
+  ipmSubtree.writeUInt32LE(0x8022, 20);
+
+  return [
+    {
+      nid: 0x21,
+      data: propertyContext([
+        [Tag.DisplayName, Type.Unicode, 'Personal Folders'],
+        [0x35e0, Type.Binary, ipmSubtree],
+      ]),
+    },
+    {
+      nid: 0x61,
+      data: propertyContext([
+        [0x0002, Type.Binary, guidStream],
+        [0x0003, Type.Binary, entryStream],
+        [0x0004, Type.Binary, new Uint8Array(0)],
+      ]),
+    },
+
+    // Top of Personal Folders
+    folder(0x8022, 'Top of Personal Folders'),
+    rowTable(0x802d, [0x8042, 0x8062, 0x8082, 0x80a2]),
+
+    // Inbox, with Projects below it
+    folder(0x8042, 'Inbox'),
+    rowTable(0x804d, [0x80c2]),
+    rowTable(0x804e, [0x200004, 0x200024, 0x200044]),
+    folder(0x80c2, 'Projects'),
+    rowTable(0x80ce, [0x200064]),
+
+    folder(0x8062, 'Sent Items'),
+    rowTable(0x806e, [0x200084]),
+    folder(0x8082, 'Contacts'),
+    rowTable(0x808e, [0x2000a4]),
+    folder(0x80a2, 'Calendar'),
+    rowTable(0x80ae, [0x2000c4]),
+
+    // Read, flagged message with an attachment
+    {
+      nid: 0x200004,
+      data: propertyContext([
+        [Tag.MessageClass, Type.Unicode, 'IPM.Note'],
+        [Tag.Subject, Type.Unicode, 'Quarterly report'],
+        [Tag.SenderName, Type.Unicode, 'Bob Smith'],
+        [Tag.SenderAddressType, Type.Unicode, 'SMTP'],
+        [Tag.SenderEmailAddress, Type.Unicode, 'bob@example.com'],
+        [Tag.SenderSmtpAddress, Type.Unicode, 'bob@example.com'],
+        [Tag.ClientSubmitTime, Type.Time, new Date('2024-01-15T10:30:00Z')],
+        [Tag.MessageFlags, Type.Integer32, 0x01],
+        [Tag.FlagStatus, Type.Integer32, 2],
+        [Tag.MessageSize, Type.Integer32, 2048],
+        [Tag.Body, Type.Unicode, 'Please find the report attached.'],
+        [Tag.InternetMessageId, Type.Unicode, '<report@example.com>'],
+      ]),
+      subnodes: [
+        recipients([
+          [1, 'Alice Jones', 'SMTP', 'alice@example.com'],
+          [2, 'Carol White', 'SMTP', 'carol@example.com'],
+        ]),
+        { nid: 0x671, data: rowTable(0x671, [0x8025]).data },
+        {
+          nid: 0x8025,
+          data: propertyContext([
+            [Tag.AttachMethod, Type.Integer32, 1],
+            [Tag.AttachLongFilename, Type.Unicode, 'report.pdf'],
+            [Tag.AttachMimeTag, Type.Unicode, 'application/pdf'],
+            [Tag.AttachSize, Type.Integer32, PDF_DATA.length + 200],
+            [Tag.AttachDataBinary, Type.Binary, PDF_DATA],
+          ]),
+        },
+      ],
+    },
+
+    // Unread reply with an Exchange sender, an HTML body and transport headers
+    {
+      nid: 0x200024,
+      data: propertyContext([
+        [Tag.Subject, Type.Unicode, '\x01\x04RE: Lunch?'],
+        [Tag.SenderName, Type.Unicode, 'Dave Brown'],
+        [Tag.SenderAddressType, Type.Unicode, 'EX'],
+        [Tag.SenderEmailAddress, Type.Unicode, '/O=EXAMPLE/OU=FIRST/CN=RECIPIENTS/CN=DAVE'],
+        [Tag.MessageDeliveryTime, Type.Time, new Date('2024-01-16T12:00:00Z')],
+        [Tag.MessageFlags, Type.Integer32, 0],
+        [Tag.LastVerbExecuted, Type.Integer32, 102],
+        [
+          Tag.TransportMessageHeaders,
+          Type.Unicode,
+          'From: Dave Brown <dave@example.com>\r\nTo: Alice Jones <alice@example.com>\r\nSubject: RE: Lunch?\r\n' +
+            'Message-ID: <lunch@example.com>\r\nX-Mailer: Outlook\r\n\r\n',
+        ],
+        [Tag.InternetCodepage, Type.Integer32, 65001],
+        [Tag.Html, Type.Binary, Buffer.from('<p>Sure, <b>noon</b> works – see you!</p>', 'utf8')],
+      ]),
+      subnodes: [recipients([[1, 'Alice Jones', 'EX', '/O=EXAMPLE/OU=FIRST/CN=RECIPIENTS/CN=ALICE']])],
+    },
+
+    // Message whose data block is missing
+    { nid: 0x200044, data: new Uint8Array(0), broken: true },
+
+    // RTF-only body and an 8-bit subject
+    {
+      nid: 0x200064,
+      data: propertyContext([
+        [Tag.Subject, Type.String8, 'Project kickoff'],
+        [Tag.SenderSmtpAddress, Type.Unicode, 'bob@example.com'],
+        [Tag.ClientSubmitTime, Type.Time, new Date('2024-01-20T09:00:00Z')],
+        [Tag.MessageFlags, Type.Integer32, 0x01],
+        [Tag.RtfCompressed, Type.Binary, COMPRESSED_RTF],
+      ]),
+    },
+
+    // Forwarded message with To and Bcc recipients
+    {
+      nid: 0x200084,
+      data: propertyContext([
+        [Tag.Subject, Type.Unicode, 'Weekly update'],
+        [Tag.SenderName, Type.Unicode, 'Alice Jones'],
+        [Tag.SenderSmtpAddress, Type.Unicode, 'alice@example.com'],
+        [Tag.ClientSubmitTime, Type.Time, new Date('2024-01-22T08:00:00Z')],
+        [Tag.MessageFlags, Type.Integer32, 0x01],
+        [Tag.LastVerbExecuted, Type.Integer32, 104],
+        [Tag.Body, Type.Unicode, 'All on track.'],
+      ]),
+      subnodes: [
+        recipients([
+          [1, 'Carol White', 'SMTP', 'carol@example.com'],
+          [3, 'Bob Smith', 'SMTP', 'bob@example.com'],
+        ]),
+      ],
+    },
+
+    {
+      nid: 0x2000a4,
+      data: propertyContext([
+        [Tag.MessageClass, Type.Unicode, 'IPM.Contact'],
+        [Tag.DisplayName, Type.Unicode, 'Carol White'],
+        [Named.Email1EmailAddress, Type.Unicode, 'carol@example.com'],
+        [Named.Email2EmailAddress, Type.Unicode, 'carol.white@example.org'],
+        [Tag.MobileTelephoneNumber, Type.Unicode, '+1 555 0100'],
+        [Tag.BusinessTelephoneNumber, Type.Unicode, '+1 555 0199'],
+        [Tag.CompanyName, Type.Unicode, 'Example Corp'],
+        [Tag.Title, Type.Unicode, 'Engineer'],
+      ]),
+    },
+
+    {
+      nid: 0x2000c4,
+      data: propertyContext([
+        [Tag.MessageClass, Type.Unicode, 'IPM.Appointment'],
+        [Tag.Subject, Type.Unicode, 'Team meeting'],
+        [Named.AppointmentStartWhole, Type.Time, new Date('2024-02-01T15:00:00Z')],
+        [Named.AppointmentEndWhole, Type.Time, new Date('2024-02-01T16:00:00Z')],
+        [Named.Location, Type.Unicode, 'Room 101'],
+      ]),
+      subnodes: [recipients([[1, 'Alice Jones', 'SMTP', 'alice@example.com']])],
+    },
+  ];
+}
+
+describe('PSTParser', () => {
+  let unicodePST: Uint8Array;
+  let root: string;
+
+  beforeAll(() => {
+    unicodePST = buildPST(createMailbox());
+    root = mkdtempSync(join(tmpdir(), 'pst-test-'));
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('isPSTFile', () => {
+    it('should recognize .pst and .ost files', () => {
+      expect(PSTParser.isPSTFile(new File([], 'Outlook.pst'))).toBe(true);
+      expect(PSTParser.isPSTFile(new File([], 'mailbox.OST'))).toBe(true);
+      expect(PSTParser.isPSTFile(new File([], 'archive.olm'))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should read the emails of every folder', async () => {
+      const result = await new PSTParser().parse(unicodePST);
+
+      expect(result.emails.map((email) => email.subject)).toEqual([
+        'Quarterly report',
+        'RE: Lunch?',
+        'Project kickoff',
+        'Weekly update',
+      ]);
+      expect(result.stats.emailCount).toBe(4);
+    });
+
+    it('should map the folder hierarchy to folder IDs', async () => {
+      const result = await new PSTParser().parse(unicodePST);
+
+      expect(result.emails.map((email) => email.folderId)).toEqual(['inbox', 'inbox', 'inbox/projects', 'sent']);
+      expect(result.folders.map(({ id, parentId, role, emailCount }) => ({ id, parentId, role, emailCount }))).toEqual([
+        { id: 'inbox', role: 'inbox', emailCount: 2 },
+        { id: 'inbox/projects', parentId: 'inbox', emailCount: 1 },
+        { id: 'sent', role: 'sent', emailCount: 1 },
+      ]);
+    });
+
+    it('should read senders, recipients by type and dates', async () => {
+      const result = await new PSTParser().parse(unicodePST);
+      const [report, , , update] = result.emails;
+
+      expect(report).toMatchObject({
+        sender: 'bob@example.com',
+        senderName: 'Bob Smith',
+        recipients: ['alice@example.com'],
+        cc: ['carol@example.com'],
+        toAddresses: [{ name: 'Alice Jones', address: 'alice@example.com' }],
+        messageId: '<report@example.com>',
+        size: 2048,
+      });
+      expect(report.date.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+      expect(update.recipients).toEqual(['carol@example.com']);
+      expect(update.bcc).toEqual(['bob@example.com']);
+    });
+
+    it('should resolve Exchange addresses from the transport headers', async () => {
+      const result = await new PSTParser().parse(unicodePST);
+      const lunch = result.emails[1];
+
+      expect(lunch.sender).toBe('dave@example.com');
+      expect(lunch.senderName).toBe('Dave Brown');
+      expect(lunch.recipients).toEqual(['alice@example.com']);
+      expect(lunch.messageId).toBe('<lunch@example.com>');
+      expect(lunch.date.toISOString()).toBe('2024-01-16T12:00:00.000Z');
+    });
+
+    it('should read plain text, HTML and compressed RTF bodies', async () => {
+      const result = await new PSTParser().parse(unicodePST);
+      const [report, lunch, kickoff] = result.emails;
+
+      expect(report.body).toBe('Please find the report attached.');
+      expect(report.htmlBody).toBeUndefined();
+      expect(lunch.htmlBody).toBe('<p>Sure, <b>noon</b> works – see you!</p>');
+      expect(lunch.body).toBe('Sure, noon works – see you!');
+      expect(kickoff.body).toBe('hello world');
+    });
+
+    it('should map message flags onto email state', async () => {
+      const result = await new PSTParser().parse(unicodePST);
+      const [report, lunch, , update] = result.emails;
+
+      expect(report).toMatchObject({ isRead: true, isStarred: true, isReplied: false, isDraft: false });
+      expect(lunch).toMatchObject({ isRead: false, isStarred: false, isReplied: true });
+      expect(update).toMatchObject({ isRead: true, isForwarded: true });
+    });
+
+    it('should read attachment metadata, and data with includeAttachments', async () => {
+      const parser = new PSTParser();
+      const withoutData = await parser.parse(unicodePST);
+
+      expect(withoutData.emails[0].hasAttachments).toBe(true);
+      expect(withoutData.emails[0].attachments).toEqual([
+        { id: 'att-1', filename: 'report.pdf', mimeType: 'application/pdf', size: PDF_DATA.length + 200, data: undefined },
+      ]);
+
+      const withData = await parser.parse(unicodePST, { includeAttachments: true });
+      const attachment = withData.emails[0].attachments[0];
+      expect(attachment.size).toBe(PDF_DATA.length);
+      expect(Buffer.from(attachment.data!, 'base64').toString('latin1')).toBe('%PDF-1.4 test document');
+    });
+
+    it('should include transport headers with includeHeaders', async () => {
+      const parser = new PSTParser();
+
+      expect((await parser.parse(unicodePST)).emails[1].headers).toBeUndefined();
+      const result = await parser.parse(unicodePST, { includeHeaders: true });
+      expect(result.emails[1].headers).toContainEqual({ name: 'X-Mailer', value: 'Outlook' });
+    });
+
+    it('should read contacts, then sender contacts not in the address book', async () => {
+      const result = await new PSTParser().parse(unicodePST);
+
+      expect(result.contacts[0]).toMatchObject({
+        name: 'Carol White',
+        email: 'carol@example.com',
+        emails: ['carol@example.com', 'carol.white@example.org'],
+        phone: '+1 555 0100',
+        phones: ['+1 555 0100', '+1 555 0199'],
+        organization: 'Example Corp',
+        title: 'Engineer',
+      });
+      expect(result.contacts[0].tags).toBeUndefined();
+      expect(result.contacts.map((contact) => contact.email)).toEqual([
+        'carol@example.com',
+        'bob@example.com',
+        'dave@example.com',
+        'alice@example.com',
+      ]);
+      expect(result.contacts[1].emailCount).toBe(2);
+
+      const withoutSenders = await new PSTParser().parse(unicodePST, { extractContacts: false });
+      expect(withoutSenders.contacts.map((contact) => contact.email)).toEqual(['carol@example.com']);
+    });
+
+    it('should read calendar events', async () => {
+      const result = await new PSTParser().parse(unicodePST);
+
+      expect(result.calendarEvents).toHaveLength(1);
+      expect(result.calendarEvents[0]).toMatchObject({
+        title: 'Team meeting',
+        location: 'Room 101',
+        attendees: ['alice@example.com'],
+        isAllDay: false,
+      });
+      expect(result.calendarEvents[0].startDate.toISOString()).toBe('2024-02-01T15:00:00.000Z');
+      expect(result.calendarEvents[0].endDate.toISOString()).toBe('2024-02-01T16:00:00.000Z');
+    });
+
+    it('should report unreadable messages as diagnostics and keep going', async () => {
+      const result = await new PSTParser().parse(unicodePST);
+
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0]).toMatchObject({
+        severity: 'error',
+        code: 'message_parse_failed',
+        location: { path: 'Inbox' },
+      });
+    });
+
+    it('should read ANSI files and compressible encryption', async () => {
+      const parser = new PSTParser();
+      const expected = await parser.parse(unicodePST);
+
+      for (const options of [{ ansi: true }, { encrypt: true }, { ansi: true, encrypt: true }]) {
+        const result = await parser.parse(buildPST(createMailbox(), options));
+        expect(result.emails).toEqual(expected.emails);
+        expect(result.contacts.map((contact) => contact.email)).toEqual(
+          expected.contacts.map((contact) => contact.email)
+        );
+        expect(result.calendarEvents).toEqual(expected.calendarEvents);
+      }
+    });
+
+    it('should read from a file path and a Blob', async () => {
+      const path = join(root, 'Outlook.pst');
+      writeFileSync(path, unicodePST);
+      const parser = new PSTParser();
+
+      expect((await parser.parseFile(path)).stats.emailCount).toBe(4);
+      expect((await parser.parse(new Blob([unicodePST.slice()]))).stats.emailCount).toBe(4);
+    });
+
+    it('should reject files that are not PSTs', async () => {
+      await expect(new PSTParser().parse(Buffer.from('From: someone@example.com\n\nHello'))).rejects.toThrow(
+        'Failed to parse PST file'
+      );
+    });
+
+    it('should report progress', async () => {
+      const stages: ParseProgress['stage'][] = [];
+      await new PSTParser().parse(unicodePST, { onProgress: (p) => stages.push(p.stage) });
+
+      expect(stages[0]).toBe('extracting');
+      expect(stages).toContain('parsing_emails');
+      expect(stages).toContain('parsing_contacts');
+      expect(stages).toContain('parsing_calendar');
+      expect(stages[stages.length - 1]).toBe('complete');
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController();
+
+      await expect(
+        new PSTParser().parse(unicodePST, {
+          signal: controller.signal,
+          onProgress: (p) => p.stage === 'parsing_emails' && controller.abort(),
+        })
+      ).rejects.toBeInstanceOf(ParseAbortedError);
+    });
+  });
+});
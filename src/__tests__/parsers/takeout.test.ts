@@ -0,0 +1,346 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import JSZip from 'jszip';
+import { TakeoutParser } from '../../parsers/takeout';
+import { detectArchiveFormat } from '../../parsers/format';
+import { ParseAbortedError } from '../../errors';
+import { parseArchive } from '../../index';
+
+const mbox = [
+  'From 1789000000000000001@xxx Mon Jan 15 10:30:00 +0000 2024',
+  'X-GM-THRID: 1789000000000000001',
+  'X-Gmail-Labels: Inbox,Important,Receipts',
+  'From: "Alice Example" <alice@example.com>',
+  'To: me@gmail.com',
+  'Subject: Lunch',
+  'Date: Mon, 15 Jan 2024 10:30:00 +0000',
+  '',
+  'Lunch on Friday?',
+  '',
+  'From 1789000000000000002@xxx Tue Jan 16 09:00:00 +0000 2024',
+  'X-Gmail-Labels: Sent',
+  'From: me@gmail.com',
+  'To: bob@example.com',
+  'Subject: Report',
+  'Date: Tue, 16 Jan 2024 09:00:00 +0000',
+  '',
+  'Attached.',
+  '',
+].join('\n');
+
+const vCards = [
+  'BEGIN:VCARD',
+  'VERSION:3.0',
+  'FN:Alice Example',
+  'N:Example;Alice;;;',
+  'EMAIL;TYPE=INTERNET:alice@example.com',
+  'TEL;TYPE=CELL:+1 555 0100',
+  'CATEGORIES:myContacts,Friends',
+  'END:VCARD',
+  'BEGIN:VCARD',
+  'VERSION:3.0',
+  'N:Builder;Bob;;;',
+  'item1.EMAIL;TYPE=INTERNET:bob@example.com',
+  'NOTE:Met at the conference\\, 2023',
+  'END:VCARD',
+  '',
+].join('\r\n');
+
+const calendar = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Google Inc//Google Calendar 70.9054//EN',
+  'BEGIN:VEVENT',
+  'DTSTART:20240120T150000Z',
+  'DTEND:20240120T160000Z',
+  'SUMMARY:Team sync',
+  'LOCATION:Room 4',
+  'DESCRIPTION:Agenda:\\n- status',
+  'ORGANIZER;CN=Alice:mailto:alice@example.com',
+  'ATTENDEE;CN=Bob;PARTSTAT=ACCEPTED:mailto:bob@example.com',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'DESCRIPTION:Reminder',
+  'TRIGGER:-P0DT0H10M0S',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20240214',
+  'SUMMARY:Holiday',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+async function createTakeout(): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('Takeout/archive_browser.html', '<html></html>');
+  zip.file('Takeout/Mail/All mail Including Spam and Trash.mbox', mbox);
+  zip.file('Takeout/Contacts/My Contacts/My Contacts.vcf', vCards);
+  // Google exports a contact once per group it belongs to
+  zip.file('Takeout/Contacts/Friends/Friends.vcf', vCards.split('\r\nBEGIN:VCARD')[0] + '\r\n');
+  zip.file('Takeout/Calendar/me@gmail.com.ics', calendar);
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+interface RawEntry {
+  name: string;
+  data: string;
+  /** Compression method to record (the data is always stored as is) */
+  method?: number;
+}
+
+/**
+ * Build a ZIP64 archive by hand: every size and offset in the central
+ * directory is moved to the ZIP64 extra field, as in multi-gigabyte Takeouts
+ */
+function createZip64(entries: RawEntry[]): Uint8Array<ArrayBuffer> {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = Buffer.from(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(45, 4);
+    local.writeUInt16LE(entry.method ?? 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    parts.push(local, name, data);
+
+    const extra = Buffer.alloc(28);
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(24, 2);
+    extra.writeBigUInt64LE(BigInt(data.length), 4);
+    extra.writeBigUInt64LE(BigInt(data.length), 12);
+    extra.writeBigUInt64LE(BigInt(offset), 20);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(45, 4);
+    header.writeUInt16LE(45, 6);
+    header.writeUInt16LE(entry.method ?? 0, 10);
+    header.writeUInt32LE(0xffffffff, 20);
+    header.writeUInt32LE(0xffffffff, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt32LE(0xffffffff, 42);
+    central.push(header, name, extra);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const zip64End = Buffer.alloc(56);
+  zip64End.writeUInt32LE(0x06064b50, 0);
+  zip64End.writeBigUInt64LE(44n, 4);
+  zip64End.writeBigUInt64LE(BigInt(entries.length), 24);
+  zip64End.writeBigUInt64LE(BigInt(entries.length), 32);
+  zip64End.writeBigUInt64LE(BigInt(directory.length), 40);
+  zip64End.writeBigUInt64LE(BigInt(offset), 48);
+
+  const locator = Buffer.alloc(20);
+  locator.writeUInt32LE(0x07064b50, 0);
+  locator.writeBigUInt64LE(BigInt(offset + directory.length), 8);
+  locator.writeUInt32LE(1, 16);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(0xffff, 8);
+  end.writeUInt16LE(0xffff, 10);
+  end.writeUInt32LE(0xffffffff, 12);
+  end.writeUInt32LE(0xffffffff, 16);
+
+  return new Uint8Array(Buffer.concat([...parts, directory, zip64End, locator, end]));
+}
+
+describe('TakeoutParser', () => {
+  describe('isTakeoutFile', () => {
+    it('should return true for Takeout downloads', () => {
+      expect(TakeoutParser.isTakeoutFile(new File([], 'takeout-20240115T103000Z-001.zip'))).toBe(true);
+    });
+
+    it('should return false for other files', () => {
+      expect(TakeoutParser.isTakeoutFile(new File([], 'photos.zip'))).toBe(false);
+      expect(TakeoutParser.isTakeoutFile(new File([], 'archive.mbox'))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse Gmail with labels', async () => {
+      const result = await new TakeoutParser().parse(await createTakeout());
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['Lunch', 'Report']);
+      expect(result.emails[0].labels).toEqual(['inbox', 'important', 'receipts']);
+      expect(result.emails[0].folderId).toBe('inbox');
+      expect(result.emails[1].folderId).toBe('sent');
+      expect(result.emails[0].folderIds).toEqual(['inbox', 'receipts']);
+      expect(result.folders).toEqual([
+        { id: 'inbox', name: 'Inbox', path: 'Inbox', role: 'inbox', emailCount: 1 },
+        { id: 'receipts', name: 'receipts', path: 'receipts', emailCount: 1 },
+        { id: 'sent', name: 'Sent', path: 'Sent', role: 'sent', emailCount: 1 },
+      ]);
+      expect(result.stats.emailCount).toBe(2);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should read contacts from vCards once each, merged with their sender stats, then other senders', async () => {
+      const result = await new TakeoutParser().parse(await createTakeout());
+
+      expect(result.contacts.map((contact) => contact.email)).toEqual([
+        'alice@example.com',
+        'bob@example.com',
+        'me@gmail.com',
+      ]);
+      expect(result.contacts[0]).toMatchObject({
+        name: 'Alice Example',
+        phone: '+1 555 0100',
+        tags: ['myContacts', 'Friends'],
+        emailCount: 1,
+        lastEmailDate: new Date('2024-01-15T10:30:00Z'),
+      });
+      expect(result.contacts[1]).toMatchObject({ name: 'Bob Builder', notes: 'Met at the conference, 2023' });
+      expect(result.contacts[2].emailCount).toBe(1);
+      expect(result.stats.contactCount).toBe(3);
+    });
+
+    it('should skip sender contacts when extractContacts is false', async () => {
+      const result = await new TakeoutParser().parse(await createTakeout(), { extractContacts: false });
+
+      expect(result.contacts.map((contact) => contact.email)).toEqual(['alice@example.com', 'bob@example.com']);
+    });
+
+    it('should read calendar events from iCalendar files', async () => {
+      const result = await new TakeoutParser().parse(await createTakeout());
+
+      expect(result.calendarEvents).toHaveLength(2);
+      expect(result.calendarEvents[0]).toMatchObject({
+        title: 'Team sync',
+        startDate: new Date('2024-01-20T15:00:00Z'),
+        endDate: new Date('2024-01-20T16:00:00Z'),
+        location: 'Room 4',
+        description: 'Agenda:\n- status',
+        attendees: ['bob@example.com'],
+        isAllDay: false,
+        reminder: true,
+      });
+      expect(result.calendarEvents[1]).toMatchObject({
+        title: 'Holiday',
+        startDate: new Date(2024, 1, 14),
+        endDate: new Date(2024, 1, 15),
+        isAllDay: true,
+        reminder: false,
+      });
+      expect(result.stats.calendarEventCount).toBe(2);
+    });
+
+    it('should inflate entries with zlib where DecompressionStream lacks deflate-raw', async () => {
+      // Node.js 18 rejects the format, as this stand-in does
+      vi.stubGlobal(
+        'DecompressionStream',
+        class {
+          constructor() {
+            throw new TypeError("The argument 'format' is invalid");
+          }
+        }
+      );
+      try {
+        const result = await new TakeoutParser().parse(await createTakeout());
+
+        expect(result.emails.map((email) => email.subject)).toEqual(['Lunch', 'Report']);
+        expect(result.contacts).toHaveLength(3);
+        expect(result.calendarEvents).toHaveLength(2);
+        expect(result.diagnostics).toEqual([]);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should read ZIP64 archives', async () => {
+      const zip = createZip64([
+        { name: 'Takeout/Mail/Inbox.mbox', data: mbox },
+        { name: 'Takeout/Calendar/me@gmail.com.ics', data: calendar },
+      ]);
+
+      const result = await new TakeoutParser().parse(new Blob([zip]));
+
+      expect(result.emails.map((email) => email.subject)).toEqual(['Lunch', 'Report']);
+      expect(result.calendarEvents).toHaveLength(2);
+    });
+
+    it('should report a mailbox that fails to inflate and keep going', async () => {
+      const zip = createZip64([
+        { name: 'Takeout/Mail/Broken.mbox', data: 'not deflate data', method: 8 },
+        { name: 'Takeout/Contacts/All Contacts/All Contacts.vcf', data: vCards },
+      ]);
+
+      const result = await new TakeoutParser().parse(zip);
+
+      expect(result.emails).toEqual([]);
+      expect(result.contacts).toHaveLength(2);
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0]).toMatchObject({
+        severity: 'error',
+        code: 'entry_read_failed',
+        location: { path: 'Takeout/Mail/Broken.mbox' },
+      });
+    });
+
+    it('should reject input that is not a ZIP archive', async () => {
+      await expect(new TakeoutParser().parse(Buffer.from(mbox))).rejects.toThrow('Failed to parse Takeout archive');
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        new TakeoutParser().parse(await createTakeout(), { signal: controller.signal })
+      ).rejects.toBeInstanceOf(ParseAbortedError);
+    });
+
+    it('should report progress through every stage', async () => {
+      const stages = new Set<string>();
+      await new TakeoutParser().parse(await createTakeout(), {
+        onProgress: (progress) => stages.add(progress.stage),
+      });
+
+      expect([...stages]).toEqual(['extracting', 'parsing_emails', 'parsing_contacts', 'parsing_calendar', 'complete']);
+    });
+  });
+
+  describe('parseFile', () => {
+    it('should parse a Takeout archive from disk', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'takeout-test-'));
+      try {
+        const filePath = join(dir, 'takeout-20240115T103000Z-001.zip');
+        writeFileSync(filePath, await createTakeout());
+
+        const result = await new TakeoutParser().parseFile(filePath);
+
+        expect(result.emails).toHaveLength(2);
+        expect(result.contacts).toHaveLength(3);
+        expect(result.calendarEvents).toHaveLength(2);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('parseArchive', () => {
+    it('should auto-detect Takeout archives', async () => {
+      const buffer = await createTakeout();
+
+      expect(await detectArchiveFormat(buffer)).toBe('takeout');
+      const result = await parseArchive(buffer);
+      expect(result.emails).toHaveLength(2);
+      expect(result.calendarEvents).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { VCardParser } from '../../parsers/vcard';
+import { detectArchiveFormat } from '../../parsers/format';
+import { ParseAbortedError } from '../../errors';
+import { parseArchive, mergeContacts } from '../../index';
+import type { Contact } from '../../types';
+
+// iPhone/iCloud style vCard 3.0
+const iCloudCard = [
+  'BEGIN:VCARD',
+  'VERSION:3.0',
+  'PRODID:-//Apple Inc.//iPhone OS 17.2//EN',
+  'N:Appleseed;Johnny;Q;Dr.;',
+  'FN:Johnny Appleseed',
+  'ORG:Apple Inc.;Engineering',
+  'TITLE:Software Engineer',
+  'item1.EMAIL;type=INTERNET;type=HOME:johnny@example.com',
+  'item2.EMAIL;type=INTERNET;type=WORK;type=pref:JAppleseed@Apple.com',
+  'TEL;type=CELL;type=VOICE;type=pref:+1 (408) 555-0100',
+  'TEL;type=WORK;type=VOICE:+1 (408) 555-0199',
+  'item3.ADR;type=WORK;type=pref:;;1 Apple Park Way;Cupertino;CA;95014;United States',
+  'item3.X-ABADR:us',
+  'ADR;type=HOME:PO Box 12;Apt 4;12 Orchard\\, Lane;Springfield;OR;97477;',
+  'NOTE:Met at WWDC.\\nLikes apples\\; and pears.',
+  'CATEGORIES:Work,VIP',
+  'PHOTO;ENCODING=b;TYPE=JPEG:/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkS',
+  ' Ew8UHRofHh0aHBwgJC4nICIsIxwcKDcpLDAxNDQ0Hyc5PTgyPC4zNDL/wAALCAABAAEBAREA',
+  'END:VCARD',
+  '',
+].join('\r\n');
+
+// Android style vCard 2.1 with quoted-printable soft line breaks and a non-UTF-8 charset
+const androidCard = Buffer.concat([
+  Buffer.from(
+    [
+      'BEGIN:VCARD',
+      'VERSION:2.1',
+      'N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:M=C3=BCller;J=C3=BCrgen;;;',
+      'FN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:J=C3=BCrgen M=C3=BCller',
+      'TEL;CELL:+49 151 2345678',
+      'TEL;HOME;PREF:+49 30 1234567',
+      'EMAIL;HOME:juergen@example.de',
+      'NOTE;ENCODING=QUOTED-PRINTABLE:A long note that was wrapped =',
+      'by the phone',
+      '',
+    ].join('\r\n')
+  ),
+  Buffer.from('ADR;WORK;CHARSET=ISO-8859-1:;;Stra'),
+  Buffer.from([0xdf]),
+  Buffer.from('e 1;K'),
+  Buffer.from([0xf6]),
+  Buffer.from('ln;;50667;Deutschland\r\nEND:VCARD\r\n'),
+]);
+
+// vCard 4.0 with PREF parameters and URIs
+const v4Card = [
+  'BEGIN:VCARD',
+  'VERSION:4.0',
+  'FN:Simon Perreault',
+  'N:Perreault;Simon;;;ing. jr,M.Sc.',
+  'EMAIL;TYPE=work:simon.perreault@viagenie.ca',
+  'EMAIL;PREF=1;TYPE=home:simon@example.org',
+  'TEL;VALUE=uri;TYPE="voice,cell";PREF=1:tel:+1-418-262-6501',
+  'PHOTO:https://www.example.com/pub/photos/jqpublic.gif',
+  'END:VCARD',
+  '',
+].join('\r\n');
+
+describe('VCardParser', () => {
+  describe('isVCardFile', () => {
+    it('should return true for .vcf files and vCard MIME types', () => {
+      expect(VCardParser.isVCardFile(new File([], 'contacts.VCF'))).toBe(true);
+      expect(VCardParser.isVCardFile(new File([], 'export', { type: 'text/vcard' }))).toBe(true);
+      expect(VCardParser.isVCardFile(new File([], 'export', { type: 'text/x-vcard' }))).toBe(true);
+    });
+
+    it('should return false for other files', () => {
+      expect(VCardParser.isVCardFile(new File([], 'calendar.ics'))).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should read a vCard 3.0 contact with multiple emails, phones and addresses', async () => {
+      const result = await new VCardParser().parse(Buffer.from(iCloudCard));
+
+      expect(result.contacts).toHaveLength(1);
+      expect(result.contacts[0]).toMatchObject({
+        name: 'Johnny Appleseed',
+        email: 'jappleseed@apple.com',
+        emails: ['jappleseed@apple.com', 'johnny@example.com'],
+        phone: '+1 (408) 555-0100',
+        phones: ['+1 (408) 555-0100', '+1 (408) 555-0199'],
+        organization: 'Apple Inc., Engineering',
+        title: 'Software Engineer',
+        notes: 'Met at WWDC.\nLikes apples; and pears.',
+        tags: ['Work', 'VIP'],
+        emailCount: 0,
+      });
+      expect(result.contacts[0].addresses).toEqual([
+        { type: 'work', street: '1 Apple Park Way', city: 'Cupertino', region: 'CA', postalCode: '95014', country: 'United States' },
+        { type: 'home', street: 'PO Box 12\nApt 4\n12 Orchard, Lane', city: 'Springfield', region: 'OR', postalCode: '97477', country: undefined },
+      ]);
+      expect(result.contacts[0].photo).toBe(
+        'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8UHRofHh0aHBwgJC4nICIsIxwcKDcpLDAxNDQ0Hyc5PTgyPC4zNDL/wAALCAABAAEBAREA'
+      );
+      expect(result.stats.contactCount).toBe(1);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should decode vCard 2.1 quoted-printable values and charsets', async () => {
+      const result = await new VCardParser().parse(androidCard);
+
+      expect(result.contacts[0]).toMatchObject({
+        name: 'Jürgen Müller',
+        email: 'juergen@example.de',
+        phone: '+49 30 1234567',
+        phones: ['+49 30 1234567', '+49 151 2345678'],
+        notes: 'A long note that was wrapped by the phone',
+        addresses: [{ type: 'work', street: 'Straße 1', city: 'Köln', postalCode: '50667', country: 'Deutschland' }],
+      });
+    });
+
+    it('should honour vCard 4.0 PREF parameters and URI values', async () => {
+      const result = await new VCardParser().parse(Buffer.from(v4Card));
+
+      expect(result.contacts[0]).toMatchObject({
+        name: 'Simon Perreault',
+        email: 'simon@example.org',
+        emails: ['simon@example.org', 'simon.perreault@viagenie.ca'],
+        phone: '+1-418-262-6501',
+        photo: 'https://www.example.com/pub/photos/jqpublic.gif',
+      });
+    });
+
+    it('should build the name from N, ORG or the email address when FN is missing', async () => {
+      const text = [
+        'BEGIN:VCARD', 'VERSION:3.0', 'N:Doe;Jane;;;', 'END:VCARD',
+        'BEGIN:VCARD', 'VERSION:3.0', 'ORG:Acme Corp', 'TEL:555-0100', 'END:VCARD',
+        'BEGIN:VCARD', 'VERSION:3.0', 'EMAIL:support@example.com', 'END:VCARD',
+        'BEGIN:VCARD', 'VERSION:3.0', 'TEL:555-0199', 'END:VCARD',
+      ].join('\n');
+
+      const result = await new VCardParser().parse(Buffer.from(text));
+
+      expect(result.contacts.map((contact) => contact.name)).toEqual(['Jane Doe', 'Acme Corp', 'support']);
+    });
+
+    it('should parse several files', async () => {
+      const result = await new VCardParser().parse([
+        new File([iCloudCard], 'icloud.vcf'),
+        Buffer.from(v4Card),
+      ]);
+
+      expect(result.contacts.map((contact) => contact.name)).toEqual(['Johnny Appleseed', 'Simon Perreault']);
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        new VCardParser().parse(Buffer.from(iCloudCard), { signal: controller.signal })
+      ).rejects.toBeInstanceOf(ParseAbortedError);
+    });
+  });
+
+  describe('parseFile', () => {
+    it('should parse a vCard file from disk', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'vcard-test-'));
+      try {
+        const filePath = join(dir, 'contacts.vcf');
+        writeFileSync(filePath, iCloudCard + v4Card);
+
+        const result = await new VCardParser().parseFile(filePath);
+
+        expect(result.contacts).toHaveLength(2);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('parseArchive', () => {
+    it('should auto-detect vCard files', async () => {
+      const buffer = Buffer.from(v4Card);
+
+      expect(await detectArchiveFormat(buffer)).toBe('vcard');
+      const result = await parseArchive(buffer);
+      expect(result.contacts).toHaveLength(1);
+      expect(result.emails).toEqual([]);
+    });
+  });
+});
+
+describe('mergeContacts', () => {
+  const sender = (email: string, emailCount: number, lastEmailDate: Date): Contact => ({
+    name: email.split('@')[0],
+    email,
+    emailCount,
+    lastEmailDate,
+  });
+
+  it('should merge sender stats into saved contacts by any of their addresses', async () => {
+    const saved = (await new VCardParser().parse(Buffer.from(iCloudCard))).contacts;
+    const senders = [
+      sender('johnny@example.com', 3, new Date('2024-01-10')),
+      sender('jappleseed@apple.com', 2, new Date('2024-02-01')),
+      sender('other@example.com', 1, new Date('2024-01-01')),
+    ];
+
+    const merged = mergeContacts(saved, senders);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({
+      name: 'Johnny Appleseed',
+      organization: 'Apple Inc., Engineering',
+      emailCount: 5,
+      lastEmailDate: new Date('2024-02-01'),
+    });
+    expect(merged[1].email).toBe('other@example.com');
+  });
+
+  it('should fill in missing details and keep contacts without an email', () => {
+    const noEmail: Contact = { name: 'Landline', email: '', phone: '555-0100', emailCount: 0, lastEmailDate: new Date() };
+    const a: Contact = { name: 'Ann', email: 'ann@example.com', emailCount: 0, lastEmailDate: new Date(), tags: ['a'] };
+    const b: Contact = {
+      name: 'Ann B.',
+      email: 'ANN@example.com',
+      phone: '555-0142',
+      emailCount: 0,
+      lastEmailDate: new Date(),
+      tags: ['b'],
+    };
+
+    const merged = mergeContacts([noEmail, a], [b]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[1]).toMatchObject({ name: 'Ann', phone: '555-0142', tags: ['a', 'b'] });
+    // Inputs are left untouched
+    expect(a.phone).toBeUndefined();
+  });
+});
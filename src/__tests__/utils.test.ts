@@ -10,6 +10,10 @@ import {
   parseDate,
   decodeQuotedPrintable,
   decodeHeaderValue,
+  decodeBytes,
+  parseAddressList,
+  getHeader,
+  getHeaderValues,
   formatDomainAsName,
 } from '../utils';
 
@@ -242,12 +246,19 @@ describe('decodeQuotedPrintable', () => {
   });
 
   it('should decode multiple encoded chars', () => {
-    // Note: decodeQuotedPrintable converts hex to single bytes, not UTF-8 sequences
-    // =C3=A9 is UTF-8 for 'é', but the function decodes each byte individually
     expect(decodeQuotedPrintable('=3D')).toBe('=');
     expect(decodeQuotedPrintable('=20')).toBe(' ');
   });
 
+  it('should decode multi-byte UTF-8 sequences', () => {
+    expect(decodeQuotedPrintable('caf=C3=A9')).toBe('café');
+  });
+
+  it('should decode bytes using the given charset', () => {
+    expect(decodeQuotedPrintable('caf=E9', 'iso-8859-1')).toBe('café');
+    expect(decodeQuotedPrintable('=CF=F0=E8=E2=E5=F2', 'windows-1251')).toBe('Привет');
+  });
+
   it('should pass through unencoded text', () => {
     expect(decodeQuotedPrintable('Plain text')).toBe('Plain text');
   });
@@ -270,9 +281,111 @@ describe('decodeHeaderValue', () => {
   });
 
   it('should handle multiple encoded parts', () => {
-    const result = decodeHeaderValue('=?UTF-8?B?SGVsbG8=?= =?UTF-8?B?V29ybGQ=?=');
+    const result = decodeHeaderValue('=?UTF-8?B?SGVsbG8=?= =?UTF-8?B?IFdvcmxk?=');
     expect(result).toBe('Hello World');
   });
+
+  it('should drop whitespace between adjacent encoded words', () => {
+    expect(decodeHeaderValue('=?UTF-8?Q?Caf=C3=A9?= =?UTF-8?Q?_bar?=')).toBe('Café bar');
+    expect(decodeHeaderValue('=?UTF-8?B?SGVsbG8=?=\r\n =?UTF-8?B?V29ybGQ=?=')).toBe('HelloWorld');
+    expect(decodeHeaderValue('Re: =?UTF-8?Q?Caf=C3=A9?= menu')).toBe('Re: Café menu');
+  });
+
+  it('should decode a character split across two encoded words', () => {
+    expect(decodeHeaderValue('=?UTF-8?B?5pel5g==?= =?UTF-8?B?nKzoqp4=?=')).toBe('日本語');
+    expect(decodeHeaderValue('=?UTF-8?Q?=E6=97?= =?utf-8?Q?=A5?=')).toBe('日');
+  });
+
+  it('should decode UTF-8 Base64 words without mojibake', () => {
+    expect(decodeHeaderValue('=?UTF-8?B?w6k=?=')).toBe('é');
+  });
+
+  it('should honor the declared charset', () => {
+    expect(decodeHeaderValue('=?ISO-8859-1?Q?caf=E9?=')).toBe('café');
+    expect(decodeHeaderValue('=?Shift_JIS?B?k/qWe4zq?=')).toBe('日本語');
+    expect(decodeHeaderValue('=?koi8-r?Q?=F0=D2=C9=D7=C5=D4?=')).toBe('Привет');
+  });
+
+  it('should use the fallback charset for unsupported charsets', () => {
+    expect(decodeHeaderValue('=?x-unknown?Q?caf=E9?=', 'iso-8859-1')).toBe('café');
+  });
+});
+
+describe('decodeBytes', () => {
+  it('should decode East Asian charsets', () => {
+    expect(decodeBytes(Buffer.from('1tDOxA==', 'base64'), 'gb2312')).toBe('中文');
+    expect(decodeBytes(Buffer.from('pKSk5Q==', 'base64'), 'big5')).toBe('中文');
+    expect(decodeBytes(Buffer.from('x9Gxub7u', 'base64'), 'euc-kr')).toBe('한국어');
+  });
+
+  it('should decode undeclared UTF-8', () => {
+    expect(decodeBytes(Buffer.from('café'))).toBe('café');
+  });
+
+  it('should fall back for undeclared non-UTF-8 bytes', () => {
+    expect(decodeBytes(new Uint8Array([0x63, 0x61, 0x66, 0xe9]))).toBe('café');
+    expect(decodeBytes(new Uint8Array([0xf0, 0xd2]), undefined, 'koi8-r')).toBe('Пр');
+  });
+});
+
+describe('parseAddressList', () => {
+  it('should return empty array for empty input', () => {
+    expect(parseAddressList('')).toEqual([]);
+  });
+
+  it('should keep quoted display names containing commas', () => {
+    expect(parseAddressList('"Doe, John" <John@Example.com>, jane@example.com')).toEqual([
+      { name: 'Doe, John', address: 'john@example.com' },
+      { name: undefined, address: 'jane@example.com' },
+    ]);
+  });
+
+  it('should use comments as display names', () => {
+    expect(parseAddressList('john@example.com (John Doe)')).toEqual([
+      { name: 'John Doe', address: 'john@example.com' },
+    ]);
+  });
+
+  it('should expand groups and skip empty ones', () => {
+    expect(parseAddressList('undisclosed-recipients:;')).toEqual([]);
+    expect(
+      parseAddressList('Team: a@example.com, "B" <b@example.com>;, c@example.com').map((a) => a.address)
+    ).toEqual(['a@example.com', 'b@example.com', 'c@example.com']);
+  });
+
+  it('should accept semicolon separators', () => {
+    expect(parseAddressList('a@example.com; b@example.com').map((a) => a.address)).toEqual([
+      'a@example.com',
+      'b@example.com',
+    ]);
+  });
+
+  it('should decode encoded display names after splitting', () => {
+    // "Doe, Jane" encoded - the comma must not split the entry
+    expect(parseAddressList('=?UTF-8?B?RG9lLCBKYW5l?= <jane@example.com>')).toEqual([
+      { name: 'Doe, Jane', address: 'jane@example.com' },
+    ]);
+  });
+});
+
+describe('getHeader / getHeaderValues', () => {
+  const headers = [
+    { name: 'Received', value: 'from a' },
+    { name: 'X-Mailer', value: 'Mailer' },
+    { name: 'received', value: 'from b' },
+  ];
+
+  it('should look up headers case-insensitively', () => {
+    expect(getHeader(headers, 'x-mailer')).toBe('Mailer');
+    expect(getHeader(headers, 'RECEIVED')).toBe('from a');
+    expect(getHeader(headers, 'Subject')).toBeUndefined();
+    expect(getHeader(undefined, 'Subject')).toBeUndefined();
+  });
+
+  it('should return every value in order', () => {
+    expect(getHeaderValues(headers, 'Received')).toEqual(['from a', 'from b']);
+    expect(getHeaderValues(headers, 'Subject')).toEqual([]);
+  });
 });
 
 describe('formatDomainAsName', () => {
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { formatMessage, formatMboxEntry } from '../../writers/mime';
+import { MBOXParser } from '../../parsers/mbox';
+import type { Email } from '../../types';
+
+function createEmail(overrides: Partial<Email> = {}): Email {
+  return {
+    subject: 'Hello',
+    sender: 'sender@example.com',
+    senderName: 'Sender',
+    recipients: ['recipient@example.com'],
+    date: new Date('2024-01-15T10:30:00Z'),
+    body: 'Plain body',
+    attachments: [],
+    size: 0,
+    isRead: true,
+    isStarred: false,
+    folderId: 'inbox',
+    ...overrides,
+  };
+}
+
+describe('formatMessage', () => {
+  it('should write headers with CRLF line endings', () => {
+    const message = formatMessage(createEmail({ messageId: '<abc@example.com>' }));
+
+    expect(message).toContain('From: "Sender" <sender@example.com>\r\n');
+    expect(message).toContain('Date: Mon, 15 Jan 2024 10:30:00 +0000\r\n');
+    expect(message).toContain('Message-ID: <abc@example.com>\r\n');
+    expect(message).not.toMatch(/[^\r]\n/);
+  });
+
+  it('should write the reply headers', () => {
+    const message = formatMessage(
+      createEmail({ inReplyTo: '<b@example.com>', references: ['<a@example.com>', '<b@example.com>'] })
+    );
+
+    expect(message).toContain('In-Reply-To: <b@example.com>\r\n');
+    expect(message).toContain('References: <a@example.com> <b@example.com>\r\n');
+  });
+
+  it('should round-trip non-ASCII text, HTML and attachments through the MBOX parser', async () => {
+    const email = createEmail({
+      subject: 'Grüße',
+      body: 'Schöne Grüße',
+      htmlBody: '<p>Schöne Grüße</p>',
+      attachments: [
+        { id: 'att-1', filename: 'hello.txt', mimeType: 'text/plain', size: 5, data: 'aGVsbG8=' },
+      ],
+    });
+
+    const mbox = formatMboxEntry(email);
+    const [parsed] = (await new MBOXParser().parse(Buffer.from(mbox), { includeAttachments: true })).emails;
+
+    expect(parsed.subject).toBe('Grüße');
+    expect(parsed.body).toBe('Schöne Grüße');
+    expect(parsed.htmlBody).toContain('<p>Schöne Grüße</p>');
+    expect(parsed.attachments).toHaveLength(1);
+    expect(parsed.attachments[0]).toMatchObject({ filename: 'hello.txt', size: 5, data: 'aGVsbG8=' });
+  });
+});
+
+describe('formatMboxEntry', () => {
+  it('should quote From lines in the body', () => {
+    const entry = formatMboxEntry(createEmail({ body: 'From here\n>From there' }));
+
+    expect(entry.startsWith('From sender@example.com Mon Jan 15 10:30:00 2024\n')).toBe(true);
+    expect(entry).toContain('\n>From here\n>>From there\n');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * OLM Parser - CLI Argument Parsing
+ * @packageDocumentation
+ */
+
+/**
+ * Flags a command accepts
+ * @internal
+ */
+export interface FlagSpec {
+  /** Flags without a value, e.g. `--json` */
+  boolean: string[];
+  /** Flags that take a value, e.g. `--to mbox` or `--to=mbox` */
+  string: string[];
+}
+
+/**
+ * Parsed command-line arguments
+ * @internal
+ */
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+/** Short aliases for common flags */
+const ALIASES: Record<string, string> = {
+  h: 'help',
+  o: 'out',
+  q: 'quiet',
+};
+
+/**
+ * Thrown for invalid command-line usage (exit code 2)
+ * @internal
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Parse arguments against a flag spec
+ * @param argv - Arguments after the command name
+ * @param spec - Flags the command accepts (`help` is always accepted)
+ * @throws UsageError for unknown flags or missing values
+ * @internal
+ */
+export function parseArgs(argv: string[], spec: FlagSpec): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (!arg.startsWith('-') || arg === '-') {
+      positionals.push(arg);
+      continue;
+    }
+
+    const match = arg.match(/^--?([^=]+)(?:=(.*))?$/);
+    const name = match ? ALIASES[match[1]] ?? match[1] : arg;
+    const inlineValue = match?.[2];
+
+    if (name === 'help' || spec.boolean.includes(name)) {
+      if (inlineValue !== undefined) {
+        throw new UsageError(`Option --${name} does not take a value`);
+      }
+      flags[name] = true;
+    } else if (spec.string.includes(name)) {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined) {
+        throw new UsageError(`Option --${name} requires a value`);
+      }
+      flags[name] = value;
+    } else {
+      throw new UsageError(`Unknown option ${arg}`);
+    }
+  }
+
+  return { positionals, flags };
+}
@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+/**
+ * OLM Parser - CLI Entry Point
+ * @packageDocumentation
+ */
+
+import { runCli } from './index';
+
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+// Stop quietly when the reader goes away (e.g. piped into `head`)
+process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+  if (error.code !== 'EPIPE') throw error;
+  process.exit(0);
+});
+
+runCli(process.argv.slice(2), undefined, controller.signal).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,652 @@
+/**
+ * OLM Parser - Command-Line Interface
+ * @packageDocumentation
+ */
+
+import { OLMParser } from '../parsers/olm';
+import { PSTParser } from '../parsers/pst';
+import { MSGParser } from '../parsers/msg';
+import { MBOXParser } from '../parsers/mbox';
+import { TakeoutParser } from '../parsers/takeout';
+import { VCardParser } from '../parsers/vcard';
+import { ICalendarParser } from '../parsers/ical';
+import { EMLParser } from '../parsers/eml';
+import { MaildirParser } from '../parsers/maildir';
+import { detectArchiveFormat, formatFromFileName } from '../parsers/format';
+import { AccountDetector } from '../detectors/account';
+import { PurchaseDetector } from '../detectors/purchase';
+import { SubscriptionDetector } from '../detectors/subscription';
+import { NewsletterDetector } from '../detectors/newsletter';
+import { ParseAbortedError } from '../errors';
+import { formatMessage, formatMboxEntry } from '../writers/mime';
+import { parseArgs, UsageError, type FlagSpec, type ParsedArgs } from './args';
+import type {
+  ArchiveFormat,
+  ArchiveItem,
+  Email,
+  ParseDiagnostic,
+  ParseOptions,
+  ParseResult,
+  ProgressCallback,
+} from '../types';
+
+/**
+ * A writable text stream (process.stdout, a file stream, or a test double)
+ */
+export interface CliOutput {
+  write(chunk: string): boolean;
+  once?(event: 'drain', listener: () => void): unknown;
+  isTTY?: boolean;
+}
+
+/**
+ * Streams the CLI writes to
+ */
+export interface CliIO {
+  stdout: CliOutput;
+  stderr: CliOutput;
+}
+
+/**
+ * Parse options plus the MBOX-only contact extraction switch
+ */
+type CliParseOptions = ParseOptions & { extractContacts?: boolean };
+
+/** Exit codes */
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+const EXIT_ABORTED = 130;
+
+/** Flags shared by every command that reads an archive */
+const COMMON_FLAGS: FlagSpec = {
+  boolean: ['quiet', 'strict'],
+  string: ['format'],
+};
+
+const USAGE = `Usage: email-archive-parser <command> <archive> [options]
+
+Commands:
+  parse <archive>           Print emails, contacts and calendar events as NDJSON
+  stats <archive>           Print counts and date range
+  detect <archive>          Detect accounts, purchases, subscriptions and newsletters
+  convert <archive>         Convert to mbox or a directory of .eml files
+  search <archive> [query]  Print emails matching a query and filters
+
+Common options:
+  --format <format>         Skip format detection (olm, pst, msg, mbox, eml, maildir,
+                            takeout, vcard or icalendar)
+  --strict                  Fail on the first message that can't be parsed
+  -q, --quiet               No progress or warnings on stderr
+  -h, --help                Show help for a command
+
+Exit codes: 0 success, 1 failure (or no search matches), 2 usage error, 130 cancelled`;
+
+const COMMAND_USAGE: Record<string, string> = {
+  parse: `Usage: email-archive-parser parse <archive> [--json] [--include-attachments] [--include-headers]
+
+Prints one JSON object per line: {"type":"email","email":{...}}, {"type":"contact",...}
+or {"type":"calendarEvent",...}. With --json, prints a single ParseResult object.`,
+  stats: `Usage: email-archive-parser stats <archive> [--json]
+
+Prints message, contact, calendar event, task, note and attachment counts, the
+date range and the number of diagnostics.`,
+  detect: `Usage: email-archive-parser detect <archive> [--accounts] [--purchases] [--subscriptions] [--newsletters] [--json]
+
+Runs the selected detectors (all of them if none are selected) and prints one
+JSON object per detection, tagged with "type".`,
+  convert: `Usage: email-archive-parser convert <archive> --to <mbox|eml> [-o <path>]
+
+  --to mbox   Write an mbox file to --out (or stdout)
+  --to eml    Write one .eml file per message into the --out directory`,
+  search: `Usage: email-archive-parser search <archive> [query] [filters] [--json]
+
+Filters:
+  --from <text>        Sender address or name contains text
+  --to <text>          A recipient contains text
+  --subject <text>     Subject contains text
+  --since <date>       Sent on or after date
+  --until <date>       Sent before date
+  --has-attachments    Only emails with attachments
+
+The query matches subject, body and sender (case-insensitive). Prints one JSON
+summary per match; exits with 1 when nothing matches.`,
+};
+
+/**
+ * Run the CLI
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @param io - Output streams (defaults to process.stdout / process.stderr)
+ * @param signal - Cancels the running command (exit code 130)
+ * @returns Process exit code
+ *
+ * @example
+ * ```typescript
+ * process.exitCode = await runCli(process.argv.slice(2));
+ * ```
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = { stdout: process.stdout, stderr: process.stderr },
+  signal?: AbortSignal
+): Promise<number> {
+  const [command, ...rest] = argv;
+
+  if (!command) {
+    await write(io.stderr, USAGE + '\n');
+    return EXIT_USAGE;
+  }
+  if (command === '--help' || command === '-h' || command === 'help') {
+    await write(io.stdout, USAGE + '\n');
+    return EXIT_OK;
+  }
+
+  try {
+    switch (command) {
+      case 'parse':
+        return await parseCommand(rest, io, signal);
+      case 'stats':
+        return await statsCommand(rest, io, signal);
+      case 'detect':
+        return await detectCommand(rest, io, signal);
+      case 'convert':
+        return await convertCommand(rest, io, signal);
+      case 'search':
+        return await searchCommand(rest, io, signal);
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      await write(io.stderr, `error: ${error.message}\n\n${COMMAND_USAGE[command] ?? USAGE}\n`);
+      return EXIT_USAGE;
+    }
+    if (error instanceof ParseAbortedError) {
+      await write(io.stderr, '\ncancelled\n');
+      return EXIT_ABORTED;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    await write(io.stderr, `error: ${message}\n`);
+    return EXIT_FAILURE;
+  }
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+async function parseCommand(argv: string[], io: CliIO, signal?: AbortSignal): Promise<number> {
+  const args = parseCommandArgs('parse', argv, {
+    boolean: ['json', 'include-attachments', 'include-headers'],
+    string: [],
+  });
+  if (args.flags.help) return printHelp('parse', io);
+
+  const [path, options] = archiveOptions(args, io, signal);
+  options.includeAttachments = args.flags['include-attachments'] === true;
+  options.includeHeaders = args.flags['include-headers'] === true;
+
+  if (args.flags.json) {
+    const result: ParseResult = {
+      emails: [],
+      contacts: [],
+      calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
+      diagnostics: [],
+      stats: {
+        emailCount: 0,
+        contactCount: 0,
+        calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
+        accountCount: 0,
+        purchaseCount: 0,
+        subscriptionCount: 0,
+        newsletterCount: 0,
+      },
+    };
+    options.onWarning = collectInto(result.diagnostics, options.onWarning);
+
+    for await (const item of readArchive(path, options)) {
+      if (item.type === 'email') result.emails.push(item.email);
+      else if (item.type === 'contact') result.contacts.push(item.contact);
+      else if (item.type === 'calendarEvent') result.calendarEvents.push(item.event);
+      else if (item.type === 'folder') result.folders.push(item.folder);
+      else if (item.type === 'task') result.tasks.push(item.task);
+      else result.notes.push(item.note);
+    }
+    result.stats.emailCount = result.emails.length;
+    result.stats.contactCount = result.contacts.length;
+    result.stats.calendarEventCount = result.calendarEvents.length;
+    result.stats.taskCount = result.tasks.length;
+    result.stats.noteCount = result.notes.length;
+
+    await write(io.stdout, JSON.stringify(result, null, 2) + '\n');
+    return EXIT_OK;
+  }
+
+  for await (const item of readArchive(path, options)) {
+    await write(io.stdout, JSON.stringify(item) + '\n');
+  }
+  return EXIT_OK;
+}
+
+async function statsCommand(argv: string[], io: CliIO, signal?: AbortSignal): Promise<number> {
+  const args = parseCommandArgs('stats', argv, { boolean: ['json'], string: [] });
+  if (args.flags.help) return printHelp('stats', io);
+
+  const [path, options] = archiveOptions(args, io, signal);
+  const diagnostics: ParseDiagnostic[] = [];
+  options.onWarning = collectInto(diagnostics, options.onWarning);
+
+  const stats = {
+    format: await resolveFormat(path, options.format),
+    emailCount: 0,
+    contactCount: 0,
+    calendarEventCount: 0,
+    taskCount: 0,
+    noteCount: 0,
+    attachmentCount: 0,
+    firstEmailDate: undefined as Date | undefined,
+    lastEmailDate: undefined as Date | undefined,
+    warningCount: 0,
+    errorCount: 0,
+  };
+  options.format = stats.format;
+
+  for await (const item of readArchive(path, options)) {
+    if (item.type === 'email') {
+      const { email } = item;
+      stats.emailCount++;
+      stats.attachmentCount += email.attachments.length;
+      if (!isNaN(email.date.getTime())) {
+        if (!stats.firstEmailDate || email.date < stats.firstEmailDate) stats.firstEmailDate = email.date;
+        if (!stats.lastEmailDate || email.date > stats.lastEmailDate) stats.lastEmailDate = email.date;
+      }
+    } else if (item.type === 'contact') {
+      stats.contactCount++;
+    } else if (item.type === 'calendarEvent') {
+      stats.calendarEventCount++;
+    } else if (item.type === 'task') {
+      stats.taskCount++;
+    } else if (item.type === 'note') {
+      stats.noteCount++;
+    }
+  }
+
+  stats.warningCount = diagnostics.filter((d) => d.severity === 'warning').length;
+  stats.errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+
+  if (args.flags.json) {
+    await write(io.stdout, JSON.stringify(stats, null, 2) + '\n');
+    return EXIT_OK;
+  }
+
+  const dateRange =
+    stats.firstEmailDate && stats.lastEmailDate
+      ? `${formatDay(stats.firstEmailDate)} to ${formatDay(stats.lastEmailDate)}`
+      : '-';
+  const rows: [string, string | number][] = [
+    ['Format', stats.format],
+    ['Emails', stats.emailCount],
+    ['Contacts', stats.contactCount],
+    ['Calendar events', stats.calendarEventCount],
+    ['Tasks', stats.taskCount],
+    ['Notes', stats.noteCount],
+    ['Attachments', stats.attachmentCount],
+    ['Date range', dateRange],
+    ['Warnings', stats.warningCount],
+    ['Errors', stats.errorCount],
+  ];
+  await write(io.stdout, rows.map(([label, value]) => `${(label + ':').padEnd(17)}${value}\n`).join(''));
+  return EXIT_OK;
+}
+
+async function detectCommand(argv: string[], io: CliIO, signal?: AbortSignal): Promise<number> {
+  const args = parseCommandArgs('detect', argv, {
+    boolean: ['json', 'accounts', 'purchases', 'subscriptions', 'newsletters'],
+    string: [],
+  });
+  if (args.flags.help) return printHelp('detect', io);
+
+  const [path, options] = archiveOptions(args, io, signal);
+  const selected = ['accounts', 'purchases', 'subscriptions', 'newsletters'].filter((name) => args.flags[name]);
+  const run = (name: string) => selected.length === 0 || selected.includes(name);
+
+  const emails: Email[] = [];
+  for await (const item of readArchive(path, { ...options, extractContacts: false })) {
+    if (item.type === 'email') emails.push(item.email);
+  }
+
+  options.onProgress?.({ stage: 'detecting', progress: 0, message: `Running detectors on ${emails.length} emails...` });
+
+  const results: Record<string, unknown[]> = {};
+  if (run('accounts')) results.accounts = new AccountDetector().detectBatch(emails, signal);
+  if (run('purchases')) results.purchases = new PurchaseDetector().detectBatch(emails, signal);
+  if (run('subscriptions')) results.subscriptions = new SubscriptionDetector().detectBatch(emails, signal);
+  if (run('newsletters')) results.newsletters = new NewsletterDetector().detectBatch(emails, signal);
+
+  options.onProgress?.({ stage: 'complete', progress: 100, message: 'Detection complete' });
+
+  if (args.flags.json) {
+    await write(io.stdout, JSON.stringify(results, null, 2) + '\n');
+    return EXIT_OK;
+  }
+
+  const types: Record<string, string> = {
+    accounts: 'account',
+    purchases: 'purchase',
+    subscriptions: 'subscription',
+    newsletters: 'newsletter',
+  };
+  for (const [name, detections] of Object.entries(results)) {
+    for (const detection of detections) {
+      await write(io.stdout, JSON.stringify({ type: types[name], ...(detection as object) }) + '\n');
+    }
+  }
+  return EXIT_OK;
+}
+
+async function convertCommand(argv: string[], io: CliIO, signal?: AbortSignal): Promise<number> {
+  const args = parseCommandArgs('convert', argv, { boolean: [], string: ['to', 'out'] });
+  if (args.flags.help) return printHelp('convert', io);
+
+  const target = args.flags.to;
+  if (target !== 'mbox' && target !== 'eml') {
+    throw new UsageError('--to must be "mbox" or "eml"');
+  }
+  const out = typeof args.flags.out === 'string' ? args.flags.out : undefined;
+  if (target === 'eml' && !out) {
+    throw new UsageError('--to eml requires an output directory (--out)');
+  }
+
+  const [path, options] = archiveOptions(args, io, signal);
+  options.includeAttachments = true;
+  options.extractContacts = false;
+
+  const fs = await import('fs');
+  const nodePath = await import('path');
+  let count = 0;
+
+  if (target === 'mbox') {
+    const file = out ? fs.createWriteStream(out) : null;
+    const output: CliOutput = file ?? io.stdout;
+    try {
+      for await (const item of readArchive(path, options)) {
+        if (item.type !== 'email') continue;
+        await write(output, formatMboxEntry(item.email));
+        count++;
+      }
+    } finally {
+      if (file) {
+        await new Promise<void>((resolve, reject) => {
+          file.once('error', reject);
+          file.end(resolve);
+        });
+      }
+    }
+  } else {
+    await fs.promises.mkdir(out!, { recursive: true });
+    for await (const item of readArchive(path, options)) {
+      if (item.type !== 'email') continue;
+      count++;
+      const fileName = `message-${String(count).padStart(6, '0')}.eml`;
+      await fs.promises.writeFile(nodePath.join(out!, fileName), formatMessage(item.email));
+    }
+  }
+
+  if (!args.flags.quiet) {
+    await write(io.stderr, `Converted ${count} emails to ${target}${out ? ` (${out})` : ''}\n`);
+  }
+  return EXIT_OK;
+}
+
+async function searchCommand(argv: string[], io: CliIO, signal?: AbortSignal): Promise<number> {
+  const args = parseCommandArgs('search', argv, {
+    boolean: ['json', 'has-attachments'],
+    string: ['from', 'to', 'subject', 'since', 'until'],
+  });
+  if (args.flags.help) return printHelp('search', io);
+
+  const query = args.positionals[1];
+  const matches = createSearchFilter(query, args.flags);
+  const [path, options] = archiveOptions(args, io, signal);
+  options.extractContacts = false;
+
+  const results: object[] = [];
+  let matchCount = 0;
+  for await (const item of readArchive(path, options)) {
+    if (item.type !== 'email' || !matches(item.email)) continue;
+
+    matchCount++;
+    const summary = summarizeEmail(item.email);
+    if (args.flags.json) {
+      results.push(summary);
+    } else {
+      await write(io.stdout, JSON.stringify(summary) + '\n');
+    }
+  }
+
+  if (args.flags.json) {
+    await write(io.stdout, JSON.stringify(results, null, 2) + '\n');
+  }
+  return matchCount > 0 ? EXIT_OK : EXIT_FAILURE;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse a command's arguments, adding the common flags
+ */
+function parseCommandArgs(command: string, argv: string[], spec: FlagSpec): ParsedArgs {
+  const args = parseArgs(argv, {
+    boolean: [...COMMON_FLAGS.boolean, ...spec.boolean],
+    string: [...COMMON_FLAGS.string, ...spec.string],
+  });
+  if (!args.flags.help && args.positionals.length === 0) {
+    throw new UsageError(`${command} requires an archive path`);
+  }
+  return args;
+}
+
+async function printHelp(command: string, io: CliIO): Promise<number> {
+  await write(io.stdout, COMMAND_USAGE[command] + '\n');
+  return EXIT_OK;
+}
+
+/**
+ * Build parse options (format, strict, progress and warnings on stderr) from common flags
+ */
+function archiveOptions(
+  args: ParsedArgs,
+  io: CliIO,
+  signal?: AbortSignal
+): [string, CliParseOptions] {
+  const format = args.flags.format;
+  if (format !== undefined && !['olm', 'pst', 'msg', 'mbox', 'eml', 'maildir', 'takeout', 'vcard', 'icalendar'].includes(format as string)) {
+    throw new UsageError('--format must be "olm", "pst", "msg", "mbox", "eml", "maildir", "takeout", "vcard" or "icalendar"');
+  }
+
+  const quiet = args.flags.quiet === true;
+  const options: CliParseOptions = {
+    format: format as ArchiveFormat | undefined,
+    strict: args.flags.strict === true,
+    signal,
+    onProgress: quiet ? undefined : createProgressReporter(io.stderr),
+    onWarning: (diagnostic) => {
+      if (quiet && diagnostic.severity === 'warning') return;
+      const location = diagnostic.location?.path ?? diagnostic.location?.offset;
+      const where = location !== undefined ? ` (at ${location})` : '';
+      io.stderr.write(`${diagnostic.severity}: ${diagnostic.message}${where}\n`);
+    },
+  };
+
+  return [args.positionals[0], options];
+}
+
+/**
+ * Write progress to stderr: an updating line on a terminal, one line per step otherwise
+ */
+function createProgressReporter(stderr: CliOutput): ProgressCallback {
+  let lastStage = '';
+  let lastProgress = -1;
+
+  return ({ stage, progress, message }) => {
+    const rounded = Math.floor(progress);
+    if (stage === lastStage && rounded < lastProgress + 5 && stage !== 'complete') return;
+    lastStage = stage;
+    lastProgress = rounded;
+
+    const line = `[${String(rounded).padStart(3)}%] ${message}`;
+    if (stderr.isTTY) {
+      stderr.write(`\r\x1b[2K${line}${stage === 'complete' ? '\n' : ''}`);
+    } else {
+      stderr.write(line + '\n');
+    }
+  };
+}
+
+/**
+ * Forward diagnostics to a previous handler while collecting them
+ */
+function collectInto(
+  diagnostics: ParseDiagnostic[],
+  next?: (diagnostic: ParseDiagnostic) => void
+): (diagnostic: ParseDiagnostic) => void {
+  return (diagnostic) => {
+    diagnostics.push(diagnostic);
+    next?.(diagnostic);
+  };
+}
+
+/**
+ * Detect an archive's format from its first bytes, falling back to the file name
+ * A directory is a Maildir if it has cur/ or new/, an mbox if it is (or holds) an
+ * Apple Mail .mbox bundle or Thunderbird mailboxes, otherwise a folder of .eml files.
+ */
+async function resolveFormat(path: string, format?: ArchiveFormat): Promise<ArchiveFormat> {
+  if (format) return format;
+
+  const fs = await import('fs');
+  if ((await fs.promises.stat(path)).isDirectory()) {
+    if (await MaildirParser.isMaildir(path)) return 'maildir';
+    return (await MBOXParser.isMBOXBundle(path)) ? 'mbox' : 'eml';
+  }
+
+  const handle = await fs.promises.open(path, 'r');
+  let head: Buffer;
+  try {
+    const buffer = Buffer.alloc(64 * 1024);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    head = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const detected = (await detectArchiveFormat(head)) ?? formatFromFileName(path);
+  if (!detected) {
+    throw new Error(`Unable to detect archive format of ${path}: expected an OLM, PST, MSG, MBOX, EML, Google Takeout, vCard or iCalendar file`);
+  }
+  return detected;
+}
+
+/**
+ * Stream items from an archive on disk
+ */
+async function* readArchive(path: string, options: CliParseOptions): AsyncGenerator<ArchiveItem> {
+  const format = await resolveFormat(path, options.format);
+
+  if (format === 'olm') {
+    yield* new OLMParser().stream(path, options);
+  } else if (format === 'pst') {
+    yield* new PSTParser().stream(path, options);
+  } else if (format === 'msg') {
+    yield* new MSGParser().stream(path, options);
+  } else if (format === 'mbox') {
+    yield* new MBOXParser().stream(path, options);
+  } else if (format === 'maildir') {
+    yield* new MaildirParser().stream(path, options);
+  } else if (format === 'takeout') {
+    yield* new TakeoutParser().stream(path, options);
+  } else if (format === 'vcard') {
+    yield* new VCardParser().stream(path, options);
+  } else if (format === 'icalendar') {
+    yield* new ICalendarParser().stream(path, options);
+  } else {
+    yield* new EMLParser().stream(path, options);
+  }
+}
+
+/**
+ * Build a search predicate from the query and filter flags
+ */
+function createSearchFilter(
+  query: string | undefined,
+  flags: Record<string, string | boolean>
+): (email: Email) => boolean {
+  const text = (flag: string) => (typeof flags[flag] === 'string' ? (flags[flag] as string).toLowerCase() : undefined);
+  const date = (flag: string) => {
+    if (typeof flags[flag] !== 'string') return undefined;
+    const value = new Date(flags[flag] as string);
+    if (isNaN(value.getTime())) {
+      throw new UsageError(`--${flag} must be a date, e.g. 2024-01-31`);
+    }
+    return value;
+  };
+
+  const needle = query?.toLowerCase();
+  const from = text('from');
+  const to = text('to');
+  const subject = text('subject');
+  const since = date('since');
+  const until = date('until');
+  const hasAttachments = flags['has-attachments'] === true;
+
+  return (email) => {
+    if (needle) {
+      const haystack = [email.subject, email.body, email.sender, email.senderName ?? ''].join('\n').toLowerCase();
+      if (!haystack.includes(needle)) return false;
+    }
+    if (from && !`${email.sender} ${email.senderName ?? ''}`.toLowerCase().includes(from)) return false;
+    if (to && !email.recipients.some((recipient) => recipient.toLowerCase().includes(to))) return false;
+    if (subject && !email.subject.toLowerCase().includes(subject)) return false;
+    if (since && !(email.date >= since)) return false;
+    if (until && !(email.date < until)) return false;
+    if (hasAttachments && email.attachments.length === 0) return false;
+    return true;
+  };
+}
+
+/**
+ * Fields printed for each search match
+ */
+function summarizeEmail(email: Email): object {
+  return {
+    date: email.date,
+    from: email.sender,
+    fromName: email.senderName,
+    to: email.recipients,
+    subject: email.subject,
+    messageId: email.messageId,
+    folderId: email.folderId,
+    attachments: email.attachments.length,
+  };
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Write to a stream, waiting for it to drain when its buffer is full
+ */
+async function write(output: CliOutput, text: string): Promise<void> {
+  if (!output.write(text) && output.once) {
+    await new Promise<void>((resolve) => output.once!('drain', resolve));
+  }
+}
@@ -5,6 +5,7 @@
 
 import type { Email, Account, AccountDetectionResult, ServiceType } from '../types';
 import { stripHtml, extractDomain } from '../utils';
+import { throwIfAborted } from '../errors';
 
 /**
  * Detector for account signup/registration emails
@@ -284,12 +285,14 @@ export class AccountDetector {
   /**
    * Detect accounts from a batch of emails
    * @param emails - Emails to analyze
+   * @param signal - Optional AbortSignal; aborting throws a ParseAbortedError
    * @returns Array of detected accounts (deduplicated)
    */
-  detectBatch(emails: Email[]): Account[] {
+  detectBatch(emails: Email[], signal?: AbortSignal): Account[] {
     const accountMap = new Map<string, Account>();
 
     for (const email of emails) {
+      throwIfAborted(signal);
       const result = this.detect(email);
       if (result.type === 'account' && result.data?.serviceName) {
         const key = result.data.serviceName.toLowerCase();
@@ -5,6 +5,7 @@
 
 import type { Email, Newsletter, NewsletterDetectionResult } from '../types';
 import { stripHtml, extractDomain } from '../utils';
+import { throwIfAborted } from '../errors';
 
 /**
  * Detector for newsletters and promotional emails
@@ -164,12 +165,14 @@ export class NewsletterDetector {
   /**
    * Detect newsletters from a batch of emails
    * @param emails - Emails to analyze
+   * @param signal - Optional AbortSignal; aborting throws a ParseAbortedError
    * @returns Array of detected newsletters (grouped by sender)
    */
-  detectBatch(emails: Email[]): Newsletter[] {
+  detectBatch(emails: Email[], signal?: AbortSignal): Newsletter[] {
     const senderMap = new Map<string, { emails: Email[]; unsubscribeLinks: Set<string> }>();
 
     for (const email of emails) {
+      throwIfAborted(signal);
       const result = this.detect(email);
       if (result.isNewsletter || result.isPromotional) {
         const sender = email.sender;
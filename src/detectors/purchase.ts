@@ -5,6 +5,7 @@
 
 import type { Email, Purchase, PurchaseDetectionResult, PurchaseCategory } from '../types';
 import { stripHtml, extractDomain } from '../utils';
+import { throwIfAborted } from '../errors';
 
 /**
  * Detector for purchase/order confirmation emails
@@ -210,12 +211,14 @@ export class PurchaseDetector {
   /**
    * Detect purchases from a batch of emails
    * @param emails - Emails to analyze
+   * @param signal - Optional AbortSignal; aborting throws a ParseAbortedError
    * @returns Array of detected purchases
    */
-  detectBatch(emails: Email[]): Purchase[] {
+  detectBatch(emails: Email[], signal?: AbortSignal): Purchase[] {
     const purchases: Purchase[] = [];
 
     for (const email of emails) {
+      throwIfAborted(signal);
       const result = this.detect(email);
       if (result.type === 'purchase' && result.data?.amount) {
         purchases.push({
@@ -11,6 +11,7 @@ import type {
   SubscriptionFrequency,
 } from '../types';
 import { stripHtml, extractDomain, formatDomainAsName } from '../utils';
+import { throwIfAborted } from '../errors';
 
 /**
  * Detector for recurring subscription/membership emails
@@ -176,12 +177,14 @@ export class SubscriptionDetector {
   /**
    * Detect subscriptions from a batch of emails
    * @param emails - Emails to analyze
+   * @param signal - Optional AbortSignal; aborting throws a ParseAbortedError
    * @returns Array of detected subscriptions (grouped by service)
    */
-  detectBatch(emails: Email[]): Subscription[] {
+  detectBatch(emails: Email[], signal?: AbortSignal): Subscription[] {
     const subscriptionMap = new Map<string, Subscription>();
 
     for (const email of emails) {
+      throwIfAborted(signal);
       const result = this.detect(email);
       if (result.isSubscription && result.serviceName) {
         const key = result.serviceName.toLowerCase();
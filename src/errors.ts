@@ -0,0 +1,71 @@
+/**
+ * OLM Parser - Errors
+ * @packageDocumentation
+ */
+
+import type { ParseDiagnostic, ParseOptions } from './types';
+
+/**
+ * Thrown when a parse or detection run is cancelled through `options.signal`
+ *
+ * `name` is `'AbortError'`, matching `fetch()` and other DOM APIs, so existing
+ * `err.name === 'AbortError'` checks keep working.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * cancelButton.onclick = () => controller.abort();
+ *
+ * try {
+ *   await parseArchive(file, { signal: controller.signal });
+ * } catch (err) {
+ *   if (err instanceof ParseAbortedError) console.log('Parsing cancelled');
+ * }
+ * ```
+ */
+export class ParseAbortedError extends Error {
+  /** The value passed to `AbortController.abort()`, if any */
+  readonly reason?: unknown;
+
+  constructor(reason?: unknown) {
+    super(reason instanceof Error ? reason.message : 'The operation was aborted');
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Throw a ParseAbortedError if the signal has been aborted
+ * @internal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ParseAbortedError(signal.reason);
+  }
+}
+
+/**
+ * Thrown in `strict` mode on the first error-severity diagnostic
+ */
+export class ParseError extends Error {
+  /** The diagnostic that stopped the parse */
+  readonly diagnostic: ParseDiagnostic;
+
+  constructor(diagnostic: ParseDiagnostic) {
+    super(diagnostic.message);
+    this.name = 'ParseError';
+    this.diagnostic = diagnostic;
+  }
+}
+
+/**
+ * Report a diagnostic to `options.onWarning`, throwing in strict mode for errors
+ * @internal
+ */
+export function reportDiagnostic(options: ParseOptions, diagnostic: ParseDiagnostic): void {
+  options.onWarning?.(diagnostic);
+  if (options.strict && diagnostic.severity === 'error') {
+    throw new ParseError(diagnostic);
+  }
+}
+
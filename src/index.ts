@@ -1,8 +1,8 @@
 /**
  * OLM Parser - Email Archive Parsing Library
  *
- * A powerful library for parsing email archives (OLM, MBOX) and detecting
- * accounts, purchases, subscriptions, and newsletters.
+ * A powerful library for parsing email archives (OLM, PST, MSG, MBOX, EML, Maildir, Google
+ * Takeout) and detecting accounts, purchases, subscriptions, and newsletters.
  *
  * @packageDocumentation
  * @module @technical-1/email-archive-parser
@@ -12,7 +12,21 @@
 // Parsers
 // ============================================================================
 export { OLMParser } from './parsers/olm';
-export { MBOXParser, type EmailBatchCallback } from './parsers/mbox';
+export { PSTParser, type PSTParseOptions } from './parsers/pst';
+export { MSGParser, type MSGInput, type MSGParseOptions } from './parsers/msg';
+export { MBOXParser, type EmailBatchCallback, type MBOXParseOptions, type MBOXVariant } from './parsers/mbox';
+export { EMLParser, type EMLInput, type EMLParseOptions } from './parsers/eml';
+export { MaildirParser, type MaildirParseOptions } from './parsers/maildir';
+export { TakeoutParser, type TakeoutParseOptions } from './parsers/takeout';
+export { VCardParser, type VCardInput } from './parsers/vcard';
+export { ICalendarParser, type ICalendarInput } from './parsers/ical';
+export { mergeContacts } from './parsers/contacts';
+export { detectArchiveFormat } from './parsers/format';
+
+// ============================================================================
+// Errors
+// ============================================================================
+export { ParseAbortedError, ParseError } from './errors';
 
 // ============================================================================
 // Detectors
@@ -28,9 +42,20 @@ export { NewsletterDetector } from './detectors/newsletter';
 export type {
   // Core types
   Email,
+  EmailAddress,
+  EmailHeader,
+  EmailPriority,
   Attachment,
   Contact,
+  ContactAddress,
   CalendarEvent,
+  CalendarAttendee,
+  CalendarRecurrence,
+  CalendarInvite,
+  Folder,
+  FolderRole,
+  Task,
+  Note,
 
   // Detection types
   Account,
@@ -49,11 +74,17 @@ export type {
   NewsletterDetectionResult,
 
   // Parser types
+  ArchiveFormat,
   ParseOptions,
   ParseResult,
   ParseProgress,
+  ParseDiagnostic,
+  DiagnosticSeverity,
+  DiagnosticCode,
   ParsingStage,
   ProgressCallback,
+  StreamInput,
+  ArchiveItem,
 } from './types';
 
 // ============================================================================
@@ -70,6 +101,10 @@ export {
   parseDate,
   decodeQuotedPrintable,
   decodeHeaderValue,
+  decodeBytes,
+  parseAddressList,
+  getHeader,
+  getHeaderValues,
   formatDomainAsName,
 } from './utils';
 
@@ -78,16 +113,26 @@ export {
 // ============================================================================
 
 import { OLMParser } from './parsers/olm';
+import { PSTParser } from './parsers/pst';
+import { MSGParser } from './parsers/msg';
 import { MBOXParser } from './parsers/mbox';
+import { EMLParser } from './parsers/eml';
+import { MaildirParser } from './parsers/maildir';
+import { TakeoutParser } from './parsers/takeout';
+import { VCardParser } from './parsers/vcard';
+import { ICalendarParser } from './parsers/ical';
+import { detectArchiveFormat, formatFromFileName } from './parsers/format';
 import { AccountDetector } from './detectors/account';
 import { PurchaseDetector } from './detectors/purchase';
 import { SubscriptionDetector } from './detectors/subscription';
 import { NewsletterDetector } from './detectors/newsletter';
 import type { ParseOptions, ParseResult, Email } from './types';
+import { throwIfAborted } from './errors';
 
 /**
- * Parse an email archive file (OLM or MBOX)
- * Automatically detects the file format and uses the appropriate parser
+ * Parse an email archive file (OLM, PST, MSG, MBOX, EML or Google Takeout), or a vCard or iCalendar file
+ * Automatically detects the format from the file content (falling back to the
+ * file name) and uses the appropriate parser. Set `options.format` to skip detection.
  *
  * @param file - File to parse (File in browser, Buffer in Node.js)
  * @param options - Parsing options
@@ -117,28 +162,47 @@ export async function parseArchive(
   file: File | Buffer | ArrayBuffer,
   options: ParseOptions = {}
 ): Promise<ParseResult> {
+  throwIfAborted(options.signal);
+
   // Determine file type
-  const isOLM =
-    file instanceof File
-      ? file.name.toLowerCase().endsWith('.olm')
-      : false;
+  const format =
+    options.format ||
+    (await detectArchiveFormat(file)) ||
+    (file instanceof File ? formatFromFileName(file.name) : null);
 
-  const isMBOX =
-    file instanceof File
-      ? file.name.toLowerCase().endsWith('.mbox') ||
-        file.name.toLowerCase().endsWith('.mbx')
-      : false;
+  if (!format) {
+    throw new Error('Unable to detect archive format: expected an OLM, PST, MSG, MBOX, EML, Google Takeout, vCard or iCalendar file');
+  }
 
   // Use appropriate parser
   let result: ParseResult;
 
-  if (isOLM || (!isMBOX && !(file instanceof File))) {
-    // Default to OLM for non-File inputs or .olm files
+  if (format === 'olm') {
     const parser = new OLMParser();
     result = await parser.parse(file, options);
-  } else {
+  } else if (format === 'pst') {
+    const parser = new PSTParser();
+    result = await parser.parse(file, options);
+  } else if (format === 'msg') {
+    const parser = new MSGParser();
+    result = await parser.parse(file, options);
+  } else if (format === 'mbox') {
     const parser = new MBOXParser();
     result = await parser.parse(file, options);
+  } else if (format === 'eml') {
+    const parser = new EMLParser();
+    result = await parser.parse(file, options);
+  } else if (format === 'takeout') {
+    const parser = new TakeoutParser();
+    result = await parser.parse(file, options);
+  } else if (format === 'vcard') {
+    const parser = new VCardParser();
+    result = await parser.parse(file, options);
+  } else if (format === 'icalendar') {
+    const parser = new ICalendarParser();
+    result = await parser.parse(file, options);
+  } else {
+    throw new Error('A Maildir is a directory; parse it with MaildirParser.parse(path)');
   }
 
   // Run detectors if requested
@@ -162,25 +226,25 @@ async function runDetectors(
 
   if (options.detectAccounts) {
     const detector = new AccountDetector();
-    result.accounts = detector.detectBatch(emails as Email[]);
+    result.accounts = detector.detectBatch(emails as Email[], options.signal);
     result.stats.accountCount = result.accounts.length;
   }
 
   if (options.detectPurchases) {
     const detector = new PurchaseDetector();
-    result.purchases = detector.detectBatch(emails as Email[]);
+    result.purchases = detector.detectBatch(emails as Email[], options.signal);
     result.stats.purchaseCount = result.purchases.length;
   }
 
   if (options.detectSubscriptions) {
     const detector = new SubscriptionDetector();
-    result.subscriptions = detector.detectBatch(emails as Email[]);
+    result.subscriptions = detector.detectBatch(emails as Email[], options.signal);
     result.stats.subscriptionCount = result.subscriptions.length;
   }
 
   if (options.detectNewsletters) {
     const detector = new NewsletterDetector();
-    result.newsletters = detector.detectBatch(emails as Email[]);
+    result.newsletters = detector.detectBatch(emails as Email[], options.signal);
     result.stats.newsletterCount = result.newsletters.length;
   }
 
@@ -194,7 +258,14 @@ async function runDetectors(
 export function createParsers() {
   return {
     olm: new OLMParser(),
+    pst: new PSTParser(),
+    msg: new MSGParser(),
     mbox: new MBOXParser(),
+    eml: new EMLParser(),
+    maildir: new MaildirParser(),
+    takeout: new TakeoutParser(),
+    vcard: new VCardParser(),
+    icalendar: new ICalendarParser(),
     detectors: {
       account: new AccountDetector(),
       purchase: new PurchaseDetector(),
@@ -0,0 +1,145 @@
+/**
+ * OLM Parser - Sender Contact Extraction
+ * @packageDocumentation
+ */
+
+import type { Email, Contact } from '../types';
+import { cleanEmailAddress } from '../utils';
+
+/**
+ * Builds contacts from the senders of parsed emails
+ * @internal
+ */
+export class SenderContactTracker {
+  private readonly senders = new Map<string, { name: string; emailCount: number; lastEmailDate: Date }>();
+
+  /**
+   * Count an email towards its sender's contact stats
+   */
+  track(email: Omit<Email, 'id'>): void {
+    if (!email.sender || email.sender === 'unknown@example.com') return;
+
+    const existing = this.senders.get(email.sender);
+    if (existing) {
+      existing.emailCount++;
+      if (email.date > existing.lastEmailDate) {
+        existing.lastEmailDate = email.date;
+      }
+    } else {
+      this.senders.set(email.sender, {
+        name: email.senderName || email.sender.split('@')[0] || 'Unknown',
+        emailCount: 1,
+        lastEmailDate: email.date,
+      });
+    }
+  }
+
+  /**
+   * Fold the stats of a saved contact's addresses into it
+   *
+   * The merged senders are left out of {@link toContacts}, so a person with
+   * a saved contact isn't returned twice.
+   */
+  mergeInto(contact: Omit<Contact, 'id'>): void {
+    for (const address of contactEmails(contact)) {
+      const data = this.senders.get(address);
+      if (!data) continue;
+      mergeContact(contact, { email: address, ...data });
+      this.senders.delete(address);
+    }
+  }
+
+  /**
+   * Turn tracked sender stats into contacts
+   */
+  toContacts(): Contact[] {
+    const contacts: Contact[] = [];
+    for (const [email, data] of this.senders) {
+      contacts.push({
+        name: data.name,
+        email: cleanEmailAddress(email),
+        phone: undefined,
+        emailCount: data.emailCount,
+        lastEmailDate: data.lastEmailDate,
+      });
+    }
+    return contacts;
+  }
+}
+
+/**
+ * Merge contacts that share an email address
+ *
+ * Combines saved contacts (from vCards or an address book) with the contacts
+ * built from email senders: details come from the first contact seen for a
+ * person, email counts are added up and the latest email date is kept.
+ *
+ * @param lists - Contact lists, in order of precedence
+ * @returns One contact per person; contacts without an email address are kept as is
+ *
+ * @example
+ * ```typescript
+ * const saved = await new VCardParser().parseFile('contacts.vcf');
+ * const mail = await new MBOXParser().parseFile('archive.mbox');
+ * const contacts = mergeContacts(saved.contacts, mail.contacts);
+ * ```
+ */
+export function mergeContacts(...lists: Contact[][]): Contact[] {
+  const merged: Contact[] = [];
+  const byEmail = new Map<string, Contact>();
+
+  for (const list of lists) {
+    for (const contact of list) {
+      const addresses = contactEmails(contact);
+      const existing = addresses.map((address) => byEmail.get(address)).find(Boolean);
+
+      const target = existing ?? { ...contact };
+      if (existing) {
+        mergeContact(existing, contact);
+      } else {
+        merged.push(target);
+      }
+      for (const address of contactEmails(target)) {
+        if (!byEmail.has(address)) byEmail.set(address, target);
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Copy what `target` is missing from `source` and add up their email stats
+ */
+function mergeContact(target: Omit<Contact, 'id'>, source: Omit<Contact, 'id'>): void {
+  target.email ||= source.email;
+  target.phone ??= source.phone;
+  target.organization ??= source.organization;
+  target.title ??= source.title;
+  target.addresses ??= source.addresses;
+  target.photo ??= source.photo;
+  target.notes ??= source.notes;
+
+  const emails = union(contactEmails(target), contactEmails(source));
+  if (emails.length > 1) target.emails = emails;
+  const phones = union(target.phones ?? (target.phone ? [target.phone] : []), source.phones ?? []);
+  if (phones.length > 1) target.phones = phones;
+  if (source.tags) target.tags = union(target.tags ?? [], source.tags);
+
+  // Saved contacts have no emails yet, so their date is only a placeholder
+  if (source.emailCount > 0 && (target.emailCount === 0 || source.lastEmailDate > target.lastEmailDate)) {
+    target.lastEmailDate = source.lastEmailDate;
+  }
+  target.emailCount += source.emailCount;
+}
+
+/**
+ * All of a contact's email addresses, lowercased
+ */
+function contactEmails(contact: Omit<Contact, 'id'>): string[] {
+  return union(contact.email ? [contact.email] : [], contact.emails ?? []).map((email) => email.toLowerCase());
+}
+
+function union(a: string[], b: string[]): string[] {
+  return [...new Set([...a, ...b])];
+}
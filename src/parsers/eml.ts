@@ -0,0 +1,393 @@
+/**
+ * OLM Parser - EML Message Parser
+ * @packageDocumentation
+ */
+
+import JSZip from 'jszip';
+import type {
+  Email,
+  ParseOptions,
+  ParseResult,
+  ParseProgress,
+  StreamInput,
+  ArchiveItem,
+} from '../types';
+import { bytesToBinaryString } from '../utils';
+import { readAll, openRandomAccess } from './input';
+import { MessageParser } from './message';
+import { SenderContactTracker } from './contacts';
+import { CalendarInviteTracker } from './invites';
+import { FolderTracker } from './folders';
+import { throwIfAborted, reportDiagnostic } from '../errors';
+
+/**
+ * A single message, a list of messages, a ZIP of messages or (Node.js) a
+ * directory path containing `.eml` or Apple Mail `.emlx` files
+ */
+export type EMLInput = StreamInput | Array<File | Blob | Buffer | ArrayBuffer | Uint8Array | string>;
+
+/**
+ * Extended options for EML parsing
+ */
+export interface EMLParseOptions extends ParseOptions {
+  /**
+   * If true, also extract contacts from email senders
+   * @default true
+   */
+  extractContacts?: boolean;
+}
+
+/**
+ * One message waiting to be read
+ */
+interface EMLSource {
+  /** File name, path or ZIP entry path (used in diagnostics) */
+  name: string;
+  read: () => Promise<Uint8Array>;
+}
+
+/** Apple Mail `.emlx` flag bits, from the `flags` integer in the trailing plist */
+const EMLX_FLAG_READ = 1 << 0;
+const EMLX_FLAG_DELETED = 1 << 1;
+const EMLX_FLAG_ANSWERED = 1 << 2;
+const EMLX_FLAG_FLAGGED = 1 << 4;
+const EMLX_FLAG_DRAFT = 1 << 6;
+const EMLX_FLAG_FORWARDED = 1 << 8;
+
+/**
+ * Parser for RFC 822 `.eml` message files
+ * Handles exports from Outlook for Windows, Thunderbird and webmail clients,
+ * and Apple Mail's `.emlx` files
+ *
+ * Accepts a single message, an array of messages, a ZIP archive of `.eml`
+ * files, or (Node.js) a directory, which is searched recursively. For `.emlx`
+ * files the byte count prefix is skipped and the read, flagged, answered,
+ * forwarded, draft and deleted flags from the trailing plist are applied.
+ *
+ * @example
+ * ```typescript
+ * import { EMLParser } from '@technical-1/email-archive-parser';
+ *
+ * const parser = new EMLParser();
+ *
+ * // Browser: files from <input type="file" multiple>
+ * const result = await parser.parse(Array.from(input.files));
+ *
+ * // Node.js: a folder of .eml files
+ * const result = await parser.parseFile('/path/to/exported-messages');
+ *
+ * console.log(`Parsed ${result.emails.length} emails`);
+ * ```
+ */
+export class EMLParser {
+  private readonly messageParser = new MessageParser();
+
+  /**
+   * Parse one or more EML messages
+   * @param input - Message(s), ZIP archive or directory path (see {@link EMLInput})
+   * @param options - Parsing options
+   * @returns Parsed data
+   */
+  async parse(input: EMLInput, options: EMLParseOptions = {}): Promise<ParseResult> {
+    const result: ParseResult = {
+      emails: [],
+      contacts: [],
+      calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
+      stats: {
+        emailCount: 0,
+        contactCount: 0,
+        calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
+        accountCount: 0,
+        purchaseCount: 0,
+        subscriptionCount: 0,
+        newsletterCount: 0,
+      },
+      diagnostics: [],
+    };
+
+    const streamOptions: EMLParseOptions = {
+      ...options,
+      onWarning: (diagnostic) => {
+        result.diagnostics.push(diagnostic);
+        options.onWarning?.(diagnostic);
+      },
+    };
+
+    for await (const item of this.stream(input, streamOptions)) {
+      if (item.type === 'email') {
+        result.emails.push(item.email);
+        result.stats.emailCount++;
+      } else if (item.type === 'contact') {
+        result.contacts.push(item.contact);
+        result.stats.contactCount++;
+      } else if (item.type === 'calendarEvent') {
+        result.calendarEvents.push(item.event);
+        result.stats.calendarEventCount++;
+      } else if (item.type === 'folder') {
+        result.folders.push(item.folder);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse an EML file or a directory of EML files (Node.js only)
+   *
+   * @param path - Path to a `.eml` file, a ZIP of `.eml` files, or a directory
+   * @param options - Parsing options
+   * @returns Parsed data
+   */
+  async parseFile(path: string, options: EMLParseOptions = {}): Promise<ParseResult> {
+    return this.parse(path, options);
+  }
+
+  /**
+   * Stream emails (then folders, sender contacts and invitation calendar events) as each message is read and parsed
+   *
+   * @param input - Message(s), ZIP archive or directory path (see {@link EMLInput})
+   * @param options - Parsing options
+   */
+  async *stream(input: EMLInput, options: EMLParseOptions = {}): AsyncGenerator<ArchiveItem> {
+    const { onProgress, signal } = options;
+    throwIfAborted(signal);
+
+    this.reportProgress(onProgress, 'extracting', 0, 'Reading EML files...');
+    const sources = await this.collectSources(input);
+    throwIfAborted(signal);
+
+    const senders = new SenderContactTracker();
+    const invites = new CalendarInviteTracker();
+    const folders = new FolderTracker();
+    let emailCount = 0;
+
+    this.reportProgress(onProgress, 'parsing_emails', 0, `Parsing ${sources.length} emails...`);
+
+    for (let i = 0; i < sources.length; i++) {
+      throwIfAborted(signal);
+      const source = sources[i];
+
+      let bytes: Uint8Array | null = null;
+      try {
+        bytes = await source.read();
+      } catch (error) {
+        reportDiagnostic(options, {
+          severity: 'error',
+          code: 'entry_read_failed',
+          message: `Failed to read ${source.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          location: { path: source.name },
+        });
+      }
+
+      let email: Omit<Email, 'id'> | null = null;
+      if (bytes) {
+        const emlx = this.splitEmlx(bytes);
+        email = this.messageParser.parseMessageBytes(emlx?.message ?? bytes, options, { path: source.name });
+        if (email && emlx?.flags !== undefined) {
+          this.applyEmlxFlags(email, emlx.flags);
+        }
+      }
+
+      if (email) {
+        senders.track(email);
+        invites.track(email);
+        folders.track(email);
+        emailCount++;
+        yield { type: 'email', email: email as Email };
+      }
+
+      if (i % 100 === 0 || i === sources.length - 1) {
+        this.reportProgress(
+          onProgress,
+          'parsing_emails',
+          Math.round(((i + 1) / sources.length) * 100),
+          `Parsed ${i + 1} of ${sources.length} emails`
+        );
+      }
+    }
+
+    for (const folder of folders.toFolders()) {
+      yield { type: 'folder', folder };
+    }
+
+    if (options.extractContacts !== false) {
+      this.reportProgress(onProgress, 'parsing_contacts', 0, 'Building contacts from senders...');
+      for (const contact of senders.toContacts()) {
+        throwIfAborted(signal);
+        yield { type: 'contact', contact };
+      }
+    }
+
+    const events = invites.toEvents();
+    if (events.length > 0) {
+      this.reportProgress(onProgress, 'parsing_calendar', 0, 'Building calendar events from invitations...');
+      for (const event of events) {
+        throwIfAborted(signal);
+        yield { type: 'calendarEvent', event };
+      }
+    }
+
+    this.reportProgress(onProgress, 'complete', 100, `Parsed ${emailCount} emails successfully`);
+  }
+
+  /**
+   * Expand the input into the list of messages to read
+   */
+  private async collectSources(input: EMLInput): Promise<EMLSource[]> {
+    if (Array.isArray(input)) {
+      const sources: EMLSource[] = [];
+      for (const item of input) {
+        sources.push(...(await this.collectSources(item)));
+      }
+      return sources;
+    }
+
+    if (typeof input === 'string') {
+      const fs = await import('fs');
+      if ((await fs.promises.stat(input)).isDirectory()) {
+        return this.collectDirectory(input);
+      }
+    }
+
+    const name =
+      typeof input === 'string'
+        ? input
+        : typeof File !== 'undefined' && input instanceof File
+          ? input.name
+          : 'message.eml';
+
+    // Files and Blobs are only read when their message is reached; a peek at
+    // the first bytes tells a ZIP archive apart without loading the file
+    if (typeof input === 'string' || (typeof Blob !== 'undefined' && input instanceof Blob)) {
+      const reader = await openRandomAccess(input);
+      let header: Uint8Array;
+      try {
+        header = await reader.read(0, 4);
+      } finally {
+        await reader.close();
+      }
+      if (!this.isZip(header)) {
+        return [{ name, read: async () => this.toBytes(await readAll(input)) }];
+      }
+    }
+
+    const bytes = await this.toBytes(await readAll(input));
+    if (this.isZip(bytes)) {
+      return this.collectZip(bytes);
+    }
+    return [{ name, read: async () => bytes }];
+  }
+
+  /**
+   * Get the bytes of a message loaded with readAll
+   */
+  private async toBytes(data: Blob | ArrayBuffer | Uint8Array): Promise<Uint8Array> {
+    if (data instanceof Uint8Array) return data;
+    return new Uint8Array(data instanceof ArrayBuffer ? data : await data.arrayBuffer());
+  }
+
+  /**
+   * List the `.eml` files in a directory and its subdirectories
+   */
+  private async collectDirectory(dirPath: string): Promise<EMLSource[]> {
+    const fs = await import('fs');
+    const path = await import('path');
+    const sources: EMLSource[] = [];
+
+    const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        sources.push(...(await this.collectDirectory(fullPath)));
+      } else if (entry.isFile() && this.isEMLName(entry.name)) {
+        sources.push({ name: fullPath, read: () => fs.promises.readFile(fullPath) });
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * List the `.eml` entries in a ZIP archive
+   */
+  private async collectZip(bytes: Uint8Array): Promise<EMLSource[]> {
+    const zip = await JSZip.loadAsync(bytes);
+    return Object.keys(zip.files)
+      .filter((name) => !zip.files[name].dir && this.isEMLName(name))
+      .sort()
+      .map((name) => ({ name, read: () => zip.files[name].async('uint8array') }));
+  }
+
+  /**
+   * Split an Apple Mail `.emlx` file into the message and its flags
+   *
+   * The file is a line with the message's byte count, the message itself,
+   * then an XML property list with Mail's metadata.
+   *
+   * @returns The message bytes and flags, or null if the bytes aren't an `.emlx`
+   */
+  private splitEmlx(bytes: Uint8Array): { message: Uint8Array; flags?: number } | null {
+    const lineEnd = bytes.subarray(0, 32).indexOf(0x0a);
+    if (lineEnd <= 0) return null;
+
+    const match = bytesToBinaryString(bytes.subarray(0, lineEnd)).match(/^\s*(\d+)\s*$/);
+    if (!match) return null;
+
+    const start = lineEnd + 1;
+    const end = Math.min(start + parseInt(match[1], 10), bytes.length);
+    const plist = bytesToBinaryString(bytes.subarray(end));
+    const flags = plist.match(/<key>flags<\/key>\s*<integer>(\d+)<\/integer>/);
+
+    return {
+      message: bytes.subarray(start, end),
+      flags: flags ? parseInt(flags[1], 10) : undefined,
+    };
+  }
+
+  /**
+   * Set state fields from an `.emlx` file's flags
+   */
+  private applyEmlxFlags(email: Omit<Email, 'id'>, flags: number): void {
+    email.isRead = (flags & EMLX_FLAG_READ) !== 0;
+    email.isStarred = (flags & EMLX_FLAG_FLAGGED) !== 0;
+    email.isReplied = (flags & EMLX_FLAG_ANSWERED) !== 0;
+    email.isForwarded = (flags & EMLX_FLAG_FORWARDED) !== 0;
+    email.isDraft = (flags & EMLX_FLAG_DRAFT) !== 0;
+    email.isTrashed = (flags & EMLX_FLAG_DELETED) !== 0;
+  }
+
+  private isZip(bytes: Uint8Array): boolean {
+    return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && (bytes[2] === 3 || bytes[2] === 5);
+  }
+
+  private isEMLName(name: string): boolean {
+    const base = (name.split('/').pop() || '').toLowerCase();
+    return (base.endsWith('.eml') || base.endsWith('.emlx')) && !base.startsWith('._');
+  }
+
+  private reportProgress(
+    callback: ((progress: ParseProgress) => void) | undefined,
+    stage: ParseProgress['stage'],
+    progress: number,
+    message: string
+  ): void {
+    callback?.({ stage, progress, message });
+  }
+
+  /**
+   * Check if a file is an EML message
+   * @param file - File to check
+   * @returns True if the file appears to be an EML or Apple Mail EMLX message
+   */
+  static isEMLFile(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return name.endsWith('.eml') || name.endsWith('.emlx') || file.type === 'message/rfc822';
+  }
+}
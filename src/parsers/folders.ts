@@ -0,0 +1,163 @@
+/**
+ * OLM Parser - Mail Folders
+ * @packageDocumentation
+ */
+
+import type { Email, Folder, FolderRole } from '../types';
+
+/** Well-known folder names (lowercased) mapped to their special-use roles */
+const SPECIAL_FOLDERS: Record<string, FolderRole> = {
+  inbox: 'inbox',
+  outbox: 'outbox',
+  'unsent messages': 'outbox',
+  sent: 'sent',
+  'sent items': 'sent',
+  'sent messages': 'sent',
+  'sent mail': 'sent',
+  drafts: 'drafts',
+  draft: 'drafts',
+  trash: 'trash',
+  'deleted items': 'trash',
+  'deleted messages': 'trash',
+  junk: 'spam',
+  'junk e-mail': 'spam',
+  'junk email': 'spam',
+  spam: 'spam',
+  archive: 'archive',
+  archives: 'archive',
+  'all mail': 'all',
+  flagged: 'flagged',
+  starred: 'flagged',
+};
+
+/** Names of folders that are only known by their role (e.g. the default `archive`) */
+const ROLE_NAMES: Record<FolderRole, string> = {
+  inbox: 'Inbox',
+  outbox: 'Outbox',
+  sent: 'Sent',
+  drafts: 'Drafts',
+  trash: 'Trash',
+  spam: 'Spam',
+  archive: 'Archive',
+  all: 'All Mail',
+  flagged: 'Flagged',
+};
+
+/**
+ * Special-use role of a well-known folder name ("Sent Items" -> 'sent')
+ * @internal
+ */
+export function folderRole(name: string): FolderRole | undefined {
+  return SPECIAL_FOLDERS[name.trim().toLowerCase()];
+}
+
+/**
+ * Convert a label or folder name to a folder ID segment ("Work Projects" -> "work-projects",
+ * "Проекты" -> "проекты")
+ *
+ * Letters and digits of any script are kept; a name without any (e.g. "★")
+ * gets its code points instead, so that distinct folders never share an ID.
+ * @internal
+ */
+export function folderNameToId(name: string): string {
+  const slug = Array.from(
+    name
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s-]/gu, '')
+      .trim()
+      .replace(/\s+/g, '-')
+  )
+    .slice(0, 50)
+    .join('');
+  if (slug || !name.trim()) return slug;
+  return Array.from(name.trim(), (char) => char.codePointAt(0)!.toString(16)).join('-').substring(0, 50);
+}
+
+/**
+ * Map a folder path onto a folder ID: a well-known top-level folder gets its
+ * role as ID, nested folders keep their hierarchy ("Inbox/Projects" -> "inbox/projects")
+ * @internal
+ */
+export function folderPathToId(names: string[]): string {
+  return names
+    .map((name, i) => (i === 0 && folderRole(name)) || folderNameToId(name))
+    .filter(Boolean)
+    .join('/') || 'archive';
+}
+
+/**
+ * Collects the folders of an archive and counts their emails
+ *
+ * Folders from the archive's own folder tree are registered with {@link add},
+ * empty ones included. Any other folder an email is in (a Gmail label, the
+ * default `archive`) is created when the email is tracked.
+ * @internal
+ */
+export class FolderTracker {
+  private readonly folders = new Map<string, Folder>();
+
+  /**
+   * Register a folder and its parents
+   * @param names - Folder path from the top, e.g. ['Inbox', 'Projects']
+   * @param account - Account the folder belongs to
+   * @param prefixAccount - Prefix the folder IDs with the account, to keep
+   * apart the folders of archives holding several accounts
+   * @returns The folder's ID
+   */
+  add(names: string[], account?: string, prefixAccount = false): string {
+    let id = folderPathToId([]);
+    let parentId: string | undefined;
+
+    for (let depth = 1; depth <= names.length; depth++) {
+      const path = names.slice(0, depth);
+      id = folderPathToId(path);
+      if (prefixAccount) id = `${(account ?? 'local').toLowerCase()}/${id}`;
+
+      if (!this.folders.has(id)) {
+        this.folders.set(id, {
+          id,
+          name: path[depth - 1],
+          path: path.join('/'),
+          parentId,
+          role: depth === 1 ? folderRole(path[0]) : undefined,
+          account,
+          emailCount: 0,
+        });
+      }
+      parentId = id;
+    }
+
+    return id;
+  }
+
+  /**
+   * Count an email in each of its folders
+   */
+  track(email: Omit<Email, 'id'>): void {
+    for (const id of new Set([email.folderId, ...(email.folderIds ?? [])])) {
+      let folder = this.folders.get(id);
+      if (!folder) {
+        folder = createFolder(id, email);
+        this.folders.set(id, folder);
+      }
+      folder.emailCount++;
+    }
+  }
+
+  /**
+   * The folders seen so far, parents before their subfolders
+   */
+  toFolders(): Folder[] {
+    return [...this.folders.values()];
+  }
+}
+
+/**
+ * Create a folder known only by an email's folder ID
+ */
+function createFolder(id: string, email: Omit<Email, 'id'>): Folder {
+  const role = id in ROLE_NAMES ? (id as FolderRole) : undefined;
+  // Label folders are named after the label they come from
+  const name = role ? ROLE_NAMES[role] : email.labels?.find((label) => folderNameToId(label) === id) ?? id;
+  return { id, name, path: name, role, emailCount: 0 };
+}
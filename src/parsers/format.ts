@@ -0,0 +1,226 @@
+/**
+ * OLM Parser - Archive Format Detection
+ * @packageDocumentation
+ */
+
+import type { ArchiveFormat } from '../types';
+import { bytesToBinaryString } from '../utils';
+
+/** Number of bytes sniffed from the start of the input */
+const SNIFF_SIZE = 64 * 1024;
+
+/** ZIP signatures: local file header, empty archive (end of central directory), spanned archive */
+const ZIP_SIGNATURES = ['PK\x03\x04', 'PK\x05\x06', 'PK\x07\x08'];
+
+/** Compound File Binary (OLE2) signature, shared by .msg, .doc, .xls, ... */
+const CFB_SIGNATURE = '\xD0\xCF\x11\xE0\xA1\xB1\x1A\xE1';
+
+/** Storage and stream names only found in Outlook messages, as UTF-16LE binary strings */
+const MSG_ENTRY_NAMES = [
+  '__substg1.0_',
+  '__properties_version1.0',
+  '__nameid_version1.0',
+  '__recip_version1.0_',
+  '__attach_version1.0_',
+].map((name) => name.replace(/./g, '$&\0'));
+
+/** Headers that strongly suggest the start of an RFC 822 message */
+const MESSAGE_HEADERS = [
+  'from',
+  'to',
+  'date',
+  'subject',
+  'message-id',
+  'received',
+  'return-path',
+  'mime-version',
+  'delivered-to',
+];
+
+/**
+ * Detect the format of an email archive from its content
+ *
+ * Checks magic bytes and content rather than the file name:
+ * - PST: `!BDN` signature of an Outlook for Windows data file (.pst/.ost)
+ * - MSG: OLE compound file whose directory holds Outlook property streams
+ * - Takeout: ZIP archive whose entries live under `Takeout/`
+ * - OLM: ZIP archive (any ZIP that isn't recognizably Takeout or a bundle of `.eml` files)
+ * - EML: ZIP archive whose entries are `.eml` or `.emlx` messages
+ * - EML: Apple Mail `.emlx` byte count line followed by message headers
+ * - MBOX: first line is an mbox `From ` separator
+ * - EML: input starts with RFC 822 message headers
+ * - vCard: input starts with `BEGIN:VCARD`
+ * - iCalendar: input starts with `BEGIN:VCALENDAR`
+ *
+ * @param input - File/Blob (browser), Buffer (Node.js) or raw bytes
+ * @returns Detected format, or null if the content isn't recognized
+ *
+ * @example
+ * ```typescript
+ * import { detectArchiveFormat } from '@technical-1/email-archive-parser';
+ *
+ * const format = await detectArchiveFormat(readFileSync('export.bin'));
+ * console.log(format); // 'mbox'
+ * ```
+ */
+export async function detectArchiveFormat(
+  input: File | Blob | Buffer | ArrayBuffer | Uint8Array
+): Promise<ArchiveFormat | null> {
+  const head = await readBytes(input, 0, SNIFF_SIZE);
+  const headText = bytesToBinaryString(head);
+
+  if (headText.startsWith('!BDN')) {
+    return 'pst';
+  }
+
+  if (headText.startsWith(CFB_SIGNATURE)) {
+    return (await isMSGCompoundFile(input, head)) ? 'msg' : null;
+  }
+
+  if (ZIP_SIGNATURES.some((signature) => headText.startsWith(signature))) {
+    const names = sniffZipEntryNames(head, headText);
+    if (names.some((name) => name.startsWith('Takeout/'))) return 'takeout';
+    // OLM entries live under com.microsoft.__Messages, __Contacts, ...
+    if (headText.includes('com.microsoft.__')) return 'olm';
+    return names.some(isEMLEntryName) ? 'eml' : 'olm';
+  }
+
+  // Skip a UTF-8 BOM and leading blank lines
+  const text = headText.replace(/^\xEF\xBB\xBF/, '').replace(/^[\r\n]+/, '');
+
+  const emlxPrefix = text.match(/^\d+[ \t]*\r?\n/);
+  if (emlxPrefix && looksLikeMessageHeaders(text.slice(emlxPrefix[0].length))) {
+    return 'eml';
+  }
+
+  if (text.startsWith('From ')) {
+    return 'mbox';
+  }
+
+  if (looksLikeMessageHeaders(text)) {
+    return 'eml';
+  }
+
+  if (/^BEGIN:VCARD\r?\n/i.test(text)) {
+    return 'vcard';
+  }
+
+  if (/^BEGIN:VCALENDAR\r?\n/i.test(text)) {
+    return 'icalendar';
+  }
+
+  return null;
+}
+
+/**
+ * Guess the archive format from a file name
+ * @internal
+ */
+export function formatFromFileName(name: string): ArchiveFormat | null {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.olm')) return 'olm';
+  if (/(^|[\\/])takeout-[^\\/]*\.zip$/.test(lower)) return 'takeout';
+  if (lower.endsWith('.pst') || lower.endsWith('.ost')) return 'pst';
+  if (lower.endsWith('.msg')) return 'msg';
+  if (lower.endsWith('.mbox') || lower.endsWith('.mbx')) return 'mbox';
+  if (lower.endsWith('.eml') || lower.endsWith('.emlx')) return 'eml';
+  if (lower.endsWith('.vcf') || lower.endsWith('.vcard')) return 'vcard';
+  if (lower.endsWith('.ics') || lower.endsWith('.ical')) return 'icalendar';
+  return null;
+}
+
+/**
+ * List the entry names of the local file headers that fit in the sniffed bytes
+ */
+function sniffZipEntryNames(head: Uint8Array, headText: string): string[] {
+  const names: string[] = [];
+  let offset = 0;
+  while (offset + 30 <= head.length && headText.startsWith('PK\x03\x04', offset)) {
+    const flags = head[offset + 6] | (head[offset + 7] << 8);
+    const compressedSize =
+      (head[offset + 18] | (head[offset + 19] << 8) | (head[offset + 20] << 16) | (head[offset + 21] << 24)) >>> 0;
+    const nameLength = head[offset + 26] | (head[offset + 27] << 8);
+    const extraLength = head[offset + 28] | (head[offset + 29] << 8);
+    names.push(headText.slice(offset + 30, offset + 30 + nameLength));
+
+    // Sizes are only known up front without a trailing data descriptor
+    if (flags & 0x08) break;
+    offset += 30 + nameLength + extraLength + compressedSize;
+  }
+  return names;
+}
+
+/**
+ * Check whether a ZIP entry is an `.eml`/`.emlx` message
+ */
+function isEMLEntryName(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.endsWith('.eml') || lower.endsWith('.emlx');
+}
+
+/**
+ * Check whether a compound file is an Outlook message by looking for its
+ * property storages and streams in the first directory sector
+ */
+async function isMSGCompoundFile(
+  input: File | Blob | Buffer | ArrayBuffer | Uint8Array,
+  head: Uint8Array
+): Promise<boolean> {
+  if (head.length < 0x34) return false;
+  const sectorSize = 1 << (head[0x1e] | (head[0x1f] << 8));
+  const directorySector = (head[0x30] | (head[0x31] << 8) | (head[0x32] << 16) | (head[0x33] << 24)) >>> 0;
+  if (sectorSize !== 512 && sectorSize !== 4096) return false;
+
+  const start = (directorySector + 1) * sectorSize;
+  const directory =
+    start + sectorSize <= head.length
+      ? head.subarray(start, start + sectorSize)
+      : await readBytes(input, start, start + sectorSize);
+  const text = bytesToBinaryString(directory);
+  return MSG_ENTRY_NAMES.some((name) => text.includes(name));
+}
+
+/**
+ * Check whether text begins with a block of RFC 822 headers
+ */
+function looksLikeMessageHeaders(text: string): boolean {
+  const lines = text.split(/\r?\n/);
+  let knownHeaders = 0;
+  let headerLines = 0;
+
+  for (const line of lines.slice(0, 50)) {
+    if (line === '') break;
+
+    // Folded continuation line
+    if (/^[ \t]/.test(line)) {
+      if (headerLines === 0) return false;
+      continue;
+    }
+
+    const match = line.match(/^([!-9;-~]+):/);
+    if (!match) return false;
+
+    headerLines++;
+    if (MESSAGE_HEADERS.includes(match[1].toLowerCase())) {
+      knownHeaders++;
+    }
+  }
+
+  return knownHeaders >= 2;
+}
+
+/**
+ * Read a byte range from any supported input
+ * The range is clamped to the input, so a range past the end of a truncated file reads as empty.
+ */
+async function readBytes(
+  input: File | Blob | Buffer | ArrayBuffer | Uint8Array,
+  start: number,
+  end: number
+): Promise<Uint8Array> {
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    return new Uint8Array(await input.slice(start, end).arrayBuffer());
+  }
+  const bytes = input instanceof ArrayBuffer ? new Uint8Array(input) : (input as Uint8Array);
+  return bytes.subarray(start, end);
+}
@@ -0,0 +1,703 @@
+/**
+ * OLM Parser - iCalendar Parser
+ * @packageDocumentation
+ */
+
+import type {
+  CalendarEvent,
+  CalendarAttendee,
+  CalendarRecurrence,
+  CalendarInvite,
+  ParseOptions,
+  ParseResult,
+  ParseProgress,
+  StreamInput,
+  ArchiveItem,
+} from '../types';
+import { cleanEmailAddress, decodeBytes } from '../utils';
+import { readAll } from './input';
+import { throwIfAborted, reportDiagnostic } from '../errors';
+
+/**
+ * One or more iCalendar files: a File/Blob, Buffer or raw bytes, a file path
+ * (Node.js), a stream, or an array of files
+ */
+export type ICalendarInput = StreamInput | Array<File | Blob | Buffer | ArrayBuffer | Uint8Array | string>;
+
+/**
+ * One `NAME;PARAM=VALUE:value` content line
+ */
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * A `BEGIN:X` ... `END:X` block with its properties and nested components
+ */
+interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+/**
+ * Offset from UTC in milliseconds in effect at a wall-clock time
+ * (the wall-clock time given as milliseconds as if it were UTC)
+ */
+type ZoneOffset = (wallTime: number) => number;
+
+/**
+ * A STANDARD or DAYLIGHT observance of a VTIMEZONE
+ */
+interface Observance {
+  /** First onset, as wall-clock time before the change */
+  start: number;
+  offsetFrom: number;
+  offsetTo: number;
+  /** RRULE parts by name, for observances that repeat every year */
+  rule?: Record<string, string>;
+  /** Further onsets (RDATE) */
+  dates: number[];
+}
+
+const DAY = 24 * 3600000;
+
+/** Weekday codes in `Date.getUTCDay()` order */
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: CalendarRecurrence['frequency'][] = [
+  'secondly',
+  'minutely',
+  'hourly',
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+];
+
+const PARTICIPATION_STATUSES: NonNullable<CalendarAttendee['status']>[] = [
+  'needs-action',
+  'accepted',
+  'declined',
+  'tentative',
+  'delegated',
+];
+
+const ROLES: Record<string, CalendarAttendee['role']> = {
+  CHAIR: 'chair',
+  'REQ-PARTICIPANT': 'required',
+  'OPT-PARTICIPANT': 'optional',
+  'NON-PARTICIPANT': 'non-participant',
+};
+
+const EVENT_STATUSES: NonNullable<CalendarEvent['status']>[] = ['confirmed', 'tentative', 'cancelled'];
+
+/**
+ * Parser for iCalendar (`.ics`) files and `text/calendar` content (RFC 5545)
+ *
+ * Reads the events of Google Calendar, Apple Calendar, Outlook and
+ * Thunderbird exports: times in the time zones the file defines (VTIMEZONE)
+ * or names (IANA), all-day events, RRULE/EXDATE recurrence, the organizer,
+ * attendees with their replies, and VALARM reminders.
+ *
+ * @example
+ * ```typescript
+ * import { ICalendarParser } from '@technical-1/email-archive-parser';
+ *
+ * const parser = new ICalendarParser();
+ * const result = await parser.parseFile('/path/to/calendar.ics');
+ *
+ * for (const event of result.calendarEvents) {
+ *   console.log(event.title, event.startDate, event.recurrence?.rule);
+ * }
+ * ```
+ */
+export class ICalendarParser {
+  /**
+   * Parse one or more iCalendar files
+   * @param input - iCalendar file(s) (see {@link ICalendarInput})
+   * @param options - Parsing options
+   * @returns Parsed data; only `calendarEvents` is filled
+   */
+  async parse(input: ICalendarInput, options: ParseOptions = {}): Promise<ParseResult> {
+    const result: ParseResult = {
+      emails: [],
+      contacts: [],
+      calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
+      stats: {
+        emailCount: 0,
+        contactCount: 0,
+        calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
+        accountCount: 0,
+        purchaseCount: 0,
+        subscriptionCount: 0,
+        newsletterCount: 0,
+      },
+      diagnostics: [],
+    };
+
+    const streamOptions: ParseOptions = {
+      ...options,
+      onWarning: (diagnostic) => {
+        result.diagnostics.push(diagnostic);
+        options.onWarning?.(diagnostic);
+      },
+    };
+
+    for await (const item of this.stream(input, streamOptions)) {
+      if (item.type === 'calendarEvent') {
+        result.calendarEvents.push(item.event);
+        result.stats.calendarEventCount++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse an iCalendar file (Node.js only)
+   *
+   * @param path - Path to an `.ics` file
+   * @param options - Parsing options
+   * @returns Parsed data
+   */
+  async parseFile(path: string, options: ParseOptions = {}): Promise<ParseResult> {
+    return this.parse(path, options);
+  }
+
+  /**
+   * Stream the events of one or more iCalendar files
+   *
+   * @param input - iCalendar file(s) (see {@link ICalendarInput})
+   * @param options - Parsing options
+   */
+  async *stream(input: ICalendarInput, options: ParseOptions = {}): AsyncGenerator<ArchiveItem> {
+    const { onProgress, signal } = options;
+    throwIfAborted(signal);
+
+    const inputs = Array.isArray(input) ? input : [input];
+    let eventCount = 0;
+
+    this.reportProgress(onProgress, 'parsing_calendar', 0, 'Parsing calendar...');
+
+    for (let i = 0; i < inputs.length; i++) {
+      throwIfAborted(signal);
+      const name = this.getName(inputs[i], i);
+
+      let bytes: Uint8Array | null = null;
+      try {
+        const data = await readAll(inputs[i]);
+        bytes = data instanceof Uint8Array
+          ? data
+          : new Uint8Array(data instanceof ArrayBuffer ? data : await data.arrayBuffer());
+      } catch (error) {
+        reportDiagnostic(options, {
+          severity: 'error',
+          code: 'entry_read_failed',
+          message: `Failed to read ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          location: { path: name },
+        });
+      }
+
+      // iCalendar is UTF-8, but some older exporters write their local charset
+      for (const event of bytes ? parseICalendar(decodeBytes(bytes, undefined, options.fallbackCharset)) : []) {
+        throwIfAborted(signal);
+        eventCount++;
+        yield { type: 'calendarEvent', event: event as CalendarEvent };
+      }
+
+      this.reportProgress(
+        onProgress,
+        'parsing_calendar',
+        Math.round(((i + 1) / inputs.length) * 100),
+        `Parsed ${eventCount} calendar events`
+      );
+    }
+
+    this.reportProgress(onProgress, 'complete', 100, `Parsed ${eventCount} calendar events successfully`);
+  }
+
+  private getName(input: ICalendarInput, index: number): string {
+    if (typeof input === 'string') return input;
+    if (typeof File !== 'undefined' && input instanceof File) return input.name;
+    return `calendar-${index + 1}.ics`;
+  }
+
+  private reportProgress(
+    callback: ((progress: ParseProgress) => void) | undefined,
+    stage: ParseProgress['stage'],
+    progress: number,
+    message: string
+  ): void {
+    callback?.({ stage, progress, message });
+  }
+
+  /**
+   * Check if a file is an iCalendar file
+   * @param file - File to check
+   * @returns True if the file appears to be an iCalendar file
+   */
+  static isICalendarFile(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return name.endsWith('.ics') || name.endsWith('.ical') || file.type === 'text/calendar';
+  }
+}
+
+/**
+ * Parse the events (`VEVENT` components) in iCalendar text
+ *
+ * UTC times (`...Z`) are exact. Times with a `TZID` use the matching
+ * VTIMEZONE, or the IANA time zone of that name; times with no zone, and
+ * those whose zone is unknown, are read as local time. `DATE` values make
+ * all-day events (local midnight).
+ *
+ * @internal
+ */
+export function parseICalendar(text: string): Omit<CalendarEvent, 'id'>[] {
+  return readEvents(parseComponents(text.replace(/^\uFEFF/, '')));
+}
+
+/**
+ * Parse the calendar content of an email (iTIP): its METHOD and events
+ *
+ * @returns The invitation, or null if the content holds no events
+ * @internal
+ */
+export function parseCalendarInvite(text: string): CalendarInvite | null {
+  const components = parseComponents(text.replace(/^\uFEFF/, ''));
+  const events = readEvents(components);
+  if (events.length === 0) return null;
+
+  const calendar = components.find((component) => component.name === 'VCALENDAR');
+  const method = calendar?.properties.find((property) => property.name === 'METHOD')?.value.trim();
+  // Without a METHOD the content is a plain calendar, like an .ics file sent around
+  return { method: method ? method.toLowerCase() : 'publish', events: events as CalendarEvent[] };
+}
+
+function readEvents(components: ICalComponent[]): Omit<CalendarEvent, 'id'>[] {
+  const zones = createZoneLookup(components);
+  const events: Omit<CalendarEvent, 'id'>[] = [];
+
+  const visit = (component: ICalComponent) => {
+    if (component.name === 'VEVENT') {
+      const event = toEvent(component, zones);
+      if (event) events.push(event);
+    } else {
+      component.components.forEach(visit);
+    }
+  };
+  components.forEach(visit);
+
+  return events;
+}
+
+/**
+ * Build the component tree of iCalendar text
+ *
+ * A component is only kept once its END line is read, so an event cut off at
+ * the end of a truncated file is dropped; the components around it are kept.
+ */
+function parseComponents(text: string): ICalComponent[] {
+  const root: ICalComponent = { name: '', properties: [], components: [] };
+  const open: ICalComponent[] = [root];
+
+  for (const line of text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      open.push({ name: property.value.trim().toUpperCase(), properties: [], components: [] });
+    } else if (property.name === 'END') {
+      const index = open.map((component) => component.name).lastIndexOf(property.value.trim().toUpperCase());
+      // Components left open inside the one that ends are closed with it
+      while (index > 0 && open.length > index) {
+        const component = open.pop()!;
+        open[open.length - 1].components.push(component);
+      }
+    } else {
+      open[open.length - 1].properties.push(property);
+    }
+  }
+
+  while (open.length > 1) {
+    const component = open.pop()!;
+    if (component.name !== 'VEVENT') open[open.length - 1].components.push(component);
+  }
+
+  return root.components;
+}
+
+function toEvent(component: ICalComponent, zones: (tzid: string) => ZoneOffset | null): Omit<CalendarEvent, 'id'> | null {
+  const { properties } = component;
+  const get = (name: string) => properties.find((property) => property.name === name);
+  const getAll = (name: string) => properties.filter((property) => property.name === name);
+  const date = (property: ICalProperty | undefined) =>
+    property ? parseDateTime(property.value, property.params.TZID, zones) : null;
+
+  const start = get('DTSTART');
+  const startDate = date(start);
+  if (!start || !startDate) return null;
+
+  const isAllDay = start.params.VALUE?.toUpperCase() === 'DATE' || /^\d{8}$/.test(start.value.trim());
+  const duration = parseDuration(get('DURATION')?.value);
+  const endDate =
+    date(get('DTEND')) ||
+    new Date(startDate.getTime() + (duration ?? (isAllDay ? DAY : 0)));
+
+  const participants = getAll('ATTENDEE').map(toAttendee).filter((attendee) => attendee.email);
+  const attendees = participants.map((attendee) => attendee.email);
+  const organizerProperty = get('ORGANIZER');
+  const organizer = organizerProperty ? toAddress(organizerProperty.params.EMAIL ?? organizerProperty.value) : '';
+  if (attendees.length === 0 && organizer) {
+    attendees.push(organizer);
+  }
+
+  const alarms = component.components.filter((nested) => nested.name === 'VALARM');
+  const reminderMinutes = alarms
+    .map((alarm) => toReminderMinutes(alarm, startDate, endDate, zones))
+    .find((minutes) => minutes !== undefined);
+
+  const rule = get('RRULE');
+  const description = unescapeText(get('DESCRIPTION')?.value ?? '').trim();
+  const location = unescapeText(get('LOCATION')?.value ?? '').trim();
+  const status = get('STATUS')?.value.trim().toLowerCase() as CalendarEvent['status'];
+  const sequence = parseInt(get('SEQUENCE')?.value ?? '', 10);
+
+  return {
+    title: unescapeText(get('SUMMARY')?.value ?? '').trim() || '(No Title)',
+    startDate,
+    endDate,
+    location: location || undefined,
+    attendees,
+    description: description || undefined,
+    isAllDay,
+    reminder: alarms.length > 0,
+    reminderMinutes,
+    uid: get('UID')?.value.trim() || undefined,
+    organizer: organizer || undefined,
+    participants: participants.length > 0 ? participants : undefined,
+    status: status && EVENT_STATUSES.includes(status) ? status : undefined,
+    timeZone: start.params.TZID || undefined,
+    recurrence: rule ? toRecurrence(rule, getAll('EXDATE'), start.params.TZID, zones) : undefined,
+    recurrenceId: date(get('RECURRENCE-ID')) ?? undefined,
+    sequence: isNaN(sequence) ? undefined : sequence,
+  };
+}
+
+function toAttendee(property: ICalProperty): CalendarAttendee {
+  const status = property.params.PARTSTAT?.toLowerCase() as CalendarAttendee['status'];
+  return {
+    email: toAddress(property.params.EMAIL ?? property.value),
+    name: property.params.CN?.trim() || undefined,
+    status: status && PARTICIPATION_STATUSES.includes(status) ? status : undefined,
+    role: ROLES[property.params.ROLE?.toUpperCase() ?? ''],
+  };
+}
+
+/**
+ * Minutes before the event's start that a VALARM fires
+ */
+function toReminderMinutes(
+  alarm: ICalComponent,
+  start: Date,
+  end: Date,
+  zones: (tzid: string) => ZoneOffset | null
+): number | undefined {
+  const trigger = alarm.properties.find((property) => property.name === 'TRIGGER');
+  if (!trigger) return undefined;
+
+  let fires: number;
+  if (trigger.params.VALUE?.toUpperCase() === 'DATE-TIME') {
+    const at = parseDateTime(trigger.value, undefined, zones);
+    if (!at) return undefined;
+    fires = at.getTime();
+  } else {
+    const offset = parseDuration(trigger.value);
+    if (offset === null) return undefined;
+    fires = (trigger.params.RELATED?.toUpperCase() === 'END' ? end : start).getTime() + offset;
+  }
+
+  return Math.round((start.getTime() - fires) / 60000) || 0;
+}
+
+function toRecurrence(
+  rule: ICalProperty,
+  exceptionDates: ICalProperty[],
+  tzid: string | undefined,
+  zones: (tzid: string) => ZoneOffset | null
+): CalendarRecurrence | undefined {
+  const parts = parseRule(rule.value);
+  const frequency = parts.FREQ?.toLowerCase() as CalendarRecurrence['frequency'];
+  if (!FREQUENCIES.includes(frequency)) return undefined;
+
+  const numbers = (name: string) =>
+    parts[name]?.split(',').map(Number).filter((value) => Number.isInteger(value));
+
+  return {
+    rule: rule.value.trim(),
+    frequency,
+    interval: Number(parts.INTERVAL) || 1,
+    count: Number(parts.COUNT) || undefined,
+    until: (parts.UNTIL && parseDateTime(parts.UNTIL, tzid, zones)) || undefined,
+    byDay: parts.BYDAY?.split(',').map((day) => day.trim().toUpperCase()),
+    byMonthDay: numbers('BYMONTHDAY'),
+    byMonth: numbers('BYMONTH'),
+    exceptions: exceptionDates.flatMap((property) =>
+      property.value
+        .split(',')
+        .map((value) => parseDateTime(value, property.params.TZID, zones))
+        .filter((value): value is Date => value !== null)
+    ),
+  };
+}
+
+/**
+ * Parse a content line into its name, parameters and value
+ */
+function parseProperty(line: string): ICalProperty | null {
+  // Parameter values may be quoted and contain ':' or ';'
+  const match = line.match(/^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:]*)(?:,(?:"[^"]*"|[^";:,]*))*)*):(.*)$/);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of match[2].matchAll(/;([A-Za-z0-9-]+)=("[^"]*"|[^";:]*)/g)) {
+    params[param[1].toUpperCase()] = param[2].replace(/^"|"$/g, '');
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+}
+
+/**
+ * Split a recurrence rule (`FREQ=WEEKLY;BYDAY=MO`) into its parts
+ */
+function parseRule(value: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [name, ...rest] = part.split('=');
+    if (name && rest.length > 0) parts[name.trim().toUpperCase()] = rest.join('=').trim();
+  }
+  return parts;
+}
+
+/**
+ * Parse a DATE (`20240115`) or DATE-TIME (`20240115T103000`, `...Z`) value
+ */
+function parseDateTime(
+  value: string,
+  tzid: string | undefined,
+  zones: (tzid: string) => ZoneOffset | null
+): Date | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute = '0', second = '0', utc] = match;
+  const parts = [+year, +month - 1, +day, +(hour ?? 0), +minute, +second] as const;
+  // Dates are all-day and stay at local midnight wherever the zone is
+  const zone = hour !== undefined && !utc && tzid ? zones(tzid) : null;
+
+  let date: Date;
+  if (utc) {
+    date = new Date(Date.UTC(...parts));
+  } else if (zone) {
+    const wallTime = Date.UTC(...parts);
+    date = new Date(wallTime - zone(wallTime));
+  } else {
+    date = new Date(...parts);
+  }
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a duration (`PT15M`, `-P1DT2H`, `P2W`) into milliseconds
+ */
+function parseDuration(value: string | undefined): number | null {
+  const match = value?.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match) return null;
+
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const ms = (((+weeks * 7 + +days) * 24 + +hours) * 60 + +minutes) * 60000 + +seconds * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Look up time zones by TZID: the file's own VTIMEZONE definitions first,
+ * then IANA names
+ */
+function createZoneLookup(components: ICalComponent[]): (tzid: string) => ZoneOffset | null {
+  const defined = new Map<string, ZoneOffset>();
+  const visit = (component: ICalComponent) => {
+    if (component.name === 'VTIMEZONE') {
+      const tzid = component.properties.find((property) => property.name === 'TZID')?.value.trim();
+      const zone = vTimezoneOffset(component);
+      if (tzid && zone) defined.set(tzid, zone);
+    }
+    component.components.forEach(visit);
+  };
+  components.forEach(visit);
+
+  const cache = new Map<string, ZoneOffset | null>();
+  return (tzid) => {
+    if (!cache.has(tzid)) cache.set(tzid, defined.get(tzid) ?? ianaOffset(tzid));
+    return cache.get(tzid)!;
+  };
+}
+
+/**
+ * Offsets of a VTIMEZONE: the latest STANDARD or DAYLIGHT onset before a time decides
+ */
+function vTimezoneOffset(zone: ICalComponent): ZoneOffset | null {
+  const observances = zone.components
+    .filter((component) => component.name === 'STANDARD' || component.name === 'DAYLIGHT')
+    .map(toObservance)
+    .filter((observance): observance is Observance => observance !== null);
+  if (observances.length === 0) return null;
+
+  const first = observances.reduce((earliest, observance) => (observance.start < earliest.start ? observance : earliest));
+
+  return (wallTime) => {
+    const year = new Date(wallTime).getUTCFullYear();
+    let latest: { onset: number; offset: number } | null = null;
+
+    for (const observance of observances) {
+      for (const onset of [...observanceOnsets(observance, year - 1), ...observanceOnsets(observance, year)]) {
+        if (onset <= wallTime && (!latest || onset > latest.onset)) {
+          latest = { onset, offset: observance.offsetTo };
+        }
+      }
+    }
+
+    return latest ? latest.offset : first.offsetFrom;
+  };
+}
+
+function toObservance(component: ICalComponent): Observance | null {
+  const get = (name: string) => component.properties.find((property) => property.name === name);
+
+  const start = parseWallTime(get('DTSTART')?.value ?? '');
+  const offsetFrom = parseUtcOffset(get('TZOFFSETFROM')?.value ?? '');
+  const offsetTo = parseUtcOffset(get('TZOFFSETTO')?.value ?? '');
+  if (start === null || offsetFrom === null || offsetTo === null) return null;
+
+  const rule = get('RRULE');
+  const dates = component.properties
+    .filter((property) => property.name === 'RDATE')
+    .flatMap((property) => property.value.split(',').map(parseWallTime))
+    .filter((date): date is number => date !== null);
+
+  return { start, offsetFrom, offsetTo, rule: rule ? parseRule(rule.value) : undefined, dates };
+}
+
+/**
+ * Onsets of an observance in a year, as wall-clock times
+ */
+function observanceOnsets(observance: Observance, year: number): number[] {
+  const { rule } = observance;
+  if (!rule) {
+    return [observance.start, ...observance.dates].filter((onset) => new Date(onset).getUTCFullYear() === year);
+  }
+  if (rule.FREQ?.toUpperCase() !== 'YEARLY') return [];
+
+  const start = new Date(observance.start);
+  const month = rule.BYMONTH ? Number(rule.BYMONTH.split(',')[0]) - 1 : start.getUTCMonth();
+  const day = ruleDay(rule, year, month) ?? start.getUTCDate();
+  const onset = Date.UTC(year, month, day, start.getUTCHours(), start.getUTCMinutes(), start.getUTCSeconds());
+
+  // UNTIL is in UTC; the onset is in the time before the change
+  const until = rule.UNTIL ? parseWallTime(rule.UNTIL) : null;
+  if (onset < observance.start || (until !== null && onset - observance.offsetFrom > until)) return [];
+  return [onset];
+}
+
+/**
+ * Day of the month a yearly rule picks: `BYDAY=2SU` (second Sunday), `-1SU`
+ * (last Sunday), or a weekday within `BYMONTHDAY=8,9,...,14`
+ */
+function ruleDay(rule: Record<string, string>, year: number, month: number): number | null {
+  const monthDays = rule.BYMONTHDAY?.split(',').map(Number) ?? [];
+  const byDay = rule.BYDAY?.toUpperCase().match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!byDay) return monthDays.length > 0 ? monthDays[0] : null;
+
+  const weekday = WEEKDAYS.indexOf(byDay[2]);
+  const weekdayOf = (day: number) => new Date(Date.UTC(year, month, day)).getUTCDay();
+  if (monthDays.length > 0) {
+    return monthDays.find((day) => weekdayOf(day) === weekday) ?? null;
+  }
+
+  const week = byDay[1] ? Number(byDay[1]) : 1;
+  if (week > 0) {
+    return 1 + ((weekday - weekdayOf(1) + 7) % 7) + (week - 1) * 7;
+  }
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return daysInMonth - ((weekdayOf(daysInMonth) - weekday + 7) % 7) + (week + 1) * 7;
+}
+
+/**
+ * Offsets of an IANA time zone, or null if the runtime doesn't know the name
+ */
+function ianaOffset(tzid: string): ZoneOffset | null {
+  // Old Thunderbird exports prefix the name: /mozilla.org/20070129_1/Europe/Berlin
+  const timeZone = tzid.replace(/^\/[^/]+\/[^/]+\//, '');
+
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+  } catch {
+    return null;
+  }
+
+  const offsetAt = (time: number) => {
+    const parts: Record<string, number> = {};
+    for (const part of format.formatToParts(time)) parts[part.type] = Number(part.value);
+    const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallTime - Math.floor(time / 1000) * 1000;
+  };
+
+  // The offset at the guessed instant is right unless a change lies in between
+  return (wallTime) => offsetAt(wallTime - offsetAt(wallTime));
+}
+
+/**
+ * Parse a DATE or DATE-TIME value as wall-clock milliseconds, ignoring any `Z`
+ */
+function parseWallTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/i);
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+}
+
+/**
+ * Parse a UTC offset (`-0500`, `+0530`, `+013045`) into milliseconds
+ */
+function parseUtcOffset(value: string): number | null {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return null;
+  const ms = ((+match[2] * 60 + +match[3]) * 60 + +(match[4] ?? 0)) * 1000;
+  return match[1] === '-' ? -ms : ms;
+}
+
+/**
+ * Turn a `mailto:` calendar address into a bare email address
+ */
+function toAddress(value: string): string {
+  return cleanEmailAddress(value.replace(/^mailto:/i, ''));
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
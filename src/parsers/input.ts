@@ -0,0 +1,181 @@
+/**
+ * OLM Parser - Input Readers
+ * @packageDocumentation
+ */
+
+import type { StreamInput } from '../types';
+
+/**
+ * Read any supported input as a sequence of byte chunks
+ *
+ * Chunks are only read when the consumer asks for the next one, so a slow
+ * consumer never causes the whole input to be buffered.
+ *
+ * @param input - File/Blob, Buffer/ArrayBuffer/Uint8Array, Node.js file path,
+ *   WHATWG ReadableStream or Node.js Readable
+ * @param chunkSize - Preferred chunk size in bytes (streams use their own chunking)
+ * @internal
+ */
+export async function* readChunks(
+  input: StreamInput,
+  chunkSize: number
+): AsyncGenerator<Uint8Array> {
+  if (typeof input === 'string') {
+    // Node.js file path
+    const fs = await import('fs');
+    const stream = fs.createReadStream(input, { highWaterMark: chunkSize });
+    try {
+      for await (const chunk of stream) {
+        yield chunk as Buffer;
+      }
+    } finally {
+      stream.destroy();
+    }
+    return;
+  }
+
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    for (let offset = 0; offset < input.size; offset += chunkSize) {
+      yield new Uint8Array(await input.slice(offset, offset + chunkSize).arrayBuffer());
+    }
+    return;
+  }
+
+  if (input instanceof ArrayBuffer || ArrayBuffer.isView(input)) {
+    const bytes =
+      input instanceof ArrayBuffer
+        ? new Uint8Array(input)
+        : new Uint8Array(input.buffer, input.byteOffset, input.byteLength);
+    for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+      yield bytes.subarray(offset, offset + chunkSize);
+    }
+    return;
+  }
+
+  if (typeof ReadableStream !== 'undefined' && input instanceof ReadableStream) {
+    const reader = input.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield value;
+      }
+    } finally {
+      // Stop the source if the consumer breaks out early
+      await reader.cancel().catch(() => undefined);
+      reader.releaseLock();
+    }
+    return;
+  }
+
+  // Node.js Readable (or any async iterable of bytes)
+  for await (const chunk of input as AsyncIterable<Uint8Array | string>) {
+    yield typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk;
+  }
+}
+
+/**
+ * Read a whole input into memory (for formats that need random access, like ZIP)
+ * @internal
+ */
+export async function readAll(input: StreamInput): Promise<Blob | ArrayBuffer | Uint8Array> {
+  if (typeof input === 'string') {
+    const fs = await import('fs');
+    return fs.promises.readFile(input);
+  }
+
+  if (
+    (typeof Blob !== 'undefined' && input instanceof Blob) ||
+    input instanceof ArrayBuffer ||
+    ArrayBuffer.isView(input)
+  ) {
+    return input as Blob | ArrayBuffer | Uint8Array;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for await (const chunk of readChunks(input, 1024 * 1024)) {
+    chunks.push(chunk);
+    length += chunk.length;
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Get the size of an input in bytes, if it can be known up front
+ * @internal
+ */
+export async function getInputSize(input: StreamInput): Promise<number | undefined> {
+  if (typeof input === 'string') {
+    const fs = await import('fs');
+    return (await fs.promises.stat(input)).size;
+  }
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    return input.size;
+  }
+  if (input instanceof ArrayBuffer || ArrayBuffer.isView(input)) {
+    return input.byteLength;
+  }
+  return undefined;
+}
+
+/**
+ * Reads byte ranges from an input without loading all of it
+ * @internal
+ */
+export interface RandomAccessReader {
+  /** Total size in bytes */
+  readonly size: number;
+  /** Read `length` bytes at `offset` (fewer at the end of the input) */
+  read(offset: number, length: number): Promise<Uint8Array>;
+  /** Release the underlying file handle, if any */
+  close(): Promise<void>;
+}
+
+/**
+ * Open an input for random access (for formats with internal offsets, like PST)
+ *
+ * File paths and Blobs are read on demand; streams have no random access and
+ * are buffered in memory first.
+ * @internal
+ */
+export async function openRandomAccess(input: StreamInput): Promise<RandomAccessReader> {
+  if (typeof input === 'string') {
+    const fs = await import('fs');
+    const handle = await fs.promises.open(input, 'r');
+    const { size } = await handle.stat();
+    return {
+      size,
+      read: async (offset, length) => {
+        const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+        return buffer.subarray(0, bytesRead);
+      },
+      close: () => handle.close(),
+    };
+  }
+
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    return {
+      size: input.size,
+      read: async (offset, length) =>
+        new Uint8Array(await input.slice(offset, offset + length).arrayBuffer()),
+      close: async () => undefined,
+    };
+  }
+
+  const data = (await readAll(input)) as ArrayBuffer | Uint8Array;
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return {
+    size: bytes.length,
+    read: async (offset, length) => bytes.subarray(offset, offset + length),
+    close: async () => undefined,
+  };
+}
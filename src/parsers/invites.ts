@@ -0,0 +1,143 @@
+/**
+ * OLM Parser - Calendar Invitation Tracking
+ * @packageDocumentation
+ */
+
+import type { Email, CalendarEvent } from '../types';
+
+/**
+ * One version of an event, as found in an email
+ */
+interface TrackedInvite {
+  method: string;
+  event: CalendarEvent;
+  date: Date;
+  messageId?: string;
+  /** Order in which the email was read, to break ties */
+  order: number;
+}
+
+/** Methods that create or update an event */
+const UPDATE_METHODS = ['request', 'publish', 'add'];
+
+/**
+ * Builds calendar events from the invitations found in emails
+ *
+ * An archive holds every version of a meeting: the first invitation,
+ * updates, attendees' replies and the cancellation. Versions are grouped by
+ * UID (and RECURRENCE-ID, for a single changed occurrence) and applied in
+ * order of SEQUENCE, then email date, whatever order the emails are read in.
+ * @internal
+ */
+export class CalendarInviteTracker {
+  private readonly invites = new Map<string, TrackedInvite[]>();
+  private order = 0;
+
+  /**
+   * Remember the invitation an email carries, if any
+   */
+  track(email: Omit<Email, 'id'>): void {
+    if (!email.invite) return;
+
+    for (const event of email.invite.events) {
+      // Events without a UID can't be matched with other versions
+      const key = occurrenceKey(event) ?? `#${this.order}`;
+      const versions = this.invites.get(key) ?? [];
+      versions.push({
+        method: email.invite.method,
+        event,
+        date: email.date,
+        messageId: email.messageId,
+        order: this.order++,
+      });
+      this.invites.set(key, versions);
+    }
+  }
+
+  /**
+   * The current state of every event: latest details, replies applied, cancellations marked
+   */
+  toEvents(): CalendarEvent[] {
+    const events: CalendarEvent[] = [];
+    for (const versions of this.invites.values()) {
+      const event = resolve(versions.sort(compareVersions));
+      if (event) events.push(event);
+    }
+
+    // A cancelled series cancels its changed occurrences; a cancelled occurrence is removed from its series
+    const series = new Map(
+      events.filter((event) => event.uid && !event.recurrenceId).map((event) => [event.uid!, event])
+    );
+    for (const event of events) {
+      const parent = event.recurrenceId && series.get(event.uid!);
+      if (!parent) continue;
+      if (parent.status === 'cancelled') {
+        event.status = 'cancelled';
+      } else if (event.status === 'cancelled' && parent.recurrence) {
+        parent.recurrence.exceptions.push(event.recurrenceId!);
+      }
+    }
+
+    return events;
+  }
+}
+
+/**
+ * Key of an event occurrence: its UID and, for a changed occurrence, the start it replaces
+ * @returns The key, or null for events without a UID
+ * @internal
+ */
+export function occurrenceKey(event: Omit<CalendarEvent, 'id'>): string | null {
+  if (!event.uid) return null;
+  return `${event.uid}|${event.recurrenceId?.getTime() ?? ''}`;
+}
+
+/**
+ * Apply the versions of one event, oldest first
+ */
+function resolve(versions: TrackedInvite[]): CalendarEvent | null {
+  const latest = versions.filter((version) => UPDATE_METHODS.includes(version.method)).pop();
+  const cancel = versions.filter((version) => version.method === 'cancel').pop();
+  // Without the invitation itself, a cancellation or reply still says the meeting existed
+  const base = latest ?? cancel ?? versions.filter((version) => version.method === 'reply').pop();
+  if (!base) return null;
+
+  const event: CalendarEvent = {
+    ...base.event,
+    attendees: [...base.event.attendees],
+    participants: base.event.participants?.map((participant) => ({ ...participant })),
+    recurrence: base.event.recurrence && {
+      ...base.event.recurrence,
+      exceptions: [...base.event.recurrence.exceptions],
+    },
+    messageId: base.messageId,
+  };
+
+  for (const reply of versions.filter((version) => version.method === 'reply')) {
+    for (const participant of reply.event.participants ?? []) {
+      const existing = event.participants?.find((attendee) => attendee.email === participant.email);
+      if (existing) {
+        existing.status = participant.status ?? existing.status;
+      } else {
+        event.participants = [...(event.participants ?? []), { ...participant }];
+        if (!event.attendees.includes(participant.email)) event.attendees.push(participant.email);
+      }
+    }
+  }
+
+  // A later invitation (higher SEQUENCE) brings a cancelled meeting back
+  if (cancel && (!latest || compareVersions(cancel, latest) > 0)) {
+    event.status = 'cancelled';
+    event.messageId = cancel.messageId;
+  }
+
+  return event;
+}
+
+function compareVersions(a: TrackedInvite, b: TrackedInvite): number {
+  return (
+    (a.event.sequence ?? 0) - (b.event.sequence ?? 0) ||
+    a.date.getTime() - b.date.getTime() ||
+    a.order - b.order
+  );
+}
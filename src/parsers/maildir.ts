@@ -0,0 +1,338 @@
+/**
+ * OLM Parser - Maildir Parser
+ * @packageDocumentation
+ */
+
+import type { Email, ParseOptions, ParseResult, ParseProgress, ArchiveItem } from '../types';
+import { MessageParser } from './message';
+import { SenderContactTracker } from './contacts';
+import { CalendarInviteTracker } from './invites';
+import { FolderTracker, folderPathToId } from './folders';
+import { throwIfAborted, reportDiagnostic } from '../errors';
+
+/**
+ * Extended options for Maildir parsing
+ */
+export interface MaildirParseOptions extends ParseOptions {
+  /**
+   * If true, also extract contacts from email senders
+   * @default true
+   */
+  extractContacts?: boolean;
+}
+
+/**
+ * A mail folder (a directory with cur/ and new/) inside the Maildir
+ */
+interface MaildirFolder {
+  path: string;
+  /** Folder names from the top, e.g. ['Work', 'Projects'] for `.Work.Projects` */
+  names: string[];
+  folderId: string;
+}
+
+/**
+ * One message file waiting to be read
+ */
+interface MaildirMessage {
+  path: string;
+  folderId: string;
+  /** Messages in new/ haven't been seen by any client yet */
+  isNew: boolean;
+  /** Flag letters from the `:2,` info suffix */
+  flags: string;
+}
+
+/**
+ * Parser for Maildir and Maildir++ directories (Dovecot, Courier, Postfix, mbsync)
+ * Node.js only, since a Maildir is a directory tree rather than a single file.
+ *
+ * Messages are read from `cur/` and `new/` of the root (the inbox) and of every
+ * Maildir++ `.Folder` subdirectory. Info flags in file names (`:2,FRS`) map onto
+ * `isRead`, `isStarred`, `isReplied`, `isForwarded`, `isDraft` and `isTrashed`.
+ *
+ * @example
+ * ```typescript
+ * import { MaildirParser } from '@technical-1/email-archive-parser';
+ *
+ * const parser = new MaildirParser();
+ * const result = await parser.parse('/var/mail/vhosts/example.com/alice/Maildir', {
+ *   onProgress: (p) => console.log(p.message),
+ * });
+ *
+ * console.log(`Parsed ${result.emails.length} emails`);
+ * ```
+ */
+export class MaildirParser {
+  private readonly messageParser = new MessageParser();
+
+  /**
+   * Parse a Maildir directory
+   * @param path - Path to the Maildir root (the directory containing cur/, new/ and tmp/)
+   * @param options - Parsing options
+   * @returns Parsed data
+   */
+  async parse(path: string, options: MaildirParseOptions = {}): Promise<ParseResult> {
+    const result: ParseResult = {
+      emails: [],
+      contacts: [],
+      calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
+      stats: {
+        emailCount: 0,
+        contactCount: 0,
+        calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
+        accountCount: 0,
+        purchaseCount: 0,
+        subscriptionCount: 0,
+        newsletterCount: 0,
+      },
+      diagnostics: [],
+    };
+
+    const streamOptions: MaildirParseOptions = {
+      ...options,
+      onWarning: (diagnostic) => {
+        result.diagnostics.push(diagnostic);
+        options.onWarning?.(diagnostic);
+      },
+    };
+
+    for await (const item of this.stream(path, streamOptions)) {
+      if (item.type === 'email') {
+        result.emails.push(item.email);
+        result.stats.emailCount++;
+      } else if (item.type === 'contact') {
+        result.contacts.push(item.contact);
+        result.stats.contactCount++;
+      } else if (item.type === 'calendarEvent') {
+        result.calendarEvents.push(item.event);
+        result.stats.calendarEventCount++;
+      } else if (item.type === 'folder') {
+        result.folders.push(item.folder);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Stream emails (then folders, sender contacts and invitation calendar events) one message file at a time
+   *
+   * @param path - Path to the Maildir root
+   * @param options - Parsing options
+   */
+  async *stream(path: string, options: MaildirParseOptions = {}): AsyncGenerator<ArchiveItem> {
+    const { onProgress, signal } = options;
+    const fs = await import('fs');
+    throwIfAborted(signal);
+
+    this.reportProgress(onProgress, 'extracting', 0, 'Scanning Maildir folders...');
+    const folders = await this.findFolders(path);
+    if (folders.length === 0) {
+      throw new Error(`Not a Maildir: ${path} has no cur/ or new/ directories`);
+    }
+
+    const messages: MaildirMessage[] = [];
+    for (const folder of folders) {
+      throwIfAborted(signal);
+      messages.push(...(await this.listMessages(folder)));
+    }
+
+    const senders = new SenderContactTracker();
+    const invites = new CalendarInviteTracker();
+    const mailFolders = new FolderTracker();
+    for (const folder of folders) {
+      mailFolders.add(folder.names);
+    }
+    let emailCount = 0;
+
+    this.reportProgress(
+      onProgress,
+      'parsing_emails',
+      0,
+      `Parsing ${messages.length} emails in ${folders.length} folders...`
+    );
+
+    for (let i = 0; i < messages.length; i++) {
+      throwIfAborted(signal);
+      const message = messages[i];
+
+      let bytes: Uint8Array | null = null;
+      try {
+        bytes = await fs.promises.readFile(message.path);
+      } catch (error) {
+        reportDiagnostic(options, {
+          severity: 'error',
+          code: 'entry_read_failed',
+          message: `Failed to read ${message.path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          location: { path: message.path },
+        });
+      }
+
+      const email = bytes ? this.messageParser.parseMessageBytes(bytes, options, { path: message.path }) : null;
+      if (email) {
+        this.applyFlags(email, message);
+        senders.track(email);
+        invites.track(email);
+        mailFolders.track(email);
+        emailCount++;
+        yield { type: 'email', email: email as Email };
+      }
+
+      if (i % 100 === 0 || i === messages.length - 1) {
+        this.reportProgress(
+          onProgress,
+          'parsing_emails',
+          Math.round(((i + 1) / messages.length) * 100),
+          `Parsed ${i + 1} of ${messages.length} emails`
+        );
+      }
+    }
+
+    for (const folder of mailFolders.toFolders()) {
+      yield { type: 'folder', folder };
+    }
+
+    if (options.extractContacts !== false) {
+      this.reportProgress(onProgress, 'parsing_contacts', 0, 'Building contacts from senders...');
+      for (const contact of senders.toContacts()) {
+        throwIfAborted(signal);
+        yield { type: 'contact', contact };
+      }
+    }
+
+    const events = invites.toEvents();
+    if (events.length > 0) {
+      this.reportProgress(onProgress, 'parsing_calendar', 0, 'Building calendar events from invitations...');
+      for (const event of events) {
+        throwIfAborted(signal);
+        yield { type: 'calendarEvent', event };
+      }
+    }
+
+    this.reportProgress(onProgress, 'complete', 100, `Parsed ${emailCount} emails successfully`);
+  }
+
+  /**
+   * Set folder and state fields from the message's location and info flags
+   */
+  private applyFlags(email: Omit<Email, 'id'>, message: MaildirMessage): void {
+    const { flags } = message;
+
+    email.folderId = message.folderId;
+    email.isRead = !message.isNew && flags.includes('S');
+    email.isStarred = flags.includes('F');
+    email.isReplied = flags.includes('R');
+    email.isForwarded = flags.includes('P');
+    email.isDraft = flags.includes('D');
+    email.isTrashed = flags.includes('T');
+  }
+
+  /**
+   * Find the root mail folder and all Maildir++ `.Folder` subfolders
+   */
+  private async findFolders(root: string): Promise<MaildirFolder[]> {
+    const fs = await import('fs');
+    const nodePath = await import('path');
+    const folders: MaildirFolder[] = [];
+
+    if (await this.isMailFolder(root)) {
+      folders.push({ path: root, names: ['Inbox'], folderId: 'inbox' });
+    }
+
+    const entries = await fs.promises.readdir(root, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      // Maildir++ folders are ".Name" or ".Parent.Child" directories next to cur/
+      if (!entry.isDirectory() || !entry.name.startsWith('.') || entry.name === '.' || entry.name === '..') {
+        continue;
+      }
+      const folderPath = nodePath.join(root, entry.name);
+      if (await this.isMailFolder(folderPath)) {
+        // Nested folders keep their hierarchy: ".Work.Projects" -> "work/projects"
+        const names = entry.name.slice(1).split('.').filter(Boolean);
+        folders.push({ path: folderPath, names, folderId: folderPathToId(names) });
+      }
+    }
+
+    return folders;
+  }
+
+  /**
+   * List the message files in a folder's cur/ and new/ directories
+   */
+  private async listMessages(folder: MaildirFolder): Promise<MaildirMessage[]> {
+    const fs = await import('fs');
+    const nodePath = await import('path');
+    const messages: MaildirMessage[] = [];
+
+    for (const subdir of ['cur', 'new']) {
+      let names: string[];
+      try {
+        names = await fs.promises.readdir(nodePath.join(folder.path, subdir));
+      } catch {
+        continue;
+      }
+
+      // Unique names start with the delivery timestamp, so this is roughly arrival order
+      for (const name of names.sort()) {
+        if (name.startsWith('.')) continue;
+        messages.push({
+          path: nodePath.join(folder.path, subdir, name),
+          folderId: folder.folderId,
+          isNew: subdir === 'new',
+          flags: this.parseInfoFlags(name),
+        });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Extract the flag letters from a file name's `:2,` info suffix
+   * (`;` or `!` replace `:` on filesystems that don't allow colons)
+   */
+  private parseInfoFlags(fileName: string): string {
+    const match = fileName.match(/[:;!]2,([A-Za-z]*)$/);
+    return match ? match[1] : '';
+  }
+
+  private async isMailFolder(path: string): Promise<boolean> {
+    const fs = await import('fs');
+    const nodePath = await import('path');
+
+    for (const subdir of ['cur', 'new']) {
+      try {
+        if ((await fs.promises.stat(nodePath.join(path, subdir))).isDirectory()) return true;
+      } catch {
+        // Missing subdirectory
+      }
+    }
+    return false;
+  }
+
+  private reportProgress(
+    callback: ((progress: ParseProgress) => void) | undefined,
+    stage: ParseProgress['stage'],
+    progress: number,
+    message: string
+  ): void {
+    callback?.({ stage, progress, message });
+  }
+
+  /**
+   * Check if a directory is a Maildir (Node.js only)
+   * @param path - Directory to check
+   * @returns True if the directory has Maildir cur/ or new/ subdirectories
+   */
+  static async isMaildir(path: string): Promise<boolean> {
+    return new MaildirParser().isMailFolder(path);
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * OLM Parser - MAPI Message Conversion
+ * @packageDocumentation
+ */
+
+import type { Email, EmailAddress, EmailHeader, Attachment, Contact, CalendarEvent, ParseOptions } from '../../types';
+import {
+  cleanEmailAddress,
+  normalizeSubject,
+  stripHtml,
+  decodeBytes,
+  codePageToCharset,
+  encodeBase64Bytes,
+  parseAddressList,
+  decodeHeaderValue,
+  getHeader,
+} from '../../utils';
+import { formatMessage } from '../../writers/mime';
+import { PidTag, PidLid, PropertyType, type PropertyBag } from './properties';
+import { decompressRtf, convertRtf } from './rtf';
+
+/**
+ * A message read from a PST or MSG file: its properties plus recipient and attachment rows
+ * @internal
+ */
+export interface MapiMessage {
+  props: PropertyBag;
+  recipients: PropertyBag[];
+  attachments: MapiAttachment[];
+}
+
+/**
+ * An attachment with its properties, and the message itself for embedded messages
+ * @internal
+ */
+export interface MapiAttachment {
+  props: PropertyBag;
+  /** Embedded message (attach method 5) */
+  message?: MapiMessage;
+}
+
+/**
+ * What a message represents, from its message class
+ * @internal
+ */
+export type MapiItemKind = 'email' | 'contact' | 'calendarEvent' | 'other';
+
+/** PidTagMessageFlags bits */
+const MSGFLAG_READ = 0x01;
+const MSGFLAG_UNSENT = 0x08;
+
+/** PidTagFlagStatus value for a flagged message */
+const FLAG_STATUS_FLAGGED = 2;
+
+/** PidTagLastVerbExecuted values */
+const VERB_REPLY_TO_SENDER = 102;
+const VERB_REPLY_TO_ALL = 103;
+const VERB_FORWARD = 104;
+
+/** PidTagIconIndex values */
+const ICON_REPLIED = 0x105;
+const ICON_FORWARDED = 0x106;
+
+/** PidTagRecipientType values */
+const RECIPIENT_TO = 1;
+const RECIPIENT_CC = 2;
+const RECIPIENT_BCC = 3;
+
+/** PidTagAttachMethod value for an embedded message */
+const ATTACH_EMBEDDED_MESSAGE = 5;
+
+/**
+ * Classify a message by its PidTagMessageClass
+ * @internal
+ */
+export function getItemKind(props: PropertyBag): MapiItemKind {
+  const messageClass = (props.getString(PidTag.MessageClass) || 'IPM.Note').toLowerCase();
+
+  if (messageClass.startsWith('ipm.contact') || messageClass.startsWith('ipm.distlist')) return 'contact';
+  if (messageClass.startsWith('ipm.appointment')) return 'calendarEvent';
+  if (
+    messageClass.startsWith('ipm.task') ||
+    messageClass.startsWith('ipm.stickynote') ||
+    messageClass.startsWith('ipm.activity')
+  ) {
+    return 'other';
+  }
+  return 'email';
+}
+
+/**
+ * Convert a MAPI message into an Email
+ *
+ * Exchange-only (EX) addresses are resolved through the SMTP address properties,
+ * falling back to the message's transport headers when a sender or recipient has none.
+ *
+ * @param message - Message properties, recipients and attachments
+ * @param options - Parsing options (`includeAttachments`, `includeHeaders`)
+ * @param folderId - Folder the message was found in
+ * @internal
+ */
+export function mapiToEmail(message: MapiMessage, options: ParseOptions, folderId: string): Omit<Email, 'id'> {
+  const { props } = message;
+
+  const transportHeaders = props.getString(PidTag.TransportMessageHeaders);
+  const headerList = transportHeaders ? parseHeaderText(transportHeaders) : [];
+
+  const subject = getSubject(props) || decodeHeaderValue(getHeader(headerList, 'subject') || '') || '(No Subject)';
+
+  // Sender
+  let fromAddress: EmailAddress | undefined;
+  const senderAddress =
+    smtpAddress(props, PidTag.SenderSmtpAddress, PidTag.SenderAddressType, PidTag.SenderEmailAddress) ||
+    smtpAddress(
+      props,
+      PidTag.SentRepresentingSmtpAddress,
+      PidTag.SentRepresentingAddressType,
+      PidTag.SentRepresentingEmailAddress
+    );
+  const senderName = props.getString(PidTag.SenderName) || props.getString(PidTag.SentRepresentingName);
+  if (senderAddress) {
+    fromAddress = { name: senderName || undefined, address: senderAddress };
+  } else {
+    fromAddress = parseAddressList(getHeader(headerList, 'from') || '', options.fallbackCharset)[0];
+  }
+
+  // Recipients, by type
+  const toAddresses = getRecipients(message, RECIPIENT_TO, headerList, 'to', options);
+  const ccAddresses = getRecipients(message, RECIPIENT_CC, headerList, 'cc', options);
+  const bccAddresses = getRecipients(message, RECIPIENT_BCC, headerList, 'bcc', options);
+
+  // State
+  const messageFlags = props.getNumber(PidTag.MessageFlags) ?? 0;
+  const lastVerb = props.getNumber(PidTag.LastVerbExecuted);
+  const iconIndex = props.getNumber(PidTag.IconIndex);
+
+  const date =
+    props.getDate(PidTag.ClientSubmitTime) ||
+    props.getDate(PidTag.MessageDeliveryTime) ||
+    props.getDate(PidTag.CreationTime) ||
+    new Date();
+
+  const { body, htmlBody } = getBodies(props);
+  const attachments = getAttachments(message, options, folderId);
+
+  let threadId = props.getString(PidTag.ConversationTopic);
+  if (!threadId) {
+    const normalizedSubject = normalizeSubject(subject);
+    if (normalizedSubject) {
+      threadId = `subject:${normalizedSubject.toLowerCase().replace(/\s+/g, '-')}`;
+    }
+  }
+
+  return {
+    subject,
+    sender: cleanEmailAddress(fromAddress?.address || ''),
+    senderName: fromAddress?.name || senderName || undefined,
+    recipients: toAddresses.map((a) => a.address),
+    cc: ccAddresses.length > 0 ? ccAddresses.map((a) => a.address) : undefined,
+    bcc: bccAddresses.length > 0 ? bccAddresses.map((a) => a.address) : undefined,
+    fromAddress,
+    toAddresses: toAddresses.length > 0 ? toAddresses : undefined,
+    ccAddresses: ccAddresses.length > 0 ? ccAddresses : undefined,
+    bccAddresses: bccAddresses.length > 0 ? bccAddresses : undefined,
+    date,
+    body,
+    htmlBody,
+    attachments,
+    hasAttachments: attachments.length > 0,
+    size: props.getNumber(PidTag.MessageSize) ?? 0,
+    isRead: (messageFlags & MSGFLAG_READ) !== 0,
+    isStarred: props.getNumber(PidTag.FlagStatus) === FLAG_STATUS_FLAGGED,
+    isReplied:
+      lastVerb === VERB_REPLY_TO_SENDER || lastVerb === VERB_REPLY_TO_ALL || iconIndex === ICON_REPLIED,
+    isForwarded: lastVerb === VERB_FORWARD || iconIndex === ICON_FORWARDED,
+    isDraft: (messageFlags & MSGFLAG_UNSENT) !== 0,
+    folderId,
+    threadId: threadId || undefined,
+    messageId: props.getString(PidTag.InternetMessageId) || getHeader(headerList, 'message-id') || undefined,
+    headers: options.includeHeaders ? headerList : undefined,
+  };
+}
+
+/**
+ * Convert a contact item (IPM.Contact) into a Contact
+ * @internal
+ */
+export function mapiToContact(props: PropertyBag): Omit<Contact, 'id'> | null {
+  const emails = unique(
+    [PidLid.Email1EmailAddress, PidLid.Email2EmailAddress, PidLid.Email3EmailAddress]
+      .map((key) => props.getString(key) ?? '')
+      .filter((address) => address.includes('@'))
+      .map(cleanEmailAddress)
+  );
+  const email =
+    emails[0] ||
+    smtpAddress(props, PidTag.SmtpAddress, PidTag.AddressType, PidTag.EmailAddress) ||
+    '';
+
+  const fullName = [props.getString(PidTag.GivenName), props.getString(PidTag.Surname)].filter(Boolean).join(' ');
+  const name =
+    props.getString(PidTag.DisplayName) ||
+    fullName ||
+    props.getString(PidLid.Email1DisplayName) ||
+    email.split('@')[0] ||
+    'Unknown';
+
+  if (!email && name === 'Unknown') return null;
+
+  const phones = unique(
+    [PidTag.MobileTelephoneNumber, PidTag.BusinessTelephoneNumber, PidTag.HomeTelephoneNumber].map(
+      (tag) => props.getString(tag)?.trim() ?? ''
+    )
+  );
+
+  return {
+    name,
+    email: cleanEmailAddress(email),
+    emails: emails.length > 1 ? emails : undefined,
+    phone: phones[0],
+    phones: phones.length > 1 ? phones : undefined,
+    organization: props.getString(PidTag.CompanyName)?.trim() || undefined,
+    title: props.getString(PidTag.Title)?.trim() || undefined,
+    notes: props.getString(PidTag.Body)?.trim() || undefined,
+    emailCount: 0,
+    lastEmailDate: props.getDate(PidTag.LastModificationTime) || props.getDate(PidTag.CreationTime) || new Date(),
+  };
+}
+
+/**
+ * Convert an appointment (IPM.Appointment) into a CalendarEvent
+ * @internal
+ */
+export function mapiToCalendarEvent(message: MapiMessage): Omit<CalendarEvent, 'id'> | null {
+  const { props } = message;
+  const title = getSubject(props);
+  if (!title) return null;
+
+  const startDate =
+    props.getDate(PidLid.AppointmentStartWhole) || props.getDate(PidTag.StartDate) || new Date();
+  const endDate =
+    props.getDate(PidLid.AppointmentEndWhole) ||
+    props.getDate(PidTag.EndDate) ||
+    new Date(startDate.getTime() + 3600000);
+
+  const attendees: string[] = [];
+  for (const recipient of message.recipients) {
+    const address = smtpAddress(recipient, PidTag.SmtpAddress, PidTag.AddressType, PidTag.EmailAddress);
+    if (address) attendees.push(cleanEmailAddress(address));
+  }
+
+  return {
+    title,
+    startDate,
+    endDate,
+    location: props.getString(PidLid.Location) || undefined,
+    attendees,
+    description: getBodies(props).body || undefined,
+    isAllDay: props.getBoolean(PidLid.AppointmentSubType) ?? false,
+    reminder: props.getBoolean(PidLid.ReminderSet) ?? false,
+  };
+}
+
+/**
+ * Read the subject, without the prefix marker Outlook stores in front of "RE: " etc.
+ */
+function getSubject(props: PropertyBag): string {
+  const subject = props.getString(PidTag.Subject) || '';
+  return (subject.charCodeAt(0) === 0x01 ? subject.substring(2) : subject).trim();
+}
+
+/**
+ * Find an SMTP address: the dedicated SMTP property, or the email address when its type is SMTP
+ */
+function smtpAddress(props: PropertyBag, smtpTag: number, typeTag: number, addressTag: number): string | undefined {
+  const smtp = props.getString(smtpTag);
+  if (smtp) return smtp;
+
+  const address = props.getString(addressTag);
+  const type = props.getString(typeTag)?.toUpperCase();
+  if (address && (type === 'SMTP' || (type !== 'EX' && address.includes('@')))) {
+    return address;
+  }
+  return undefined;
+}
+
+/**
+ * Collect the recipients of one type, using the transport headers if any can't be resolved
+ */
+function getRecipients(
+  message: MapiMessage,
+  type: number,
+  headerList: EmailHeader[],
+  headerName: string,
+  options: ParseOptions
+): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+  let unresolved = false;
+
+  for (const recipient of message.recipients) {
+    // The high bits of PidTagRecipientType are flags
+    if (((recipient.getNumber(PidTag.RecipientType) ?? RECIPIENT_TO) & 0x0f) !== type) continue;
+
+    const address = smtpAddress(recipient, PidTag.SmtpAddress, PidTag.AddressType, PidTag.EmailAddress);
+    if (address) {
+      addresses.push({ name: recipient.getString(PidTag.DisplayName) || undefined, address });
+    } else {
+      unresolved = true;
+    }
+  }
+
+  if (unresolved) {
+    const fromHeaders = parseAddressList(getHeader(headerList, headerName) || '', options.fallbackCharset);
+    if (fromHeaders.length > 0) return fromHeaders;
+  }
+  return addresses;
+}
+
+/**
+ * Read the plain text and HTML bodies, recovering them from compressed RTF when needed
+ */
+function getBodies(props: PropertyBag): { body: string; htmlBody?: string } {
+  let text = props.getString(PidTag.Body)?.trim() || '';
+
+  let htmlBody: string | undefined;
+  const html = props.get(PidTag.Html);
+  if (html?.type === PropertyType.Binary) {
+    const codePage = props.getNumber(PidTag.InternetCodepage) ?? props.stringCodePage;
+    htmlBody = decodeBytes(html.data, codePageToCharset(codePage)).replace(/\0+$/, '');
+  } else if (html) {
+    htmlBody = props.getString(PidTag.Html);
+  }
+
+  const rtf = props.getBinary(PidTag.RtfCompressed);
+  if ((!text || !htmlBody) && rtf) {
+    try {
+      const converted = convertRtf(decompressRtf(rtf));
+      htmlBody = htmlBody || converted.html;
+      text = text || converted.text;
+    } catch {
+      // Unreadable RTF - keep whatever other bodies there are
+    }
+  }
+
+  return {
+    body: text || (htmlBody ? stripHtml(htmlBody.replace(/<!--[\s\S]*?-->/g, '')) : ''),
+    htmlBody: htmlBody || undefined,
+  };
+}
+
+/**
+ * Convert attachment rows, serializing embedded messages as message/rfc822
+ */
+function getAttachments(message: MapiMessage, options: ParseOptions, folderId: string): Attachment[] {
+  return message.attachments.map(({ props, message: embedded }, i) => {
+    const isEmbedded = props.getNumber(PidTag.AttachMethod) === ATTACH_EMBEDDED_MESSAGE;
+    const displayName = props.getString(PidTag.DisplayName);
+    const filename =
+      props.getString(PidTag.AttachLongFilename) ||
+      props.getString(PidTag.AttachFilename) ||
+      (isEmbedded ? `${displayName || 'message'}.eml` : displayName) ||
+      `attachment-${i + 1}`;
+
+    let size = props.getNumber(PidTag.AttachSize) ?? 0;
+    let data: string | undefined;
+    if (options.includeAttachments) {
+      let bytes: Uint8Array | undefined;
+      if (embedded) {
+        bytes = new TextEncoder().encode(formatMessage(mapiToEmail(embedded, options, folderId)));
+      } else if (!isEmbedded) {
+        bytes = props.getBinary(PidTag.AttachDataBinary);
+      }
+      if (bytes) {
+        data = encodeBase64Bytes(bytes);
+        size = bytes.length;
+      }
+    }
+
+    return {
+      id: props.getString(PidTag.AttachContentId) || `att-${i + 1}`,
+      filename,
+      mimeType: isEmbedded ? 'message/rfc822' : props.getString(PidTag.AttachMimeTag) || 'application/octet-stream',
+      size,
+      data,
+    };
+  });
+}
+
+/**
+ * Split a raw header block into unfolded headers
+ */
+function parseHeaderText(text: string): EmailHeader[] {
+  const headers: EmailHeader[] = [];
+  for (const line of text.split(/\r\n|\n|\r/)) {
+    if (line.trim() === '') {
+      if (headers.length > 0) break;
+      continue;
+    }
+    if (/^\s/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].value += ' ' + line.trim();
+      continue;
+    }
+    const match = line.match(/^([^:\s]+):\s*(.*)$/);
+    if (match) {
+      headers.push({ name: match[1], value: match[2] });
+    }
+  }
+  return headers;
+}
+
+/**
+ * Drop empty and repeated values, keeping the first of each
+ */
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
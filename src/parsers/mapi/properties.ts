@@ -0,0 +1,345 @@
+/**
+ * OLM Parser - MAPI Property Values
+ * @packageDocumentation
+ */
+
+import { decodeBytes, codePageToCharset } from '../../utils';
+
+/**
+ * A property value as stored in the file: its MAPI type and raw little-endian bytes
+ * @internal
+ */
+export interface RawProperty {
+  type: number;
+  data: Uint8Array;
+}
+
+/**
+ * A named property: a property set GUID plus a numeric ID (LID) or a string name
+ * @internal
+ */
+export interface NamedProperty {
+  guid: string;
+  id: number | string;
+}
+
+/**
+ * Property tags are looked up by their 16-bit ID, named properties by set and name
+ * @internal
+ */
+export type PropertyKey = number | NamedProperty;
+
+/**
+ * MAPI property types (MS-OXCDATA 2.11.1)
+ * @internal
+ */
+export const PropertyType = {
+  Integer16: 0x0002,
+  Integer32: 0x0003,
+  Floating32: 0x0004,
+  Floating64: 0x0005,
+  Currency: 0x0006,
+  FloatingTime: 0x0007,
+  ErrorCode: 0x000a,
+  Boolean: 0x000b,
+  Object: 0x000d,
+  Integer64: 0x0014,
+  String8: 0x001e,
+  Unicode: 0x001f,
+  Time: 0x0040,
+  Guid: 0x0048,
+  Binary: 0x0102,
+  MultipleFlag: 0x1000,
+} as const;
+
+/**
+ * Property IDs used when converting messages, contacts and appointments
+ * @internal
+ */
+export const PidTag = {
+  Importance: 0x0017,
+  MessageClass: 0x001a,
+  Subject: 0x0037,
+  ClientSubmitTime: 0x0039,
+  SentRepresentingName: 0x0042,
+  StartDate: 0x0060,
+  EndDate: 0x0061,
+  SentRepresentingAddressType: 0x0064,
+  SentRepresentingEmailAddress: 0x0065,
+  ConversationTopic: 0x0070,
+  TransportMessageHeaders: 0x007d,
+  RecipientType: 0x0c15,
+  SenderName: 0x0c1a,
+  SenderAddressType: 0x0c1e,
+  SenderEmailAddress: 0x0c1f,
+  MessageDeliveryTime: 0x0e06,
+  MessageFlags: 0x0e07,
+  MessageSize: 0x0e08,
+  AttachSize: 0x0e20,
+  Body: 0x1000,
+  RtfCompressed: 0x1009,
+  Html: 0x1013,
+  InternetMessageId: 0x1035,
+  IconIndex: 0x1080,
+  LastVerbExecuted: 0x1081,
+  FlagStatus: 0x1090,
+  DisplayName: 0x3001,
+  AddressType: 0x3002,
+  EmailAddress: 0x3003,
+  CreationTime: 0x3007,
+  LastModificationTime: 0x3008,
+  ContentCount: 0x3602,
+  ContainerClass: 0x3613,
+  AttachDataBinary: 0x3701,
+  AttachFilename: 0x3704,
+  AttachMethod: 0x3705,
+  AttachLongFilename: 0x3707,
+  AttachMimeTag: 0x370e,
+  AttachContentId: 0x3712,
+  SmtpAddress: 0x39fe,
+  GivenName: 0x3a06,
+  BusinessTelephoneNumber: 0x3a08,
+  HomeTelephoneNumber: 0x3a09,
+  Surname: 0x3a11,
+  CompanyName: 0x3a16,
+  Title: 0x3a17,
+  MobileTelephoneNumber: 0x3a1c,
+  InternetCodepage: 0x3fde,
+  MessageCodepage: 0x3ffd,
+  SenderSmtpAddress: 0x5d01,
+  SentRepresentingSmtpAddress: 0x5d02,
+} as const;
+
+/**
+ * Property sets (lowercase GUID strings)
+ * @internal
+ */
+export const PSETID = {
+  Mapi: '00020328-0000-0000-c000-000000000046',
+  PublicStrings: '00020329-0000-0000-c000-000000000046',
+  Appointment: '00062002-0000-0000-c000-000000000046',
+  Address: '00062004-0000-0000-c000-000000000046',
+  Common: '00062008-0000-0000-c000-000000000046',
+} as const;
+
+/**
+ * Named properties used when converting contacts and appointments
+ * @internal
+ */
+export const PidLid = {
+  Email1DisplayName: { guid: PSETID.Address, id: 0x8080 },
+  Email1EmailAddress: { guid: PSETID.Address, id: 0x8083 },
+  Email2EmailAddress: { guid: PSETID.Address, id: 0x8093 },
+  Email3EmailAddress: { guid: PSETID.Address, id: 0x80a3 },
+  Location: { guid: PSETID.Appointment, id: 0x8208 },
+  AppointmentStartWhole: { guid: PSETID.Appointment, id: 0x820d },
+  AppointmentEndWhole: { guid: PSETID.Appointment, id: 0x820e },
+  AppointmentSubType: { guid: PSETID.Appointment, id: 0x8215 },
+  ReminderSet: { guid: PSETID.Common, id: 0x8503 },
+} as const satisfies Record<string, NamedProperty>;
+
+/** Milliseconds between 1601-01-01 (FILETIME epoch) and 1970-01-01 */
+const FILETIME_EPOCH_OFFSET = 11644473600000;
+
+/** Milliseconds between 1899-12-30 (OLE automation date epoch) and 1970-01-01 */
+const OLE_DATE_EPOCH_OFFSET = 2209161600000;
+
+/**
+ * Typed read access to a set of MAPI properties (a message, recipient or attachment)
+ *
+ * Values are kept as raw bytes and only decoded when read, so properties that are
+ * never used (most of them) cost nothing.
+ * @internal
+ */
+export class PropertyBag {
+  private readonly codePage: number | undefined;
+
+  /**
+   * @param properties - Raw properties keyed by property ID
+   * @param namedProperties - Named property keys (see {@link namedPropertyKey}) mapped to property IDs
+   * @param codePage - Code page for 8-bit strings (defaults to the bag's own message code page)
+   */
+  constructor(
+    private readonly properties: Map<number, RawProperty>,
+    private readonly namedProperties: Map<string, number> = new Map(),
+    codePage?: number
+  ) {
+    this.codePage = codePage ?? this.getNumber(PidTag.MessageCodepage) ?? this.getNumber(PidTag.InternetCodepage);
+  }
+
+  /** Code page used for 8-bit strings */
+  get stringCodePage(): number | undefined {
+    return this.codePage;
+  }
+
+  /** Named property mapping, for bags nested inside this one */
+  get names(): Map<string, number> {
+    return this.namedProperties;
+  }
+
+  get(key: PropertyKey): RawProperty | undefined {
+    const id = typeof key === 'number' ? key : this.namedProperties.get(namedPropertyKey(key));
+    return id === undefined ? undefined : this.properties.get(id);
+  }
+
+  has(key: PropertyKey): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  /**
+   * Read a string property (Unicode or 8-bit); binary values are decoded with the code page
+   */
+  getString(key: PropertyKey): string | undefined {
+    const property = this.get(key);
+    if (!property) return undefined;
+
+    let text: string;
+    switch (property.type) {
+      case PropertyType.Unicode:
+        text = new TextDecoder('utf-16le').decode(property.data);
+        break;
+      case PropertyType.String8:
+      case PropertyType.Binary:
+        text = decodeBytes(property.data, codePageToCharset(this.codePage));
+        break;
+      default:
+        return undefined;
+    }
+    return text.replace(/\0+$/, '');
+  }
+
+  /**
+   * Read a numeric property (integers, floats, currency and booleans)
+   */
+  getNumber(key: PropertyKey): number | undefined {
+    const property = this.get(key);
+    if (!property) return undefined;
+
+    const { data } = property;
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    switch (property.type) {
+      case PropertyType.Integer16:
+        return data.length >= 2 ? view.getInt16(0, true) : undefined;
+      case PropertyType.Integer32:
+      case PropertyType.ErrorCode:
+        return data.length >= 4 ? view.getInt32(0, true) : undefined;
+      case PropertyType.Floating32:
+        return data.length >= 4 ? view.getFloat32(0, true) : undefined;
+      case PropertyType.Floating64:
+        return data.length >= 8 ? view.getFloat64(0, true) : undefined;
+      case PropertyType.Integer64:
+        return data.length >= 8 ? Number(view.getBigInt64(0, true)) : undefined;
+      case PropertyType.Currency:
+        return data.length >= 8 ? Number(view.getBigInt64(0, true)) / 10000 : undefined;
+      case PropertyType.Boolean:
+        return data.length >= 1 ? (data[0] !== 0 ? 1 : 0) : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  getBoolean(key: PropertyKey): boolean | undefined {
+    const value = this.getNumber(key);
+    return value === undefined ? undefined : value !== 0;
+  }
+
+  /**
+   * Read a date property (FILETIME or OLE automation date)
+   */
+  getDate(key: PropertyKey): Date | undefined {
+    const property = this.get(key);
+    if (!property || property.data.length < 8) return undefined;
+
+    const view = new DataView(property.data.buffer, property.data.byteOffset, 8);
+    let time: number;
+    if (property.type === PropertyType.Time) {
+      const ticks = view.getUint32(4, true) * 2 ** 32 + view.getUint32(0, true);
+      if (ticks === 0) return undefined;
+      time = ticks / 10000 - FILETIME_EPOCH_OFFSET;
+    } else if (property.type === PropertyType.FloatingTime) {
+      time = view.getFloat64(0, true) * 86400000 - OLE_DATE_EPOCH_OFFSET;
+    } else {
+      return undefined;
+    }
+
+    const date = new Date(Math.round(time));
+    // 4500-08-31 is MAPI's "no date"
+    return isNaN(date.getTime()) || date.getUTCFullYear() >= 4500 ? undefined : date;
+  }
+
+  getBinary(key: PropertyKey): Uint8Array | undefined {
+    const property = this.get(key);
+    return property && property.type !== PropertyType.Unicode && property.type !== PropertyType.String8
+      ? property.data
+      : undefined;
+  }
+}
+
+/**
+ * Key for a named property in a name-to-ID map
+ * @internal
+ */
+export function namedPropertyKey(property: NamedProperty): string {
+  return `${property.guid.toLowerCase()}:${typeof property.id === 'number' ? property.id : property.id.toLowerCase()}`;
+}
+
+/**
+ * Build the named property map from the name-to-ID streams (MS-PST 2.4.7, MS-OXMSG 2.2.3)
+ *
+ * @param guidStream - Property set GUIDs, 16 bytes each
+ * @param entryStream - NAMEID records, 8 bytes each
+ * @param stringStream - Length-prefixed UTF-16LE property names
+ * @returns Named property keys mapped to property IDs (0x8000 and up)
+ * @internal
+ */
+export function parseNameIdMap(
+  guidStream: Uint8Array,
+  entryStream: Uint8Array,
+  stringStream: Uint8Array
+): Map<string, number> {
+  const map = new Map<string, number>();
+  const entries = new DataView(entryStream.buffer, entryStream.byteOffset, entryStream.byteLength);
+  const strings = new DataView(stringStream.buffer, stringStream.byteOffset, stringStream.byteLength);
+
+  for (let offset = 0; offset + 8 <= entryStream.length; offset += 8) {
+    const nameOrId = entries.getUint32(offset, true);
+    const guidField = entries.getUint16(offset + 4, true);
+    const propertyIndex = entries.getUint16(offset + 6, true);
+
+    const guidIndex = guidField >> 1;
+    let guid: string | undefined;
+    if (guidIndex === 1) {
+      guid = PSETID.Mapi;
+    } else if (guidIndex === 2) {
+      guid = PSETID.PublicStrings;
+    } else if (guidIndex >= 3 && (guidIndex - 3) * 16 + 16 <= guidStream.length) {
+      guid = formatGuid(guidStream.subarray((guidIndex - 3) * 16, (guidIndex - 2) * 16));
+    }
+    if (!guid) continue;
+
+    let id: number | string = nameOrId;
+    if (guidField & 1) {
+      // String name: offset into the string stream
+      if (nameOrId + 4 > stringStream.length) continue;
+      const length = strings.getUint32(nameOrId, true);
+      id = new TextDecoder('utf-16le').decode(stringStream.subarray(nameOrId + 4, nameOrId + 4 + length));
+    }
+
+    map.set(namedPropertyKey({ guid, id }), 0x8000 + propertyIndex);
+  }
+
+  return map;
+}
+
+/**
+ * Format a 16-byte little-endian GUID as a lowercase string
+ * @internal
+ */
+export function formatGuid(bytes: Uint8Array): string {
+  const hex = (start: number, end: number, reverse: boolean) => {
+    const slice = Array.from(bytes.subarray(start, end));
+    if (reverse) slice.reverse();
+    return slice.map((b) => b.toString(16).padStart(2, '0')).join('');
+  };
+  return `${hex(0, 4, true)}-${hex(4, 6, true)}-${hex(6, 8, true)}-${hex(8, 10, false)}-${hex(10, 16, false)}`;
+}
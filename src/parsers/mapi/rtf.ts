@@ -0,0 +1,278 @@
+/**
+ * OLM Parser - Compressed RTF Bodies
+ * @packageDocumentation
+ */
+
+import { decodeBytes, codePageToCharset, binaryStringToBytes } from '../../utils';
+
+/** Dictionary preload for LZFu decompression (MS-OXRTFCP 2.1.2.1) */
+const RTF_PREBUF = binaryStringToBytes(
+  '{\\rtf1\\ansi\\mac\\deff0\\deftab720{\\fonttbl;}{\\f0\\fnil \\froman \\fswiss \\fmodern \\fscript ' +
+    '\\fdecor MS Sans SerifSymbolArialTimes New RomanCourier{\\colortbl\\red0\\green0\\blue0\r\n' +
+    '\\par \\pard\\plain\\f0\\fs20\\b\\i\\u\\tab\\tx'
+);
+
+/** COMPTYPE values */
+const COMPRESSED = 0x75465a4c; // "LZFu"
+const UNCOMPRESSED = 0x414c454d; // "MELA"
+
+/** Destinations whose content is never body text */
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl',
+  'colortbl',
+  'stylesheet',
+  'info',
+  'pict',
+  'object',
+  'header',
+  'footer',
+  'headerl',
+  'headerr',
+  'footerl',
+  'footerr',
+  'listtable',
+  'listoverridetable',
+  'revtbl',
+  'rsidtbl',
+  'generator',
+  'xmlnstbl',
+  'themedata',
+  'colorschememapping',
+  'latentstyles',
+  'datastore',
+  'fldinst',
+  'mhtmltag',
+]);
+
+/** Control words that stand for a single character */
+const SYMBOLS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+/**
+ * Decompress a PidTagRtfCompressed value (MS-OXRTFCP)
+ * @param data - Compressed RTF property value
+ * @returns RTF document bytes
+ * @throws Error if the header is not a known compression type
+ * @internal
+ */
+export function decompressRtf(data: Uint8Array): Uint8Array {
+  if (data.length < 16) {
+    throw new Error('Compressed RTF is too short');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const compressedSize = view.getUint32(0, true);
+  const rawSize = view.getUint32(4, true);
+  const compressionType = view.getUint32(8, true);
+
+  if (compressionType === UNCOMPRESSED) {
+    return data.subarray(16, 16 + rawSize);
+  }
+  if (compressionType !== COMPRESSED) {
+    throw new Error(`Unknown compressed RTF type 0x${compressionType.toString(16)}`);
+  }
+
+  const dictionary = new Uint8Array(4096);
+  dictionary.set(RTF_PREBUF);
+  let writePosition = RTF_PREBUF.length;
+
+  const output: number[] = [];
+  const end = Math.min(data.length, compressedSize + 4);
+  let position = 16;
+
+  while (position < end) {
+    const control = data[position++];
+
+    for (let bit = 0; bit < 8 && position < end; bit++) {
+      if (control & (1 << bit)) {
+        // Dictionary reference: 12-bit offset, 4-bit length
+        const reference = (data[position] << 8) | data[position + 1];
+        position += 2;
+        const offset = reference >> 4;
+        const length = (reference & 0x0f) + 2;
+
+        // A reference to the write position marks the end of the stream
+        if (offset === writePosition) {
+          return Uint8Array.from(output);
+        }
+
+        for (let i = 0; i < length; i++) {
+          const byte = dictionary[(offset + i) & 0xfff];
+          output.push(byte);
+          dictionary[writePosition] = byte;
+          writePosition = (writePosition + 1) & 0xfff;
+        }
+      } else {
+        const byte = data[position++];
+        output.push(byte);
+        dictionary[writePosition] = byte;
+        writePosition = (writePosition + 1) & 0xfff;
+      }
+    }
+  }
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Convert an RTF body to plain text, or recover the HTML it encapsulates
+ *
+ * Outlook stores HTML mail as RTF with the original markup in `\htmltag` groups
+ * (`\fromhtml1`, MS-OXRTFEX); that HTML is returned as `html`.
+ *
+ * @param rtf - RTF document bytes
+ * @returns Plain text, plus the original HTML when the RTF encapsulates HTML
+ * @internal
+ */
+export function convertRtf(rtf: Uint8Array): { text: string; html?: string } {
+  interface GroupState {
+    skip: boolean;
+    suppressed: boolean;
+    htmlTag: boolean;
+    unicodeSkip: number;
+  }
+
+  let state: GroupState = { skip: false, suppressed: false, htmlTag: false, unicodeSkip: 1 };
+  const stack: GroupState[] = [];
+  let codePage = 1252;
+  let fromHtml = false;
+  let output = '';
+  let pending: number[] = [];
+  let fallbackToSkip = 0;
+  let destinationStart = false;
+
+  const flush = () => {
+    if (pending.length > 0) {
+      output += decodeBytes(Uint8Array.from(pending), codePageToCharset(codePage));
+      pending = [];
+    }
+  };
+  const visible = () => !state.skip && !(fromHtml && state.suppressed && !state.htmlTag);
+  const emitByte = (byte: number) => {
+    if (fallbackToSkip > 0) {
+      fallbackToSkip--;
+    } else if (visible()) {
+      pending.push(byte);
+    }
+  };
+  const emitText = (text: string) => {
+    if (visible()) {
+      flush();
+      output += text;
+    }
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === 0x7b /* { */) {
+      stack.push(state);
+      state = { ...state };
+      i++;
+      continue;
+    }
+    if (char === 0x7d /* } */) {
+      state = stack.pop() ?? state;
+      fallbackToSkip = 0;
+      i++;
+      continue;
+    }
+    if (char === 0x0d || char === 0x0a) {
+      i++;
+      continue;
+    }
+    if (char !== 0x5c /* \ */) {
+      emitByte(char);
+      destinationStart = false;
+      i++;
+      continue;
+    }
+
+    // Control symbol
+    const next = rtf[i + 1];
+    if (next === undefined) break;
+    if (!isLetter(next)) {
+      i += 2;
+      if (next === 0x27 /* ' */) {
+        emitByte(parseInt(String.fromCharCode(rtf[i], rtf[i + 1]), 16));
+        i += 2;
+      } else if (next === 0x2a /* * */) {
+        destinationStart = true;
+        continue;
+      } else if (next === 0x0d || next === 0x0a) {
+        emitText('\n');
+      } else if (next === 0x7e /* ~ */) {
+        emitText(' ');
+      } else if (next === 0x5f /* _ */) {
+        emitText('-');
+      } else if (next === 0x5c || next === 0x7b || next === 0x7d) {
+        emitByte(next);
+      }
+      destinationStart = false;
+      continue;
+    }
+
+    // Control word with optional numeric parameter and a space delimiter
+    let j = i + 1;
+    while (j < rtf.length && isLetter(rtf[j])) j++;
+    const word = String.fromCharCode(...rtf.subarray(i + 1, j));
+    const paramStart = j;
+    if (rtf[j] === 0x2d /* - */) j++;
+    const digitsStart = j;
+    while (j < rtf.length && rtf[j] >= 0x30 && rtf[j] <= 0x39) j++;
+    let param: number | undefined;
+    if (j > digitsStart) {
+      param = parseInt(String.fromCharCode(...rtf.subarray(paramStart, j)), 10);
+    } else {
+      j = paramStart;
+    }
+    if (rtf[j] === 0x20) j++;
+    i = j;
+
+    const isDestination = destinationStart;
+    destinationStart = false;
+
+    if (word === 'htmltag') {
+      state.htmlTag = true;
+      state.skip = false;
+    } else if (isDestination || SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+    } else if (word === 'fromhtml') {
+      fromHtml = param !== 0;
+    } else if (word === 'htmlrtf') {
+      state.suppressed = param !== 0;
+    } else if (word === 'ansicpg' && param !== undefined) {
+      codePage = param;
+    } else if (word === 'uc' && param !== undefined) {
+      state.unicodeSkip = param;
+    } else if (word === 'u' && param !== undefined) {
+      emitText(String.fromCharCode(param < 0 ? param + 65536 : param));
+      fallbackToSkip = state.unicodeSkip;
+    } else if (word === 'bin' && param !== undefined) {
+      i += param;
+    } else if (SYMBOLS[word] !== undefined) {
+      emitText(SYMBOLS[word]);
+    }
+  }
+  flush();
+
+  if (fromHtml) {
+    return { text: '', html: output };
+  }
+  return { text: output.replace(/\n{3,}/g, '\n\n').trim() };
+}
+
+function isLetter(byte: number): boolean {
+  return (byte >= 0x41 && byte <= 0x5a) || (byte >= 0x61 && byte <= 0x7a);
+}
@@ -3,13 +3,21 @@
  * @packageDocumentation
  */
 
-import type { Email, ParseOptions, ParseResult, ParseProgress, Contact } from '../types';
-import {
-  cleanEmailAddress,
-  normalizeSubject,
-  decodeQuotedPrintable,
-  decodeHeaderValue,
-} from '../utils';
+import type {
+  Email,
+  ParseOptions,
+  ParseResult,
+  ParseProgress,
+  StreamInput,
+  ArchiveItem,
+} from '../types';
+import { bytesToBinaryString } from '../utils';
+import { readChunks, getInputSize } from './input';
+import { MessageParser } from './message';
+import { SenderContactTracker } from './contacts';
+import { CalendarInviteTracker } from './invites';
+import { FolderTracker } from './folders';
+import { throwIfAborted } from '../errors';
 
 /**
  * Callback for streaming email processing (for large files)
@@ -25,6 +33,40 @@ export interface MBOXParseOptions extends ParseOptions {
    * @default true
    */
   extractContacts?: boolean;
+  /**
+   * How the file delimits messages and quotes body lines starting with `From `
+   * (see {@link MBOXVariant}). By default each message's Content-Length header
+   * is used when it leads exactly to the next message, and quoted lines are
+   * unquoted to match.
+   * @default 'auto'
+   */
+  variant?: MBOXVariant | 'auto';
+}
+
+/**
+ * mbox variants
+ * - `mboxo`: messages separated by `From ` lines; body lines starting with `From ` are quoted as `>From `
+ * - `mboxrd`: as mboxo, but `>From `, `>>From `, ... lines are quoted too (one more `>`)
+ * - `mboxcl`: each message's Content-Length header gives its body length; quoted as in mboxo
+ * - `mboxcl2`: as mboxcl, with nothing quoted (Solaris mail)
+ */
+export type MBOXVariant = 'mboxo' | 'mboxrd' | 'mboxcl' | 'mboxcl2';
+
+/**
+ * An mbox file found in an Apple Mail export or Thunderbird mail folder
+ */
+interface MBOXMailbox {
+  path: string;
+  /** Folder names from the top of the export, e.g. ['Inbox', 'Projects'] */
+  names: string[];
+}
+
+/**
+ * Raw lines of one message and its byte offset in the MBOX file
+ */
+interface RawMessage {
+  lines: string[];
+  offset: number;
 }
 
 /**
@@ -33,11 +75,15 @@ export interface MBOXParseOptions extends ParseOptions {
  * 
  * Features:
  * - Streaming/chunked processing for large files (including multi-GB files)
+ * - Async-iterator `stream()` API for File, Blob, Buffer, file paths and streams
  * - Automatic file path support in Node.js with streaming
  * - MIME multipart parsing
+ * - Attachment extraction (including nested multiparts)
  * - Gmail label support
  * - Multi-encoding support (quoted-printable, base64)
+ * - Charset-aware decoding of bodies and RFC 2047 headers
  * - Contact extraction from email senders
+ * - Calendar events from meeting invitations, with updates, replies and cancellations applied
  *
  * @example
  * ```typescript
@@ -62,6 +108,8 @@ export class MBOXParser {
   private readonly CHUNK_SIZE = 5 * 1024 * 1024; // 5MB chunks
   private readonly BATCH_SIZE = 100; // Process 100 emails at a time
   private readonly NODE_CHUNK_SIZE = 100 * 1024 * 1024; // 100MB chunks for Node.js streaming
+  private readonly MAX_CONTENT_LENGTH = 200 * 1024 * 1024; // Longer Content-Length headers aren't trusted
+  private readonly messageParser = new MessageParser();
 
   /**
    * Parse an MBOX file
@@ -71,31 +119,40 @@ export class MBOXParser {
    */
   async parse(
     file: File | Buffer | ArrayBuffer,
-    options: ParseOptions = {}
+    options: MBOXParseOptions = {}
   ): Promise<ParseResult> {
-    const { onProgress } = options;
+    const { onProgress, signal } = options;
+    throwIfAborted(signal);
 
     const result: ParseResult = {
       emails: [],
       contacts: [],
       calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
       stats: {
         emailCount: 0,
         contactCount: 0,
         calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
         accountCount: 0,
         purchaseCount: 0,
         subscriptionCount: 0,
         newsletterCount: 0,
       },
+      diagnostics: [],
     };
 
     // For File objects, use streaming for large files
     if (file instanceof File && file.size > 20 * 1024 * 1024) {
       const count = await this.parseStreaming(file, onProgress, async (batch) => {
         result.emails.push(...(batch as Email[]));
-      });
+      }, this.collectDiagnostics(options, result));
       result.stats.emailCount = count;
+      this.extractCalendarEvents(result);
+      this.extractFolders(result);
       return result;
     }
 
@@ -106,46 +163,39 @@ export class MBOXParser {
       this.reportProgress(onProgress, 'extracting', 0, 'Processing large MBOX file in chunks...');
       const count = await this.parseLargeBuffer(file, onProgress, async (batch) => {
         result.emails.push(...(batch as Email[]));
-      });
+      }, this.collectDiagnostics(options, result));
       result.stats.emailCount = count;
+      this.extractCalendarEvents(result);
+      this.extractFolders(result);
       return result;
     }
 
     // For smaller files or Buffers, use simple parsing
     this.reportProgress(onProgress, 'extracting', 0, 'Reading MBOX file...');
 
+    // Read as a binary string (one char per byte); bodies and headers are
+    // decoded later using the charset each message declares
     let text: string;
-    if (file instanceof File) {
-      text = await file.text();
-    } else if (typeof Blob !== 'undefined' && file instanceof Blob) {
-      // Handle Blob (browser)
-      text = await file.text();
+    if (typeof Blob !== 'undefined' && file instanceof Blob) {
+      // File or Blob (browser)
+      text = bytesToBinaryString(new Uint8Array(await file.arrayBuffer()));
     } else if (Buffer.isBuffer(file)) {
-      text = file.toString('utf-8');
+      text = file.toString('latin1');
     } else if (file instanceof ArrayBuffer) {
-      text = new TextDecoder().decode(file);
+      text = bytesToBinaryString(new Uint8Array(file));
     } else if (ArrayBuffer.isView(file)) {
-      text = new TextDecoder().decode(file);
+      text = bytesToBinaryString(new Uint8Array(file.buffer, file.byteOffset, file.byteLength));
     } else {
       // Fallback: try to convert to string
       text = String(file);
     }
 
-    // Normalize line endings
-    const normalizedText = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-    const lines = normalizedText.split('\n');
+    throwIfAborted(signal);
 
-    let currentEmail: string[] = [];
-    let totalEmails = 0;
+    const { messages } = this.splitMessages(text, options.variant ?? 'auto');
+    const totalEmails = messages.length;
     let processedEmails = 0;
 
-    // Count emails first
-    for (const line of lines) {
-      if (this.isFromLine(line)) {
-        totalEmails++;
-      }
-    }
-
     this.reportProgress(
       onProgress,
       'parsing_emails',
@@ -154,44 +204,33 @@ export class MBOXParser {
     );
 
     // Parse emails
-    for (const line of lines) {
-      if (this.isFromLine(line) && currentEmail.length > 0) {
-        const email = this.parseEmailFromLines(currentEmail);
-        if (email) {
-          result.emails.push(email as Email);
-          result.stats.emailCount++;
-          processedEmails++;
-
-          if (processedEmails % 100 === 0) {
-            const progress = 10 + (processedEmails / totalEmails) * 90;
-            this.reportProgress(
-              onProgress,
-              'parsing_emails',
-              progress,
-              `Parsed ${processedEmails} of ${totalEmails} emails`
-            );
-          }
-        }
-        currentEmail = [];
-      }
-
-      currentEmail.push(line);
-    }
-
-    // Parse last email
-    if (currentEmail.length > 0 && currentEmail.some((line) => line.trim().length > 0)) {
-      const email = this.parseEmailFromLines(currentEmail);
+    const parseOptions = this.collectDiagnostics(options, result);
+    for (const message of messages) {
+      const email = this.messageParser.parseMessage(message.lines, parseOptions, { offset: message.offset }, 1);
       if (email) {
         result.emails.push(email as Email);
         result.stats.emailCount++;
+        processedEmails++;
+
+        if (processedEmails % 100 === 0) {
+          throwIfAborted(signal);
+          const progress = 10 + (processedEmails / totalEmails) * 90;
+          this.reportProgress(
+            onProgress,
+            'parsing_emails',
+            progress,
+            `Parsed ${processedEmails} of ${totalEmails} emails`
+          );
+        }
       }
     }
 
     // Extract contacts from email senders
-    const mboxOptions = options as MBOXParseOptions;
-    if (mboxOptions.extractContacts !== false) {
+    if (options.extractContacts !== false) {
       this.extractContactsFromEmails(result);
     }
+    this.extractCalendarEvents(result);
+    this.extractFolders(result);
 
     this.reportProgress(
       onProgress,
@@ -206,8 +245,11 @@ export class MBOXParser {
   /**
    * Parse an MBOX file from a file path (Node.js only)
    * Uses true streaming for any file size - no memory limits
+   *
+   * The path can also be an Apple Mail mailbox bundle (`Inbox.mbox/`, a directory
+   * holding the `mbox` file), or a directory of such bundles.
    * 
-   * @param filePath - Path to the MBOX file
+   * @param filePath - Path to the MBOX file or Apple Mail bundle
    * @param options - Parsing options
    * @returns Parsed data
    * 
@@ -226,247 +268,277 @@ export class MBOXParser {
     const { onProgress } = options;
 
     // Dynamic import of Node.js modules
-    const fs = await import('fs');
     const path = await import('path');
 
     const result: ParseResult = {
       emails: [],
       contacts: [],
       calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
       stats: {
         emailCount: 0,
         contactCount: 0,
         calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
         accountCount: 0,
         purchaseCount: 0,
         subscriptionCount: 0,
         newsletterCount: 0,
       },
+      diagnostics: [],
     };
 
-    // Get file size
-    const stats = fs.statSync(filePath);
-    const fileSize = stats.size;
-    const fileSizeMB = (fileSize / 1024 / 1024).toFixed(1);
-
-    this.reportProgress(
-      onProgress,
-      'extracting',
-      0,
-      `Opening ${fileSizeMB}MB file: ${path.basename(filePath)}`
-    );
-
-    // Create read stream with 100MB chunks
-    const stream = fs.createReadStream(filePath, {
-      highWaterMark: this.NODE_CHUNK_SIZE,
-      encoding: 'utf-8',
-    });
-
-    let leftover = '';
-    let bytesRead = 0;
-    let totalEmailsParsed = 0;
-
-    for await (const chunk of stream) {
-      const chunkStr = chunk as string;
-      bytesRead += Buffer.byteLength(chunkStr, 'utf-8');
-
-      const textToProcess = leftover + chunkStr;
-      const lastFromIndex = this.findLastFromLine(textToProcess);
-
-      let processableText: string;
-      if (lastFromIndex > 0 && bytesRead < fileSize) {
-        processableText = textToProcess.substring(0, lastFromIndex);
-        leftover = textToProcess.substring(lastFromIndex);
-      } else {
-        processableText = textToProcess;
-        leftover = '';
-      }
+    const parseOptions = this.collectDiagnostics(options, result);
+    const mailboxes = await this.findMailboxes(filePath);
+    const folders = new FolderTracker();
 
-      // Parse emails from this chunk
-      const chunkEmails = this.parseEmailsFromText(processableText);
-      
-      for (const email of chunkEmails) {
-        result.emails.push(email as Email);
-        totalEmailsParsed++;
-      }
+    for (const mailbox of mailboxes ?? [{ path: filePath, names: [] }]) {
+      const file = mailbox.path;
+      // Get file size
+      const fileSize = (await getInputSize(file)) ?? 0;
+      const fileSizeMB = (fileSize / 1024 / 1024).toFixed(1);
 
-      const progress = Math.round((bytesRead / fileSize) * 95);
       this.reportProgress(
         onProgress,
-        'parsing_emails',
-        progress,
-        `Parsed ${totalEmailsParsed} emails (${Math.round((bytesRead / fileSize) * 100)}% read)...`
+        'extracting',
+        0,
+        `Opening ${fileSizeMB}MB file: ${mailboxes ? path.relative(filePath, file) || path.basename(file) : path.basename(file)}`
       );
-    }
 
-    // Process remaining text
-    if (leftover.trim()) {
-      const finalEmails = this.parseEmailsFromText(leftover);
-      for (const email of finalEmails) {
+      // Read with 100MB chunks
+      const chunks = readChunks(file, this.NODE_CHUNK_SIZE);
+      for await (const email of this.iterateEmails(chunks, fileSize, parseOptions, mailboxes ? file : undefined)) {
+        this.assignMailbox(email, mailbox, folders);
+        folders.track(email);
         result.emails.push(email as Email);
-        totalEmailsParsed++;
       }
     }
 
-    result.stats.emailCount = totalEmailsParsed;
+    result.stats.emailCount = result.emails.length;
+    result.folders.push(...folders.toFolders());
 
     // Extract contacts from email senders
     if (options.extractContacts !== false) {
       this.extractContactsFromEmails(result);
     }
+    this.extractCalendarEvents(result);
 
     this.reportProgress(
       onProgress,
       'complete',
       100,
-      `Parsed ${totalEmailsParsed} emails successfully`
+      `Parsed ${result.stats.emailCount} emails successfully`
     );
 
     return result;
   }
 
   /**
-   * Extract contacts from email senders
+   * Stream emails (then folders, sender contacts and invitation calendar events) from an MBOX archive as they are parsed
+   *
+   * Nothing is accumulated: the input is read chunk by chunk only as fast as
+   * the consumer pulls items, so archives of any size can be processed.
+   *
+   * @param input - File/Blob, Buffer, file path (Node.js), ReadableStream or Node.js Readable
+   * @param options - Parsing options
+   *
+   * @example
+   * ```typescript
+   * for await (const item of parser.stream('/path/to/huge.mbox')) {
+   *   if (item.type === 'email') await db.insert(item.email);
+   * }
+   * ```
    */
-  private extractContactsFromEmails(result: ParseResult): void {
-    const senderMap = new Map<string, { name: string; emailCount: number; lastEmailDate: Date }>();
+  async *stream(
+    input: StreamInput,
+    options: MBOXParseOptions = {}
+  ): AsyncGenerator<ArchiveItem> {
+    const { onProgress } = options;
+    const senders = new SenderContactTracker();
+    const invites = new CalendarInviteTracker();
+    const folders = new FolderTracker();
+    let emailCount = 0;
 
-    for (const email of result.emails) {
-      if (email.sender && email.sender !== 'unknown@example.com') {
-        const existing = senderMap.get(email.sender);
-        if (existing) {
-          existing.emailCount++;
-          if (email.date > existing.lastEmailDate) {
-            existing.lastEmailDate = email.date;
-          }
-        } else {
-          senderMap.set(email.sender, {
-            name: email.senderName || email.sender.split('@')[0] || 'Unknown',
-            emailCount: 1,
-            lastEmailDate: email.date,
-          });
-        }
+    this.reportProgress(onProgress, 'extracting', 0, 'Reading MBOX archive...');
+
+    const mailboxes = typeof input === 'string' ? await this.findMailboxes(input) : null;
+    for (const mailbox of mailboxes ?? [null]) {
+      const file = mailbox?.path ?? input;
+      const size = await getInputSize(file);
+      const chunkSize = typeof file === 'string' ? this.NODE_CHUNK_SIZE : this.CHUNK_SIZE;
+      for await (const email of this.iterateEmails(readChunks(file, chunkSize), size, options, mailbox?.path)) {
+        if (mailbox) this.assignMailbox(email, mailbox, folders);
+        senders.track(email);
+        invites.track(email);
+        folders.track(email);
+        emailCount++;
+        yield { type: 'email', email: email as Email };
       }
     }
 
-    // Add contacts
-    for (const [email, data] of senderMap) {
-      result.contacts.push({
-        name: data.name,
-        email: cleanEmailAddress(email),
-        phone: undefined,
-        emailCount: data.emailCount,
-        lastEmailDate: data.lastEmailDate,
-      } as Contact);
-      result.stats.contactCount++;
+    for (const folder of folders.toFolders()) {
+      yield { type: 'folder', folder };
+    }
+
+    if (options.extractContacts !== false) {
+      this.reportProgress(onProgress, 'parsing_contacts', 0, 'Building contacts from senders...');
+      for (const contact of senders.toContacts()) {
+        throwIfAborted(options.signal);
+        yield { type: 'contact', contact };
+      }
     }
+
+    yield* this.yieldCalendarEvents(invites, options);
+
+    this.reportProgress(onProgress, 'complete', 100, `Parsed ${emailCount} emails successfully`);
   }
 
   /**
-   * Parse an MBOX file with streaming batch processing
-   * More memory efficient for large files
-   * @param file - File to parse
-   * @param onProgress - Progress callback
-   * @param onBatch - Callback for each batch of parsed emails
-   * @returns Total number of emails parsed
+   * List the mailboxes of an Apple Mail export or a Thunderbird mail folder (Node.js only)
+   *
+   * Apple Mail exports each mailbox as a bundle directory, `Inbox.mbox/`, holding
+   * the messages in a file named `mbox` next to a `table_of_contents` index.
+   * Sub-mailboxes are bundles nested inside their parent's bundle.
+   *
+   * Thunderbird keeps each mailbox in a file named after the folder (`Inbox`,
+   * `Sent`) next to its `.msf` index, with subfolders in a `<Folder>.sbd/` directory.
+   *
+   * @param filePath - A bundle, a directory containing mailboxes, or a mailbox file
+   * @returns The mailboxes in folder order, or null for a file that isn't a Thunderbird mailbox
+   * @throws If the directory holds no mailboxes
    */
-  async parseStreaming(
-    file: File,
-    onProgress?: (progress: ParseProgress) => void,
-    onBatch?: EmailBatchCallback
-  ): Promise<number> {
-    const fileSize = file.size;
-    let offset = 0;
-    let leftover = '';
-    let totalEmailsParsed = 0;
-    let currentBatch: Omit<Email, 'id'>[] = [];
-    let batchNumber = 0;
+  private async findMailboxes(filePath: string): Promise<MBOXMailbox[] | null> {
+    const fs = await import('fs');
+    const path = await import('path');
 
-    this.reportProgress(
-      onProgress,
-      'extracting',
-      0,
-      `Processing ${(fileSize / 1024 / 1024).toFixed(1)}MB file...`
-    );
+    if (!(await fs.promises.stat(filePath)).isDirectory()) {
+      const isThunderbird = await fs.promises.stat(`${filePath}.msf`).then(() => true, () => false);
+      return isThunderbird ? [{ path: filePath, names: [path.basename(filePath)] }] : null;
+    }
 
-    while (offset < fileSize) {
-      const chunkEnd = Math.min(offset + this.CHUNK_SIZE, fileSize);
-      const chunk = file.slice(offset, chunkEnd);
+    const mailboxes: MBOXMailbox[] = [];
+    const walk = async (dir: string, names: string[]) => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      const fileNames = new Set(entries.filter((entry) => entry.isFile()).map((entry) => entry.name));
 
-      let chunkText: string;
-      try {
-        chunkText = await chunk.text();
-      } catch (e) {
-        console.error('Error reading chunk:', e);
-        break;
+      if (fileNames.has('mbox')) {
+        mailboxes.push({ path: path.join(dir, 'mbox'), names });
       }
+      for (const entry of entries) {
+        const child = path.join(dir, entry.name);
+        if (entry.isDirectory() && /\.(mbox|sbd)$/i.test(entry.name)) {
+          await walk(child, [...names, entry.name.replace(/\.(mbox|sbd)$/i, '')]);
+        } else if (entry.isFile() && fileNames.has(`${entry.name}.msf`)) {
+          mailboxes.push({ path: child, names: [...names, entry.name] });
+        }
+      }
+    };
 
-      const textToProcess = leftover + chunkText;
-      const lastFromIndex = this.findLastFromLine(textToProcess);
+    const base = path.basename(path.resolve(filePath));
+    await walk(filePath, /\.mbox$/i.test(base) ? [base.slice(0, -'.mbox'.length)] : []);
+    if (mailboxes.length === 0) {
+      throw new Error(`Not an MBOX bundle: ${filePath} has no mbox file, .mbox bundles or Thunderbird mailboxes`);
+    }
+    return mailboxes;
+  }
 
-      let processableText: string;
-      if (lastFromIndex > 0 && chunkEnd < fileSize) {
-        processableText = textToProcess.substring(0, lastFromIndex);
-        leftover = textToProcess.substring(lastFromIndex);
-      } else {
-        processableText = textToProcess;
-        leftover = '';
-      }
+  /**
+   * Put an email read from a named mailbox into the mailbox's folder,
+   * unless its Gmail labels already say where it belongs
+   */
+  private assignMailbox(email: Omit<Email, 'id'>, mailbox: MBOXMailbox, folders: FolderTracker): void {
+    if (mailbox.names.length === 0 || email.labels) return;
+    email.folderId = folders.add(mailbox.names);
+  }
 
-      // Parse emails from this chunk
-      const chunkEmails = this.parseEmailsFromText(processableText);
+  /**
+   * Extract contacts from email senders
+   */
+  private extractContactsFromEmails(result: ParseResult): void {
+    const senders = new SenderContactTracker();
 
-      for (const email of chunkEmails) {
-        currentBatch.push(email);
+    for (const email of result.emails) {
+      senders.track(email);
+    }
 
-        if (currentBatch.length >= this.BATCH_SIZE) {
-          if (onBatch) {
-            await onBatch(currentBatch, batchNumber);
-          }
-          totalEmailsParsed += currentBatch.length;
-          batchNumber++;
-          currentBatch = [];
+    // Add contacts
+    for (const contact of senders.toContacts()) {
+      result.contacts.push(contact);
+      result.stats.contactCount++;
+    }
+  }
 
-          // Yield to UI
-          await new Promise((resolve) => setTimeout(resolve, 0));
-        }
-      }
+  /**
+   * Build calendar events from the invitations in the parsed emails
+   */
+  private extractCalendarEvents(result: ParseResult): void {
+    const invites = new CalendarInviteTracker();
 
-      offset = chunkEnd;
-      const progress = Math.round((offset / fileSize) * 95);
-      this.reportProgress(
-        onProgress,
-        'parsing_emails',
-        progress,
-        `Parsed ${totalEmailsParsed + currentBatch.length} emails (${Math.round((offset / fileSize) * 100)}% read)...`
-      );
+    for (const email of result.emails) {
+      invites.track(email);
+    }
 
-      // Yield to prevent UI blocking
-      await new Promise((resolve) => setTimeout(resolve, 0));
+    for (const event of invites.toEvents()) {
+      result.calendarEvents.push(event);
+      result.stats.calendarEventCount++;
     }
+  }
 
-    // Process remaining text
-    if (leftover.trim()) {
-      const finalEmails = this.parseEmailsFromText(leftover);
-      for (const email of finalEmails) {
-        currentBatch.push(email);
-      }
+  /**
+   * List the folders of the parsed emails
+   */
+  private extractFolders(result: ParseResult): void {
+    const folders = new FolderTracker();
+
+    for (const email of result.emails) {
+      folders.track(email);
     }
 
-    // Process final batch
-    if (currentBatch.length > 0 && onBatch) {
-      await onBatch(currentBatch, batchNumber);
-      totalEmailsParsed += currentBatch.length;
+    result.folders.push(...folders.toFolders());
+  }
+
+  /**
+   * Stream the calendar events built from the invitations seen so far
+   */
+  private *yieldCalendarEvents(invites: CalendarInviteTracker, options: ParseOptions): Generator<ArchiveItem> {
+    const events = invites.toEvents();
+    if (events.length === 0) return;
+
+    this.reportProgress(options.onProgress, 'parsing_calendar', 0, 'Building calendar events from invitations...');
+    for (const event of events) {
+      throwIfAborted(options.signal);
+      yield { type: 'calendarEvent', event };
     }
+  }
 
+  /**
+   * Parse an MBOX file with streaming batch processing
+   * More memory efficient for large files
+   * @param file - File to parse
+   * @param onProgress - Progress callback
+   * @param onBatch - Callback for each batch of parsed emails
+   * @param options - Parsing options (e.g. includeAttachments)
+   * @returns Total number of emails parsed
+   */
+  async parseStreaming(
+    file: File,
+    onProgress?: (progress: ParseProgress) => void,
+    onBatch?: EmailBatchCallback,
+    options: ParseOptions = {}
+  ): Promise<number> {
     this.reportProgress(
       onProgress,
-      'complete',
-      100,
-      `Parsed ${totalEmailsParsed} emails successfully`
+      'extracting',
+      0,
+      `Processing ${(file.size / 1024 / 1024).toFixed(1)}MB file...`
     );
 
-    return totalEmailsParsed;
+    const chunks = readChunks(file, this.CHUNK_SIZE);
+    return this.parseInBatches(chunks, file.size, { ...options, onProgress }, onBatch, true);
   }
 
   /**
@@ -474,84 +546,57 @@ export class MBOXParser {
    * @param buffer - Buffer to parse
    * @param onProgress - Progress callback
    * @param onBatch - Callback for each batch of parsed emails
+   * @param options - Parsing options
    * @returns Total number of emails parsed
    */
   private async parseLargeBuffer(
     buffer: Buffer,
     onProgress?: (progress: ParseProgress) => void,
-    onBatch?: EmailBatchCallback
+    onBatch?: EmailBatchCallback,
+    options: ParseOptions = {}
   ): Promise<number> {
-    const bufferSize = buffer.length;
-    // Use 100MB chunks to stay well under the 512MB string limit
-    const CHUNK_SIZE = 100 * 1024 * 1024;
-    let offset = 0;
-    let leftover = '';
-    let totalEmailsParsed = 0;
-    let currentBatch: Omit<Email, 'id'>[] = [];
-    let batchNumber = 0;
-
     this.reportProgress(
       onProgress,
       'extracting',
       0,
-      `Processing large ${(bufferSize / 1024 / 1024).toFixed(1)}MB file in chunks...`
+      `Processing large ${(buffer.length / 1024 / 1024).toFixed(1)}MB file in chunks...`
     );
 
-    while (offset < bufferSize) {
-      const chunkEnd = Math.min(offset + CHUNK_SIZE, bufferSize);
-      const chunk = buffer.subarray(offset, chunkEnd);
-
-      let chunkText: string;
-      try {
-        chunkText = chunk.toString('utf-8');
-      } catch (e) {
-        console.error('Error reading buffer chunk:', e);
-        break;
-      }
-
-      const textToProcess = leftover + chunkText;
-      const lastFromIndex = this.findLastFromLine(textToProcess);
-
-      let processableText: string;
-      if (lastFromIndex > 0 && chunkEnd < bufferSize) {
-        processableText = textToProcess.substring(0, lastFromIndex);
-        leftover = textToProcess.substring(lastFromIndex);
-      } else {
-        processableText = textToProcess;
-        leftover = '';
-      }
+    // Use 100MB chunks to stay well under the 512MB string limit
+    const chunks = readChunks(buffer, this.NODE_CHUNK_SIZE);
+    return this.parseInBatches(chunks, buffer.length, { ...options, onProgress }, onBatch, false);
+  }
 
-      // Parse emails from this chunk
-      const chunkEmails = this.parseEmailsFromText(processableText);
+  /**
+   * Hand parsed emails to a batch callback, BATCH_SIZE at a time
+   * @returns Total number of emails parsed
+   */
+  private async parseInBatches(
+    chunks: AsyncIterable<Uint8Array>,
+    totalSize: number,
+    options: ParseOptions,
+    onBatch: EmailBatchCallback | undefined,
+    yieldToUI: boolean
+  ): Promise<number> {
+    let totalEmailsParsed = 0;
+    let currentBatch: Omit<Email, 'id'>[] = [];
+    let batchNumber = 0;
 
-      for (const email of chunkEmails) {
-        currentBatch.push(email);
+    for await (const email of this.iterateEmails(chunks, totalSize, options)) {
+      currentBatch.push(email);
 
-        if (currentBatch.length >= this.BATCH_SIZE) {
-          if (onBatch) {
-            await onBatch(currentBatch, batchNumber);
-          }
-          totalEmailsParsed += currentBatch.length;
-          batchNumber++;
-          currentBatch = [];
+      if (currentBatch.length >= this.BATCH_SIZE) {
+        if (onBatch) {
+          await onBatch(currentBatch, batchNumber);
+          throwIfAborted(options.signal);
         }
-      }
-
-      offset = chunkEnd;
-      const progress = Math.round((offset / bufferSize) * 95);
-      this.reportProgress(
-        onProgress,
-        'parsing_emails',
-        progress,
-        `Parsed ${totalEmailsParsed + currentBatch.length} emails (${Math.round((offset / bufferSize) * 100)}% read)...`
-      );
-    }
+        totalEmailsParsed += currentBatch.length;
+        batchNumber++;
+        currentBatch = [];
 
-    // Process remaining text
-    if (leftover.trim()) {
-      const finalEmails = this.parseEmailsFromText(leftover);
-      for (const email of finalEmails) {
-        currentBatch.push(email);
+        if (yieldToUI) {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
       }
     }
 
@@ -559,10 +604,11 @@ export class MBOXParser {
     if (currentBatch.length > 0 && onBatch) {
       await onBatch(currentBatch, batchNumber);
       totalEmailsParsed += currentBatch.length;
+      throwIfAborted(options.signal);
     }
 
     this.reportProgress(
-      onProgress,
+      options.onProgress,
       'complete',
       100,
       `Parsed ${totalEmailsParsed} emails successfully`
@@ -571,583 +617,306 @@ export class MBOXParser {
     return totalEmailsParsed;
   }
 
-  private reportProgress(
-    callback: ((progress: ParseProgress) => void) | undefined,
-    stage: ParseProgress['stage'],
-    progress: number,
-    message: string
-  ): void {
-    callback?.({ stage, progress, message });
-  }
-
-  /**
-   * Check if a line is a valid MBOX "From " line
-   */
-  private isFromLine(line: string): boolean {
-    if (!line.startsWith('From ')) return false;
-    // Validate with day pattern (e.g., "From user@example.com Mon Jan 01 00:00:00 2024")
-    const dayPattern = /(Mon|Tue|Wed|Thu|Fri|Sat|Sun)/;
-    return dayPattern.test(line);
-  }
-
   /**
-   * Find the index of the last "From " line in text
+   * Split a stream of MBOX bytes into messages and parse them one at a time
+   *
+   * Text after the last complete "From " line of a chunk is carried over to
+   * the next one, so messages spanning chunk boundaries are never split.
+   * Aborting `options.signal` stops reading and closes the underlying stream.
+   *
+   * @param chunks - Raw MBOX bytes
+   * @param totalSize - Total input size for progress reporting, if known
+   * @param options - Parsing options
+   * @param path - File the bytes come from, for diagnostics when reading several
    */
-  private findLastFromLine(text: string): number {
-    let lastIndex = -1;
-    let searchStart = text.length - 1;
+  private async *iterateEmails(
+    chunks: AsyncIterable<Uint8Array>,
+    totalSize: number | undefined,
+    options: MBOXParseOptions,
+    path?: string
+  ): AsyncGenerator<Omit<Email, 'id'>> {
+    const variant = options.variant ?? 'auto';
+    let leftover = '';
+    let bytesRead = 0;
+    let emailsParsed = 0;
 
-    while (searchStart > 0) {
-      let idx = text.lastIndexOf('\nFrom ', searchStart);
+    throwIfAborted(options.signal);
 
-      if (idx === -1) break;
+    for await (const chunk of chunks) {
+      throwIfAborted(options.signal);
+      bytesRead += chunk.length;
 
-      const lineStart = idx + 1;
-      let lineEnd = text.indexOf('\n', lineStart);
-      if (lineEnd === -1) lineEnd = text.length;
-      const line = text.substring(lineStart, lineEnd);
+      // Binary string (one char per byte); charsets are decoded per message
+      const textToProcess = leftover + bytesToBinaryString(chunk);
+      const textOffset = bytesRead - textToProcess.length;
+      const { messages, rest } = this.splitMessages(textToProcess, variant, textOffset, false);
+      // The last message may continue in the next chunk
+      leftover = textToProcess.substring(rest);
 
-      if (this.isFromLine(line)) {
-        lastIndex = lineStart;
-        break;
+      for (const message of messages) {
+        const email = this.parseRawMessage(message, options, path);
+        if (email) {
+          emailsParsed++;
+          yield email;
+          throwIfAborted(options.signal);
+        }
       }
-      searchStart = idx - 1;
-    }
 
-    // Check if text starts with "From "
-    if (lastIndex === -1 && text.startsWith('From ')) {
-      let lineEnd = text.indexOf('\n');
-      if (lineEnd === -1) lineEnd = text.length;
-      const line = text.substring(0, lineEnd);
-      if (this.isFromLine(line)) {
-        lastIndex = 0;
-      }
+      const fraction = totalSize ? Math.min(bytesRead / totalSize, 1) : 0;
+      this.reportProgress(
+        options.onProgress,
+        'parsing_emails',
+        Math.round(fraction * 95),
+        totalSize
+          ? `Parsed ${emailsParsed} emails (${Math.round(fraction * 100)}% read)...`
+          : `Parsed ${emailsParsed} emails...`
+      );
     }
 
-    return lastIndex;
-  }
-
-  /**
-   * Parse multiple emails from a text block
-   */
-  private parseEmailsFromText(text: string): Omit<Email, 'id'>[] {
-    const emails: Omit<Email, 'id'>[] = [];
-    const normalizedText = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-    const lines = normalizedText.split('\n');
-    let currentEmail: string[] = [];
-
-    for (const line of lines) {
-      if (this.isFromLine(line) && currentEmail.length > 0) {
-        const email = this.parseEmailFromLines(currentEmail);
+    // Process remaining text
+    if (leftover.trim()) {
+      for (const message of this.splitMessages(leftover, variant, bytesRead - leftover.length).messages) {
+        const email = this.parseRawMessage(message, options, path);
         if (email) {
-          emails.push(email);
+          yield email;
+          throwIfAborted(options.signal);
         }
-        currentEmail = [];
-      }
-      currentEmail.push(line);
-    }
-
-    // Parse last email in chunk
-    if (currentEmail.length > 0 && currentEmail.some((line) => line.trim().length > 0)) {
-      const email = this.parseEmailFromLines(currentEmail);
-      if (email) {
-        emails.push(email);
       }
     }
+  }
 
-    return emails;
+  private reportProgress(
+    callback: ((progress: ParseProgress) => void) | undefined,
+    stage: ParseProgress['stage'],
+    progress: number,
+    message: string
+  ): void {
+    callback?.({ stage, progress, message });
   }
 
   /**
-   * Parse a single email from raw lines
+   * Check if a line is a valid MBOX "From " line
+   * (e.g. "From user@example.com Mon Jan 01 00:00:00 2024": a sender, then a date with a weekday and time)
    */
-  private parseEmailFromLines(lines: string[]): Omit<Email, 'id'> | null {
-    try {
-      if (lines.length < 2) return null;
-
-      const headers: Record<string, string> = {};
-      let bodyStartIndex = 0;
-      let inHeaders = true;
-
-      // Parse headers (skip the "From " line)
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i];
-
-        if (line.trim() === '') {
-          bodyStartIndex = i + 1;
-          inHeaders = false;
-          break;
-        }
-
-        if (inHeaders) {
-          if (line.match(/^\s+/) && Object.keys(headers).length > 0) {
-            const lastKey = Object.keys(headers).pop()!;
-            headers[lastKey] += ' ' + line.trim();
-          } else {
-            const match = line.match(/^([^:]+):\s*(.*)$/);
-            if (match) {
-              const key = match[1].toLowerCase();
-              headers[key] = match[2];
-            }
-          }
-        }
-      }
-
-      if (inHeaders) {
-        bodyStartIndex = lines.length;
-      }
-
-      // Extract body content
-      const bodyLines = lines.slice(bodyStartIndex);
-      const rawBody = bodyLines.join('\n');
-
-      // Parse body based on content type
-      const contentType = headers['content-type'] || 'text/plain';
-      let body = '';
-      let htmlBody: string | undefined;
-
-      if (contentType.includes('multipart/')) {
-        // Extract boundary from content-type (handle quoted and unquoted)
-        const boundaryMatch = contentType.match(/boundary="([^"]+)"/i) || 
-                              contentType.match(/boundary='([^']+)'/i) ||
-                              contentType.match(/boundary=([^\s;]+)/i);
-        if (boundaryMatch) {
-          const boundary = boundaryMatch[1];
-          const parts = this.parseMimeParts(rawBody, boundary);
-          body = parts.text || '';
-          htmlBody = parts.html;
-          
-          // Fallback: if no text/html parts found, try raw body
-          if (!body && !htmlBody && rawBody.length > 0) {
-            // Check if there's visible content after stripping MIME boundaries
-            const stripped = rawBody
-              .replace(/--[^\n]+\n/g, '')
-              .replace(/Content-Type:[^\n]+\n/gi, '')
-              .replace(/Content-Transfer-Encoding:[^\n]+\n/gi, '')
-              .replace(/Content-Disposition:[^\n]+\n/gi, '')
-              .trim();
-            if (stripped.length > 20) {
-              body = stripped;
-            }
-          }
-        } else {
-          body = rawBody;
-        }
-      } else {
-        // Single part email
-        body = rawBody;
-        const encoding = headers['content-transfer-encoding']?.toLowerCase();
-        if (encoding === 'quoted-printable') {
-          body = decodeQuotedPrintable(body);
-        } else if (encoding === 'base64') {
-          body = this.decodeBase64(body.replace(/\s/g, ''));
-        }
-
-        if (contentType.includes('text/html')) {
-          htmlBody = body;
-        }
-      }
-
-      const dateStr = headers['date'] || '';
-      const date = this.parseDate(dateStr);
-
-      const from = headers['from'] || '';
-      const { email: sender, name: senderName } = this.parseEmailAddress(from);
-
-      const to = headers['to'] || '';
-      const recipients = this.parseRecipients(to);
-
-      const subject = decodeHeaderValue(headers['subject'] || '(No Subject)');
-
-      // Extract thread ID (with Gmail support)
-      let threadId =
-        headers['x-gm-thrid'] ||
-        headers['thread-topic'] ||
-        headers['references']?.split(/\s+/)[0] ||
-        headers['in-reply-to'];
-
-      if (!threadId) {
-        const normalizedSubj = normalizeSubject(subject);
-        if (normalizedSubj) {
-          threadId = `subject:${normalizedSubj.toLowerCase().replace(/\s+/g, '-')}`;
-        }
-      }
-
-      // Parse Gmail labels for folder assignment
-      const gmailLabels = headers['x-gmail-labels'] || '';
-      const folderId = this.mapGmailLabelsToFolder(gmailLabels);
-      const isRead = !gmailLabels.toLowerCase().includes('unread');
-      const isStarred = gmailLabels.toLowerCase().includes('starred');
-      const labels = this.parseGmailLabels(gmailLabels);
-
-      // Validate this is a real email, not a MIME attachment part
-      if (!sender && !subject) {
-        return null;
-      }
-
-      // Skip if sender looks invalid (no @ sign and not a known pattern)
-      if (!sender || (!sender.includes('@') && sender !== 'unknown')) {
-        return null;
-      }
-
-      // Skip if body looks like binary/base64 image data (JPEG, PNG, etc.)
-      const trimmedBody = body.trim();
-      if (this.looksLikeBinaryData(trimmedBody)) {
-        return null;
-      }
-
-      // Skip if subject is default and body is mostly non-printable
-      if (subject === '(No Subject)' && this.hasMostlyNonPrintable(trimmedBody)) {
-        return null;
-      }
-
-      return {
-        subject,
-        sender: cleanEmailAddress(sender),
-        senderName: senderName || undefined,
-        recipients,
-        date: date || new Date(),
-        body: trimmedBody || (htmlBody ? this.stripHtml(htmlBody) : ''),
-        htmlBody,
-        attachments: [],
-        size: Math.min(lines.join('\n').length, 100000), // Cap size calculation
-        isRead,
-        isStarred,
-        folderId,
-        threadId,
-        labels: labels.length > 0 ? labels : undefined,
-        messageId: headers['message-id'] || undefined,
-        hasAttachments: false, // Will be updated when parsing attachments
-      };
-    } catch (error) {
-      console.warn('Failed to parse email:', error);
-      return null;
-    }
+  private isFromLine(line: string): boolean {
+    return /^From \S+ .*\b(Mon|Tue|Wed|Thu|Fri|Sat|Sun)\b.*\b\d{1,2}:\d{2}/.test(line);
   }
 
   /**
-   * Parse Gmail labels and return the primary folder ID
+   * Get the line starting at an index, without its line break
    */
-  private mapGmailLabelsToFolder(labels: string): string {
-    const labelList = this.parseGmailLabels(labels);
-
-    // Priority order for folder assignment
-    if (labelList.includes('inbox')) return 'inbox';
-    if (labelList.includes('sent') || labelList.includes('sent mail')) return 'sent';
-    if (labelList.includes('draft') || labelList.includes('drafts')) return 'drafts';
-    if (labelList.includes('spam')) return 'spam';
-    if (labelList.includes('trash')) return 'trash';
-
-    // Check for custom labels (not category/system labels)
-    const customLabels = labelList.filter(
-      (l) =>
-        !l.startsWith('category ') &&
-        !['opened', 'unread', 'starred', 'important', 'all mail'].includes(l)
-    );
-
-    if (customLabels.length > 0) {
-      return this.labelToFolderId(customLabels[0]);
-    }
-
-    return 'archive';
+  private lineAt(text: string, index: number): string {
+    const lineBreak = /\r|\n/g;
+    lineBreak.lastIndex = index;
+    const match = lineBreak.exec(text);
+    return text.substring(index, match ? match.index : text.length);
   }
 
   /**
-   * Parse the X-Gmail-Labels header into an array of label names
+   * Find the next "From " line starting at or after an index
+   * @returns Index of the line, or -1 if there is none
    */
-  parseGmailLabels(labelsHeader: string): string[] {
-    if (!labelsHeader) return [];
-
-    const labels: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (const char of labelsHeader) {
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        if (current.trim()) {
-          labels.push(current.trim().toLowerCase());
-        }
-        current = '';
-      } else {
-        current += char;
+  private findFromLine(text: string, from: number): number {
+    for (let index = text.indexOf('From ', from); index !== -1; index = text.indexOf('From ', index + 1)) {
+      const previous = text[index - 1];
+      if ((index === 0 || previous === '\n' || previous === '\r') && this.isFromLine(this.lineAt(text, index))) {
+        return index;
       }
     }
-
-    if (current.trim()) {
-      labels.push(current.trim().toLowerCase());
-    }
-
-    return labels;
+    return -1;
   }
 
   /**
-   * Convert a label name to a valid folder ID
+   * Find where a message ends according to its Content-Length header (mboxcl, mboxcl2)
+   *
+   * The length is only trusted if it leads exactly to the next "From " line
+   * (after the blank line that separates messages) or to the end of the file.
+   *
+   * @param text - Binary string of MBOX content
+   * @param start - Index of the message's "From " line
+   * @param final - Whether `text` runs to the end of the file
+   * @returns Index of the next message, 'incomplete' if more text is needed
+   * to tell, or null if the message has no usable Content-Length
    */
-  private labelToFolderId(label: string): string {
-    return label
-      .toLowerCase()
-      .replace(/[^a-z0-9\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .substring(0, 50);
+  private findLengthEnd(text: string, start: number, final: boolean): number | 'incomplete' | null {
+    const blankLine = /(?:\r\n|\n|\r)(?:\r\n|\n|\r)/g;
+    blankLine.lastIndex = start;
+    const headerEnd = blankLine.exec(text);
+    if (!headerEnd) return final ? null : 'incomplete';
+
+    const header = text.substring(start, headerEnd.index);
+    const contentLength = header.match(/(?:^|[\r\n])Content-Length:[ \t]*(\d+)[ \t]*(?=[\r\n]|$)/i);
+    if (!contentLength || Number(contentLength[1]) > this.MAX_CONTENT_LENGTH) return null;
+
+    const end = headerEnd.index + headerEnd[0].length + Number(contentLength[1]);
+    if (end > text.length) return final ? null : 'incomplete';
+
+    let next = end;
+    while (text[next] === '\n' || text[next] === '\r') next++;
+    if (next >= text.length) return final ? text.length : 'incomplete';
+    return text.startsWith('From ', next) && this.isFromLine(this.lineAt(text, next)) ? next : null;
   }
 
   /**
-   * Get all unique folder IDs from a labels header
+   * Split MBOX text into messages
+   *
+   * Messages are delimited by their Content-Length header where the variant
+   * uses one (and the header is right), otherwise by "From " separator lines.
+   * Accepts LF, CRLF and CR line endings.
+   *
+   * @param text - Binary string of MBOX content
+   * @param variant - mbox variant (see {@link MBOXParseOptions.variant})
+   * @param baseOffset - Byte offset of `text` within the file
+   * @param final - Whether `text` runs to the end of the file; if not, the
+   * last message is left unsplit because it may continue
+   * @returns The complete messages, and the index where the rest of the text starts
    */
-  getAllFolderIdsFromLabels(labelsHeader: string): string[] {
-    const labels = this.parseGmailLabels(labelsHeader);
-    const folderIds = new Set<string>();
-
-    if (labels.includes('inbox')) folderIds.add('inbox');
-    if (labels.includes('sent') || labels.includes('sent mail')) folderIds.add('sent');
-    if (labels.includes('draft') || labels.includes('drafts')) folderIds.add('drafts');
-    if (labels.includes('spam')) folderIds.add('spam');
-    if (labels.includes('trash')) folderIds.add('trash');
-
-    for (const label of labels) {
-      if (
-        !label.startsWith('category ') &&
-        ![
-          'opened',
-          'unread',
-          'starred',
-          'important',
-          'all mail',
-          'inbox',
-          'sent',
-          'sent mail',
-          'draft',
-          'drafts',
-          'spam',
-          'trash',
-        ].includes(label)
-      ) {
-        folderIds.add(this.labelToFolderId(label));
+  private splitMessages(
+    text: string,
+    variant: MBOXVariant | 'auto',
+    baseOffset = 0,
+    final = true
+  ): { messages: RawMessage[]; rest: number } {
+    const messages: RawMessage[] = [];
+    const useLength = variant !== 'mboxo' && variant !== 'mboxrd';
+    let start = 0;
+
+    while (start < text.length) {
+      const lengthEnd =
+        useLength && this.isFromLine(this.lineAt(text, start)) ? this.findLengthEnd(text, start, final) : null;
+      if (lengthEnd === 'incomplete') break;
+
+      let next: number;
+      if (lengthEnd !== null) {
+        next = lengthEnd;
+      } else {
+        const found = this.findFromLine(text, start + 1);
+        if (found === -1 && !final) break;
+        next = found === -1 ? text.length : found;
       }
+
+      // The line break before the next "From " line belongs to the separator
+      const lines = text.substring(start, next).replace(/(?:\r\n|\n|\r)$/, '').split(/\r\n|\n|\r/);
+      if (lines.some((line) => line.trim().length > 0)) {
+        messages.push({ lines: this.unquoteFromLines(lines, variant, lengthEnd !== null), offset: baseOffset + start });
+      }
+      start = next;
     }
 
-    return Array.from(folderIds);
+    return { messages, rest: start };
   }
 
   /**
-   * Parse MIME multipart content and extract text/html parts
+   * Undo the quoting of body lines that would otherwise look like "From " lines
+   *
+   * mboxo and mboxcl quote `From ` as `>From `; mboxrd also quotes `>From `
+   * (as `>>From `) and so on; mboxcl2 quotes nothing. When detecting the
+   * variant, messages delimited by Content-Length are taken as mboxcl2 if
+   * their body has bare `From ` lines, otherwise as mboxcl, and other
+   * messages as mboxrd.
+   *
+   * @param lines - Message lines, starting with the "From " line
+   * @param variant - mbox variant
+   * @param counted - Whether the message was delimited by its Content-Length
    */
-  private parseMimeParts(body: string, boundary: string): { text?: string; html?: string } {
-    const result: { text?: string; html?: string } = {};
-
-    // Normalize line endings before processing
-    const normalizedBody = body.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-    const boundaryMarker = '--' + boundary;
-    const parts = normalizedBody.split(boundaryMarker);
-
-    for (const part of parts) {
-      if (!part.trim() || part.trim() === '--') continue;
-
-      // Look for double newline (header/body separator)
-      let headerEndIndex = part.indexOf('\n\n');
-      if (headerEndIndex === -1) {
-        // Try with single newline followed by content (malformed but common)
-        headerEndIndex = part.indexOf('\n');
-        if (headerEndIndex === -1) continue;
-      }
-
-      const partHeaders = part.substring(0, headerEndIndex);
-      let partContent = part.substring(headerEndIndex).replace(/^\n+/, ''); // Remove leading newlines
-
-      const contentTypeMatch = partHeaders.match(/content-type:\s*([^;\n]+)/i);
-      const encodingMatch = partHeaders.match(/content-transfer-encoding:\s*(\S+)/i);
-
-      if (!contentTypeMatch) continue;
-
-      const partContentType = contentTypeMatch[1].toLowerCase().trim();
-      const partEncoding = encodingMatch?.[1]?.toLowerCase() || '7bit';
-
-      // Handle nested multipart
-      if (partContentType.includes('multipart/')) {
-        const nestedBoundaryMatch = partHeaders.match(/boundary=["']?([^"';\s\n]+)["']?/i);
-        if (nestedBoundaryMatch) {
-          const nestedResult = this.parseMimeParts(partContent, nestedBoundaryMatch[1]);
-          if (nestedResult.text && !result.text) result.text = nestedResult.text;
-          if (nestedResult.html && !result.html) result.html = nestedResult.html;
-        }
-        continue;
-      }
-
-      // Decode content
-      partContent = partContent.trim();
-      if (partEncoding === 'base64') {
-        partContent = this.decodeBase64(partContent.replace(/\s/g, ''));
-      } else if (partEncoding === 'quoted-printable') {
-        partContent = decodeQuotedPrintable(partContent);
-      }
-
-      // Store based on content type
-      if (partContentType.includes('text/plain') && !result.text) {
-        result.text = partContent;
-      } else if (partContentType.includes('text/html') && !result.html) {
-        result.html = partContent;
-      }
+  private unquoteFromLines(lines: string[], variant: MBOXVariant | 'auto', counted: boolean): string[] {
+    const bodyStart = lines.findIndex((line, index) => index > 0 && line.trim() === '');
+    if (bodyStart === -1) return lines;
+    const body = lines.slice(bodyStart + 1);
+
+    let quoted: RegExp;
+    if (variant === 'mboxrd' || (variant === 'auto' && !counted)) {
+      quoted = /^>+From /;
+    } else if (variant === 'mboxo' || variant === 'mboxcl') {
+      quoted = /^>From /;
+    } else if (variant === 'auto' && !body.some((line) => line.startsWith('From '))) {
+      quoted = /^>From /;
+    } else {
+      return lines;
     }
 
-    return result;
+    if (!body.some((line) => quoted.test(line))) return lines;
+    return [...lines.slice(0, bodyStart + 1), ...body.map((line) => (quoted.test(line) ? line.substring(1) : line))];
   }
 
   /**
-   * Decode base64 with UTF-8 support
+   * Parse one message split from the MBOX
+   * @param message - Message lines and offset
+   * @param options - Parsing options
+   * @param path - File the message comes from, if there are several
    */
-  private decodeBase64(str: string): string {
-    try {
-      if (typeof atob !== 'undefined') {
-        // Browser: use TextDecoder for proper UTF-8
-        const binaryStr = atob(str);
-        const bytes = new Uint8Array(binaryStr.length);
-        for (let i = 0; i < binaryStr.length; i++) {
-          bytes[i] = binaryStr.charCodeAt(i);
-        }
-        return new TextDecoder('utf-8').decode(bytes);
-      } else {
-        // Node.js
-        return Buffer.from(str, 'base64').toString('utf-8');
-      }
-    } catch {
-      // Fallback
-      try {
-        if (typeof atob !== 'undefined') {
-          return atob(str);
-        }
-        return Buffer.from(str, 'base64').toString('utf-8');
-      } catch {
-        return str;
-      }
-    }
+  private parseRawMessage(message: RawMessage, options: ParseOptions, path?: string): Omit<Email, 'id'> | null {
+    const location = path ? { offset: message.offset, path } : { offset: message.offset };
+    return this.messageParser.parseMessage(message.lines, options, location, 1);
   }
 
   /**
-   * Strip HTML tags to create plain text
+   * Copy options so that diagnostics are also collected into a result
    */
-  private stripHtml(html: string): string {
-    return html
-      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-      .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-      .replace(/<[^>]+>/g, ' ')
-      .replace(/&nbsp;/g, ' ')
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'")
-      .replace(/\s+/g, ' ')
-      .trim();
+  private collectDiagnostics(options: ParseOptions, result: ParseResult): ParseOptions {
+    return {
+      ...options,
+      onWarning: (diagnostic) => {
+        result.diagnostics.push(diagnostic);
+        options.onWarning?.(diagnostic);
+      },
+    };
   }
 
   /**
-   * Check if content looks like binary/base64 image data
+   * Parse the X-Gmail-Labels header into an array of label names
    */
-  private looksLikeBinaryData(content: string): boolean {
-    if (!content || content.length < 20) return false;
-    
-    const first100 = content.substring(0, 100);
-    
-    // JPEG markers
-    if (first100.includes('JFIF') || first100.includes('Exif')) return true;
-    
-    // Base64 encoded JPEG (/9j/)
-    if (first100.startsWith('/9j/')) return true;
-    
-    // PNG marker
-    if (first100.includes('PNG') && first100.includes('\x89')) return true;
-    
-    // Base64 encoded PNG (iVBOR)
-    if (first100.startsWith('iVBOR')) return true;
-    
-    // GIF marker
-    if (first100.startsWith('GIF8')) return true;
-    
-    // Check for high concentration of base64-like patterns with no spaces
-    const noSpaceContent = first100.replace(/\s/g, '');
-    if (noSpaceContent.length > 50 && /^[A-Za-z0-9+/=]+$/.test(noSpaceContent)) {
-      return true;
-    }
-    
-    return false;
+  parseGmailLabels(labelsHeader: string): string[] {
+    return this.messageParser.parseGmailLabels(labelsHeader);
   }
 
   /**
-   * Check if content has mostly non-printable characters
+   * Get all unique folder IDs from a labels header
    */
-  private hasMostlyNonPrintable(content: string): boolean {
-    if (!content || content.length < 10) return false;
-    
-    const sample = content.substring(0, 200);
-    let nonPrintable = 0;
-    
-    for (let i = 0; i < sample.length; i++) {
-      const code = sample.charCodeAt(i);
-      // Count characters outside normal printable ASCII range (and common Unicode)
-      if ((code < 32 || code > 126) && code !== 10 && code !== 13 && code !== 9 && code < 160) {
-        nonPrintable++;
-      }
-    }
-    
-    // If more than 30% is non-printable, it's likely binary
-    return nonPrintable / sample.length > 0.3;
-  }
-
-  private parseEmailAddress(str: string): { email: string; name?: string } {
-    const trimmed = decodeHeaderValue(str.trim());
-
-    const angleMatch = trimmed.match(/^(?:"?(.+?)"?\s*)?<([^>]+)>$/);
-    if (angleMatch) {
-      return {
-        name: angleMatch[1]?.trim() || undefined,
-        email: angleMatch[2]?.trim(),
-      };
-    }
-
-    const emailMatch = trimmed.match(/^([^\s@]+@[^\s@]+\.[^\s@]+)$/);
-    if (emailMatch) {
-      return { email: emailMatch[1] };
-    }
-
-    return { email: trimmed };
-  }
-
-  private parseRecipients(str: string): string[] {
-    if (!str) return [];
-
-    return str
-      .split(/[,;]/)
-      .map((r) => {
-        const { email } = this.parseEmailAddress(r.trim());
-        return cleanEmailAddress(email);
-      })
-      .filter(Boolean);
-  }
-
-  private parseDate(dateStr: string): Date | null {
-    if (!dateStr) return null;
-
-    try {
-      const date = new Date(dateStr);
-      return isNaN(date.getTime()) ? null : date;
-    } catch {
-      return null;
-    }
+  getAllFolderIdsFromLabels(labelsHeader: string): string[] {
+    return this.messageParser.getAllFolderIdsFromLabels(labelsHeader);
   }
 
   /**
    * Check if a file is an MBOX archive
    * @param file - File to check
-   * @returns True if the file appears to be an MBOX archive
+   * @returns True if the file appears to be an MBOX archive, including the
+   * `mbox` file inside an Apple Mail bundle
    */
   static isMBOXFile(file: File): boolean {
     const name = file.name.toLowerCase();
     return (
       name.endsWith('.mbox') ||
       name.endsWith('.mbx') ||
+      name === 'mbox' ||
       file.type === 'application/mbox'
     );
   }
+
+  /**
+   * Check if a directory is an Apple Mail mailbox bundle, an export folder
+   * holding bundles, or a Thunderbird mail folder (Node.js only)
+   * @param path - Directory to check
+   * @returns True if the directory holds an `mbox` file, an `.mbox` bundle or a
+   * mailbox file with its Thunderbird `.msf` index
+   */
+  static async isMBOXBundle(path: string): Promise<boolean> {
+    const fs = await import('fs');
+    const nodePath = await import('path');
+    try {
+      const entries = await fs.promises.readdir(path, { withFileTypes: true });
+      if (entries.some((entry) => entry.isFile() && entry.name === 'mbox')) return true;
+
+      const fileNames = new Set(entries.filter((entry) => entry.isFile()).map((entry) => entry.name));
+      if ([...fileNames].some((name) => fileNames.has(`${name}.msf`))) return true;
+
+      for (const entry of entries) {
+        if (!entry.isDirectory() || !entry.name.toLowerCase().endsWith('.mbox')) continue;
+        if (await MBOXParser.isMBOXBundle(nodePath.join(path, entry.name))) return true;
+      }
+      return false;
+    } catch {
+      return false;
+    }
+  }
 }
@@ -0,0 +1,784 @@
+/**
+ * OLM Parser - RFC 822 Message Parser
+ * @packageDocumentation
+ */
+
+import type { Email, EmailHeader, Attachment, CalendarInvite, ParseOptions, ParseDiagnostic } from '../types';
+import {
+  cleanEmailAddress,
+  normalizeSubject,
+  decodeHeaderValue,
+  decodeBytes,
+  decodeBase64Bytes,
+  decodeQuotedPrintableBytes,
+  binaryStringToBytes,
+  bytesToBinaryString,
+  parseAddressList,
+} from '../utils';
+import { parseCalendarInvite } from './ical';
+import { occurrenceKey } from './invites';
+import { folderNameToId } from './folders';
+import { reportDiagnostic } from '../errors';
+
+/**
+ * Body text, attachments and calendar content collected from a MIME tree
+ */
+interface MimeParts {
+  text?: string;
+  html?: string;
+  attachments: Attachment[];
+  /** Decoded text of `text/calendar` parts and `.ics` files */
+  calendars: string[];
+}
+
+/** Deepest multipart nesting followed; real mail stays within a handful of levels */
+const MAX_MIME_DEPTH = 100;
+
+/**
+ * Parser for a single RFC 822 / MIME message
+ *
+ * Shared by the MBOX, EML and Maildir parsers: handles headers, RFC 2047 encoded words,
+ * multipart bodies, transfer encodings, charsets, attachments, calendar invitations and Gmail labels.
+ * @internal
+ */
+export class MessageParser {
+  /**
+   * Parse a standalone message file (.eml, Maildir entry)
+   * A leading mbox "From " separator line, which some tools keep, is skipped.
+   * @param bytes - Raw message bytes
+   * @param options - Parsing options
+   * @param location - Where the message came from, for diagnostics
+   * @returns Parsed email, or null if the message was skipped
+   */
+  parseMessageBytes(
+    bytes: Uint8Array,
+    options: ParseOptions = {},
+    location?: ParseDiagnostic['location']
+  ): Omit<Email, 'id'> | null {
+    const lines = bytesToBinaryString(bytes).split(/\r\n|\n|\r/);
+    const headerStart = /^From [^:]*$/.test(lines[0] ?? '') ? 1 : 0;
+    return this.parseMessage(lines, options, location, headerStart);
+  }
+
+  /**
+   * Parse a single email from raw lines
+   * @param lines - Message lines (binary strings, one char per byte)
+   * @param options - Parsing options
+   * @param location - Where the message came from, for diagnostics
+   * @param headerStart - Index of the first header line (1 to skip an mbox "From " line)
+   * @returns Parsed email, or null if the message was skipped
+   */
+  parseMessage(
+    lines: string[],
+    options: ParseOptions = {},
+    location?: ParseDiagnostic['location'],
+    headerStart = 0
+  ): Omit<Email, 'id'> | null {
+    let messageId: string | undefined;
+    const skip = (reason: string): null => {
+      reportDiagnostic(options, {
+        severity: 'warning',
+        code: 'message_skipped',
+        message: `Skipped message: ${reason}`,
+        location,
+        messageId,
+      });
+      return null;
+    };
+
+    try {
+      if (lines.length <= headerStart) return null;
+
+      const headerList: EmailHeader[] = [];
+      let bodyStartIndex = 0;
+      let inHeaders = true;
+
+      // Parse headers
+      for (let i = headerStart; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.trim() === '') {
+          bodyStartIndex = i + 1;
+          inHeaders = false;
+          break;
+        }
+
+        if (inHeaders) {
+          if (line.match(/^\s+/) && headerList.length > 0) {
+            headerList[headerList.length - 1].value += ' ' + line.trim();
+          } else {
+            const match = line.match(/^([^:]+):\s*(.*)$/);
+            if (match) {
+              headerList.push({ name: match[1].trim(), value: match[2] });
+            }
+          }
+        }
+      }
+
+      if (inHeaders) {
+        bodyStartIndex = lines.length;
+      }
+
+      // Raw 8-bit header text has no declared charset
+      const headers: Record<string, string> = {};
+      for (const header of headerList) {
+        header.value = this.decodeRawText(header.value, options.fallbackCharset);
+        headers[header.name.toLowerCase()] = header.value;
+      }
+      messageId = headers['message-id'] || undefined;
+
+      // Extract body content
+      const bodyLines = lines.slice(bodyStartIndex);
+      const rawBody = bodyLines.join('\n');
+
+      // Parse body based on content type
+      const contentType = headers['content-type'] || 'text/plain';
+      let body = '';
+      let htmlBody: string | undefined;
+      const attachments: Attachment[] = [];
+      const calendars: string[] = [];
+
+      if (contentType.includes('multipart/')) {
+        // Extract boundary from content-type (handle quoted and unquoted)
+        const boundaryMatch = contentType.match(/boundary="([^"]+)"/i) || 
+                              contentType.match(/boundary='([^']+)'/i) ||
+                              contentType.match(/boundary=([^\s;]+)/i);
+        if (boundaryMatch) {
+          const boundary = boundaryMatch[1];
+          const parts = this.parseMimeParts(rawBody, boundary, options);
+          body = parts.text || '';
+          htmlBody = parts.html;
+          attachments.push(...parts.attachments);
+          calendars.push(...parts.calendars);
+          
+          // Fallback: if no text/html parts found, try raw body
+          if (!body && !htmlBody && rawBody.length > 0) {
+            // Check if there's visible content after stripping MIME boundaries
+            const stripped = rawBody
+              .replace(/--[^\n]+\n/g, '')
+              .replace(/Content-Type:[^\n]+\n/gi, '')
+              .replace(/Content-Transfer-Encoding:[^\n]+\n/gi, '')
+              .replace(/Content-Disposition:[^\n]+\n/gi, '')
+              .trim();
+            if (stripped.length > 20) {
+              body = this.decodeRawText(stripped, options.fallbackCharset);
+            }
+          }
+        } else {
+          body = this.decodeRawText(rawBody, options.fallbackCharset);
+        }
+      } else if (this.isAttachmentPart(contentType, headers['content-disposition'])) {
+        // Single part email whose only content is a file (e.g. a forwarded PDF)
+        attachments.push(this.createAttachment(headers, rawBody, 1, options));
+        if (this.isCalendarPart(contentType, headers['content-disposition'])) {
+          const encoding = headers['content-transfer-encoding']?.trim().toLowerCase() || '7bit';
+          calendars.push(this.decodeTextContent(rawBody, encoding, contentType, options));
+        }
+      } else {
+        // Single part email
+        const encoding = headers['content-transfer-encoding']?.trim().toLowerCase() || '7bit';
+        body = this.decodeTextContent(rawBody, encoding, contentType, options);
+
+        if (contentType.includes('text/html')) {
+          htmlBody = body;
+        } else if (this.isCalendarPart(contentType)) {
+          calendars.push(body);
+        }
+      }
+
+      const dateStr = headers['date'] || '';
+      const date = this.parseDate(dateStr);
+
+      // Address headers are parsed before RFC 2047 decoding so encoded commas can't split names
+      const fromAddress = parseAddressList(headers['from'] || '', options.fallbackCharset)[0];
+      const sender = fromAddress?.address || '';
+      const senderName = fromAddress?.name;
+
+      const toAddresses = parseAddressList(headers['to'] || '', options.fallbackCharset);
+      const ccAddresses = parseAddressList(headers['cc'] || '', options.fallbackCharset);
+      const bccAddresses = parseAddressList(headers['bcc'] || '', options.fallbackCharset);
+      const replyToAddresses = parseAddressList(headers['reply-to'] || '', options.fallbackCharset);
+      const recipients = toAddresses.map((a) => a.address);
+
+      const subject = decodeHeaderValue(headers['subject'] || '(No Subject)', options.fallbackCharset);
+
+      // Extract thread ID (with Gmail support)
+      let threadId =
+        headers['x-gm-thrid'] ||
+        headers['thread-topic'] ||
+        headers['references']?.split(/\s+/)[0] ||
+        headers['in-reply-to'];
+
+      if (!threadId) {
+        const normalizedSubj = normalizeSubject(subject);
+        if (normalizedSubj) {
+          threadId = `subject:${normalizedSubj.toLowerCase().replace(/\s+/g, '-')}`;
+        }
+      }
+
+      // Parse Gmail labels for folder assignment
+      const gmailLabels = headers['x-gmail-labels'] || '';
+      const folderId = this.mapGmailLabelsToFolder(gmailLabels);
+      const isRead = !gmailLabels.toLowerCase().includes('unread');
+      const isStarred = gmailLabels.toLowerCase().includes('starred');
+      const labels = this.parseGmailLabels(gmailLabels);
+      // A Gmail message is in every folder it has a label for
+      const folderIds = labels.length > 0
+        ? [...new Set([folderId, ...this.getAllFolderIdsFromLabels(gmailLabels)])]
+        : undefined;
+
+      // Validate this is a real email, not a MIME attachment part
+      if (!sender && !subject) {
+        return skip('no sender or subject');
+      }
+
+      // Skip if sender looks invalid (no @ sign and not a known pattern)
+      if (!sender || (!sender.includes('@') && sender !== 'unknown')) {
+        return skip(`invalid sender "${sender}"`);
+      }
+
+      // Skip if body looks like binary/base64 image data (JPEG, PNG, etc.)
+      const trimmedBody = body.trim();
+      if (this.looksLikeBinaryData(trimmedBody)) {
+        return skip('body looks like binary data');
+      }
+
+      // Skip if subject is default and body is mostly non-printable
+      if (subject === '(No Subject)' && this.hasMostlyNonPrintable(trimmedBody)) {
+        return skip('no subject and mostly non-printable body');
+      }
+
+      return {
+        subject,
+        sender: cleanEmailAddress(sender),
+        senderName: senderName || undefined,
+        recipients,
+        cc: ccAddresses.length > 0 ? ccAddresses.map((a) => a.address) : undefined,
+        bcc: bccAddresses.length > 0 ? bccAddresses.map((a) => a.address) : undefined,
+        replyTo: replyToAddresses.length > 0 ? replyToAddresses.map((a) => a.address) : undefined,
+        fromAddress,
+        toAddresses: toAddresses.length > 0 ? toAddresses : undefined,
+        ccAddresses: ccAddresses.length > 0 ? ccAddresses : undefined,
+        bccAddresses: bccAddresses.length > 0 ? bccAddresses : undefined,
+        replyToAddresses: replyToAddresses.length > 0 ? replyToAddresses : undefined,
+        date: date || new Date(),
+        body: trimmedBody || (htmlBody ? this.stripHtml(htmlBody) : ''),
+        htmlBody,
+        attachments,
+        size: Math.min(lines.join('\n').length, 100000), // Cap size calculation
+        isRead,
+        isStarred,
+        folderId,
+        folderIds,
+        threadId,
+        labels: labels.length > 0 ? labels : undefined,
+        messageId,
+        hasAttachments: attachments.length > 0,
+        headers: options.includeHeaders ? headerList : undefined,
+        invite: this.parseInvite(calendars),
+      };
+    } catch (error) {
+      reportDiagnostic(options, {
+        severity: 'error',
+        code: 'message_parse_failed',
+        message: `Failed to parse message: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        location,
+        messageId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Parse Gmail labels and return the primary folder ID
+   */
+  private mapGmailLabelsToFolder(labels: string): string {
+    const labelList = this.parseGmailLabels(labels);
+
+    // Priority order for folder assignment
+    if (labelList.includes('inbox')) return 'inbox';
+    if (labelList.includes('sent') || labelList.includes('sent mail')) return 'sent';
+    if (labelList.includes('draft') || labelList.includes('drafts')) return 'drafts';
+    if (labelList.includes('spam')) return 'spam';
+    if (labelList.includes('trash')) return 'trash';
+
+    // Check for custom labels (not category/system labels)
+    const customLabels = labelList.filter(
+      (l) =>
+        !l.startsWith('category ') &&
+        !['opened', 'unread', 'starred', 'important', 'all mail'].includes(l)
+    );
+
+    if (customLabels.length > 0) {
+      return this.labelToFolderId(customLabels[0]);
+    }
+
+    return 'archive';
+  }
+
+  /**
+   * Parse the X-Gmail-Labels header into an array of label names
+   */
+  parseGmailLabels(labelsHeader: string): string[] {
+    if (!labelsHeader) return [];
+
+    const labels: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (const char of labelsHeader) {
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (char === ',' && !inQuotes) {
+        if (current.trim()) {
+          labels.push(current.trim().toLowerCase());
+        }
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    if (current.trim()) {
+      labels.push(current.trim().toLowerCase());
+    }
+
+    return labels;
+  }
+
+  /**
+   * Convert a label or folder name to a valid folder ID
+   */
+  labelToFolderId(label: string): string {
+    return folderNameToId(label);
+  }
+
+  /**
+   * Get all unique folder IDs from a labels header
+   */
+  getAllFolderIdsFromLabels(labelsHeader: string): string[] {
+    const labels = this.parseGmailLabels(labelsHeader);
+    const folderIds = new Set<string>();
+
+    if (labels.includes('inbox')) folderIds.add('inbox');
+    if (labels.includes('sent') || labels.includes('sent mail')) folderIds.add('sent');
+    if (labels.includes('draft') || labels.includes('drafts')) folderIds.add('drafts');
+    if (labels.includes('spam')) folderIds.add('spam');
+    if (labels.includes('trash')) folderIds.add('trash');
+
+    for (const label of labels) {
+      if (
+        !label.startsWith('category ') &&
+        ![
+          'opened',
+          'unread',
+          'starred',
+          'important',
+          'all mail',
+          'inbox',
+          'sent',
+          'sent mail',
+          'draft',
+          'drafts',
+          'spam',
+          'trash',
+        ].includes(label)
+      ) {
+        folderIds.add(this.labelToFolderId(label));
+      }
+    }
+
+    return Array.from(folderIds);
+  }
+
+  /**
+   * Parse MIME multipart content and extract text/html parts and attachments
+   */
+  private parseMimeParts(body: string, boundary: string, options: ParseOptions = {}, depth = 1): MimeParts {
+    if (depth > MAX_MIME_DEPTH) {
+      throw new Error(`Multipart body is nested more than ${MAX_MIME_DEPTH} levels deep`);
+    }
+    const result: MimeParts = { attachments: [], calendars: [] };
+
+    // Normalize line endings before processing
+    const normalizedBody = body.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+    const boundaryMarker = '--' + boundary;
+    const parts = normalizedBody.split(boundaryMarker);
+
+    // Anything before the first boundary is the preamble, not a part
+    for (const part of parts.slice(1)) {
+      if (!part.trim() || part.trim() === '--' || part.startsWith('--')) continue;
+
+      // Look for double newline (header/body separator)
+      let headerEndIndex = part.indexOf('\n\n');
+      if (headerEndIndex === -1) {
+        // Try with single newline followed by content (malformed but common)
+        headerEndIndex = part.indexOf('\n');
+        if (headerEndIndex === -1) continue;
+      }
+
+      const partHeaders = this.parseHeaderBlock(part.substring(0, headerEndIndex), options);
+      // Remove the line break after the boundary and the one before the next boundary
+      const partContent = part.substring(headerEndIndex).replace(/^\n+/, '').replace(/\n$/, '');
+
+      const partContentType = partHeaders['content-type'] || 'text/plain';
+      const mimeType = partContentType.split(';')[0].trim().toLowerCase();
+
+      // Handle nested multipart
+      if (mimeType.startsWith('multipart/')) {
+        const nestedBoundary = this.getHeaderParam(partContentType, 'boundary');
+        if (nestedBoundary) {
+          const nestedResult = this.parseMimeParts(partContent, nestedBoundary, options, depth + 1);
+          if (nestedResult.text && !result.text) result.text = nestedResult.text;
+          if (nestedResult.html && !result.html) result.html = nestedResult.html;
+          result.attachments.push(...nestedResult.attachments);
+          result.calendars.push(...nestedResult.calendars);
+        }
+        continue;
+      }
+
+      const partEncoding = partHeaders['content-transfer-encoding']?.trim().toLowerCase() || '7bit';
+
+      // Invitations come as an inline text/calendar alternative, an .ics file, or both
+      if (this.isCalendarPart(partContentType, partHeaders['content-disposition'])) {
+        result.calendars.push(this.decodeTextContent(partContent.trim(), partEncoding, partContentType, options));
+      }
+
+      // The first plain/html parts that aren't files make up the body
+      if (!this.isAttachmentPart(partContentType, partHeaders['content-disposition'])) {
+        if (mimeType === 'text/plain' && !result.text) {
+          result.text = this.decodeTextContent(partContent.trim(), partEncoding, partContentType, options);
+          continue;
+        }
+        if (mimeType === 'text/html' && !result.html) {
+          result.html = this.decodeTextContent(partContent.trim(), partEncoding, partContentType, options);
+          continue;
+        }
+        // Unnamed alternative renderings (e.g. a second text/plain) aren't files
+        if (mimeType.startsWith('text/') && !partHeaders['content-disposition']) continue;
+      }
+
+      result.attachments.push(
+        this.createAttachment(partHeaders, partContent, result.attachments.length + 1, options)
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a block of MIME headers into a lowercase-keyed record (unfolding continuation lines)
+   */
+  private parseHeaderBlock(block: string, options: ParseOptions = {}): Record<string, string> {
+    const headers: Record<string, string> = {};
+    let lastKey = '';
+
+    for (const line of block.split('\n')) {
+      if (/^\s+/.test(line) && lastKey) {
+        headers[lastKey] += ' ' + line.trim();
+        continue;
+      }
+      const match = line.match(/^([^:\s]+):\s*(.*)$/);
+      if (match) {
+        lastKey = match[1].toLowerCase();
+        headers[lastKey] = match[2];
+      }
+    }
+
+    for (const key of Object.keys(headers)) {
+      headers[key] = this.decodeRawText(headers[key], options.fallbackCharset);
+    }
+
+    return headers;
+  }
+
+  /**
+   * Get a parameter from a structured header value (e.g. `filename` from Content-Disposition)
+   * Supports quoted values and RFC 2231 extended/continued parameters
+   */
+  private getHeaderParam(headerValue: string, name: string): string | undefined {
+    const params: Record<string, string> = {};
+    const paramRegex = /;\s*([^\s=;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+    let match;
+
+    while ((match = paramRegex.exec(headerValue)) !== null) {
+      let value = match[2].trim();
+      if (value.startsWith('"')) {
+        value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+      }
+      params[match[1].toLowerCase()] = value;
+    }
+
+    const key = name.toLowerCase();
+    if (params[key] !== undefined) return params[key];
+    if (params[`${key}*`] !== undefined) return this.decodeRfc2231Value(params[`${key}*`]);
+
+    // RFC 2231 continuations: name*0, name*1*, ...
+    if (params[`${key}*0`] === undefined && params[`${key}*0*`] === undefined) return undefined;
+
+    let joined = '';
+    let extended = false;
+    for (let i = 0; ; i++) {
+      if (params[`${key}*${i}*`] !== undefined) {
+        joined += params[`${key}*${i}*`];
+        extended = true;
+      } else if (params[`${key}*${i}`] !== undefined) {
+        joined += params[`${key}*${i}`];
+      } else {
+        break;
+      }
+    }
+    return extended ? this.decodeRfc2231Value(joined) : joined;
+  }
+
+  /**
+   * Decode an RFC 2231 extended value (`charset'language'percent-encoded`)
+   */
+  private decodeRfc2231Value(value: string): string {
+    const match = value.match(/^([^']*)'[^']*'(.*)$/);
+    const charset = match?.[1] || 'utf-8';
+    const encoded = match ? match[2] : value;
+
+    const bytes: number[] = [];
+    for (let i = 0; i < encoded.length; i++) {
+      if (encoded[i] === '%' && /^[0-9a-f]{2}$/i.test(encoded.substring(i + 1, i + 3))) {
+        bytes.push(parseInt(encoded.substring(i + 1, i + 3), 16));
+        i += 2;
+      } else {
+        bytes.push(encoded.charCodeAt(i) & 0xff);
+      }
+    }
+
+    return decodeBytes(new Uint8Array(bytes), charset);
+  }
+
+  /**
+   * Check whether a MIME part should be treated as an attachment rather than body text
+   */
+  private isAttachmentPart(contentType: string, disposition?: string): boolean {
+    if (disposition && /^\s*attachment/i.test(disposition)) return true;
+    if (this.getPartFilename(contentType, disposition)) return true;
+
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    return mimeType !== '' && !mimeType.startsWith('text/') && !mimeType.startsWith('multipart/');
+  }
+
+  /**
+   * Check whether a MIME part holds iCalendar content (`text/calendar`, or an `.ics` file)
+   */
+  private isCalendarPart(contentType: string, disposition?: string): boolean {
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    if (mimeType === 'text/calendar' || mimeType === 'application/ics') return true;
+    return /\.ics$/i.test(this.getPartFilename(contentType, disposition) ?? '');
+  }
+
+  /**
+   * Combine the calendar parts of a message into one invitation
+   * The same invitation is usually sent both inline and as an attached file.
+   */
+  private parseInvite(calendars: string[]): CalendarInvite | undefined {
+    let invite: CalendarInvite | undefined;
+
+    for (const text of calendars) {
+      const parsed = parseCalendarInvite(text);
+      if (!parsed) continue;
+      if (!invite) {
+        invite = parsed;
+        continue;
+      }
+      for (const event of parsed.events) {
+        const key = occurrenceKey(event);
+        if (key === null || !invite.events.some((existing) => occurrenceKey(existing) === key)) {
+          invite.events.push(event);
+        }
+      }
+    }
+
+    return invite;
+  }
+
+  /**
+   * Get the filename of a MIME part from Content-Disposition or Content-Type
+   */
+  private getPartFilename(contentType: string, disposition?: string): string | undefined {
+    const filename =
+      (disposition && this.getHeaderParam(disposition, 'filename')) ||
+      this.getHeaderParam(contentType, 'name');
+    return filename ? decodeHeaderValue(filename).trim() || undefined : undefined;
+  }
+
+  /**
+   * Decode a text MIME part according to its transfer encoding and declared charset
+   */
+  private decodeTextContent(
+    content: string,
+    encoding: string,
+    contentType: string,
+    options: ParseOptions
+  ): string {
+    const charset = this.getHeaderParam(contentType, 'charset');
+    return decodeBytes(this.decodeTransferEncoding(content, encoding), charset, options.fallbackCharset);
+  }
+
+  /**
+   * Undo a Content-Transfer-Encoding, returning the raw bytes
+   */
+  private decodeTransferEncoding(content: string, encoding: string): Uint8Array {
+    if (encoding === 'base64') {
+      return decodeBase64Bytes(content);
+    }
+    if (encoding === 'quoted-printable') {
+      return decodeQuotedPrintableBytes(content);
+    }
+    return binaryStringToBytes(content);
+  }
+
+  /**
+   * Decode undeclared 8-bit text (raw header values, unparseable bodies)
+   */
+  private decodeRawText(text: string, fallbackCharset?: string): string {
+    if (!/[\x80-\xff]/.test(text)) return text;
+    return decodeBytes(binaryStringToBytes(text), undefined, fallbackCharset);
+  }
+
+  /**
+   * Build an Attachment record from a MIME part
+   */
+  private createAttachment(
+    headers: Record<string, string>,
+    content: string,
+    index: number,
+    options: ParseOptions
+  ): Attachment {
+    const contentType = headers['content-type'] || 'application/octet-stream';
+    const mimeType = contentType.split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+    const encoding = headers['content-transfer-encoding']?.trim().toLowerCase() || '7bit';
+
+    let base64: string;
+    let size: number;
+    if (encoding === 'base64') {
+      base64 = content.replace(/[^A-Za-z0-9+/=]/g, '');
+      const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+      size = Math.max(0, Math.floor((base64.length * 3) / 4) - padding);
+    } else {
+      const bytes = this.decodeTransferEncoding(content, encoding);
+      base64 = this.encodeBase64(bytesToBinaryString(bytes));
+      size = bytes.length;
+    }
+
+    const contentId = headers['content-id']?.replace(/[<>]/g, '').trim();
+    const filename =
+      this.getPartFilename(contentType, headers['content-disposition']) ||
+      `attachment-${index}${this.extensionForMimeType(mimeType)}`;
+
+    return {
+      id: contentId || `att-${index}`,
+      filename,
+      mimeType,
+      size,
+      data: options.includeAttachments ? base64 : undefined,
+    };
+  }
+
+  /**
+   * Guess a file extension for an unnamed attachment
+   */
+  private extensionForMimeType(mimeType: string): string {
+    if (mimeType === 'message/rfc822') return '.eml';
+    if (mimeType === 'text/calendar') return '.ics';
+    const subtype = mimeType.split('/')[1] || '';
+    return /^[a-z0-9]{1,5}$/.test(subtype) ? `.${subtype}` : '';
+  }
+
+  /**
+   * Encode a binary string (one char per byte) as base64
+   */
+  private encodeBase64(binary: string): string {
+    if (typeof btoa !== 'undefined') {
+      return btoa(binary);
+    }
+    return Buffer.from(binary, 'latin1').toString('base64');
+  }
+
+  /**
+   * Strip HTML tags to create plain text
+   */
+  private stripHtml(html: string): string {
+    return html
+      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+      .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Check if content looks like binary/base64 image data
+   */
+  private looksLikeBinaryData(content: string): boolean {
+    if (!content || content.length < 20) return false;
+    
+    const first100 = content.substring(0, 100);
+    
+    // JPEG markers
+    if (first100.includes('JFIF') || first100.includes('Exif')) return true;
+    
+    // Base64 encoded JPEG (/9j/)
+    if (first100.startsWith('/9j/')) return true;
+    
+    // PNG marker
+    if (first100.includes('PNG') && first100.includes('\x89')) return true;
+    
+    // Base64 encoded PNG (iVBOR)
+    if (first100.startsWith('iVBOR')) return true;
+    
+    // GIF marker
+    if (first100.startsWith('GIF8')) return true;
+    
+    // Check for high concentration of base64-like patterns with no spaces
+    const noSpaceContent = first100.replace(/\s/g, '');
+    if (noSpaceContent.length > 50 && /^[A-Za-z0-9+/=]+$/.test(noSpaceContent)) {
+      return true;
+    }
+    
+    return false;
+  }
+
+  /**
+   * Check if content has mostly non-printable characters
+   */
+  private hasMostlyNonPrintable(content: string): boolean {
+    if (!content || content.length < 10) return false;
+    
+    const sample = content.substring(0, 200);
+    let nonPrintable = 0;
+    
+    for (let i = 0; i < sample.length; i++) {
+      const code = sample.charCodeAt(i);
+      // Count characters outside normal printable ASCII range (and common Unicode)
+      if ((code < 32 || code > 126) && code !== 10 && code !== 13 && code !== 9 && code < 160) {
+        nonPrintable++;
+      }
+    }
+    
+    // If more than 30% is non-printable, it's likely binary
+    return nonPrintable / sample.length > 0.3;
+  }
+
+  private parseDate(dateStr: string): Date | null {
+    if (!dateStr) return null;
+
+    try {
+      const date = new Date(dateStr);
+      return isNaN(date.getTime()) ? null : date;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,490 @@
+/**
+ * OLM Parser - Outlook MSG Parser
+ * @packageDocumentation
+ */
+
+import type {
+  Email,
+  Contact,
+  CalendarEvent,
+  ParseOptions,
+  ParseResult,
+  ParseProgress,
+  StreamInput,
+  ArchiveItem,
+} from '../types';
+import { readAll } from './input';
+import { SenderContactTracker } from './contacts';
+import { FolderTracker } from './folders';
+import { throwIfAborted, reportDiagnostic } from '../errors';
+import { CompoundFile, EntryType, type CFBEntry } from './msg/cfb';
+import { PropertyBag, PropertyType, PidTag, parseNameIdMap, type RawProperty } from './mapi/properties';
+import { mapiToEmail, mapiToContact, mapiToCalendarEvent, getItemKind, type MapiMessage } from './mapi/convert';
+
+/**
+ * A single message, a list of messages or (Node.js) a directory path
+ * containing `.msg` files
+ */
+export type MSGInput = StreamInput | Array<File | Blob | Buffer | ArrayBuffer | Uint8Array | string>;
+
+/**
+ * Extended options for MSG parsing
+ */
+export interface MSGParseOptions extends ParseOptions {
+  /**
+   * If true, also extract contacts from email senders
+   * @default true
+   */
+  extractContacts?: boolean;
+}
+
+/**
+ * One message file waiting to be read
+ */
+interface MSGSource {
+  /** File name or path (used in diagnostics) */
+  name: string;
+  read: () => Promise<Uint8Array>;
+}
+
+/** Storage and stream names (MS-OXMSG 2.2) */
+const PROPERTIES_STREAM = '__properties_version1.0';
+const NAMEID_STORAGE = '__nameid_version1.0';
+const RECIPIENT_PREFIX = '__recip_version1.0_';
+const ATTACHMENT_PREFIX = '__attach_version1.0_';
+const SUBSTG_PREFIX = '__substg1.0_';
+
+/** Size of the property stream header before the property entries */
+const HEADER_SIZE_TOP_LEVEL = 32;
+const HEADER_SIZE_EMBEDDED = 24;
+const HEADER_SIZE_SUBOBJECT = 8;
+
+/** Property types whose values are stored in the property stream itself */
+const FIXED_TYPES = new Set<number>([
+  PropertyType.Integer16,
+  PropertyType.Integer32,
+  PropertyType.Floating32,
+  PropertyType.Floating64,
+  PropertyType.Currency,
+  PropertyType.FloatingTime,
+  PropertyType.ErrorCode,
+  PropertyType.Boolean,
+  PropertyType.Integer64,
+  PropertyType.Time,
+]);
+
+/** Folder for messages saved on their own */
+const MSG_FOLDER_ID = 'archive';
+
+/**
+ * Parser for Outlook `.msg` files (single messages saved or dragged out of
+ * Outlook for Windows)
+ *
+ * Reads the OLE compound file and its MAPI properties directly: subject, sender,
+ * recipients by type, plain text, HTML and compressed RTF bodies, attachments
+ * and embedded `.msg` attachments. Contact and appointment items become contacts
+ * and calendar events.
+ *
+ * @example
+ * ```typescript
+ * import { MSGParser } from '@technical-1/email-archive-parser';
+ *
+ * const parser = new MSGParser();
+ *
+ * // Browser: files dropped onto the page
+ * const result = await parser.parse(Array.from(event.dataTransfer.files));
+ *
+ * // Node.js: a folder of .msg files
+ * const result = await parser.parseFile('/path/to/messages');
+ *
+ * console.log(`Parsed ${result.emails.length} emails`);
+ * ```
+ */
+export class MSGParser {
+  /**
+   * Parse one or more MSG files
+   * @param input - Message(s) or directory path (see {@link MSGInput})
+   * @param options - Parsing options
+   * @returns Parsed data
+   */
+  async parse(input: MSGInput, options: MSGParseOptions = {}): Promise<ParseResult> {
+    const result: ParseResult = {
+      emails: [],
+      contacts: [],
+      calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
+      stats: {
+        emailCount: 0,
+        contactCount: 0,
+        calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
+        accountCount: 0,
+        purchaseCount: 0,
+        subscriptionCount: 0,
+        newsletterCount: 0,
+      },
+      diagnostics: [],
+    };
+
+    const streamOptions: MSGParseOptions = {
+      ...options,
+      onWarning: (diagnostic) => {
+        result.diagnostics.push(diagnostic);
+        options.onWarning?.(diagnostic);
+      },
+    };
+
+    for await (const item of this.stream(input, streamOptions)) {
+      if (item.type === 'email') {
+        result.emails.push(item.email);
+        result.stats.emailCount++;
+      } else if (item.type === 'contact') {
+        result.contacts.push(item.contact);
+        result.stats.contactCount++;
+      } else if (item.type === 'calendarEvent') {
+        result.calendarEvents.push(item.event);
+        result.stats.calendarEventCount++;
+      } else if (item.type === 'folder') {
+        result.folders.push(item.folder);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse an MSG file or a directory of MSG files (Node.js only)
+   *
+   * @param path - Path to a `.msg` file or a directory
+   * @param options - Parsing options
+   * @returns Parsed data
+   */
+  async parseFile(path: string, options: MSGParseOptions = {}): Promise<ParseResult> {
+    return this.parse(path, options);
+  }
+
+  /**
+   * Stream emails as each file is read, then their folder, then contacts, then calendar events
+   *
+   * @param input - Message(s) or directory path (see {@link MSGInput})
+   * @param options - Parsing options
+   */
+  async *stream(input: MSGInput, options: MSGParseOptions = {}): AsyncGenerator<ArchiveItem> {
+    const { onProgress, signal } = options;
+    throwIfAborted(signal);
+
+    this.reportProgress(onProgress, 'extracting', 0, 'Reading MSG files...');
+    const sources = await this.collectSources(input);
+    throwIfAborted(signal);
+
+    const senders = new SenderContactTracker();
+    const folders = new FolderTracker();
+    const contacts: Contact[] = [];
+    const events: CalendarEvent[] = [];
+    let emailCount = 0;
+
+    this.reportProgress(onProgress, 'parsing_emails', 0, `Parsing ${sources.length} messages...`);
+
+    for (let i = 0; i < sources.length; i++) {
+      throwIfAborted(signal);
+      const source = sources[i];
+
+      let bytes: Uint8Array | null = null;
+      try {
+        bytes = await source.read();
+      } catch (error) {
+        reportDiagnostic(options, {
+          severity: 'error',
+          code: 'entry_read_failed',
+          message: `Failed to read ${source.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          location: { path: source.name },
+        });
+      }
+
+      let email: Omit<Email, 'id'> | null = null;
+      if (bytes) {
+        try {
+          const message = this.readFile(bytes, options);
+          const kind = getItemKind(message.props);
+
+          if (kind === 'email') {
+            email = mapiToEmail(message, options, MSG_FOLDER_ID);
+            // Saved messages rarely carry PidTagMessageSize; the file size is the closest match
+            if (!email.size) email.size = bytes.length;
+          } else if (kind === 'contact') {
+            const contact = mapiToContact(message.props);
+            if (contact) contacts.push(contact as Contact);
+          } else if (kind === 'calendarEvent') {
+            const event = mapiToCalendarEvent(message);
+            if (event) events.push(event as CalendarEvent);
+          }
+        } catch (error) {
+          reportDiagnostic(options, {
+            severity: 'error',
+            code: 'message_parse_failed',
+            message: `Failed to parse ${source.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            location: { path: source.name },
+          });
+        }
+      }
+
+      if (email) {
+        senders.track(email);
+        folders.track(email);
+        emailCount++;
+        yield { type: 'email', email: email as Email };
+      }
+
+      if (i % 100 === 0 || i === sources.length - 1) {
+        this.reportProgress(
+          onProgress,
+          'parsing_emails',
+          Math.round(((i + 1) / sources.length) * 100),
+          `Parsed ${i + 1} of ${sources.length} messages`
+        );
+      }
+    }
+
+    for (const folder of folders.toFolders()) {
+      yield { type: 'folder', folder };
+    }
+
+    // Saved contact items first, then senders who aren't among them
+    this.reportProgress(onProgress, 'parsing_contacts', 0, 'Parsing contacts...');
+    const existingContactEmails = new Set<string>();
+    for (const contact of contacts) {
+      throwIfAborted(signal);
+      if (contact.email) existingContactEmails.add(contact.email.toLowerCase());
+      yield { type: 'contact', contact };
+    }
+    if (options.extractContacts !== false) {
+      for (const contact of senders.toContacts()) {
+        throwIfAborted(signal);
+        if (!existingContactEmails.has(contact.email.toLowerCase())) {
+          yield { type: 'contact', contact };
+        }
+      }
+    }
+
+    if (events.length > 0) {
+      this.reportProgress(onProgress, 'parsing_calendar', 0, 'Parsing calendar...');
+      for (const event of events) {
+        throwIfAborted(signal);
+        yield { type: 'calendarEvent', event };
+      }
+      this.reportProgress(onProgress, 'parsing_calendar', 100, `Parsed ${events.length} calendar events`);
+    }
+
+    this.reportProgress(onProgress, 'complete', 100, `Parsed ${emailCount} emails successfully`);
+  }
+
+  /**
+   * Read the message stored in an MSG file
+   */
+  private readFile(bytes: Uint8Array, options: ParseOptions): MapiMessage {
+    const file = CompoundFile.open(bytes);
+    const root = this.listStorage(file, file.root);
+    if (!root.has(PROPERTIES_STREAM)) {
+      throw new Error('Not an Outlook message (no property stream)');
+    }
+
+    // Named property mapping, shared by embedded messages
+    let names = new Map<string, number>();
+    const nameStorage = root.get(NAMEID_STORAGE);
+    if (nameStorage?.type === EntryType.Storage) {
+      const streams = this.listStorage(file, nameStorage);
+      const readStream = (tag: string) => {
+        const entry = streams.get(`${SUBSTG_PREFIX}${tag}`);
+        return entry?.type === EntryType.Stream ? file.read(entry) : new Uint8Array(0);
+      };
+      names = parseNameIdMap(readStream('00020102'), readStream('00030102'), readStream('00040102'));
+    }
+
+    return this.readMessage(file, root, names, HEADER_SIZE_TOP_LEVEL, options);
+  }
+
+  /**
+   * Read a message storage: its properties, recipients and attachments
+   */
+  private readMessage(
+    file: CompoundFile,
+    entries: Map<string, CFBEntry>,
+    names: Map<string, number>,
+    headerSize: number,
+    options: ParseOptions
+  ): MapiMessage {
+    const props = new PropertyBag(this.readProperties(file, entries, headerSize), names);
+
+    const recipients: PropertyBag[] = [];
+    const attachments: MapiMessage['attachments'] = [];
+
+    for (const [name, entry] of entries) {
+      if (entry.type !== EntryType.Storage) continue;
+
+      if (name.startsWith(RECIPIENT_PREFIX)) {
+        const recipient = this.listStorage(file, entry);
+        recipients.push(
+          new PropertyBag(this.readProperties(file, recipient, HEADER_SIZE_SUBOBJECT), names, props.stringCodePage)
+        );
+      } else if (name.startsWith(ATTACHMENT_PREFIX)) {
+        const attachment = this.listStorage(file, entry);
+
+        // Attachment data is only loaded when it will be returned
+        const attachmentProps = new PropertyBag(
+          this.readProperties(
+            file,
+            attachment,
+            HEADER_SIZE_SUBOBJECT,
+            (id) => id === PidTag.AttachDataBinary && !options.includeAttachments
+          ),
+          names,
+          props.stringCodePage
+        );
+
+        // Embedded messages are a storage in place of the data stream
+        let embedded: MapiMessage | undefined;
+        const object = attachment.get(`${SUBSTG_PREFIX}3701000d`);
+        if (object?.type === EntryType.Storage) {
+          embedded = this.readMessage(file, this.listStorage(file, object), names, HEADER_SIZE_EMBEDDED, options);
+        }
+
+        attachments.push({ props: attachmentProps, message: embedded });
+      }
+    }
+
+    return { props, recipients, attachments };
+  }
+
+  /**
+   * Read the properties of a message, recipient or attachment storage (MS-OXMSG 2.4)
+   *
+   * Fixed-size values live in the property stream; variable-size values each have
+   * a `__substg1.0_<tag>` stream.
+   *
+   * @param skip - Property IDs to leave out without reading their streams
+   */
+  private readProperties(
+    file: CompoundFile,
+    entries: Map<string, CFBEntry>,
+    headerSize: number,
+    skip?: (id: number) => boolean
+  ): Map<number, RawProperty> {
+    const properties = new Map<number, RawProperty>();
+
+    const stream = entries.get(PROPERTIES_STREAM);
+    if (stream?.type === EntryType.Stream) {
+      const data = file.read(stream);
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      for (let offset = headerSize; offset + 16 <= data.length; offset += 16) {
+        const type = view.getUint16(offset, true);
+        const id = view.getUint16(offset + 2, true);
+        if (FIXED_TYPES.has(type) && !skip?.(id)) {
+          properties.set(id, { type, data: data.subarray(offset + 8, offset + 16) });
+        }
+      }
+    }
+
+    for (const [name, entry] of entries) {
+      const match = /^__substg1\.0_([0-9a-f]{4})([0-9a-f]{4})$/.exec(name);
+      if (!match || entry.type !== EntryType.Stream) continue;
+
+      const id = parseInt(match[1], 16);
+      const type = parseInt(match[2], 16);
+      if (type & PropertyType.MultipleFlag || properties.has(id) || skip?.(id)) continue;
+
+      properties.set(id, { type, data: file.read(entry) });
+    }
+
+    return properties;
+  }
+
+  /**
+   * List a storage's entries by lowercased name, since writers differ in the
+   * case of the hex property tags
+   */
+  private listStorage(file: CompoundFile, storage: CFBEntry): Map<string, CFBEntry> {
+    return new Map(file.children(storage).map((entry) => [entry.name.toLowerCase(), entry]));
+  }
+
+  /**
+   * Expand the input into the list of files to read
+   */
+  private async collectSources(input: MSGInput): Promise<MSGSource[]> {
+    if (Array.isArray(input)) {
+      const sources: MSGSource[] = [];
+      for (const item of input) {
+        sources.push(...(await this.collectSources(item)));
+      }
+      return sources;
+    }
+
+    if (typeof input === 'string') {
+      const fs = await import('fs');
+      if ((await fs.promises.stat(input)).isDirectory()) {
+        return this.collectDirectory(input);
+      }
+    }
+
+    const name =
+      typeof input === 'string'
+        ? input
+        : typeof File !== 'undefined' && input instanceof File
+          ? input.name
+          : 'message.msg';
+    return [
+      {
+        name,
+        read: async () => {
+          const data = await readAll(input);
+          return data instanceof Uint8Array
+            ? data
+            : new Uint8Array(data instanceof ArrayBuffer ? data : await data.arrayBuffer());
+        },
+      },
+    ];
+  }
+
+  /**
+   * List the `.msg` files in a directory and its subdirectories
+   */
+  private async collectDirectory(dirPath: string): Promise<MSGSource[]> {
+    const fs = await import('fs');
+    const path = await import('path');
+    const sources: MSGSource[] = [];
+
+    const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        sources.push(...(await this.collectDirectory(fullPath)));
+      } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.msg') && !entry.name.startsWith('._')) {
+        sources.push({ name: fullPath, read: () => fs.promises.readFile(fullPath) });
+      }
+    }
+
+    return sources;
+  }
+
+  private reportProgress(
+    callback: ((progress: ParseProgress) => void) | undefined,
+    stage: ParseProgress['stage'],
+    progress: number,
+    message: string
+  ): void {
+    callback?.({ stage, progress, message });
+  }
+
+  /**
+   * Check if a file is an Outlook message
+   * @param file - File to check
+   * @returns True if the file name ends in .msg or the type is application/vnd.ms-outlook
+   */
+  static isMSGFile(file: File): boolean {
+    return file.name.toLowerCase().endsWith('.msg') || file.type === 'application/vnd.ms-outlook';
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * OLM Parser - Compound File Binary (OLE2) Reader
+ * @packageDocumentation
+ */
+
+/** D0 CF 11 E0 A1 B1 1A E1 */
+const SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+/** Special sector numbers */
+const END_OF_CHAIN = 0xfffffffe;
+const NO_STREAM = 0xffffffff;
+
+/** Number of DIFAT entries stored in the header */
+const HEADER_DIFAT_ENTRIES = 109;
+
+/** Size of a directory entry */
+const DIRECTORY_ENTRY_SIZE = 128;
+
+/**
+ * Directory entry object types
+ * @internal
+ */
+export const EntryType = {
+  Storage: 1,
+  Stream: 2,
+  Root: 5,
+} as const;
+
+/**
+ * A storage (directory) or stream (file) inside a compound file
+ * @internal
+ */
+export interface CFBEntry {
+  name: string;
+  type: number;
+  /** Index in the directory */
+  index: number;
+  left: number;
+  right: number;
+  child: number;
+  start: number;
+  size: number;
+}
+
+/**
+ * Read-only view of a Compound File Binary document (MS-CFB), the container
+ * format of Outlook .msg files
+ *
+ * The whole file is held in memory; streams are assembled from their sector
+ * chains when read.
+ * @internal
+ */
+export class CompoundFile {
+  private readonly sectorSize: number;
+  private readonly miniSectorSize: number;
+  private readonly miniStreamCutoff: number;
+  private readonly fat: Uint32Array;
+  private readonly miniFat: Uint32Array;
+  private readonly entries: CFBEntry[];
+  private miniStream: Uint8Array | null = null;
+
+  private constructor(private readonly bytes: Uint8Array) {
+    const view = toView(bytes);
+    this.sectorSize = 1 << view.getUint16(0x1e, true);
+    this.miniSectorSize = 1 << view.getUint16(0x20, true);
+    this.miniStreamCutoff = view.getUint32(0x38, true);
+    if (this.sectorSize !== 512 && this.sectorSize !== 4096) {
+      throw new Error(`Unsupported sector size ${this.sectorSize}`);
+    }
+
+    this.fat = this.readFat(view);
+    this.entries = this.readDirectory(this.readChain(view.getUint32(0x30, true)));
+    this.miniFat = toUint32Array(this.readChain(view.getUint32(0x3c, true)));
+  }
+
+  /**
+   * Open a compound file held in memory
+   * @throws If the bytes don't start with the compound file signature
+   */
+  static open(bytes: Uint8Array): CompoundFile {
+    if (!CompoundFile.isCompoundFile(bytes) || bytes.length < 512) {
+      throw new Error('Not a Compound File Binary (OLE2) document');
+    }
+    return new CompoundFile(bytes);
+  }
+
+  /**
+   * Check for the compound file signature
+   */
+  static isCompoundFile(bytes: Uint8Array): boolean {
+    return SIGNATURE.every((byte, i) => bytes[i] === byte);
+  }
+
+  /** The root storage */
+  get root(): CFBEntry {
+    const root = this.entries[0];
+    if (!root || root.type !== EntryType.Root) {
+      throw new Error('Compound file has no root storage');
+    }
+    return root;
+  }
+
+  /**
+   * List the entries directly inside a storage, in directory order
+   */
+  children(storage: CFBEntry): CFBEntry[] {
+    const children: CFBEntry[] = [];
+    const visited = new Set<number>();
+
+    // Siblings form a red-black tree; an in-order walk visits each once
+    const walk = (index: number) => {
+      if (index === NO_STREAM || visited.has(index)) return;
+      const entry = this.entries[index];
+      if (!entry) return;
+      visited.add(index);
+      walk(entry.left);
+      children.push(entry);
+      walk(entry.right);
+    };
+
+    walk(storage.child);
+    return children;
+  }
+
+  /**
+   * Read a stream's content
+   */
+  read(entry: CFBEntry): Uint8Array {
+    if (entry.type !== EntryType.Stream) {
+      throw new Error(`"${entry.name}" is not a stream`);
+    }
+    if (entry.size === 0) return new Uint8Array(0);
+
+    if (entry.size < this.miniStreamCutoff) {
+      this.miniStream ??= this.readChain(this.root.start, this.root.size);
+      return this.readMiniChain(entry.start, entry.size);
+    }
+    return this.readChain(entry.start, entry.size);
+  }
+
+  /**
+   * Load the FAT from the sectors listed in the header and DIFAT sectors
+   */
+  private readFat(view: DataView): Uint32Array {
+    const fatSectorCount = view.getUint32(0x2c, true);
+    const fatSectors: number[] = [];
+
+    for (let i = 0; i < HEADER_DIFAT_ENTRIES && fatSectors.length < fatSectorCount; i++) {
+      fatSectors.push(view.getUint32(0x4c + i * 4, true));
+    }
+
+    const perDifatSector = this.sectorSize / 4 - 1;
+    let difatSector = view.getUint32(0x44, true);
+    const seen = new Set<number>();
+    while (fatSectors.length < fatSectorCount && difatSector < END_OF_CHAIN && !seen.has(difatSector)) {
+      seen.add(difatSector);
+      const sector = toView(this.sector(difatSector));
+      for (let i = 0; i < perDifatSector && fatSectors.length < fatSectorCount; i++) {
+        fatSectors.push(sector.getUint32(i * 4, true));
+      }
+      difatSector = sector.getUint32(perDifatSector * 4, true);
+    }
+
+    const fat = new Uint32Array((fatSectors.length * this.sectorSize) / 4);
+    fatSectors.forEach((sector, i) => {
+      fat.set(toUint32Array(this.sector(sector)), (i * this.sectorSize) / 4);
+    });
+    return fat;
+  }
+
+  private readDirectory(data: Uint8Array): CFBEntry[] {
+    const view = toView(data);
+    const entries: CFBEntry[] = [];
+
+    for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= data.length; offset += DIRECTORY_ENTRY_SIZE) {
+      const nameLength = Math.min(view.getUint16(offset + 0x40, true), 64);
+      const name = new TextDecoder('utf-16le')
+        .decode(data.subarray(offset, offset + nameLength))
+        .replace(/\0+$/, '');
+
+      entries.push({
+        name,
+        type: data[offset + 0x42],
+        index: entries.length,
+        left: view.getUint32(offset + 0x44, true),
+        right: view.getUint32(offset + 0x48, true),
+        child: view.getUint32(offset + 0x4c, true),
+        start: view.getUint32(offset + 0x74, true),
+        // Version 3 files may leave garbage in the high half of the size
+        size: this.sectorSize === 512 ? view.getUint32(offset + 0x78, true) : Number(view.getBigUint64(offset + 0x78, true)),
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Follow a FAT chain and concatenate its sectors
+   * @param size - Stream size, to trim the last sector (reads the whole chain when omitted)
+   */
+  private readChain(start: number, size?: number): Uint8Array {
+    const sectors: number[] = [];
+    for (let sector = start; sector < END_OF_CHAIN; sector = this.fat[sector]) {
+      if (sector >= this.fat.length || sectors.length > this.fat.length) {
+        throw new Error(`Broken sector chain at sector ${sector}`);
+      }
+      sectors.push(sector);
+      if (size !== undefined && sectors.length * this.sectorSize >= size) break;
+    }
+
+    const result = new Uint8Array(size ?? sectors.length * this.sectorSize);
+    sectors.forEach((sector, i) => {
+      const data = this.sector(sector);
+      result.set(data.subarray(0, Math.min(data.length, result.length - i * this.sectorSize)), i * this.sectorSize);
+    });
+    return result;
+  }
+
+  /**
+   * Follow a mini FAT chain through the mini stream
+   */
+  private readMiniChain(start: number, size: number): Uint8Array {
+    const miniStream = this.miniStream!;
+    const result = new Uint8Array(size);
+    let offset = 0;
+    let steps = 0;
+
+    for (let sector = start; sector < END_OF_CHAIN && offset < size; sector = this.miniFat[sector]) {
+      if (sector >= this.miniFat.length || ++steps > this.miniFat.length) {
+        throw new Error(`Broken mini sector chain at sector ${sector}`);
+      }
+      const begin = sector * this.miniSectorSize;
+      const chunk = miniStream.subarray(begin, begin + Math.min(this.miniSectorSize, size - offset));
+      result.set(chunk, offset);
+      offset += this.miniSectorSize;
+    }
+
+    return result;
+  }
+
+  private sector(index: number): Uint8Array {
+    const start = (index + 1) * this.sectorSize;
+    if (start >= this.bytes.length) {
+      throw new Error(`Sector ${index} is beyond the end of the file`);
+    }
+    return this.bytes.subarray(start, start + this.sectorSize);
+  }
+}
+
+function toUint32Array(data: Uint8Array): Uint32Array {
+  const view = toView(data);
+  const values = new Uint32Array(Math.floor(data.length / 4));
+  for (let i = 0; i < values.length; i++) {
+    values[i] = view.getUint32(i * 4, true);
+  }
+  return values;
+}
+
+function toView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
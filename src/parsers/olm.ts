@@ -6,13 +6,81 @@
 import JSZip from 'jszip';
 import type { 
   Email, 
+  EmailAddress,
+  EmailHeader,
+  EmailPriority,
+  Attachment,
   Contact, 
   CalendarEvent, 
+  Task,
+  Note,
   ParseOptions, 
   ParseResult,
-  ParseProgress 
+  ParseProgress,
+  StreamInput,
+  ArchiveItem
 } from '../types';
-import { cleanEmailAddress, normalizeSubject } from '../utils';
+import { cleanEmailAddress, normalizeSubject, stripHtml } from '../utils';
+import { readAll } from './input';
+import { FolderTracker } from './folders';
+import { SenderContactTracker } from './contacts';
+import { parseXML, parseXMLElements, findElement, findElements } from './xml';
+import type { XMLElement } from './xml';
+import { throwIfAborted, reportDiagnostic } from '../errors';
+
+/**
+ * Attachment reference from an OLM message's OPFMessageCopyAttachmentList
+ */
+interface OLMAttachmentRef {
+  name: string;
+  contentType: string;
+  size?: number;
+  contentId?: string;
+  url?: string;
+}
+
+/** Folder holding the messages of each account */
+const MESSAGES_DIR = 'com.microsoft.__Messages/';
+
+/** Folder holding the attachment files of each account */
+const ATTACHMENTS_DIR = 'com.microsoft.__Attachments/';
+
+/**
+ * The files of an archive, indexed once so each attachment lookup is a map hit
+ */
+class AttachmentIndex {
+  private readonly zip: JSZip;
+  /** Files by their path from com.microsoft.__Attachments/ on */
+  private readonly bySuffix = new Map<string, JSZip.JSZipObject>();
+
+  constructor(zip: JSZip) {
+    this.zip = zip;
+    for (const file of Object.values(zip.files)) {
+      const markerIndex = file.name.indexOf(ATTACHMENTS_DIR);
+      if (file.dir || markerIndex < 0) continue;
+      const suffix = file.name.substring(markerIndex);
+      if (!this.bySuffix.has(suffix)) this.bySuffix.set(suffix, file);
+    }
+  }
+
+  /**
+   * Find an attachment file from its OPFAttachmentURL
+   */
+  find(url: string): JSZip.JSZipObject | null {
+    let path = url.replace(/^file:\/\//, '').replace(/^\/+/, '');
+    try {
+      path = decodeURIComponent(path);
+    } catch {
+      // Not percent-encoded
+    }
+    const direct = this.zip.files[path];
+    if (direct && !direct.dir) return direct;
+
+    // URLs are sometimes relative to the account folder; match on the attachment path suffix
+    const markerIndex = path.indexOf(ATTACHMENTS_DIR);
+    return this.bySuffix.get(markerIndex >= 0 ? path.substring(markerIndex) : ATTACHMENTS_DIR + path) ?? null;
+  }
+}
 
 /**
  * Parser for Outlook for Mac (.olm) archive files
@@ -41,204 +109,321 @@ export class OLMParser {
     file: File | Buffer | ArrayBuffer,
     options: ParseOptions = {}
   ): Promise<ParseResult> {
-    const { onProgress } = options;
-
     const result: ParseResult = {
       emails: [],
       contacts: [],
       calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
       stats: {
         emailCount: 0,
         contactCount: 0,
         calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
         accountCount: 0,
         purchaseCount: 0,
         subscriptionCount: 0,
         newsletterCount: 0,
       },
+      diagnostics: [],
     };
 
-    try {
-      // Stage 1: Extract ZIP
-      this.reportProgress(onProgress, 'extracting', 0, 'Extracting OLM archive...');
+    const streamOptions: ParseOptions = {
+      ...options,
+      onWarning: (diagnostic) => {
+        result.diagnostics.push(diagnostic);
+        options.onWarning?.(diagnostic);
+      },
+    };
 
-      const zip = await JSZip.loadAsync(file);
+    for await (const item of this.stream(file, streamOptions)) {
+      if (item.type === 'email') {
+        result.emails.push(item.email);
+        result.stats.emailCount++;
+      } else if (item.type === 'contact') {
+        result.contacts.push(item.contact);
+        result.stats.contactCount++;
+      } else if (item.type === 'calendarEvent') {
+        result.calendarEvents.push(item.event);
+        result.stats.calendarEventCount++;
+      } else if (item.type === 'folder') {
+        result.folders.push(item.folder);
+      } else if (item.type === 'task') {
+        result.tasks.push(item.task);
+        result.stats.taskCount++;
+      } else {
+        result.notes.push(item.note);
+        result.stats.noteCount++;
+      }
+    }
 
-      this.reportProgress(onProgress, 'extracting', 100, 'Archive extracted successfully');
+    return result;
+  }
 
-      // Get all files in the archive
-      const files = Object.keys(zip.files);
+  /**
+   * Stream emails, then folders, contacts, calendar events, tasks and notes from an OLM archive
+   *
+   * OLM is a ZIP archive, so the archive itself is loaded up front, but each
+   * message is only decompressed and parsed when the consumer pulls it.
+   *
+   * Folders come from the message paths
+   * (`Accounts/<account>/com.microsoft.__Messages/<Folder>/<Subfolder>/message_N.xml`):
+   * well-known folders get the standard IDs (`Sent Items` -> `sent`), subfolders
+   * keep their hierarchy (`inbox/projects`), and when the archive holds several
+   * accounts their folder IDs are prefixed with the account (`alice@example.com/inbox`).
+   *
+   * @param input - File/Blob, Buffer, file path (Node.js), ReadableStream or Node.js Readable
+   * @param options - Parsing options
+   *
+   * @example
+   * ```typescript
+   * for await (const item of parser.stream(file)) {
+   *   if (item.type === 'email') console.log(item.email.subject);
+   * }
+   * ```
+   */
+  async *stream(
+    input: StreamInput,
+    options: ParseOptions = {}
+  ): AsyncGenerator<ArchiveItem> {
+    const { onProgress, signal } = options;
+    throwIfAborted(signal);
 
-      // Find email files
-      const emailFiles = files.filter(
-        (f) =>
-          f.includes('com.microsoft.__Messages/') &&
-          f.match(/message_\d+\.xml$/) &&
-          !zip.files[f].dir
-      );
+    // Stage 1: Extract ZIP
+    this.reportProgress(onProgress, 'extracting', 0, 'Extracting OLM archive...');
 
-      // Find contact files
-      const contactFiles = files.filter(
-        (f) =>
-          (f.includes('Address Book/Contacts.xml') ||
-            (f.includes('/Contacts/') && f.endsWith('.xml'))) &&
-          !zip.files[f].dir
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await readAll(input));
+    } catch (error) {
+      throw new Error(
+        `Failed to parse OLM file: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+    }
 
-      // Find calendar files - can be in /Calendar/ folder OR directly named Calendar.xml
-      const calendarFiles = files.filter(
-        (f) =>
-          f.endsWith('Calendar.xml') &&
-          !zip.files[f].dir
-      );
+    throwIfAborted(signal);
+    this.reportProgress(onProgress, 'extracting', 100, 'Archive extracted successfully');
 
-      // Stage 2: Parse emails and track contacts from senders
-      const senderContactMap = new Map<string, { name: string; emailCount: number; lastEmailDate: Date }>();
-      
-      if (emailFiles.length > 0) {
-        this.reportProgress(
-          onProgress,
-          'parsing_emails',
-          0,
-          `Parsing ${emailFiles.length} emails...`
-        );
+    // Get all files in the archive
+    const files = Object.keys(zip.files);
 
-        for (let i = 0; i < emailFiles.length; i++) {
-          try {
-            const content = await zip.files[emailFiles[i]].async('string');
-            const email = this.parseEmailXML(content);
-            if (email) {
-              result.emails.push(email as Email);
-              result.stats.emailCount++;
-              
-              // Track contact from email sender
-              if (email.sender && email.sender !== 'unknown@example.com') {
-                const existing = senderContactMap.get(email.sender);
-                if (existing) {
-                  existing.emailCount++;
-                  if (email.date > existing.lastEmailDate) {
-                    existing.lastEmailDate = email.date;
-                  }
-                } else {
-                  senderContactMap.set(email.sender, {
-                    name: email.senderName || email.sender.split('@')[0] || 'Unknown',
-                    emailCount: 1,
-                    lastEmailDate: email.date,
-                  });
-                }
-              }
-            }
-          } catch (err) {
-            // Skip malformed emails
-          }
+    // Find email files
+    const emailFiles = files.filter(
+      (f) =>
+        f.includes(MESSAGES_DIR) &&
+        f.match(/message_\d+\.xml$/) &&
+        !zip.files[f].dir
+    );
 
-          if (i % 100 === 0 || i === emailFiles.length - 1) {
-            this.reportProgress(
-              onProgress,
-              'parsing_emails',
-              Math.round(((i + 1) / emailFiles.length) * 100),
-              `Parsed ${i + 1} of ${emailFiles.length} emails`
-            );
-          }
-        }
-      }
+    // Build the folder tree, including folders without messages
+    const folderDirs = files.filter((f) => f.includes(MESSAGES_DIR) && !f.endsWith(MESSAGES_DIR) && zip.files[f].dir);
+    const { folders, folderIds } = this.collectFolders([...folderDirs, ...emailFiles.map((f) => this.dirname(f))]);
+
+    // Find contact files
+    const contactFiles = files.filter(
+      (f) =>
+        (f.includes('Address Book/Contacts.xml') ||
+          (f.includes('/Contacts/') && f.endsWith('.xml'))) &&
+        !zip.files[f].dir
+    );
 
-      // Stage 3: Parse contacts from Address Book files
-      const existingContactEmails = new Set<string>();
-      
-      if (contactFiles.length > 0) {
-        this.reportProgress(onProgress, 'parsing_contacts', 0, 'Parsing contacts...');
+    // Find calendar files - can be in /Calendar/ folder OR directly named Calendar.xml
+    const calendarFiles = files.filter(
+      (f) =>
+        f.endsWith('Calendar.xml') &&
+        !zip.files[f].dir
+    );
 
-        for (let i = 0; i < contactFiles.length; i++) {
-          try {
-            const content = await zip.files[contactFiles[i]].async('string');
-            const contacts = this.parseContactsXML(content);
-            for (const contact of contacts) {
-              result.contacts.push(contact as Contact);
-              result.stats.contactCount++;
-              if (contact.email) {
-                existingContactEmails.add(contact.email.toLowerCase());
-              }
-            }
-          } catch (err) {
-            // Skip malformed contacts
-          }
+    // Find task and note files (Tasks/Tasks.xml, Notes/Notes.xml)
+    const taskFiles = files.filter((f) => f.endsWith('Tasks.xml') && !zip.files[f].dir);
+    const noteFiles = files.filter((f) => f.endsWith('Notes.xml') && !zip.files[f].dir);
 
+    // Stage 2: Parse emails and track contacts from senders
+    const senders = new SenderContactTracker();
+    const attachmentFiles = new AttachmentIndex(zip);
+
+    if (emailFiles.length > 0) {
+      this.reportProgress(
+        onProgress,
+        'parsing_emails',
+        0,
+        `Parsing ${emailFiles.length} emails...`
+      );
+
+      for (let i = 0; i < emailFiles.length; i++) {
+        throwIfAborted(signal);
+        const content = await this.readEntry(zip, emailFiles[i], options);
+        const email = content !== null
+          ? await this.parseEmailXML(content, attachmentFiles, options, emailFiles[i])
+          : null;
+
+        if (email) {
+          email.folderId = folderIds.get(this.dirname(emailFiles[i]))!;
+          folders.track(email);
+          senders.track(email);
+          yield { type: 'email', email: email as Email };
+        }
+
+        if (i % 100 === 0 || i === emailFiles.length - 1) {
           this.reportProgress(
             onProgress,
-            'parsing_contacts',
-            Math.round(((i + 1) / contactFiles.length) * 50), // 0-50% for file contacts
-            `Parsed ${result.stats.contactCount} contacts from files`
+            'parsing_emails',
+            Math.round(((i + 1) / emailFiles.length) * 100),
+            `Parsed ${i + 1} of ${emailFiles.length} emails`
           );
         }
       }
-      
-      // Add contacts from email senders (that aren't already in Address Book)
-      let senderContactsAdded = 0;
-      const totalSenderContacts = senderContactMap.size;
-      
-      for (const [email, data] of senderContactMap) {
-        if (!existingContactEmails.has(email.toLowerCase())) {
-          result.contacts.push({
-            name: data.name,
-            email: cleanEmailAddress(email),
-            phone: undefined,
-            emailCount: data.emailCount,
-            lastEmailDate: data.lastEmailDate,
-          } as Contact);
-          result.stats.contactCount++;
-          senderContactsAdded++;
+    }
+
+    for (const folder of folders.toFolders()) {
+      yield { type: 'folder', folder };
+    }
+
+    // Stage 3: Parse contacts from Address Book files
+    const existingContactEmails = new Set<string>();
+    let contactCount = 0;
+
+    if (contactFiles.length > 0) {
+      this.reportProgress(onProgress, 'parsing_contacts', 0, 'Parsing contacts...');
+
+      for (let i = 0; i < contactFiles.length; i++) {
+        throwIfAborted(signal);
+        let contacts: Omit<Contact, 'id'>[] = [];
+        const content = await this.readEntry(zip, contactFiles[i], options);
+        if (content !== null) {
+          try {
+            contacts = this.parseContactsXML(content);
+          } catch (error) {
+            this.reportXMLError(options, contactFiles[i], error);
+          }
         }
-        
-        // Update progress for sender contacts (50-100%)
-        if (senderContactsAdded % 100 === 0) {
-          this.reportProgress(
-            onProgress,
-            'parsing_contacts',
-            50 + Math.round((senderContactsAdded / totalSenderContacts) * 50),
-            `Added ${senderContactsAdded} contacts from emails`
-          );
+
+        for (const contact of contacts) {
+          if (contact.email) {
+            existingContactEmails.add(contact.email.toLowerCase());
+          }
+          contactCount++;
+          yield { type: 'contact', contact: contact as Contact };
         }
+
+        this.reportProgress(
+          onProgress,
+          'parsing_contacts',
+          Math.round(((i + 1) / contactFiles.length) * 50), // 0-50% for file contacts
+          `Parsed ${contactCount} contacts from files`
+        );
       }
-      
-      this.reportProgress(
-        onProgress,
-        'parsing_contacts',
-        100,
-        `Parsed ${result.stats.contactCount} total contacts`
-      );
+    }
 
-      // Stage 4: Parse calendar events
-      if (calendarFiles.length > 0) {
-        this.reportProgress(onProgress, 'parsing_calendar', 0, 'Parsing calendar...');
+    // Add contacts from email senders (that aren't already in Address Book)
+    let senderContactsAdded = 0;
+    const senderContacts = senders.toContacts();
+    const totalSenderContacts = senderContacts.length;
+
+    for (const contact of senderContacts) {
+      throwIfAborted(signal);
+      if (!existingContactEmails.has(contact.email.toLowerCase())) {
+        senderContactsAdded++;
+        contactCount++;
+        yield { type: 'contact', contact };
+      }
 
-        for (let i = 0; i < calendarFiles.length; i++) {
+      // Update progress for sender contacts (50-100%)
+      if (senderContactsAdded % 100 === 0) {
+        this.reportProgress(
+          onProgress,
+          'parsing_contacts',
+          50 + Math.round((senderContactsAdded / totalSenderContacts) * 50),
+          `Added ${senderContactsAdded} contacts from emails`
+        );
+      }
+    }
+
+    this.reportProgress(
+      onProgress,
+      'parsing_contacts',
+      100,
+      `Parsed ${contactCount} total contacts`
+    );
+
+    // Stage 4: Parse calendar events
+    if (calendarFiles.length > 0) {
+      this.reportProgress(onProgress, 'parsing_calendar', 0, 'Parsing calendar...');
+      let eventCount = 0;
+
+      for (let i = 0; i < calendarFiles.length; i++) {
+        throwIfAborted(signal);
+        let events: Omit<CalendarEvent, 'id'>[] = [];
+        const content = await this.readEntry(zip, calendarFiles[i], options);
+        if (content !== null) {
           try {
-            const content = await zip.files[calendarFiles[i]].async('string');
-            const events = this.parseCalendarXML(content);
-            result.calendarEvents.push(...(events as CalendarEvent[]));
-            result.stats.calendarEventCount += events.length;
-          } catch (err) {
-            // Skip malformed events
+            events = this.parseCalendarXML(content);
+          } catch (error) {
+            this.reportXMLError(options, calendarFiles[i], error);
           }
+        }
 
-          this.reportProgress(
-            onProgress,
-            'parsing_calendar',
-            Math.round(((i + 1) / calendarFiles.length) * 100),
-            `Parsed ${result.stats.calendarEventCount} calendar events`
-          );
+        for (const event of events) {
+          eventCount++;
+          yield { type: 'calendarEvent', event: event as CalendarEvent };
         }
+
+        this.reportProgress(
+          onProgress,
+          'parsing_calendar',
+          Math.round(((i + 1) / calendarFiles.length) * 100),
+          `Parsed ${eventCount} calendar events`
+        );
       }
+    }
 
-      this.reportProgress(onProgress, 'complete', 100, 'Processing complete!');
+    // Stage 5: Parse tasks and notes
+    const taskAndNoteFiles = [...taskFiles, ...noteFiles];
+    if (taskAndNoteFiles.length > 0) {
+      this.reportProgress(onProgress, 'parsing_tasks', 0, 'Parsing tasks and notes...');
+      let taskCount = 0;
+      let noteCount = 0;
+
+      for (let i = 0; i < taskAndNoteFiles.length; i++) {
+        throwIfAborted(signal);
+        const path = taskAndNoteFiles[i];
+        const isTaskFile = i < taskFiles.length;
+        let tasks: Omit<Task, 'id'>[] = [];
+        let notes: Omit<Note, 'id'>[] = [];
+        const content = await this.readEntry(zip, path, options);
+        if (content !== null) {
+          try {
+            if (isTaskFile) {
+              tasks = this.parseTasksXML(content);
+            } else {
+              notes = this.parseNotesXML(content);
+            }
+          } catch (error) {
+            this.reportXMLError(options, path, error);
+          }
+        }
 
-      return result;
-    } catch (error) {
-      throw new Error(
-        `Failed to parse OLM file: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+        for (const task of tasks) {
+          taskCount++;
+          yield { type: 'task', task: task as Task };
+        }
+        for (const note of notes) {
+          noteCount++;
+          yield { type: 'note', note: note as Note };
+        }
+
+        this.reportProgress(
+          onProgress,
+          'parsing_tasks',
+          Math.round(((i + 1) / taskAndNoteFiles.length) * 100),
+          `Parsed ${taskCount} tasks and ${noteCount} notes`
+        );
+      }
     }
+
+    this.reportProgress(onProgress, 'complete', 100, 'Processing complete!');
   }
 
   /**
@@ -266,6 +451,39 @@ export class OLMParser {
     return this.parse(buffer, options);
   }
 
+  /**
+   * Build the folder tree from the message directories
+   * @param dirs - Directories under com.microsoft.__Messages/, ending in '/'
+   * @returns The folders, and the folder ID of each directory
+   */
+  private collectFolders(dirs: string[]): { folders: FolderTracker; folderIds: Map<string, string> } {
+    const locations = [...new Set(dirs)].map((dir) => {
+      const index = dir.indexOf(MESSAGES_DIR);
+      return {
+        dir,
+        account: dir.substring(0, index).match(/(?:^|\/)Accounts\/([^/]+)\/$/)?.[1],
+        names: dir.substring(index + MESSAGES_DIR.length).split('/').filter(Boolean),
+      };
+    });
+    const accounts = new Set(locations.map((location) => location.account ?? ''));
+
+    const folders = new FolderTracker();
+    const folderIds = new Map<string, string>();
+    for (const { dir, account, names } of locations) {
+      // Messages directly under com.microsoft.__Messages/ are in the inbox
+      folderIds.set(dir, folders.add(names.length > 0 ? names : ['Inbox'], account, accounts.size > 1));
+    }
+
+    return { folders, folderIds };
+  }
+
+  /**
+   * Directory of a ZIP entry path, ending in '/'
+   */
+  private dirname(path: string): string {
+    return path.substring(0, path.lastIndexOf('/') + 1);
+  }
+
   private reportProgress(
     callback: ((progress: ParseProgress) => void) | undefined,
     stage: ParseProgress['stage'],
@@ -275,38 +493,73 @@ export class OLMParser {
     callback?.({ stage, progress, message });
   }
 
-  private parseEmailXML(xmlContent: string): Omit<Email, 'id'> | null {
+  /**
+   * Read a ZIP entry as text, reporting a diagnostic if it can't be decompressed
+   */
+  private async readEntry(zip: JSZip, path: string, options: ParseOptions): Promise<string | null> {
     try {
-      // Use DOMParser if available (browser), otherwise parse manually
-      if (typeof DOMParser !== 'undefined') {
-        return this.parseEmailWithDOMParser(xmlContent);
-      }
-      return this.parseEmailManually(xmlContent);
-    } catch {
+      return await zip.files[path].async('string');
+    } catch (error) {
+      reportDiagnostic(options, {
+        severity: 'error',
+        code: 'entry_read_failed',
+        message: `Failed to read ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        location: { path },
+      });
       return null;
     }
   }
 
-  private parseEmailWithDOMParser(xmlContent: string): Omit<Email, 'id'> | null {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(xmlContent, 'text/xml');
+  private reportXMLError(options: ParseOptions, path: string, error: unknown): void {
+    reportDiagnostic(options, {
+      severity: 'error',
+      code: 'xml_parse_failed',
+      message: `Failed to parse ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      location: { path },
+    });
+  }
 
-    const parserError = doc.querySelector('parsererror');
-    if (parserError) {
+  private async parseEmailXML(
+    xmlContent: string,
+    attachmentFiles: AttachmentIndex,
+    options: ParseOptions,
+    path: string
+  ): Promise<Omit<Email, 'id'> | null> {
+    let email: Omit<Email, 'id'> | null;
+    try {
+      email = await this.parseEmail(xmlContent, attachmentFiles, options);
+    } catch (error) {
+      this.reportXMLError(options, path, error);
       return null;
     }
 
-    const emailElement = doc.querySelector('email') || doc.documentElement;
+    if (!email) {
+      reportDiagnostic(options, {
+        severity: 'warning',
+        code: 'message_skipped',
+        message: `Skipped ${path}: message has no subject or body`,
+        location: { path },
+      });
+    }
+    return email;
+  }
 
-    const getTextContent = (selectors: string[]): string => {
-      for (const selector of selectors) {
-        const element = emailElement.querySelector(selector);
-        if (element?.textContent) {
-          return element.textContent.trim();
-        }
-      }
-      return '';
-    };
+  /**
+   * Build an email from a message XML file
+   *
+   * The same built-in XML parser is used in Node.js and browsers, so both
+   * give identical results. A message file holds one message and is parsed
+   * into a tree whole; the address book, calendar, task and note files hold
+   * many records and are read one record at a time.
+   */
+  private async parseEmail(
+    xmlContent: string,
+    attachmentFiles: AttachmentIndex,
+    options: ParseOptions
+  ): Promise<Omit<Email, 'id'> | null> {
+    const doc = parseXML(xmlContent);
+    const emailElement = findElement(doc, 'email') || doc.children[0];
+    const getTextContent = (selectors: string[]): string => getText(emailElement, selectors);
 
     const subject = getTextContent(['OPFMessageCopySubject', 'subject', 'Subject']);
     const body = getTextContent(['OPFMessageCopyBody', 'body', 'Body', 'content']);
@@ -314,19 +567,9 @@ export class OLMParser {
     const preview = getTextContent(['OPFMessageCopyPreview']);
 
     // Parse sender
-    const fromAddresses = emailElement.querySelector('OPFMessageCopyFromAddresses');
-    let sender = '';
-    let senderName = '';
-    if (fromAddresses) {
-      const emailAddr = fromAddresses.querySelector('emailAddress');
-      if (emailAddr) {
-        sender = emailAddr.getAttribute('OPFContactEmailAddressAddress') || '';
-        senderName = emailAddr.getAttribute('OPFContactEmailAddressName') || '';
-      }
-    }
-    if (!sender) {
-      sender = getTextContent(['from', 'From', 'sender', 'Sender']);
-    }
+    const fromAddress = getAddresses(emailElement, 'OPFMessageCopyFromAddresses')[0];
+    const sender = fromAddress?.address || getTextContent(['from', 'From', 'sender', 'Sender']);
+    const senderName = fromAddress?.name || '';
 
     // Parse date
     const dateStr = getTextContent([
@@ -338,21 +581,22 @@ export class OLMParser {
     const date = dateStr ? new Date(dateStr) : new Date();
 
     // Parse recipients
-    const recipients: string[] = [];
-    const toAddresses = emailElement.querySelector('OPFMessageCopyToAddresses');
-    if (toAddresses) {
-      const emailAddrs = toAddresses.querySelectorAll('emailAddress');
-      emailAddrs.forEach((addr) => {
-        const email = addr.getAttribute('OPFContactEmailAddressAddress');
-        if (email) {
-          recipients.push(email);
-        }
-      });
-    }
-
-    // Parse isRead status
-    const isReadStr = getTextContent(['OPFMessageGetIsRead']);
-    const isRead = isReadStr === '1' || isReadStr.toLowerCase() === 'true';
+    const toAddresses = getAddresses(emailElement, 'OPFMessageCopyToAddresses');
+    const ccAddresses = getAddresses(emailElement, 'OPFMessageCopyCCAddresses');
+    const bccAddresses = getAddresses(emailElement, 'OPFMessageCopyBCCAddresses');
+    const recipients = toAddresses.map((a) => a.address);
+
+    // Parse status flags; replied/forwarded are left unset when the export doesn't record them
+    const isRead = getFlag(emailElement, ['OPFMessageGetIsRead']) ?? false;
+    const isStarred = getFlag(emailElement, ['OPFMessageGetIsFlagged']) ?? false;
+    const isReplied = getFlag(emailElement, ['OPFMessageGetHasReplied', 'OPFMessageGetIsReplied']);
+    const isForwarded = getFlag(emailElement, ['OPFMessageGetHasForwarded', 'OPFMessageGetIsForwarded']);
+    const priority = parsePriority(getTextContent(['OPFMessageGetPriority']));
+    const categories = getCategories(emailElement, 'OPFMessageCopyCategoryList');
+
+    const messageId = getTextContent(['OPFMessageCopyMessageID']);
+    const inReplyTo = getTextContent(['OPFMessageCopyInReplyTo']);
+    const references = getTextContent(['OPFMessageCopyReferences']).split(/\s+/).filter(Boolean);
 
     // Parse thread ID
     let threadId = getTextContent([
@@ -372,165 +616,158 @@ export class OLMParser {
       return null;
     }
 
+    // Parse attachment references
+    const attachmentRefs: OLMAttachmentRef[] = [];
+    const attachmentList = findElement(emailElement, 'OPFMessageCopyAttachmentList');
+    if (attachmentList) {
+      for (const attachment of findElements(attachmentList, 'messageAttachment')) {
+        const { attributes } = attachment;
+        const size = parseInt(attributes.OPFAttachmentContentFileSize || '', 10);
+        attachmentRefs.push({
+          name: attributes.OPFAttachmentName || '',
+          contentType: attributes.OPFAttachmentContentType || '',
+          size: isNaN(size) ? undefined : size,
+          contentId: attributes.OPFAttachmentContentID || undefined,
+          url: attributes.OPFAttachmentURL || undefined,
+        });
+      }
+    }
+    const attachments = await this.resolveAttachments(attachmentFiles, attachmentRefs, options);
+
+    // Keep every simple element (including ones not mapped above) as a header
+    let headers: EmailHeader[] | undefined;
+    if (options.includeHeaders) {
+      headers = [];
+      for (const child of emailElement.children) {
+        const value = child.text.trim();
+        if (child.children.length === 0 && value) {
+          headers.push({ name: child.name, value });
+        }
+      }
+    }
+
     return {
       subject: subject || '(No Subject)',
       sender: cleanEmailAddress(sender),
       senderName: senderName || undefined,
       recipients,
+      cc: ccAddresses.length > 0 ? ccAddresses.map((a) => a.address) : undefined,
+      bcc: bccAddresses.length > 0 ? bccAddresses.map((a) => a.address) : undefined,
+      fromAddress,
+      toAddresses: toAddresses.length > 0 ? toAddresses : undefined,
+      ccAddresses: ccAddresses.length > 0 ? ccAddresses : undefined,
+      bccAddresses: bccAddresses.length > 0 ? bccAddresses : undefined,
       date: isNaN(date.getTime()) ? new Date() : date,
       body: body || preview || '',
       htmlBody: htmlBody || undefined,
-      attachments: [],
+      attachments,
+      hasAttachments: attachments.length > 0,
+      headers,
       size: xmlContent.length,
       isRead,
-      isStarred: false,
+      isStarred,
+      isReplied,
+      isForwarded,
+      priority,
+      categories,
       folderId: 'inbox',
       threadId: threadId || undefined,
+      messageId: messageId || undefined,
+      inReplyTo: inReplyTo || undefined,
+      references: references.length > 0 ? references : undefined,
     };
   }
 
-  private parseEmailManually(xmlContent: string): Omit<Email, 'id'> | null {
-    // Simple regex-based parsing for Node.js environments without DOM
-    const getTag = (content: string, tag: string): string => {
-      const regex = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1].trim() : '';
-    };
-
-    const subject =
-      getTag(xmlContent, 'OPFMessageCopySubject') ||
-      getTag(xmlContent, 'subject') ||
-      '';
-    const body =
-      getTag(xmlContent, 'OPFMessageCopyBody') ||
-      getTag(xmlContent, 'body') ||
-      '';
-    const dateStr =
-      getTag(xmlContent, 'OPFMessageCopySentTime') ||
-      getTag(xmlContent, 'date') ||
-      '';
-
-    // Extract sender from attributes
-    const senderMatch = xmlContent.match(
-      /OPFContactEmailAddressAddress="([^"]+)"/i
-    );
-    const sender = senderMatch ? senderMatch[1] : '';
-
-    const date = dateStr ? new Date(dateStr) : new Date();
-
-    if (!subject && !body) {
-      return null;
-    }
-
-    return {
-      subject: subject || '(No Subject)',
-      sender: cleanEmailAddress(sender),
-      recipients: [],
-      date: isNaN(date.getTime()) ? new Date() : date,
-      body,
-      attachments: [],
-      size: xmlContent.length,
-      isRead: false,
-      isStarred: false,
-      folderId: 'inbox',
-    };
-  }
-
-  private parseContactsXML(xmlContent: string): Omit<Contact, 'id'>[] {
-    const contacts: Omit<Contact, 'id'>[] = [];
-
-    if (typeof DOMParser !== 'undefined') {
-      try {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(xmlContent, 'text/xml');
-
-      const contactElements = doc.querySelectorAll('contact');
-
-      contactElements.forEach((contactElement) => {
-        const getTextContent = (selectors: string[]): string => {
-          for (const selector of selectors) {
-            const element = contactElement.querySelector(selector);
-            if (element?.textContent) {
-              return element.textContent.trim();
-            }
-          }
-          return '';
-        };
-
-        const displayName = getTextContent([
-          'OPFContactCopyDisplayName',
-          'displayName',
-          'name',
-        ]);
-        const firstName = getTextContent(['OPFContactCopyFirstName', 'firstName']);
-        const lastName = getTextContent(['OPFContactCopyLastName', 'lastName']);
-        const phone = getTextContent(['OPFContactCopyPhoneNumbers', 'phone']);
-
-        let email = '';
-        const emailList = contactElement.querySelector(
-          'OPFContactCopyEmailAddressList, OPFContactCopyDefaultEmailAddress'
-        );
-        if (emailList) {
-          const emailAddr = emailList.querySelector('contactEmailAddress');
-          if (emailAddr) {
-            email = emailAddr.getAttribute('OPFContactEmailAddressAddress') || '';
+  /**
+   * Resolve attachment references against the files under com.microsoft.__Attachments/
+   */
+  private async resolveAttachments(
+    attachmentFiles: AttachmentIndex,
+    refs: OLMAttachmentRef[],
+    options: ParseOptions
+  ): Promise<Attachment[]> {
+    const attachments: Attachment[] = [];
+
+    for (let i = 0; i < refs.length; i++) {
+      const ref = refs[i];
+      const file = ref.url ? attachmentFiles.find(ref.url) : null;
+      const filename = ref.name || (ref.url ? ref.url.split('/').pop() || '' : '') || `attachment-${i + 1}`;
+
+      let size = ref.size ?? 0;
+      let data: string | undefined;
+      if (ref.url && !file) {
+        reportDiagnostic(options, {
+          severity: 'warning',
+          code: 'attachment_missing',
+          message: `Attachment "${filename}" is not in the archive`,
+          location: { path: ref.url },
+        });
+      }
+      if (file) {
+        try {
+          if (options.includeAttachments) {
+            data = await file.async('base64');
+            const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+            size = Math.floor((data.length * 3) / 4) - padding;
+          } else if (ref.size === undefined) {
+            size = (await file.async('uint8array')).length;
           }
-        }
-
-        const name =
-          displayName ||
-          `${firstName} ${lastName}`.trim() ||
-          email.split('@')[0] ||
-          'Unknown';
-
-        if (email || name !== 'Unknown') {
-          contacts.push({
-            name,
-            email: cleanEmailAddress(email),
-            phone: phone || undefined,
-            emailCount: 0,
-            lastEmailDate: new Date(),
+        } catch (error) {
+          // Keep the metadata from the message XML
+          reportDiagnostic(options, {
+            severity: 'warning',
+            code: 'attachment_read_failed',
+            message: `Failed to read attachment "${filename}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+            location: { path: file.name },
           });
         }
-      });
-
-        if (contacts.length > 0) return contacts;
-      } catch {
-        // Fall through to manual parsing
       }
+
+      attachments.push({
+        id: ref.contentId || `att-${i + 1}`,
+        filename,
+        mimeType: ref.contentType || 'application/octet-stream',
+        size,
+        data,
+      });
     }
 
-    // Manual parsing for Node.js or as fallback
-    return this.parseContactsManually(xmlContent);
+    return attachments;
   }
 
-  private parseContactsManually(xmlContent: string): Omit<Contact, 'id'>[] {
+  private parseContactsXML(xmlContent: string): Omit<Contact, 'id'>[] {
     const contacts: Omit<Contact, 'id'>[] = [];
 
-    // Match each <contact> element
-    const contactRegex = /<contact[^>]*>([\s\S]*?)<\/contact>/gi;
-    let match;
-
-    while ((match = contactRegex.exec(xmlContent)) !== null) {
-      const contactXml = match[1];
-
-      const getTag = (content: string, tag: string): string => {
-        const regex = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i');
-        const m = content.match(regex);
-        return m ? m[1].trim() : '';
-      };
-
-      const displayName = getTag(contactXml, 'OPFContactCopyDisplayName') || 
-                          getTag(contactXml, 'displayName');
-      const firstName = getTag(contactXml, 'OPFContactCopyFirstName');
-      const lastName = getTag(contactXml, 'OPFContactCopyLastName');
-      const phone = getTag(contactXml, 'OPFContactCopyPhoneNumbers');
-
-      // Extract email from attribute
-      const emailMatch = contactXml.match(/OPFContactEmailAddressAddress="([^"]+)"/i);
-      const email = emailMatch ? emailMatch[1] : '';
+    for (const contactElement of parseXMLElements(xmlContent, 'contact')) {
+      const getTextContent = (selectors: string[]): string => getText(contactElement, selectors);
+
+      const displayName = getTextContent([
+        'OPFContactCopyDisplayName',
+        'displayName',
+        'name',
+      ]);
+      const firstName = getTextContent(['OPFContactCopyFirstName', 'firstName']);
+      const lastName = getTextContent(['OPFContactCopyLastName', 'lastName']);
+      const phone = getTextContent(['OPFContactCopyPhoneNumbers', 'phone']);
+
+      let email = '';
+      const emailList = findElement(
+        contactElement,
+        'OPFContactCopyEmailAddressList',
+        'OPFContactCopyDefaultEmailAddress'
+      );
+      if (emailList) {
+        const emailAddr = findElement(emailList, 'contactEmailAddress');
+        if (emailAddr) {
+          email = emailAddr.attributes.OPFContactEmailAddressAddress || '';
+        }
+      }
 
-      const name = displayName || `${firstName} ${lastName}`.trim() || email.split('@')[0] || 'Unknown';
+      const name =
+        displayName ||
+        `${firstName} ${lastName}`.trim() ||
+        email.split('@')[0] ||
+        'Unknown';
 
       if (email || name !== 'Unknown') {
         contacts.push({
@@ -549,133 +786,120 @@ export class OLMParser {
   private parseCalendarXML(xmlContent: string): Omit<CalendarEvent, 'id'>[] {
     const events: Omit<CalendarEvent, 'id'>[] = [];
 
-    if (typeof DOMParser !== 'undefined') {
-      try {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(xmlContent, 'text/xml');
+    for (const appointmentElement of parseXMLElements(xmlContent, 'appointment')) {
+      const getTextContent = (selectors: string[]): string => getText(appointmentElement, selectors);
+
+      const title = getTextContent([
+        'OPFCalendarEventCopySummary',
+        'OPFCalendarEventCopySubject',
+        'summary',
+        'title',
+      ]);
+      const startDateStr = getTextContent([
+        'OPFCalendarEventCopyStartTime',
+        'startTime',
+      ]);
+      const endDateStr = getTextContent([
+        'OPFCalendarEventCopyEndTime',
+        'endTime',
+      ]);
+      const location = getTextContent([
+        'OPFCalendarEventCopyLocation',
+        'location',
+      ]);
+      const description = getTextContent([
+        'OPFCalendarEventCopyBody',
+        'OPFCalendarEventCopyDescription',
+        'description',
+      ]);
+      const organizer = getTextContent([
+        'OPFCalendarEventCopyOrganizer',
+        'organizer',
+      ]);
+      const isAllDayStr = getTextContent([
+        'OPFCalendarEventGetIsAllDayEvent',
+        'isAllDay',
+      ]);
 
-      const appointmentElements = doc.querySelectorAll('appointment');
+      if (!title) continue;
 
-      appointmentElements.forEach((appointmentElement) => {
-        const getTextContent = (selectors: string[]): string => {
-          for (const selector of selectors) {
-            const element = appointmentElement.querySelector(selector);
-            if (element?.textContent) {
-              return element.textContent.trim();
-            }
-          }
-          return '';
-        };
-
-        const title = getTextContent([
-          'OPFCalendarEventCopySummary',
-          'OPFCalendarEventCopySubject',
-          'summary',
-          'title',
-        ]);
-        const startDateStr = getTextContent([
-          'OPFCalendarEventCopyStartTime',
-          'startTime',
-        ]);
-        const endDateStr = getTextContent([
-          'OPFCalendarEventCopyEndTime',
-          'endTime',
-        ]);
-        const location = getTextContent([
-          'OPFCalendarEventCopyLocation',
-          'location',
-        ]);
-        const description = getTextContent([
-          'OPFCalendarEventCopyBody',
-            'OPFCalendarEventCopyDescription',
-          'description',
-        ]);
-        const organizer = getTextContent([
-          'OPFCalendarEventCopyOrganizer',
-          'organizer',
-        ]);
-        const isAllDayStr = getTextContent([
-          'OPFCalendarEventGetIsAllDayEvent',
-          'isAllDay',
-        ]);
-
-        if (!title) return;
-
-        const startDate = startDateStr ? new Date(startDateStr) : new Date();
-        const endDate = endDateStr
-          ? new Date(endDateStr)
-          : new Date(startDate.getTime() + 3600000);
-
-        events.push({
-          title,
-          startDate: isNaN(startDate.getTime()) ? new Date() : startDate,
-          endDate: isNaN(endDate.getTime()) ? new Date() : endDate,
-          location: location || undefined,
-          attendees: organizer ? [organizer] : [],
-          description: description || undefined,
-          isAllDay: isAllDayStr === '1' || isAllDayStr?.toLowerCase() === 'true',
-          reminder: false,
-        });
-        });
+      const startDate = startDateStr ? new Date(startDateStr) : new Date();
+      const endDate = endDateStr
+        ? new Date(endDateStr)
+        : new Date(startDate.getTime() + 3600000);
 
-        if (events.length > 0) return events;
-      } catch {
-        // Fall through to manual parsing
-      }
+      events.push({
+        title,
+        startDate: isNaN(startDate.getTime()) ? new Date() : startDate,
+        endDate: isNaN(endDate.getTime()) ? new Date() : endDate,
+        location: location || undefined,
+        attendees: organizer ? [organizer] : [],
+        description: description || undefined,
+        isAllDay: isAllDayStr === '1' || isAllDayStr.toLowerCase() === 'true',
+        reminder: false,
+      });
     }
 
-    // Manual parsing for Node.js or as fallback
-    return this.parseCalendarManually(xmlContent);
+    return events;
   }
 
-  private parseCalendarManually(xmlContent: string): Omit<CalendarEvent, 'id'>[] {
-    const events: Omit<CalendarEvent, 'id'>[] = [];
+  private parseTasksXML(xmlContent: string): Omit<Task, 'id'>[] {
+    const tasks: Omit<Task, 'id'>[] = [];
 
-    // Match each <appointment> element
-    const appointmentRegex = /<appointment[^>]*>([\s\S]*?)<\/appointment>/gi;
-    let match;
+    for (const taskElement of parseXMLElements(xmlContent, 'task')) {
+      const getTextContent = (selectors: string[]): string => getText(taskElement, selectors);
 
-    while ((match = appointmentRegex.exec(xmlContent)) !== null) {
-      const appointmentXml = match[1];
+      const subject = getTextContent(['OPFTaskCopyName', 'OPFTaskCopySubject', 'subject', 'name']);
+      if (!subject) continue;
 
-      const getTag = (content: string, tag: string): string => {
-        const regex = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i');
-        const m = content.match(regex);
-        return m ? m[1].trim() : '';
-      };
+      const body =
+        getTextContent(['OPFTaskCopyPlainTextBody', 'OPFTaskCopyBody', 'body']) ||
+        stripHtml(getTextContent(['OPFTaskCopyHTMLBody']));
+      const completedDate = parseDate(
+        getTextContent(['OPFTaskGetCompletedDateTime', 'OPFTaskGetCompletedDate', 'completedDate'])
+      );
+      const isCompleted =
+        getFlag(taskElement, ['OPFTaskGetIsComplete', 'OPFTaskGetIsCompleted', 'isCompleted']) ??
+        completedDate !== undefined;
+
+      tasks.push({
+        subject,
+        body: body || undefined,
+        startDate: parseDate(getTextContent(['OPFTaskGetStartDate', 'startDate'])),
+        dueDate: parseDate(getTextContent(['OPFTaskGetDueDate', 'dueDate'])),
+        isCompleted,
+        completedDate,
+        priority: parsePriority(getTextContent(['OPFTaskGetPriority', 'priority'])),
+        categories: getCategories(taskElement, 'OPFTaskCopyCategoryList'),
+      });
+    }
 
-      const title = getTag(appointmentXml, 'OPFCalendarEventCopySummary') ||
-                    getTag(appointmentXml, 'OPFCalendarEventCopySubject') ||
-                    getTag(appointmentXml, 'summary');
-      
-      if (!title) continue;
+    return tasks;
+  }
 
-      const startDateStr = getTag(appointmentXml, 'OPFCalendarEventCopyStartTime') ||
-                           getTag(appointmentXml, 'startTime');
-      const endDateStr = getTag(appointmentXml, 'OPFCalendarEventCopyEndTime') ||
-                         getTag(appointmentXml, 'endTime');
-      const location = getTag(appointmentXml, 'OPFCalendarEventCopyLocation');
-      const description = getTag(appointmentXml, 'OPFCalendarEventCopyBody') ||
-                          getTag(appointmentXml, 'OPFCalendarEventCopyDescription');
-      const organizer = getTag(appointmentXml, 'OPFCalendarEventCopyOrganizer');
-      const isAllDayStr = getTag(appointmentXml, 'OPFCalendarEventGetIsAllDayEvent');
+  private parseNotesXML(xmlContent: string): Omit<Note, 'id'>[] {
+    const notes: Omit<Note, 'id'>[] = [];
 
-      const startDate = startDateStr ? new Date(startDateStr) : new Date();
-      const endDate = endDateStr ? new Date(endDateStr) : new Date(startDate.getTime() + 3600000);
+    for (const noteElement of parseXMLElements(xmlContent, 'note')) {
+      const getTextContent = (selectors: string[]): string => getText(noteElement, selectors);
 
-      events.push({
+      const body =
+        getTextContent(['OPFNoteCopyPlainTextBody', 'OPFNoteCopyBody', 'body']) ||
+        stripHtml(getTextContent(['OPFNoteCopyHTMLBody']));
+      // Untitled notes are shown by their first line
+      const title = getTextContent(['OPFNoteCopyTitle', 'OPFNoteCopySubject', 'title']) || body.split('\n')[0].trim();
+      if (!title && !body) continue;
+
+      notes.push({
         title,
-        startDate: isNaN(startDate.getTime()) ? new Date() : startDate,
-        endDate: isNaN(endDate.getTime()) ? new Date() : endDate,
-        location: location || undefined,
-        attendees: organizer ? [organizer] : [],
-        description: description || undefined,
-        isAllDay: isAllDayStr === '1' || isAllDayStr?.toLowerCase() === 'true',
-        reminder: false,
+        body,
+        createdDate: parseDate(getTextContent(['OPFNoteGetCreatedDate', 'OPFNoteGetCreationDate', 'createdDate'])),
+        modifiedDate: parseDate(getTextContent(['OPFNoteGetModDate', 'OPFNoteGetModifiedDate', 'modifiedDate'])),
+        categories: getCategories(noteElement, 'OPFNoteCopyCategoryList'),
       });
     }
 
-    return events;
+    return notes;
   }
 
   /**
@@ -688,3 +912,78 @@ export class OLMParser {
   }
 }
 
+/**
+ * Trimmed text of the first descendant matching one of the names, tried in order
+ */
+function getText(element: XMLElement, names: string[]): string {
+  for (const name of names) {
+    const text = findElement(element, name)?.text.trim();
+    if (text) return text;
+  }
+  return '';
+}
+
+/**
+ * Boolean value of the first element found, or undefined when there is none
+ */
+function getFlag(element: XMLElement, names: string[]): boolean | undefined {
+  const value = getText(element, names);
+  return value ? value === '1' || value.toLowerCase() === 'true' : undefined;
+}
+
+/**
+ * Date value of an element, or undefined when it is missing or invalid
+ */
+function parseDate(value: string): Date | undefined {
+  const date = value ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Category names of a category list element (OPFMessageCopyCategoryList, ...)
+ */
+function getCategories(element: XMLElement, listName: string): string[] | undefined {
+  const list = findElement(element, listName);
+  if (!list) return undefined;
+
+  const categories: string[] = [];
+  for (const category of findElements(list, 'category')) {
+    const name = (category.attributes.OPFCategoryCopyName || category.text).trim();
+    if (name && !categories.includes(name)) {
+      categories.push(name);
+    }
+  }
+  return categories.length > 0 ? categories : undefined;
+}
+
+/**
+ * Addresses of an address list element (OPFMessageCopyToAddresses, ...)
+ */
+function getAddresses(element: XMLElement, listName: string): EmailAddress[] {
+  const list = findElement(element, listName);
+  if (!list) return [];
+
+  const addresses: EmailAddress[] = [];
+  for (const { attributes } of findElements(list, 'emailAddress')) {
+    const address = attributes.OPFContactEmailAddressAddress;
+    if (address) {
+      addresses.push({ name: attributes.OPFContactEmailAddressName || undefined, address });
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Map OPFMessageGetPriority onto a priority
+ *
+ * Outlook uses the X-Priority scale: 1-2 are high, 3 normal, 4-5 low; 0 is unset.
+ */
+function parsePriority(value: string): EmailPriority | undefined {
+  const level = parseInt(value, 10);
+  if (isNaN(level)) {
+    const name = value.toLowerCase();
+    return name === 'high' || name === 'normal' || name === 'low' ? name : undefined;
+  }
+  if (level < 1) return undefined;
+  return level < 3 ? 'high' : level > 3 ? 'low' : 'normal';
+}
@@ -0,0 +1,448 @@
+/**
+ * OLM Parser - PST Parser
+ * @packageDocumentation
+ */
+
+import type {
+  Email,
+  Contact,
+  CalendarEvent,
+  ParseOptions,
+  ParseResult,
+  ParseProgress,
+  StreamInput,
+  ArchiveItem,
+} from '../types';
+import { openRandomAccess } from './input';
+import { SenderContactTracker } from './contacts';
+import { FolderTracker, folderPathToId } from './folders';
+import { throwIfAborted, reportDiagnostic, ParseAbortedError } from '../errors';
+import { NodeDatabase, NID, NodeType, type PSTNode } from './pst/ndb';
+import { readPropertyContext, readTableContext } from './pst/ltp';
+import { PropertyBag, PidTag, PropertyType, parseNameIdMap } from './mapi/properties';
+import { mapiToEmail, mapiToContact, mapiToCalendarEvent, getItemKind, type MapiMessage } from './mapi/convert';
+
+/**
+ * Extended options for PST parsing
+ */
+export interface PSTParseOptions extends ParseOptions {
+  /**
+   * If true, also extract contacts from email senders
+   * @default true
+   */
+  extractContacts?: boolean;
+}
+
+/**
+ * A folder found while walking the folder hierarchy
+ */
+interface PSTFolder {
+  /** Display path, e.g. "Inbox/Projects" (used in diagnostics) */
+  path: string;
+  /** Folder names from the top, e.g. ['Inbox', 'Projects'] */
+  names: string[];
+  folderId: string;
+  /** NIDs of the messages in the folder */
+  messages: number[];
+}
+
+/** Message store properties holding the entry ID of the IPM subtree ("Top of Personal Folders") */
+const PID_TAG_IPM_SUBTREE_ENTRY_ID = 0x35e0;
+
+/** Table column holding the NID of the row's folder, message or attachment */
+const PID_TAG_LTP_ROW_ID = 0x67f2;
+
+/** Name-to-ID map streams in the NAMEID node */
+const PID_TAG_NAMEID_STREAM_GUID = 0x0002;
+const PID_TAG_NAMEID_STREAM_ENTRY = 0x0003;
+const PID_TAG_NAMEID_STREAM_STRING = 0x0004;
+
+/**
+ * Parser for Outlook for Windows data files (.pst and .ost)
+ *
+ * Reads the file's node database, property and table contexts directly, in pure
+ * TypeScript. Both ANSI (Outlook 97-2002) and Unicode (Outlook 2003 and later)
+ * files are supported, unencrypted or with compressible encryption. File paths
+ * and Blobs are read on demand, so large archives are not loaded into memory.
+ *
+ * Mail items become emails, IPM.Contact items contacts and IPM.Appointment items
+ * calendar events; each email's `folderId` follows the folder hierarchy
+ * (`inbox`, `sent`, `inbox/projects`, ...).
+ *
+ * @example
+ * ```typescript
+ * import { PSTParser } from '@technical-1/email-archive-parser';
+ *
+ * const parser = new PSTParser();
+ * const result = await parser.parse('/path/to/outlook.pst', {
+ *   onProgress: (p) => console.log(p.message),
+ * });
+ *
+ * console.log(`Parsed ${result.emails.length} emails`);
+ * ```
+ */
+export class PSTParser {
+  /**
+   * Parse a PST/OST file
+   * @param input - File/Blob, Buffer, file path (Node.js), ReadableStream or Node.js Readable
+   * @param options - Parsing options
+   * @returns Parsed data including emails, contacts, and calendar events
+   */
+  async parse(input: StreamInput, options: PSTParseOptions = {}): Promise<ParseResult> {
+    const result: ParseResult = {
+      emails: [],
+      contacts: [],
+      calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
+      stats: {
+        emailCount: 0,
+        contactCount: 0,
+        calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
+        accountCount: 0,
+        purchaseCount: 0,
+        subscriptionCount: 0,
+        newsletterCount: 0,
+      },
+      diagnostics: [],
+    };
+
+    const streamOptions: PSTParseOptions = {
+      ...options,
+      onWarning: (diagnostic) => {
+        result.diagnostics.push(diagnostic);
+        options.onWarning?.(diagnostic);
+      },
+    };
+
+    for await (const item of this.stream(input, streamOptions)) {
+      if (item.type === 'email') {
+        result.emails.push(item.email);
+        result.stats.emailCount++;
+      } else if (item.type === 'contact') {
+        result.contacts.push(item.contact);
+        result.stats.contactCount++;
+      } else if (item.type === 'calendarEvent') {
+        result.calendarEvents.push(item.event);
+        result.stats.calendarEventCount++;
+      } else if (item.type === 'folder') {
+        result.folders.push(item.folder);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Stream emails, then the folders holding them, then contacts, then calendar events from a PST/OST file
+   *
+   * Messages are read from the file one at a time as the consumer pulls them.
+   *
+   * @param input - File/Blob, Buffer, file path (Node.js), ReadableStream or Node.js Readable
+   * @param options - Parsing options
+   */
+  async *stream(input: StreamInput, options: PSTParseOptions = {}): AsyncGenerator<ArchiveItem> {
+    const { onProgress, signal } = options;
+    throwIfAborted(signal);
+
+    this.reportProgress(onProgress, 'extracting', 0, 'Reading PST folders...');
+
+    const reader = await openRandomAccess(input);
+    try {
+      let db: NodeDatabase;
+      let names: Map<string, number>;
+      let folders: PSTFolder[];
+      try {
+        db = await NodeDatabase.open(reader);
+        names = await this.readNameMap(db);
+        folders = await this.readFolders(db, signal);
+      } catch (error) {
+        if (error instanceof ParseAbortedError) throw error;
+        throw new Error(`Failed to parse PST file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      const total = folders.reduce((sum, folder) => sum + folder.messages.length, 0);
+      this.reportProgress(onProgress, 'extracting', 100, `Found ${total} items in ${folders.length} folders`);
+      this.reportProgress(onProgress, 'parsing_emails', 0, `Parsing ${total} items...`);
+
+      // Emails are yielded as they are read; contacts and events are far fewer and wait for their stage
+      const senders = new SenderContactTracker();
+      const mailFolders = new FolderTracker();
+      const contacts: Contact[] = [];
+      const events: CalendarEvent[] = [];
+      let emailCount = 0;
+      let done = 0;
+
+      for (const folder of folders) {
+        for (const nid of folder.messages) {
+          throwIfAborted(signal);
+
+          let email: Omit<Email, 'id'> | null = null;
+          try {
+            const node = await db.loadNode(nid);
+            if (node) {
+              const message = await this.readMessage(db, node, names, options);
+              const kind = getItemKind(message.props);
+
+              if (kind === 'email') {
+                email = mapiToEmail(message, options, folder.folderId);
+              } else if (kind === 'contact') {
+                const contact = mapiToContact(message.props);
+                if (contact) contacts.push(contact as Contact);
+              } else if (kind === 'calendarEvent') {
+                const event = mapiToCalendarEvent(message);
+                if (event) events.push(event as CalendarEvent);
+              }
+            }
+          } catch (error) {
+            reportDiagnostic(options, {
+              severity: 'error',
+              code: 'message_parse_failed',
+              message: `Failed to read item 0x${nid.toString(16)} in ${folder.path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              location: { path: folder.path },
+            });
+          }
+
+          if (email) {
+            senders.track(email);
+            mailFolders.add(folder.names);
+            mailFolders.track(email);
+            emailCount++;
+            yield { type: 'email', email: email as Email };
+          }
+
+          done++;
+          if (done % 100 === 0 || done === total) {
+            this.reportProgress(
+              onProgress,
+              'parsing_emails',
+              Math.round((done / total) * 100),
+              `Parsed ${done} of ${total} items`
+            );
+          }
+        }
+      }
+
+      for (const mailFolder of mailFolders.toFolders()) {
+        yield { type: 'folder', folder: mailFolder };
+      }
+
+      // Address book contacts first, then senders who aren't in the address book
+      this.reportProgress(onProgress, 'parsing_contacts', 0, 'Parsing contacts...');
+      const existingContactEmails = new Set<string>();
+      for (const contact of contacts) {
+        throwIfAborted(signal);
+        if (contact.email) existingContactEmails.add(contact.email.toLowerCase());
+        yield { type: 'contact', contact };
+      }
+      if (options.extractContacts !== false) {
+        for (const contact of senders.toContacts()) {
+          throwIfAborted(signal);
+          if (!existingContactEmails.has(contact.email.toLowerCase())) {
+            yield { type: 'contact', contact };
+          }
+        }
+      }
+      this.reportProgress(onProgress, 'parsing_contacts', 100, 'Parsed contacts');
+
+      if (events.length > 0) {
+        this.reportProgress(onProgress, 'parsing_calendar', 0, 'Parsing calendar...');
+        for (const event of events) {
+          throwIfAborted(signal);
+          yield { type: 'calendarEvent', event };
+        }
+        this.reportProgress(onProgress, 'parsing_calendar', 100, `Parsed ${events.length} calendar events`);
+      }
+
+      this.reportProgress(onProgress, 'complete', 100, `Parsed ${emailCount} emails successfully`);
+    } finally {
+      await reader.close();
+    }
+  }
+
+  /**
+   * Parse a PST/OST file from a file path (Node.js only)
+   *
+   * @param filePath - Path to the PST/OST file
+   * @param options - Parsing options
+   * @returns Parsed data
+   */
+  async parseFile(filePath: string, options: PSTParseOptions = {}): Promise<ParseResult> {
+    return this.parse(filePath, options);
+  }
+
+  private reportProgress(
+    callback: ((progress: ParseProgress) => void) | undefined,
+    stage: ParseProgress['stage'],
+    progress: number,
+    message: string
+  ): void {
+    callback?.({ stage, progress, message });
+  }
+
+  /**
+   * Read the named property map; files without one simply have no named properties
+   */
+  private async readNameMap(db: NodeDatabase): Promise<Map<string, number>> {
+    const node = await db.loadNode(NID.NameToIdMap);
+    if (!node) return new Map();
+
+    const props = new PropertyBag(await readPropertyContext(db, node));
+    return parseNameIdMap(
+      props.getBinary(PID_TAG_NAMEID_STREAM_GUID) ?? new Uint8Array(0),
+      props.getBinary(PID_TAG_NAMEID_STREAM_ENTRY) ?? new Uint8Array(0),
+      props.getBinary(PID_TAG_NAMEID_STREAM_STRING) ?? new Uint8Array(0)
+    );
+  }
+
+  /**
+   * Walk the folder hierarchy below the IPM subtree, collecting each folder's messages
+   */
+  private async readFolders(db: NodeDatabase, signal?: AbortSignal): Promise<PSTFolder[]> {
+    const top = await this.findTopFolder(db);
+    const folders: PSTFolder[] = [];
+    const visited = new Set<number>();
+
+    const walk = async (nid: number, names: string[]) => {
+      throwIfAborted(signal);
+      if (visited.has(nid)) return;
+      visited.add(nid);
+
+      if (names.length > 0) {
+        const contents = await this.readTableNids(db, (nid & ~0x1f) | NodeType.ContentsTable);
+        folders.push({
+          path: names.join('/'),
+          names,
+          folderId: folderPathToId(names),
+          messages: contents,
+        });
+      }
+
+      for (const child of await this.readTableNids(db, (nid & ~0x1f) | NodeType.HierarchyTable)) {
+        const name = (await this.readFolderName(db, child)) || `Folder ${child.toString(16)}`;
+        await walk(child, [...names, name]);
+      }
+    };
+
+    await walk(top, []);
+    return folders;
+  }
+
+  /**
+   * Find the IPM subtree ("Top of Personal Folders"), where the user's folders live
+   *
+   * PST files record its entry ID, which ends with the folder's NID, in the message
+   * store. OST files don't; their IPM subtree is the IPM_SUBTREE folder below the
+   * mailbox root. Falls back to the root folder.
+   */
+  private async findTopFolder(db: NodeDatabase): Promise<number> {
+    const storeNode = await db.loadNode(NID.MessageStore);
+    if (storeNode) {
+      const store = new PropertyBag(await readPropertyContext(db, storeNode));
+      const entryId = store.getBinary(PID_TAG_IPM_SUBTREE_ENTRY_ID);
+      if (entryId && entryId.length >= 24) {
+        return new DataView(entryId.buffer, entryId.byteOffset, entryId.byteLength).getUint32(20, true);
+      }
+    }
+
+    for (const root of await this.readTableNids(db, (NID.RootFolder & ~0x1f) | NodeType.HierarchyTable)) {
+      for (const child of await this.readTableNids(db, (root & ~0x1f) | NodeType.HierarchyTable)) {
+        if ((await this.readFolderName(db, child)) !== 'IPM_SUBTREE') continue;
+        const subfolders = await this.readTableNids(db, (child & ~0x1f) | NodeType.HierarchyTable);
+        if (subfolders.length > 0) return child;
+      }
+    }
+
+    return NID.RootFolder;
+  }
+
+  private async readFolderName(db: NodeDatabase, nid: number): Promise<string | undefined> {
+    const node = await db.loadNode(nid);
+    if (!node) return undefined;
+    return new PropertyBag(await readPropertyContext(db, node)).getString(PidTag.DisplayName);
+  }
+
+  /**
+   * Read the row NIDs of a hierarchy or contents table
+   */
+  private async readTableNids(db: NodeDatabase, tableNid: number): Promise<number[]> {
+    const node = await db.loadNode(tableNid);
+    if (!node) return [];
+
+    const nids: number[] = [];
+    for (const row of await readTableContext(db, node)) {
+      const rowId = row.get(PID_TAG_LTP_ROW_ID);
+      if (rowId && rowId.data.length >= 4) {
+        nids.push(new DataView(rowId.data.buffer, rowId.data.byteOffset, 4).getUint32(0, true));
+      }
+    }
+    return nids;
+  }
+
+  /**
+   * Read a message's properties, recipient table and attachments
+   */
+  private async readMessage(
+    db: NodeDatabase,
+    node: PSTNode,
+    names: Map<string, number>,
+    options: ParseOptions
+  ): Promise<MapiMessage> {
+    const props = new PropertyBag(await readPropertyContext(db, node), names);
+
+    const recipients: PropertyBag[] = [];
+    const recipientTable = await db.loadSubnode(node, NID.RecipientTable);
+    if (recipientTable) {
+      for (const row of await readTableContext(db, recipientTable)) {
+        recipients.push(new PropertyBag(row, names, props.stringCodePage));
+      }
+    }
+
+    const attachments: MapiMessage['attachments'] = [];
+    const attachmentTable = await db.loadSubnode(node, NID.AttachmentTable);
+    if (attachmentTable) {
+      for (const row of await readTableContext(db, attachmentTable)) {
+        const rowId = row.get(PID_TAG_LTP_ROW_ID);
+        if (!rowId || rowId.data.length < 4) continue;
+        const attachmentNid = new DataView(rowId.data.buffer, rowId.data.byteOffset, 4).getUint32(0, true);
+
+        const attachmentNode = await db.loadSubnode(node, attachmentNid);
+        if (!attachmentNode) continue;
+
+        // Attachment data is only loaded when it will be returned
+        const attachmentProps = new PropertyBag(
+          await readPropertyContext(db, attachmentNode, (id) => id === PidTag.AttachDataBinary && !options.includeAttachments),
+          names,
+          props.stringCodePage
+        );
+
+        // Embedded messages: the data value is the NID of a subnode holding the message
+        let embedded: MapiMessage | undefined;
+        const object = attachmentProps.get(PidTag.AttachDataBinary);
+        if (object?.type === PropertyType.Object && object.data.length >= 4) {
+          const embeddedNid = new DataView(object.data.buffer, object.data.byteOffset, 4).getUint32(0, true);
+          const embeddedNode = await db.loadSubnode(attachmentNode, embeddedNid);
+          if (embeddedNode) {
+            embedded = await this.readMessage(db, embeddedNode, names, options);
+          }
+        }
+
+        attachments.push({ props: attachmentProps, message: embedded });
+      }
+    }
+
+    return { props, recipients, attachments };
+  }
+
+  /**
+   * Check if a file is an Outlook data file
+   * @param file - File to check
+   * @returns True if the file name ends in .pst or .ost
+   */
+  static isPSTFile(file: File): boolean {
+    return /\.(pst|ost)$/i.test(file.name);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * OLM Parser - PST Lists, Tables and Properties Layer
+ * @packageDocumentation
+ */
+
+import { PropertyType, type RawProperty } from '../mapi/properties';
+import type { NodeDatabase, PSTNode } from './ndb';
+
+/** bSig of a heap-on-node header */
+const HEAP_SIGNATURE = 0xec;
+
+/** bClientSig values */
+const CLIENT_SIG_BTH = 0xb5;
+const CLIENT_SIG_TABLE = 0x7c;
+const CLIENT_SIG_PROPERTIES = 0xbc;
+
+/** Property types whose values fit in a PC record's 4-byte value field */
+const INLINE_TYPES = new Set<number>([
+  PropertyType.Integer16,
+  PropertyType.Integer32,
+  PropertyType.Floating32,
+  PropertyType.ErrorCode,
+  PropertyType.Boolean,
+]);
+
+/** Property types stored through an HNID in tables */
+const VARIABLE_TYPES = new Set<number>([
+  PropertyType.String8,
+  PropertyType.Unicode,
+  PropertyType.Binary,
+  PropertyType.Guid,
+  PropertyType.Object,
+]);
+
+/**
+ * Heap-on-node: variable-sized items allocated inside a node's data blocks (MS-PST 2.3.1)
+ * @internal
+ */
+export class Heap {
+  readonly clientSignature: number;
+  readonly userRoot: number;
+
+  constructor(private readonly node: PSTNode) {
+    const first = node.blocks[0];
+    if (!first || first.length < 12 || first[2] !== HEAP_SIGNATURE) {
+      throw new Error(`Node 0x${node.nid.toString(16)} is not a heap-on-node`);
+    }
+    this.clientSignature = first[3];
+    this.userRoot = toView(first).getUint32(4, true);
+  }
+
+  /**
+   * Read a heap item by HID
+   * @returns The item's bytes (empty for HID 0)
+   */
+  get(hid: number): Uint8Array {
+    if (hid === 0) return new Uint8Array(0);
+
+    const blockIndex = hid >>> 16;
+    const index = (hid >>> 5) & 0x7ff;
+    const block = this.node.blocks[blockIndex];
+    if (!block || index === 0) {
+      throw new Error(`Invalid heap reference 0x${hid.toString(16)} in node 0x${this.node.nid.toString(16)}`);
+    }
+
+    const view = toView(block);
+    const pageMap = view.getUint16(0, true);
+    const count = view.getUint16(pageMap, true);
+    if (index > count) {
+      throw new Error(`Invalid heap reference 0x${hid.toString(16)} in node 0x${this.node.nid.toString(16)}`);
+    }
+
+    const start = view.getUint16(pageMap + 4 + (index - 1) * 2, true);
+    const end = view.getUint16(pageMap + 4 + index * 2, true);
+    return block.subarray(start, end);
+  }
+}
+
+/**
+ * Read every record of a BTH (B-tree-on-heap) rooted at a heap item
+ * @internal
+ */
+export function readBTree(heap: Heap, headerHid: number): Array<{ key: Uint8Array; data: Uint8Array }> {
+  const header = heap.get(headerHid);
+  if (header[0] !== CLIENT_SIG_BTH) {
+    throw new Error('Invalid B-tree-on-heap header');
+  }
+
+  const keySize = header[1];
+  const dataSize = header[2];
+  const levels = header[3];
+  const root = toView(header).getUint32(4, true);
+  const records: Array<{ key: Uint8Array; data: Uint8Array }> = [];
+
+  const walk = (hid: number, level: number) => {
+    if (hid === 0) return;
+    const items = heap.get(hid);
+    if (level > 0) {
+      const view = toView(items);
+      for (let offset = 0; offset + keySize + 4 <= items.length; offset += keySize + 4) {
+        walk(view.getUint32(offset + keySize, true), level - 1);
+      }
+      return;
+    }
+    for (let offset = 0; offset + keySize + dataSize <= items.length; offset += keySize + dataSize) {
+      records.push({
+        key: items.subarray(offset, offset + keySize),
+        data: items.subarray(offset + keySize, offset + keySize + dataSize),
+      });
+    }
+  };
+
+  walk(root, levels);
+  return records;
+}
+
+/**
+ * Read a property context (a message, folder, attachment or the store) (MS-PST 2.3.3)
+ *
+ * @param skip - Property IDs to leave out without loading their values (e.g. attachment data)
+ * @returns Raw properties keyed by property ID
+ * @internal
+ */
+export async function readPropertyContext(
+  db: NodeDatabase,
+  node: PSTNode,
+  skip?: (id: number) => boolean
+): Promise<Map<number, RawProperty>> {
+  const heap = new Heap(node);
+  if (heap.clientSignature !== CLIENT_SIG_PROPERTIES) {
+    throw new Error(`Node 0x${node.nid.toString(16)} is not a property context`);
+  }
+
+  const properties = new Map<number, RawProperty>();
+  for (const { key, data } of readBTree(heap, heap.userRoot)) {
+    const id = toView(key).getUint16(0, true);
+    if (skip?.(id)) continue;
+
+    const view = toView(data);
+    const type = view.getUint16(0, true);
+    const value = data.subarray(2, 6);
+
+    if (INLINE_TYPES.has(type)) {
+      properties.set(id, { type, data: value });
+    } else {
+      properties.set(id, { type, data: await readHnid(db, node, heap, view.getUint32(2, true)) });
+    }
+  }
+
+  return properties;
+}
+
+/**
+ * Read the rows of a table context (folder hierarchy, contents, recipients, attachments) (MS-PST 2.3.4)
+ *
+ * @returns One property map per row, keyed by property ID
+ * @internal
+ */
+export async function readTableContext(db: NodeDatabase, node: PSTNode): Promise<Array<Map<number, RawProperty>>> {
+  const heap = new Heap(node);
+  if (heap.clientSignature !== CLIENT_SIG_TABLE) {
+    throw new Error(`Node 0x${node.nid.toString(16)} is not a table context`);
+  }
+
+  const info = heap.get(heap.userRoot);
+  const infoView = toView(info);
+  const columnCount = info[1];
+  const rowSize = infoView.getUint16(8, true);
+  const cebOffset = infoView.getUint16(6, true);
+  const rowIndexHid = infoView.getUint32(10, true);
+  const rowsHnid = infoView.getUint32(14, true);
+
+  const columns = Array.from({ length: columnCount }, (_, i) => {
+    const offset = 22 + i * 8;
+    const tag = infoView.getUint32(offset, true);
+    return {
+      id: tag >>> 16,
+      type: tag & 0xffff,
+      offset: infoView.getUint16(offset + 4, true),
+      size: info[offset + 6],
+      bit: info[offset + 7],
+    };
+  });
+
+  const rowCount = readBTree(heap, rowIndexHid).length;
+  if (rowCount === 0 || rowsHnid === 0 || rowSize === 0) return [];
+
+  // Small row matrices live on the heap; larger ones in a subnode, with rows never spanning blocks
+  let rowBlocks: Uint8Array[];
+  if ((rowsHnid & 0x1f) === 0) {
+    rowBlocks = [heap.get(rowsHnid)];
+  } else {
+    const subnode = await db.loadSubnode(node, rowsHnid);
+    rowBlocks = subnode?.blocks ?? [];
+  }
+
+  const rows: Array<Map<number, RawProperty>> = [];
+  for (const block of rowBlocks) {
+    const perBlock = Math.floor(block.length / rowSize);
+    for (let r = 0; r < perBlock && rows.length < rowCount; r++) {
+      const row = block.subarray(r * rowSize, (r + 1) * rowSize);
+      const rowView = toView(row);
+      const values = new Map<number, RawProperty>();
+
+      for (const column of columns) {
+        // Cell existence bitmap: skip columns with no value in this row
+        if (!(row[cebOffset + (column.bit >> 3)] & (0x80 >> (column.bit & 7)))) continue;
+
+        const cell = row.subarray(column.offset, column.offset + column.size);
+        if (VARIABLE_TYPES.has(column.type) || column.type & PropertyType.MultipleFlag) {
+          const hnid = rowView.getUint32(column.offset, true);
+          values.set(column.id, { type: column.type, data: await readHnid(db, node, heap, hnid) });
+        } else {
+          values.set(column.id, { type: column.type, data: cell });
+        }
+      }
+
+      rows.push(values);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Resolve an HNID: a heap item when the low 5 bits are zero, otherwise a subnode
+ */
+async function readHnid(db: NodeDatabase, node: PSTNode, heap: Heap, hnid: number): Promise<Uint8Array> {
+  if ((hnid & 0x1f) === 0) {
+    return heap.get(hnid);
+  }
+
+  const subnode = await db.loadSubnode(node, hnid);
+  if (!subnode) return new Uint8Array(0);
+  return concat(subnode.blocks);
+}
+
+function concat(blocks: Uint8Array[]): Uint8Array {
+  if (blocks.length === 1) return blocks[0];
+  const result = new Uint8Array(blocks.reduce((sum, block) => sum + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    result.set(block, offset);
+    offset += block.length;
+  }
+  return result;
+}
+
+function toView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
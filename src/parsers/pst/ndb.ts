@@ -0,0 +1,437 @@
+/**
+ * OLM Parser - PST Node Database Layer
+ * @packageDocumentation
+ */
+
+import type { RandomAccessReader } from '../input';
+
+/**
+ * Decoding table for NDB_CRYPT_PERMUTE, the "compressible encryption" (MS-PST 5.1, mpbbI)
+ */
+// prettier-ignore
+const PERMUTE_DECODE = new Uint8Array([
+  0x47, 0xf1, 0xb4, 0xe6, 0x0b, 0x6a, 0x72, 0x48, 0x85, 0x4e, 0x9e, 0xeb, 0xe2, 0xf8, 0x94, 0x53,
+  0xe0, 0xbb, 0xa0, 0x02, 0xe8, 0x5a, 0x09, 0xab, 0xdb, 0xe3, 0xba, 0xc6, 0x7c, 0xc3, 0x10, 0xdd,
+  0x39, 0x05, 0x96, 0x30, 0xf5, 0x37, 0x60, 0x82, 0x8c, 0xc9, 0x13, 0x4a, 0x6b, 0x1d, 0xf3, 0xfb,
+  0x8f, 0x26, 0x97, 0xca, 0x91, 0x17, 0x01, 0xc4, 0x32, 0x2d, 0x6e, 0x31, 0x95, 0xff, 0xd9, 0x23,
+  0xd1, 0x00, 0x5e, 0x79, 0xdc, 0x44, 0x3b, 0x1a, 0x28, 0xc5, 0x61, 0x57, 0x20, 0x90, 0x3d, 0x83,
+  0xb9, 0x43, 0xbe, 0x67, 0xd2, 0x46, 0x42, 0x76, 0xc0, 0x6d, 0x5b, 0x7e, 0xb2, 0x0f, 0x16, 0x29,
+  0x3c, 0xa9, 0x03, 0x54, 0x0d, 0xda, 0x5d, 0xdf, 0xf6, 0xb7, 0xc7, 0x62, 0xcd, 0x8d, 0x06, 0xd3,
+  0x69, 0x5c, 0x86, 0xd6, 0x14, 0xf7, 0xa5, 0x66, 0x75, 0xac, 0xb1, 0xe9, 0x45, 0x21, 0x70, 0x0c,
+  0x87, 0x9f, 0x74, 0xa4, 0x22, 0x4c, 0x6f, 0xbf, 0x1f, 0x56, 0xaa, 0x2e, 0xb3, 0x78, 0x33, 0x50,
+  0xb0, 0xa3, 0x92, 0xbc, 0xcf, 0x19, 0x1c, 0xa7, 0x63, 0xcb, 0x1e, 0x4d, 0x3e, 0x4b, 0x1b, 0x9b,
+  0x4f, 0xe7, 0xf0, 0xee, 0xad, 0x3a, 0xb5, 0x59, 0x04, 0xea, 0x40, 0x55, 0x25, 0x51, 0xe5, 0x7a,
+  0x89, 0x38, 0x68, 0x52, 0x7b, 0xfc, 0x27, 0xae, 0xd7, 0xbd, 0xfa, 0x07, 0xf4, 0xcc, 0x8e, 0x5f,
+  0xef, 0x35, 0x9c, 0x84, 0x2b, 0x15, 0xd5, 0x77, 0x34, 0x49, 0xb6, 0x12, 0x0a, 0x7f, 0x71, 0x88,
+  0xfd, 0x9d, 0x18, 0x41, 0x7d, 0x93, 0xd8, 0x58, 0x2c, 0xce, 0xfe, 0x24, 0xaf, 0xde, 0xb8, 0x36,
+  0xc8, 0xa1, 0x80, 0xa6, 0x99, 0x98, 0xa8, 0x2f, 0x0e, 0x81, 0x65, 0x73, 0xe4, 0xc2, 0xa2, 0x8a,
+  0xd4, 0xe1, 0x11, 0xd0, 0x08, 0x8b, 0x2a, 0xf2, 0xed, 0x9a, 0x64, 0x3f, 0xc1, 0x6c, 0xf9, 0xec,
+]);
+
+/** Bytes read for the file header (564 in Unicode files, less in ANSI files) */
+const HEADER_SIZE = 576;
+
+/** Page types from the page trailer */
+const PAGE_TYPE_BBT = 0x80;
+const PAGE_TYPE_NBT = 0x81;
+
+/** Internal block types */
+const BLOCK_TYPE_XBLOCK = 0x01;
+const BLOCK_TYPE_SLBLOCK = 0x02;
+
+/** bCryptMethod values */
+const CRYPT_NONE = 0x00;
+const CRYPT_PERMUTE = 0x01;
+
+/**
+ * Where a B-tree page keeps its entry count, entry size, level and page type
+ */
+interface PageLayout {
+  size: number;
+  count: number;
+  /** cEnt is one byte, or two in 4 KB pages */
+  countSize: 1 | 2;
+  entrySize: number;
+  level: number;
+  type: number;
+  /** Whether block B-tree entries carry an inflated size (blocks may be zlib-compressed) */
+  compressed: boolean;
+}
+
+const ANSI_PAGES: PageLayout = {
+  size: 512, count: 496, countSize: 1, entrySize: 498, level: 499, type: 500, compressed: false,
+};
+const UNICODE_PAGES: PageLayout = {
+  size: 512, count: 488, countSize: 1, entrySize: 490, level: 491, type: 496, compressed: false,
+};
+const UNICODE_4K_PAGES: PageLayout = {
+  size: 4096, count: 4056, countSize: 2, entrySize: 4060, level: 4061, type: 4072, compressed: true,
+};
+
+/** Pages kept in memory; B-tree lookups revisit the same upper levels constantly */
+const PAGE_CACHE_SIZE = 4096;
+
+/**
+ * An entry in the node B-tree (a folder, message, table, ...)
+ * @internal
+ */
+export interface NodeEntry {
+  nid: number;
+  bidData: number;
+  bidSub: number;
+  nidParent: number;
+}
+
+/**
+ * An entry in a node's subnode tree (attachments, recipient table, large values)
+ * @internal
+ */
+export interface SubnodeEntry {
+  nid: number;
+  bidData: number;
+  bidSub: number;
+}
+
+/**
+ * A node's data, split into its data blocks, and its subnodes
+ * @internal
+ */
+export interface PSTNode {
+  nid: number;
+  blocks: Uint8Array[];
+  subnodes: Map<number, SubnodeEntry>;
+}
+
+/**
+ * Node types (low 5 bits of a NID)
+ * @internal
+ */
+export const NodeType = {
+  NormalFolder: 0x02,
+  NormalMessage: 0x04,
+  Attachment: 0x05,
+  HierarchyTable: 0x0d,
+  ContentsTable: 0x0e,
+} as const;
+
+/**
+ * Well-known NIDs
+ * @internal
+ */
+export const NID = {
+  MessageStore: 0x21,
+  NameToIdMap: 0x61,
+  RootFolder: 0x122,
+  RecipientTable: 0x692,
+  AttachmentTable: 0x671,
+} as const;
+
+/**
+ * Reader for the node database (NDB) layer of a PST/OST file (MS-PST 2.2)
+ *
+ * Resolves nodes through the node B-tree and blocks through the block B-tree,
+ * reading pages and blocks on demand, so memory use does not grow with file size.
+ * @internal
+ */
+export class NodeDatabase {
+  private readonly pageCache = new Map<number, Uint8Array>();
+
+  private constructor(
+    private readonly reader: RandomAccessReader,
+    /** Unicode (64-bit) or ANSI (32-bit) file */
+    readonly unicode: boolean,
+    private readonly pages: PageLayout,
+    private readonly encryption: number,
+    private readonly nodeTreeRoot: number,
+    private readonly blockTreeRoot: number
+  ) {}
+
+  /**
+   * Read and validate the PST header
+   * @throws Error if the file is not a PST/OST or uses an unsupported variant
+   */
+  static async open(reader: RandomAccessReader): Promise<NodeDatabase> {
+    const header = await reader.read(0, HEADER_SIZE);
+    const magic = String.fromCharCode(...header.subarray(0, 4));
+    if (header.length < HEADER_SIZE || magic !== '!BDN') {
+      throw new Error('Not a PST file (missing !BDN signature)');
+    }
+
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    const version = view.getUint16(10, true);
+
+    let pages: PageLayout;
+    if (version === 14 || version === 15) {
+      pages = ANSI_PAGES;
+    } else if (version === 23) {
+      pages = UNICODE_PAGES;
+    } else if (version === 36) {
+      // OST files written by Outlook 2013 and later
+      pages = UNICODE_4K_PAGES;
+    } else {
+      throw new Error(`Unsupported PST version ${version}`);
+    }
+
+    const unicode = pages !== ANSI_PAGES;
+    const encryption = header[unicode ? 0x201 : 0x1cd];
+    if (encryption !== CRYPT_NONE && encryption !== CRYPT_PERMUTE) {
+      throw new Error('PST files with high encryption are not supported');
+    }
+
+    // ROOT.BREFNBT.ib and ROOT.BREFBBT.ib
+    const nodeTreeRoot = unicode ? readUint64(view, 0xe0) : view.getUint32(0xbc, true);
+    const blockTreeRoot = unicode ? readUint64(view, 0xf0) : view.getUint32(0xc4, true);
+
+    return new NodeDatabase(reader, unicode, pages, encryption, nodeTreeRoot, blockTreeRoot);
+  }
+
+  /**
+   * Look up a node in the node B-tree
+   */
+  async findNode(nid: number): Promise<NodeEntry | null> {
+    const found = await this.searchTree(this.nodeTreeRoot, PAGE_TYPE_NBT, nid);
+    if (!found) return null;
+
+    const { view, offset } = found;
+    if (this.unicode) {
+      return {
+        nid,
+        bidData: readUint64(view, offset + 8),
+        bidSub: readUint64(view, offset + 16),
+        nidParent: view.getUint32(offset + 24, true),
+      };
+    }
+    return {
+      nid,
+      bidData: view.getUint32(offset + 4, true),
+      bidSub: view.getUint32(offset + 8, true),
+      nidParent: view.getUint32(offset + 12, true),
+    };
+  }
+
+  /**
+   * Load a node's data blocks and subnode tree
+   * @returns The node, or null if the NID doesn't exist
+   */
+  async loadNode(nid: number): Promise<PSTNode | null> {
+    const entry = await this.findNode(nid);
+    if (!entry) return null;
+    return {
+      nid,
+      blocks: await this.readDataBlocks(entry.bidData),
+      subnodes: await this.readSubnodes(entry.bidSub),
+    };
+  }
+
+  /**
+   * Load one of a node's subnodes
+   * @returns The subnode, or null if the parent has no such subnode
+   */
+  async loadSubnode(parent: PSTNode, nid: number): Promise<PSTNode | null> {
+    const entry = parent.subnodes.get(nid);
+    if (!entry) return null;
+    return {
+      nid,
+      blocks: await this.readDataBlocks(entry.bidData),
+      subnodes: await this.readSubnodes(entry.bidSub),
+    };
+  }
+
+  /**
+   * Read the data blocks of a data tree, expanding XBLOCKs and XXBLOCKs
+   */
+  async readDataBlocks(bid: number): Promise<Uint8Array[]> {
+    if (bid === 0) return [];
+
+    const block = await this.readBlock(bid);
+    if (!isInternal(bid)) return [block];
+
+    if (block[0] !== BLOCK_TYPE_XBLOCK) {
+      throw new Error(`Unexpected block type 0x${block[0].toString(16)} in data tree`);
+    }
+
+    const view = toView(block);
+    const count = view.getUint16(2, true);
+    const bidSize = this.unicode ? 8 : 4;
+    const blocks: Uint8Array[] = [];
+
+    for (let i = 0; i < count; i++) {
+      blocks.push(...(await this.readDataBlocks(this.readBid(view, 8 + i * bidSize))));
+    }
+    return blocks;
+  }
+
+  /**
+   * Read a subnode tree (SLBLOCKs and SIBLOCKs)
+   */
+  async readSubnodes(bid: number): Promise<Map<number, SubnodeEntry>> {
+    const subnodes = new Map<number, SubnodeEntry>();
+    if (bid === 0) return subnodes;
+
+    const block = await this.readBlock(bid);
+    if (block[0] !== BLOCK_TYPE_SLBLOCK) {
+      throw new Error(`Unexpected block type 0x${block[0].toString(16)} in subnode tree`);
+    }
+
+    const view = toView(block);
+    const level = block[1];
+    const count = view.getUint16(2, true);
+    const size = this.unicode ? 8 : 4;
+    const headerSize = this.unicode ? 8 : 4;
+
+    for (let i = 0; i < count; i++) {
+      if (level === 0) {
+        // SLENTRY: nid, bidData, bidSub
+        const offset = headerSize + i * size * 3;
+        const nid = view.getUint32(offset, true);
+        subnodes.set(nid, {
+          nid,
+          bidData: this.readBid(view, offset + size),
+          bidSub: this.readBid(view, offset + size * 2),
+        });
+      } else {
+        // SIENTRY: nid, bid of the next level
+        const offset = headerSize + i * size * 2;
+        for (const [nid, entry] of await this.readSubnodes(this.readBid(view, offset + size))) {
+          subnodes.set(nid, entry);
+        }
+      }
+    }
+
+    return subnodes;
+  }
+
+  /**
+   * Read one block through the block B-tree, decrypting external blocks
+   */
+  private async readBlock(bid: number): Promise<Uint8Array> {
+    // The lowest bit of a BID is reserved and not part of the key
+    const key = bid - (bid % 2);
+    const found = await this.searchTree(this.blockTreeRoot, PAGE_TYPE_BBT, key);
+    if (!found) {
+      throw new Error(`Block 0x${bid.toString(16)} not found`);
+    }
+
+    const { view, offset } = found;
+    const ib = this.unicode ? readUint64(view, offset + 8) : view.getUint32(offset + 4, true);
+    const cb = view.getUint16(offset + (this.unicode ? 16 : 8), true);
+    const inflatedSize = this.pages.compressed ? view.getUint16(offset + 18, true) : cb;
+    let data = await this.reader.read(ib, cb);
+    if (data.length < cb) {
+      throw new Error(`Block 0x${bid.toString(16)} extends past the end of the file`);
+    }
+
+    if (!isInternal(bid) && this.encryption === CRYPT_PERMUTE) {
+      const decoded = new Uint8Array(data.length);
+      for (let i = 0; i < data.length; i++) {
+        decoded[i] = PERMUTE_DECODE[data[i]];
+      }
+      data = decoded;
+    }
+
+    return inflatedSize > cb ? inflate(data) : data;
+  }
+
+  /**
+   * Find the leaf entry for a key in a node or block B-tree
+   * @returns View of the leaf page and the entry's offset, or null if the key is absent
+   */
+  private async searchTree(
+    rootOffset: number,
+    pageType: number,
+    key: number
+  ): Promise<{ view: DataView; offset: number } | null> {
+    let pageOffset = rootOffset;
+    const keySize = this.unicode ? 8 : 4;
+
+    // Depth is bounded by the format; the limit guards against cycles in corrupt files
+    for (let depth = 0; depth < 16; depth++) {
+      const page = await this.readPage(pageOffset, pageType);
+      const view = toView(page);
+      const count = this.pages.countSize === 2 ? view.getUint16(this.pages.count, true) : page[this.pages.count];
+      const entrySize = page[this.pages.entrySize];
+      const level = page[this.pages.level];
+
+      if (level === 0) {
+        for (let i = 0; i < count; i++) {
+          const offset = i * entrySize;
+          if (this.readKey(view, offset) === key) {
+            return { view, offset };
+          }
+        }
+        return null;
+      }
+
+      // Follow the last child whose key is <= the key we want
+      let next = -1;
+      for (let i = 0; i < count; i++) {
+        const offset = i * entrySize;
+        if (this.readKey(view, offset) > key) break;
+        next = this.unicode ? readUint64(view, offset + keySize * 2) : view.getUint32(offset + keySize * 2, true);
+      }
+      if (next < 0) return null;
+      pageOffset = next;
+    }
+
+    throw new Error('B-tree is too deep (corrupt file?)');
+  }
+
+  private async readPage(offset: number, pageType: number): Promise<Uint8Array> {
+    let page = this.pageCache.get(offset);
+    if (!page) {
+      page = await this.reader.read(offset, this.pages.size);
+      if (page.length < this.pages.size) {
+        throw new Error(`Page at offset ${offset} extends past the end of the file`);
+      }
+      if (this.pageCache.size >= PAGE_CACHE_SIZE) {
+        this.pageCache.clear();
+      }
+      this.pageCache.set(offset, page);
+    }
+
+    const type = page[this.pages.type];
+    if (type !== pageType) {
+      throw new Error(`Expected B-tree page type 0x${pageType.toString(16)} at offset ${offset}, found 0x${type.toString(16)}`);
+    }
+    return page;
+  }
+
+  private readKey(view: DataView, offset: number): number {
+    return this.unicode ? readUint64(view, offset) : view.getUint32(offset, true);
+  }
+
+  private readBid(view: DataView, offset: number): number {
+    return this.unicode ? readUint64(view, offset) : view.getUint32(offset, true);
+  }
+}
+
+/**
+ * Internal blocks (XBLOCK, SLBLOCK, ...) have bit 1 of their BID set and are never encrypted
+ */
+function isInternal(bid: number): boolean {
+  return Math.floor(bid / 2) % 2 === 1;
+}
+
+/**
+ * Read a little-endian 64-bit unsigned integer as a number (exact below 2^53)
+ */
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset + 4, true) * 2 ** 32 + view.getUint32(offset, true);
+}
+
+/**
+ * Decompress a zlib-compressed block (4 KB page OST files)
+ * Node.js uses zlib, which unlike DecompressionStream is there on every supported version.
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    const zlib = await import('zlib');
+    return zlib.inflateSync(data);
+  }
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
@@ -0,0 +1,332 @@
+/**
+ * OLM Parser - Google Takeout Parser
+ * @packageDocumentation
+ */
+
+import type {
+  Email,
+  Contact,
+  CalendarEvent,
+  ParseOptions,
+  ParseResult,
+  ParseProgress,
+  StreamInput,
+  ArchiveItem,
+} from '../types';
+import { openRandomAccess } from './input';
+import { ZipArchive, type ZipEntry } from './zip';
+import { MBOXParser } from './mbox';
+import { SenderContactTracker } from './contacts';
+import { CalendarInviteTracker, occurrenceKey } from './invites';
+import { FolderTracker } from './folders';
+import { parseVCards } from './vcard';
+import { parseICalendar } from './ical';
+import { decodeBytes } from '../utils';
+import { throwIfAborted, reportDiagnostic, ParseAbortedError, ParseError } from '../errors';
+
+/**
+ * Extended options for Google Takeout parsing
+ */
+export interface TakeoutParseOptions extends ParseOptions {
+  /**
+   * If true, also extract contacts from email senders
+   * @default true
+   */
+  extractContacts?: boolean;
+}
+
+/**
+ * Parser for Google Takeout archives (`takeout-*.zip`)
+ *
+ * Reads every product Takeout exports that this library models:
+ * - `Mail/*.mbox` - Gmail, with labels, via {@link MBOXParser}
+ * - `Contacts/**.vcf` - Google Contacts
+ * - `Calendar/*.ics` - Google Calendar, plus meetings known only from invitations in Gmail
+ *
+ * The ZIP is read entry by entry and the mailbox is inflated as it is parsed,
+ * so archives larger than memory (Takeout splits at 2GB to 50GB) work when
+ * given as a file path (Node.js) or File/Blob.
+ *
+ * @example
+ * ```typescript
+ * import { TakeoutParser } from '@technical-1/email-archive-parser';
+ *
+ * const parser = new TakeoutParser();
+ * const result = await parser.parseFile('/path/to/takeout-20240115T103000Z-001.zip');
+ *
+ * console.log(`${result.emails.length} emails, ${result.contacts.length} contacts`);
+ * ```
+ */
+export class TakeoutParser {
+  private readonly CHUNK_SIZE = 5 * 1024 * 1024; // 5MB chunks
+
+  /**
+   * Parse a Google Takeout archive
+   * @param input - File/Blob, Buffer, file path (Node.js), ReadableStream or Node.js Readable
+   * @param options - Parsing options
+   * @returns Parsed data including emails, contacts, and calendar events
+   */
+  async parse(input: StreamInput, options: TakeoutParseOptions = {}): Promise<ParseResult> {
+    const result: ParseResult = {
+      emails: [],
+      contacts: [],
+      calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
+      stats: {
+        emailCount: 0,
+        contactCount: 0,
+        calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
+        accountCount: 0,
+        purchaseCount: 0,
+        subscriptionCount: 0,
+        newsletterCount: 0,
+      },
+      diagnostics: [],
+    };
+
+    const streamOptions: TakeoutParseOptions = {
+      ...options,
+      onWarning: (diagnostic) => {
+        result.diagnostics.push(diagnostic);
+        options.onWarning?.(diagnostic);
+      },
+    };
+
+    for await (const item of this.stream(input, streamOptions)) {
+      if (item.type === 'email') {
+        result.emails.push(item.email);
+        result.stats.emailCount++;
+      } else if (item.type === 'contact') {
+        result.contacts.push(item.contact);
+        result.stats.contactCount++;
+      } else if (item.type === 'calendarEvent') {
+        result.calendarEvents.push(item.event);
+        result.stats.calendarEventCount++;
+      } else if (item.type === 'folder') {
+        result.folders.push(item.folder);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a Google Takeout archive from a file path (Node.js only)
+   *
+   * @param filePath - Path to the Takeout ZIP
+   * @param options - Parsing options
+   * @returns Parsed data
+   */
+  async parseFile(filePath: string, options: TakeoutParseOptions = {}): Promise<ParseResult> {
+    return this.parse(filePath, options);
+  }
+
+  /**
+   * Stream emails, then their Gmail labels as folders, then contacts, then calendar events from a Google Takeout archive
+   *
+   * @param input - File/Blob, Buffer, file path (Node.js), ReadableStream or Node.js Readable
+   * @param options - Parsing options
+   */
+  async *stream(input: StreamInput, options: TakeoutParseOptions = {}): AsyncGenerator<ArchiveItem> {
+    const { onProgress, signal } = options;
+    throwIfAborted(signal);
+
+    this.reportProgress(onProgress, 'extracting', 0, 'Reading Takeout archive...');
+
+    const reader = await openRandomAccess(input);
+    try {
+      let zip: ZipArchive;
+      try {
+        zip = await ZipArchive.open(reader);
+      } catch (error) {
+        throw new Error(
+          `Failed to parse Takeout archive: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+      throwIfAborted(signal);
+
+      const files = zip.entries.filter((entry) => !entry.dir);
+      const mailboxes = files.filter((entry) => this.hasExtension(entry, '.mbox'));
+      const vCards = files.filter((entry) => this.hasExtension(entry, '.vcf'));
+      const calendars = files.filter((entry) => this.hasExtension(entry, '.ics'));
+
+      this.reportProgress(
+        onProgress,
+        'extracting',
+        100,
+        `Found ${mailboxes.length} mailboxes, ${vCards.length} contact files and ${calendars.length} calendars`
+      );
+
+      // Stage 1: Gmail, streamed through the MBOX parser
+      const senders = new SenderContactTracker();
+      const invites = new CalendarInviteTracker();
+      const folders = new FolderTracker();
+      let emailCount = 0;
+
+      for (const entry of mailboxes) {
+        for await (const email of this.readMailbox(zip, entry, options)) {
+          senders.track(email);
+          invites.track(email);
+          folders.track(email);
+          emailCount++;
+          yield { type: 'email', email };
+        }
+      }
+
+      // Gmail labels
+      for (const folder of folders.toFolders()) {
+        yield { type: 'folder', folder };
+      }
+
+      // Stage 2: Google Contacts, with the email stats of their senders merged in, then other senders
+      this.reportProgress(onProgress, 'parsing_contacts', 0, 'Parsing contacts...');
+      const existingContacts = new Set<string>();
+      let contactCount = 0;
+
+      for (const entry of vCards) {
+        throwIfAborted(signal);
+        const bytes = await this.readEntry(zip, entry, options);
+        for (const contact of bytes !== null ? parseVCards(bytes, options.fallbackCharset) : []) {
+          // The same contact is exported once per contact group it belongs to
+          const key = contact.email ? contact.email.toLowerCase() : `name:${contact.name}`;
+          if (existingContacts.has(key)) continue;
+          existingContacts.add(key);
+          senders.mergeInto(contact);
+          contactCount++;
+          yield { type: 'contact', contact: contact as Contact };
+        }
+      }
+
+      if (options.extractContacts !== false) {
+        for (const contact of senders.toContacts()) {
+          throwIfAborted(signal);
+          contactCount++;
+          yield { type: 'contact', contact };
+        }
+      }
+      this.reportProgress(onProgress, 'parsing_contacts', 100, `Parsed ${contactCount} total contacts`);
+
+      // Stage 3: Google Calendar, then meetings that only appear as invitations in Gmail
+      const inviteEvents = invites.toEvents();
+      if (calendars.length > 0 || inviteEvents.length > 0) {
+        this.reportProgress(onProgress, 'parsing_calendar', 0, 'Parsing calendar...');
+        const calendarKeys = new Set<string>();
+        let eventCount = 0;
+
+        for (let i = 0; i < calendars.length; i++) {
+          throwIfAborted(signal);
+          const bytes = await this.readEntry(zip, calendars[i], options);
+          for (const event of bytes !== null ? parseICalendar(decodeBytes(bytes, undefined, options.fallbackCharset)) : []) {
+            const key = occurrenceKey(event);
+            if (key !== null) calendarKeys.add(key);
+            eventCount++;
+            yield { type: 'calendarEvent', event: event as CalendarEvent };
+          }
+
+          this.reportProgress(
+            onProgress,
+            'parsing_calendar',
+            Math.round(((i + 1) / calendars.length) * 100),
+            `Parsed ${eventCount} calendar events`
+          );
+        }
+
+        for (const event of inviteEvents) {
+          throwIfAborted(signal);
+          const key = occurrenceKey(event);
+          if (key !== null && calendarKeys.has(key)) continue;
+          eventCount++;
+          yield { type: 'calendarEvent', event };
+        }
+      }
+
+      this.reportProgress(onProgress, 'complete', 100, `Parsed ${emailCount} emails successfully`);
+    } finally {
+      await reader.close();
+    }
+  }
+
+  /**
+   * Parse a Gmail mailbox as it is inflated from the archive
+   *
+   * Diagnostics get the mailbox's path added to their location, and a
+   * mailbox that can't be read to the end is reported and cut short.
+   */
+  private async *readMailbox(
+    zip: ZipArchive,
+    entry: ZipEntry,
+    options: TakeoutParseOptions
+  ): AsyncGenerator<Email> {
+    const mboxOptions: ParseOptions = {
+      ...options,
+      // Progress stays in the email stage until the whole archive is done
+      // (invitations are turned into events with the rest of the calendar)
+      onProgress: options.onProgress
+        ? (progress) => {
+            if (progress.stage !== 'complete' && progress.stage !== 'parsing_calendar') options.onProgress!(progress);
+          }
+        : undefined,
+      onWarning: (diagnostic) =>
+        options.onWarning?.({ ...diagnostic, location: { ...diagnostic.location, path: entry.name } }),
+    };
+
+    try {
+      const chunks = zip.readChunks(entry, this.CHUNK_SIZE);
+      for await (const item of new MBOXParser().stream(chunks, { ...mboxOptions, extractContacts: false })) {
+        if (item.type === 'email') yield item.email;
+      }
+    } catch (error) {
+      if (error instanceof ParseAbortedError || error instanceof ParseError) throw error;
+      this.reportReadError(options, entry, error);
+    }
+  }
+
+  /**
+   * Read a (small) entry, reporting a diagnostic if it can't be decompressed
+   */
+  private async readEntry(zip: ZipArchive, entry: ZipEntry, options: ParseOptions): Promise<Uint8Array | null> {
+    try {
+      return await zip.read(entry);
+    } catch (error) {
+      this.reportReadError(options, entry, error);
+      return null;
+    }
+  }
+
+  private reportReadError(options: ParseOptions, entry: ZipEntry, error: unknown): void {
+    reportDiagnostic(options, {
+      severity: 'error',
+      code: 'entry_read_failed',
+      message: `Failed to read ${entry.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      location: { path: entry.name },
+    });
+  }
+
+  private hasExtension(entry: ZipEntry, extension: string): boolean {
+    const base = (entry.name.split('/').pop() || '').toLowerCase();
+    return base.endsWith(extension) && !base.startsWith('._');
+  }
+
+  private reportProgress(
+    callback: ((progress: ParseProgress) => void) | undefined,
+    stage: ParseProgress['stage'],
+    progress: number,
+    message: string
+  ): void {
+    callback?.({ stage, progress, message });
+  }
+
+  /**
+   * Check if a file is a Google Takeout archive
+   * @param file - File to check
+   * @returns True if the file is named like a Takeout download (`takeout-*.zip`)
+   */
+  static isTakeoutFile(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return name.startsWith('takeout') && name.endsWith('.zip');
+  }
+}
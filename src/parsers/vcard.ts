@@ -0,0 +1,412 @@
+/**
+ * OLM Parser - vCard Parser
+ * @packageDocumentation
+ */
+
+import type {
+  Contact,
+  ContactAddress,
+  ParseOptions,
+  ParseResult,
+  ParseProgress,
+  StreamInput,
+  ArchiveItem,
+} from '../types';
+import {
+  cleanEmailAddress,
+  binaryStringToBytes,
+  bytesToBinaryString,
+  decodeBytes,
+  decodeQuotedPrintableBytes,
+} from '../utils';
+import { readAll } from './input';
+import { throwIfAborted, reportDiagnostic } from '../errors';
+
+/**
+ * One or more vCard files: a File/Blob, Buffer or raw bytes, a file path
+ * (Node.js), a stream, or an array of files
+ */
+export type VCardInput = StreamInput | Array<File | Blob | Buffer | ArrayBuffer | Uint8Array | string>;
+
+/**
+ * One `NAME;PARAM=VALUE:value` content line of a vCard
+ */
+interface VCardProperty {
+  /** Upper-cased name without its group prefix (`item1.EMAIL` is `EMAIL`) */
+  name: string;
+  /** Parameter values by upper-cased name; vCard 2.1 bare parameters (`TEL;CELL`) are listed under TYPE */
+  params: Record<string, string[]>;
+  /** Raw value, one char per byte */
+  value: string;
+}
+
+/** vCard 2.1 bare parameters that name an encoding rather than a type */
+const BARE_ENCODINGS = ['quoted-printable', 'base64', '8bit', '7bit'];
+
+/**
+ * Parser for vCard (`.vcf`) contact files, versions 2.1, 3.0 and 4.0
+ *
+ * Reads the exports of iCloud, Google Contacts, Outlook and Android phones:
+ * folded lines, quoted-printable and charset-tagged values, every EMAIL, TEL
+ * and ADR (preferred first), ORG, TITLE, NOTE, CATEGORIES and PHOTO.
+ *
+ * @example
+ * ```typescript
+ * import { VCardParser, MBOXParser, mergeContacts } from '@technical-1/email-archive-parser';
+ *
+ * const saved = await new VCardParser().parseFile('/path/to/contacts.vcf');
+ * const mail = await new MBOXParser().parseFile('/path/to/archive.mbox');
+ *
+ * // Address book details plus email counts, one contact per person
+ * const contacts = mergeContacts(saved.contacts, mail.contacts);
+ * ```
+ */
+export class VCardParser {
+  /**
+   * Parse one or more vCard files
+   * @param input - vCard file(s) (see {@link VCardInput})
+   * @param options - Parsing options
+   * @returns Parsed data; only `contacts` is filled
+   */
+  async parse(input: VCardInput, options: ParseOptions = {}): Promise<ParseResult> {
+    const result: ParseResult = {
+      emails: [],
+      contacts: [],
+      calendarEvents: [],
+      folders: [],
+      tasks: [],
+      notes: [],
+      stats: {
+        emailCount: 0,
+        contactCount: 0,
+        calendarEventCount: 0,
+        taskCount: 0,
+        noteCount: 0,
+        accountCount: 0,
+        purchaseCount: 0,
+        subscriptionCount: 0,
+        newsletterCount: 0,
+      },
+      diagnostics: [],
+    };
+
+    const streamOptions: ParseOptions = {
+      ...options,
+      onWarning: (diagnostic) => {
+        result.diagnostics.push(diagnostic);
+        options.onWarning?.(diagnostic);
+      },
+    };
+
+    for await (const item of this.stream(input, streamOptions)) {
+      if (item.type === 'contact') {
+        result.contacts.push(item.contact);
+        result.stats.contactCount++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a vCard file (Node.js only)
+   *
+   * @param path - Path to a `.vcf` file
+   * @param options - Parsing options
+   * @returns Parsed data
+   */
+  async parseFile(path: string, options: ParseOptions = {}): Promise<ParseResult> {
+    return this.parse(path, options);
+  }
+
+  /**
+   * Stream the contacts of one or more vCard files
+   *
+   * @param input - vCard file(s) (see {@link VCardInput})
+   * @param options - Parsing options
+   */
+  async *stream(input: VCardInput, options: ParseOptions = {}): AsyncGenerator<ArchiveItem> {
+    const { onProgress, signal } = options;
+    throwIfAborted(signal);
+
+    const inputs = Array.isArray(input) ? input : [input];
+    let contactCount = 0;
+
+    this.reportProgress(onProgress, 'parsing_contacts', 0, 'Parsing contacts...');
+
+    for (let i = 0; i < inputs.length; i++) {
+      throwIfAborted(signal);
+      const name = this.getName(inputs[i], i);
+
+      let bytes: Uint8Array | null = null;
+      try {
+        const data = await readAll(inputs[i]);
+        bytes = data instanceof Uint8Array
+          ? data
+          : new Uint8Array(data instanceof ArrayBuffer ? data : await data.arrayBuffer());
+      } catch (error) {
+        reportDiagnostic(options, {
+          severity: 'error',
+          code: 'entry_read_failed',
+          message: `Failed to read ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          location: { path: name },
+        });
+      }
+
+      for (const contact of bytes ? parseVCards(bytes, options.fallbackCharset) : []) {
+        throwIfAborted(signal);
+        contactCount++;
+        yield { type: 'contact', contact: contact as Contact };
+      }
+
+      this.reportProgress(
+        onProgress,
+        'parsing_contacts',
+        Math.round(((i + 1) / inputs.length) * 100),
+        `Parsed ${contactCount} contacts`
+      );
+    }
+
+    this.reportProgress(onProgress, 'complete', 100, `Parsed ${contactCount} contacts successfully`);
+  }
+
+  private getName(input: VCardInput, index: number): string {
+    if (typeof input === 'string') return input;
+    if (typeof File !== 'undefined' && input instanceof File) return input.name;
+    return `contacts-${index + 1}.vcf`;
+  }
+
+  private reportProgress(
+    callback: ((progress: ParseProgress) => void) | undefined,
+    stage: ParseProgress['stage'],
+    progress: number,
+    message: string
+  ): void {
+    callback?.({ stage, progress, message });
+  }
+
+  /**
+   * Check if a file is a vCard file
+   * @param file - File to check
+   * @returns True if the file appears to be a vCard file
+   */
+  static isVCardFile(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return (
+      name.endsWith('.vcf') ||
+      name.endsWith('.vcard') ||
+      file.type === 'text/vcard' ||
+      file.type === 'text/x-vcard'
+    );
+  }
+}
+
+/**
+ * Parse the contacts in vCard data (one or more `BEGIN:VCARD` blocks)
+ *
+ * Cards with neither a name nor an email address are skipped.
+ *
+ * @param bytes - Raw vCard file content
+ * @param fallbackCharset - Charset for values that declare none and aren't valid UTF-8
+ * @internal
+ */
+export function parseVCards(bytes: Uint8Array, fallbackCharset?: string): Omit<Contact, 'id'>[] {
+  const contacts: Omit<Contact, 'id'>[] = [];
+  const lines = unfoldLines(bytesToBinaryString(bytes));
+  let card: VCardProperty[] | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const property = parseProperty(lines[i]);
+    if (!property) continue;
+
+    // vCard 2.1 quoted-printable values continue on the next line after a soft break
+    if (hasParam(property, 'ENCODING', 'quoted-printable')) {
+      while (property.value.endsWith('=') && i + 1 < lines.length) {
+        property.value = property.value.slice(0, -1) + lines[++i];
+      }
+    }
+
+    const keyword = property.value.trim().toUpperCase();
+    if (property.name === 'BEGIN' && keyword === 'VCARD') {
+      card = [];
+    } else if (property.name === 'END' && keyword === 'VCARD') {
+      const contact = card ? toContact(card, fallbackCharset) : null;
+      if (contact) contacts.push(contact);
+      card = null;
+    } else if (card) {
+      card.push(property);
+    }
+  }
+
+  return contacts;
+}
+
+function toContact(card: VCardProperty[], fallbackCharset?: string): Omit<Contact, 'id'> | null {
+  const text = (property: VCardProperty | undefined) =>
+    property ? unescapeValue(decodeValue(property, fallbackCharset)).trim() : '';
+  const parts = (property: VCardProperty | undefined, separator: ';' | ',') =>
+    property
+      ? splitValue(decodeValue(property, fallbackCharset), separator).map((part) => unescapeValue(part).trim())
+      : [];
+  const first = (name: string) => card.find((property) => property.name === name);
+  const all = (name: string) => sortByPreference(card.filter((property) => property.name === name));
+
+  const emails = unique(all('EMAIL').map((property) => cleanEmailAddress(text(property))));
+  const phones = unique(all('TEL').map((property) => text(property).replace(/^tel:/i, '')));
+
+  const [family = '', given = '', additional = '', prefix = '', suffix = ''] = parts(first('N'), ';');
+  const organization = parts(first('ORG'), ';').filter(Boolean).join(', ');
+  const name =
+    text(first('FN')) ||
+    [prefix, given, additional, family, suffix].filter(Boolean).join(' ') ||
+    organization ||
+    (emails[0] ?? '').split('@')[0];
+  if (!name && emails.length === 0) return null;
+
+  const addresses = all('ADR').map((property) => toAddress(property, parts(property, ';')));
+  const title = text(first('TITLE'));
+  const notes = text(first('NOTE'));
+  const tags = unique(card.filter((property) => property.name === 'CATEGORIES').flatMap((property) => parts(property, ',')));
+  const photo = toPhoto(first('PHOTO'));
+
+  return {
+    name,
+    email: emails[0] ?? '',
+    emails: emails.length > 1 ? emails : undefined,
+    phone: phones[0],
+    phones: phones.length > 1 ? phones : undefined,
+    organization: organization || undefined,
+    title: title || undefined,
+    addresses: addresses.length > 0 ? addresses : undefined,
+    photo,
+    notes: notes || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    emailCount: 0,
+    lastEmailDate: new Date(),
+  };
+}
+
+/**
+ * Build an address from the ADR components: PO box; extended; street; locality; region; postal code; country
+ */
+function toAddress(property: VCardProperty, components: string[]): ContactAddress {
+  const [poBox = '', extended = '', street = '', city = '', region = '', postalCode = '', country = ''] = components;
+  const type = property.params.TYPE?.find((type) => type !== 'pref');
+  const streetLines = [poBox, extended, street].filter(Boolean).join('\n');
+
+  return {
+    type,
+    street: streetLines || undefined,
+    city: city || undefined,
+    region: region || undefined,
+    postalCode: postalCode || undefined,
+    country: country || undefined,
+  };
+}
+
+/**
+ * Turn an inline (base64) photo into a `data:` URL; links are kept as they are
+ */
+function toPhoto(property: VCardProperty | undefined): string | undefined {
+  if (!property) return undefined;
+  const value = property.value.trim();
+
+  if (hasParam(property, 'ENCODING', 'b') || hasParam(property, 'ENCODING', 'base64')) {
+    const data = value.replace(/\s+/g, '');
+    if (!data) return undefined;
+    const type = property.params.TYPE?.find((type) => type !== 'pref') || 'jpeg';
+    const mimeType = property.params.MEDIATYPE?.[0] || (type.includes('/') ? type : `image/${type}`);
+    return `data:${mimeType};base64,${data}`;
+  }
+
+  return /^(data:|https?:)/i.test(value) ? value : undefined;
+}
+
+/**
+ * Split text into content lines, joining folded continuation lines
+ */
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+/**
+ * Split a content line into its name, parameters and value
+ */
+function parseProperty(line: string): VCardProperty | null {
+  // The value starts at the first colon that isn't inside a quoted parameter value
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string[]> = {};
+  const add = (name: string, values: string[]) => {
+    (params[name] ??= []).push(...values);
+  };
+
+  for (const param of rawParams) {
+    const equals = param.indexOf('=');
+    if (equals < 0) {
+      const value = param.trim().toLowerCase();
+      add(BARE_ENCODINGS.includes(value) ? 'ENCODING' : 'TYPE', [value]);
+      continue;
+    }
+
+    const name = param.slice(0, equals).trim().toUpperCase();
+    const values = param.slice(equals + 1).replace(/"/g, '').split(',');
+    add(name, name === 'CHARSET' ? values : values.map((value) => value.trim().toLowerCase()));
+  }
+
+  // vCard 4.0 marks the preferred value with PREF=1 instead of TYPE=pref
+  if (params.PREF) add('TYPE', ['pref']);
+
+  return {
+    name: rawName.replace(/^[^.]*\./, '').trim().toUpperCase(),
+    params,
+    value: line.slice(colon + 1),
+  };
+}
+
+function hasParam(property: VCardProperty, name: string, value: string): boolean {
+  return property.params[name]?.includes(value) ?? false;
+}
+
+/**
+ * Decode a value's quoted-printable encoding and charset
+ */
+function decodeValue(property: VCardProperty, fallbackCharset?: string): string {
+  const bytes = hasParam(property, 'ENCODING', 'quoted-printable')
+    ? decodeQuotedPrintableBytes(property.value)
+    : binaryStringToBytes(property.value);
+  return decodeBytes(bytes, property.params.CHARSET?.[0], fallbackCharset);
+}
+
+/**
+ * Put the values marked preferred first, keeping the file order otherwise
+ */
+function sortByPreference(properties: VCardProperty[]): VCardProperty[] {
+  const preferred = (property: VCardProperty) => hasParam(property, 'TYPE', 'pref');
+  return [...properties.filter(preferred), ...properties.filter((property) => !preferred(property))];
+}
+
+/**
+ * Split a structured value on a separator that isn't backslash-escaped
+ */
+function splitValue(value: string, separator: ';' | ','): string[] {
+  return value.split(separator === ';' ? /(?<!\\);/ : /(?<!\\),/);
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\([nN,;:\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
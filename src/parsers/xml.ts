@@ -0,0 +1,253 @@
+/**
+ * OLM Parser - XML Tokenizer
+ * @packageDocumentation
+ */
+
+/**
+ * A token read from an XML document
+ * @internal
+ */
+export type XMLToken =
+  | { type: 'open'; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { type: 'close'; name: string }
+  | { type: 'text'; text: string };
+
+/**
+ * An element of a parsed XML document
+ * @internal
+ */
+export interface XMLElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLElement[];
+  /** Text of the element and its descendants, like the DOM's textContent */
+  text: string;
+}
+
+/** Entities predefined by XML */
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+const NAME = /[A-Za-z_:][\w.:-]*/y;
+const ATTRIBUTE = /\s*([A-Za-z_:][\w.:-]*)\s*=\s*(?:"([^"<]*)"|'([^'<]*)')/y;
+
+/**
+ * Read the tokens of an XML document, one at a time
+ *
+ * Entity and character references are decoded and CDATA sections become
+ * text; comments, processing instructions and the DOCTYPE are skipped.
+ * Line endings are normalized to `\n` as an XML processor does.
+ * @throws Error if the document is not well-formed
+ * @internal
+ */
+export function* tokenizeXML(xml: string): Generator<XMLToken> {
+  const text = xml.replace(/\r\n?/g, '\n');
+  let pos = 0;
+
+  while (pos < text.length) {
+    const lt = text.indexOf('<', pos);
+    const end = lt === -1 ? text.length : lt;
+    if (end > pos) {
+      yield { type: 'text', text: decodeEntities(text.substring(pos, end)) };
+    }
+    if (lt === -1) return;
+    pos = lt;
+
+    if (text.startsWith('<!--', pos)) {
+      pos = skipPast(text, '-->', pos, 'comment');
+    } else if (text.startsWith('<![CDATA[', pos)) {
+      const end = text.indexOf(']]>', pos);
+      if (end === -1) throw xmlError('Unterminated CDATA section', text, pos);
+      yield { type: 'text', text: text.substring(pos + 9, end) };
+      pos = end + 3;
+    } else if (text.startsWith('<?', pos)) {
+      pos = skipPast(text, '?>', pos, 'processing instruction');
+    } else if (text.startsWith('<!', pos)) {
+      pos = skipDoctype(text, pos);
+    } else if (text.startsWith('</', pos)) {
+      const name = readName(text, pos + 2);
+      const end = text.indexOf('>', pos);
+      if (end === -1 || text.substring(pos + 2 + name.length, end).trim()) {
+        throw xmlError(`Malformed closing tag </${name}>`, text, pos);
+      }
+      yield { type: 'close', name };
+      pos = end + 1;
+    } else {
+      const name = readName(text, pos + 1);
+      const attributes: Record<string, string> = {};
+      pos += 1 + name.length;
+
+      for (;;) {
+        ATTRIBUTE.lastIndex = pos;
+        const match = ATTRIBUTE.exec(text);
+        if (!match) break;
+        if (match[1] in attributes) throw xmlError(`Duplicate attribute ${match[1]}`, text, pos);
+        // Attribute values have their whitespace normalized to spaces
+        attributes[match[1]] = decodeEntities(match[2] ?? match[3]).replace(/[\t\n]/g, ' ');
+        pos = ATTRIBUTE.lastIndex;
+      }
+
+      const close = /\s*(\/?)>/y;
+      close.lastIndex = pos;
+      const match = close.exec(text);
+      if (!match) throw xmlError(`Malformed tag <${name}>`, text, pos);
+      yield { type: 'open', name, attributes, selfClosing: match[1] === '/' };
+      pos = close.lastIndex;
+    }
+  }
+}
+
+/**
+ * Parse an XML document into a tree of elements
+ * @returns A document node (named `#document`) whose only child is the root element
+ * @throws Error if the document is not well-formed
+ * @internal
+ */
+export function parseXML(xml: string): XMLElement {
+  const document: XMLElement = { name: '#document', attributes: {}, children: [], text: '' };
+  for (const root of buildElements(xml, (_name, depth) => depth === 0)) {
+    document.children.push(root);
+    document.text = root.text;
+  }
+  return document;
+}
+
+/**
+ * Parse the elements with a given name one at a time, as each one closes
+ *
+ * Only those elements are built into trees, so a large document such as an
+ * address book holds one record in memory at a time rather than the whole
+ * document. An element nested inside another match comes as part of it.
+ * @throws Error if the document is not well-formed; elements before the error have already been yielded
+ * @internal
+ */
+export function parseXMLElements(xml: string, name: string): Generator<XMLElement> {
+  return buildElements(xml, (elementName) => elementName === name);
+}
+
+/**
+ * First descendant element with one of the given names, in document order
+ * @internal
+ */
+export function findElement(parent: XMLElement, ...names: string[]): XMLElement | null {
+  for (const child of parent.children) {
+    if (names.includes(child.name)) return child;
+    const found = findElement(child, ...names);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * All descendant elements with the given name, in document order
+ * @internal
+ */
+export function findElements(parent: XMLElement, name: string, found: XMLElement[] = []): XMLElement[] {
+  for (const child of parent.children) {
+    if (child.name === name) found.push(child);
+    findElements(child, name, found);
+  }
+  return found;
+}
+
+/**
+ * Check a document's nesting and build a tree for each outermost element
+ * `select` picks, yielding it when it closes
+ */
+function* buildElements(xml: string, select: (name: string, depth: number) => boolean): Generator<XMLElement> {
+  const open: string[] = [];
+  const building: XMLElement[] = [];
+  let hasRoot = false;
+
+  for (const token of tokenizeXML(xml)) {
+    const parent = building[building.length - 1];
+
+    if (token.type === 'text') {
+      if (parent) {
+        parent.text += token.text;
+      } else if (open.length === 0 && token.text.trim()) {
+        throw new Error('Text is not allowed outside the root element');
+      }
+    } else if (token.type === 'open') {
+      if (open.length === 0) {
+        if (hasRoot) throw new Error(`Unexpected element <${token.name}> after the root element`);
+        hasRoot = true;
+      }
+      if (parent || select(token.name, open.length)) {
+        const element: XMLElement = { name: token.name, attributes: token.attributes, children: [], text: '' };
+        parent?.children.push(element);
+        if (!token.selfClosing) building.push(element);
+        else if (!parent) yield element;
+      }
+      if (!token.selfClosing) open.push(token.name);
+    } else {
+      const current = open[open.length - 1];
+      if (token.name !== current) {
+        throw new Error(
+          current === undefined
+            ? `Unexpected closing tag </${token.name}>`
+            : `Closing tag </${token.name}> does not match <${current}>`
+        );
+      }
+      open.pop();
+      if (parent) {
+        building.pop();
+        const outer = building[building.length - 1];
+        if (outer) outer.text += parent.text;
+        else yield parent;
+      }
+    }
+  }
+
+  if (open.length > 0) throw new Error(`Unclosed element <${open[open.length - 1]}>`);
+  if (!hasRoot) throw new Error('No root element');
+}
+
+function readName(text: string, pos: number): string {
+  NAME.lastIndex = pos;
+  const match = NAME.exec(text);
+  if (!match) throw xmlError('Invalid tag name', text, pos);
+  return match[0];
+}
+
+function skipPast(text: string, terminator: string, pos: number, what: string): number {
+  const end = text.indexOf(terminator, pos);
+  if (end === -1) throw xmlError(`Unterminated ${what}`, text, pos);
+  return end + terminator.length;
+}
+
+/**
+ * Skip a <!DOCTYPE ...> declaration, including an internal subset in brackets
+ */
+function skipDoctype(text: string, pos: number): number {
+  let depth = 0;
+  for (let i = pos + 2; i < text.length; i++) {
+    if (text[i] === '[') depth++;
+    else if (text[i] === ']') depth--;
+    else if (text[i] === '>' && depth === 0) return i + 1;
+  }
+  throw xmlError('Unterminated declaration', text, pos);
+}
+
+/**
+ * Decode entity and character references; unknown entities are kept as written
+ */
+function decodeEntities(value: string): string {
+  if (!value.includes('&')) return value;
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (reference, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity] ?? reference;
+    const code = entity[1] === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+    if (code > 0x10ffff) throw new Error(`Invalid character reference ${reference}`);
+    return String.fromCodePoint(code);
+  });
+}
+
+function xmlError(message: string, text: string, pos: number): Error {
+  const line = text.substring(0, pos).split('\n').length;
+  return new Error(`${message} at line ${line}`);
+}
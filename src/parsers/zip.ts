@@ -0,0 +1,295 @@
+/**
+ * OLM Parser - Streaming ZIP Reader
+ * @packageDocumentation
+ */
+
+import type { RandomAccessReader } from './input';
+
+/** Record signatures */
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+
+/** Fixed record sizes */
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_LOCATOR_SIZE = 20;
+
+/** The end record is followed by a comment of at most 64KB */
+const MAX_END_SEARCH = END_OF_CENTRAL_DIRECTORY_SIZE + 0xffff;
+
+/** 32-bit fields hold this when the real value is in the ZIP64 extra field */
+const ZIP64_MARKER = 0xffffffff;
+
+/** Compression methods */
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * A file or directory listed in a ZIP archive's central directory
+ * @internal
+ */
+export interface ZipEntry {
+  /** Path inside the archive, with `/` separators */
+  name: string;
+  /** Whether the entry is a directory */
+  dir: boolean;
+  /** Compression method (0 stored, 8 deflate) */
+  method: number;
+  compressedSize: number;
+  /** Uncompressed size */
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * ZIP archive reader that never holds more than one chunk of an entry in memory
+ *
+ * Only the central directory is loaded; entries are read and inflated on
+ * demand, so archives far larger than memory (and ZIP64 archives over 4GB)
+ * can be processed.
+ * @internal
+ */
+export class ZipArchive {
+  private constructor(
+    private readonly reader: RandomAccessReader,
+    /** Entries in central directory order */
+    readonly entries: ZipEntry[]
+  ) {}
+
+  /**
+   * Read the central directory of a ZIP archive
+   * @throws If the archive has no end of central directory record
+   */
+  static async open(reader: RandomAccessReader): Promise<ZipArchive> {
+    const tailStart = Math.max(0, reader.size - MAX_END_SEARCH);
+    const tail = await reader.read(tailStart, reader.size - tailStart);
+    const tailView = toView(tail);
+
+    let endOffset = -1;
+    for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+      if (tailView.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error('Not a ZIP archive: end of central directory not found');
+    }
+
+    let entryCount = tailView.getUint16(endOffset + 10, true);
+    let directorySize = tailView.getUint32(endOffset + 12, true);
+    let directoryOffset = tailView.getUint32(endOffset + 16, true);
+
+    // ZIP64 archives keep the real values in a separate end record, found through the locator
+    const locatorOffset = endOffset - ZIP64_LOCATOR_SIZE;
+    if (locatorOffset >= 0 && tailView.getUint32(locatorOffset, true) === ZIP64_LOCATOR_SIGNATURE) {
+      const zip64EndOffset = getUint64(tailView, locatorOffset + 8);
+      const zip64End = toView(await reader.read(zip64EndOffset, 56));
+      if (zip64End.byteLength < 56 || zip64End.getUint32(0, true) !== ZIP64_END_SIGNATURE) {
+        throw new Error('Corrupt ZIP64 end of central directory record');
+      }
+      entryCount = getUint64(zip64End, 32);
+      directorySize = getUint64(zip64End, 40);
+      directoryOffset = getUint64(zip64End, 48);
+    }
+
+    const directory = await reader.read(directoryOffset, directorySize);
+    return new ZipArchive(reader, readCentralDirectory(directory, entryCount));
+  }
+
+  /**
+   * Read an entry's uncompressed content as a sequence of chunks
+   * @param chunkSize - Size of the reads, and the minimum size of each chunk but the last
+   */
+  async *readChunks(entry: ZipEntry, chunkSize: number): AsyncGenerator<Uint8Array> {
+    const header = toView(await this.reader.read(entry.localHeaderOffset, LOCAL_HEADER_SIZE));
+    if (header.byteLength < LOCAL_HEADER_SIZE || header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt local header for ${entry.name}`);
+    }
+    const dataStart =
+      entry.localHeaderOffset + LOCAL_HEADER_SIZE + header.getUint16(26, true) + header.getUint16(28, true);
+
+    const compressed = this.readRange(dataStart, entry.compressedSize, chunkSize);
+    if (entry.method === METHOD_STORED) {
+      yield* compressed;
+    } else if (entry.method === METHOD_DEFLATE) {
+      // The decompressor emits small pieces; hand them on in reads of the requested size
+      yield* coalesce(inflateRaw(compressed), chunkSize);
+    } else {
+      throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+    }
+  }
+
+  /**
+   * Read an entry's whole uncompressed content
+   */
+  async read(entry: ZipEntry): Promise<Uint8Array> {
+    for await (const bytes of coalesce(this.readChunks(entry, 1024 * 1024), Infinity)) {
+      return bytes;
+    }
+    return new Uint8Array(0);
+  }
+
+  private async *readRange(start: number, length: number, chunkSize: number): AsyncGenerator<Uint8Array> {
+    for (let offset = 0; offset < length; offset += chunkSize) {
+      const chunk = await this.reader.read(start + offset, Math.min(chunkSize, length - offset));
+      if (chunk.length === 0) {
+        throw new Error('Unexpected end of ZIP archive');
+      }
+      yield chunk;
+    }
+  }
+}
+
+/**
+ * Parse the central directory's file headers
+ */
+function readCentralDirectory(directory: Uint8Array, entryCount: number): ZipEntry[] {
+  const view = toView(directory);
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+
+  let offset = 0;
+  while (entries.length < entryCount && offset + CENTRAL_HEADER_SIZE <= directory.length) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt ZIP central directory at entry ${entries.length}`);
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const nameStart = offset + CENTRAL_HEADER_SIZE;
+    const name = decoder.decode(directory.subarray(nameStart, nameStart + nameLength));
+
+    let size = view.getUint32(offset + 24, true);
+    let compressedSize = view.getUint32(offset + 20, true);
+    let localHeaderOffset = view.getUint32(offset + 42, true);
+
+    // The ZIP64 extra field lists only the values whose 32-bit field overflowed, in this order
+    const extraStart = nameStart + nameLength;
+    for (let field = extraStart; field + 4 <= extraStart + extraLength; ) {
+      const id = view.getUint16(field, true);
+      const fieldSize = view.getUint16(field + 2, true);
+      if (id === 0x0001) {
+        let value = field + 4;
+        if (size === ZIP64_MARKER) {
+          size = getUint64(view, value);
+          value += 8;
+        }
+        if (compressedSize === ZIP64_MARKER) {
+          compressedSize = getUint64(view, value);
+          value += 8;
+        }
+        if (localHeaderOffset === ZIP64_MARKER) {
+          localHeaderOffset = getUint64(view, value);
+        }
+      }
+      field += 4 + fieldSize;
+    }
+
+    entries.push({
+      name,
+      dir: name.endsWith('/'),
+      method: view.getUint16(offset + 10, true),
+      compressedSize,
+      size,
+      localHeaderOffset,
+    });
+
+    offset = extraStart + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Inflate a raw DEFLATE stream chunk by chunk
+ *
+ * Uses Node.js zlib under Node.js, where `DecompressionStream` has no
+ * `deflate-raw` before 20.12, and `DecompressionStream` in browsers.
+ */
+async function* inflateRaw(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    const zlib = await import('zlib');
+    const { Readable } = await import('stream');
+    const source = Readable.from(chunks);
+    const inflate = zlib.createInflateRaw();
+    source.on('error', (error) => inflate.destroy(error));
+    source.pipe(inflate);
+    try {
+      for await (const chunk of inflate) {
+        yield chunk as Buffer;
+      }
+    } finally {
+      source.destroy();
+      inflate.destroy();
+    }
+    return;
+  }
+
+  const stream = new DecompressionStream('deflate-raw');
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+
+  // Feed the decompressor concurrently; writes wait while the consumer is behind
+  const pump = (async () => {
+    try {
+      for await (const chunk of chunks) {
+        await writer.write(chunk as BufferSource);
+      }
+      await writer.close();
+    } catch (error) {
+      await writer.abort(error).catch(() => undefined);
+    }
+  })();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield value;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+    await pump;
+  }
+}
+
+/**
+ * Join small chunks into chunks of at least `size` bytes
+ */
+async function* coalesce(chunks: AsyncIterable<Uint8Array>, size: number): AsyncGenerator<Uint8Array> {
+  let pending: Uint8Array[] = [];
+  let length = 0;
+
+  const flush = (): Uint8Array => {
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of pending) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    pending = [];
+    length = 0;
+    return bytes;
+  };
+
+  for await (const chunk of chunks) {
+    pending.push(chunk);
+    length += chunk.length;
+    if (length >= size) yield flush();
+  }
+  if (length > 0) yield flush();
+}
+
+function getUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+function toView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
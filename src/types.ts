@@ -23,6 +23,26 @@ export interface Attachment {
   data?: string;
 }
 
+/**
+ * A mailbox from an address header (From, To, Cc, Bcc, Reply-To)
+ */
+export interface EmailAddress {
+  /** Display name (decoded), if present */
+  name?: string;
+  /** Email address */
+  address: string;
+}
+
+/**
+ * A raw message header, as it appeared in the source (unfolded, not RFC 2047 decoded)
+ */
+export interface EmailHeader {
+  /** Header name with its original casing */
+  name: string;
+  /** Header value */
+  value: string;
+}
+
 /**
  * Represents a parsed email
  */
@@ -41,6 +61,18 @@ export interface Email {
   cc?: string[];
   /** BCC recipients */
   bcc?: string[];
+  /** Reply-To addresses */
+  replyTo?: string[];
+  /** Sender with display name */
+  fromAddress?: EmailAddress;
+  /** To recipients with display names */
+  toAddresses?: EmailAddress[];
+  /** CC recipients with display names */
+  ccAddresses?: EmailAddress[];
+  /** BCC recipients with display names */
+  bccAddresses?: EmailAddress[];
+  /** Reply-To addresses with display names */
+  replyToAddresses?: EmailAddress[];
   /** Email sent/received date */
   date: Date;
   /** Plain text body */
@@ -55,18 +87,73 @@ export interface Email {
   isRead: boolean;
   /** Whether the email is starred/flagged */
   isStarred: boolean;
-  /** Folder identifier */
+  /** Whether the email has been replied to (when the archive records it) */
+  isReplied?: boolean;
+  /** Whether the email has been forwarded (when the archive records it) */
+  isForwarded?: boolean;
+  /** Whether the email is an unsent draft (when the archive records it) */
+  isDraft?: boolean;
+  /** Whether the email is marked as deleted but not yet expunged (when the archive records it) */
+  isTrashed?: boolean;
+  /** Importance the sender gave the email (when the archive records it) */
+  priority?: EmailPriority;
+  /** Categories the user filed the email under (Outlook) */
+  categories?: string[];
+  /** Folder identifier (the primary folder, for emails in several) */
   folderId: string;
+  /** Every folder the email is in, when it can be in several (Gmail labels) */
+  folderIds?: string[];
   /** Thread/conversation ID */
   threadId?: string;
   /** Original ID from the source archive */
   originalId?: string;
   /** Message-ID header */
   messageId?: string;
+  /** Message-ID of the email this one replies to (In-Reply-To header) */
+  inReplyTo?: string;
+  /** Message-IDs of the earlier emails in the thread, oldest first (References header) */
+  references?: string[];
   /** Labels/folders (from Gmail, etc.) */
   labels?: string[];
   /** Whether the email has attachments */
   hasAttachments?: boolean;
+  /**
+   * All headers in source order, including duplicates such as multiple `Received`
+   * (only when `includeHeaders` is set). Look up values with `getHeader`/`getHeaderValues`.
+   */
+  headers?: EmailHeader[];
+  /** Calendar invitation or reply carried by the email (a `text/calendar` part or `.ics` attachment) */
+  invite?: CalendarInvite;
+}
+
+/**
+ * Importance of an email
+ */
+export type EmailPriority = 'high' | 'normal' | 'low';
+
+/**
+ * A calendar message (iTIP) found in an email
+ */
+export interface CalendarInvite {
+  /** What the message does, e.g. 'request' (invite or update), 'reply' or 'cancel' */
+  method: string;
+  /** The events as sent in this email */
+  events: CalendarEvent[];
+}
+
+/**
+ * A postal address of a contact
+ */
+export interface ContactAddress {
+  /** Address type, e.g. 'home' or 'work' */
+  type?: string;
+  /** Street lines, including any PO box or apartment */
+  street?: string;
+  city?: string;
+  /** State or province */
+  region?: string;
+  postalCode?: string;
+  country?: string;
 }
 
 /**
@@ -79,8 +166,20 @@ export interface Contact {
   name: string;
   /** Primary email address */
   email: string;
+  /** Every email address, primary first (saved contacts with more than one) */
+  emails?: string[];
   /** Phone number */
   phone?: string;
+  /** Every phone number, primary first (saved contacts with more than one) */
+  phones?: string[];
+  /** Company or organization */
+  organization?: string;
+  /** Job title */
+  title?: string;
+  /** Postal addresses */
+  addresses?: ContactAddress[];
+  /** Photo as a `data:` URL, or a link to it */
+  photo?: string;
   /** Notes or additional info */
   notes?: string;
   /** Tags for categorization */
@@ -113,6 +212,131 @@ export interface CalendarEvent {
   isAllDay: boolean;
   /** Whether a reminder is set */
   reminder?: boolean;
+  /** Minutes before the start that the reminder fires (negative if after the start) */
+  reminderMinutes?: number;
+  /** Globally unique event ID (iCalendar UID) */
+  uid?: string;
+  /** Organizer email */
+  organizer?: string;
+  /** Attendees with their names, roles and replies */
+  participants?: CalendarAttendee[];
+  /** Whether the event is confirmed, tentative or cancelled */
+  status?: 'confirmed' | 'tentative' | 'cancelled';
+  /** Time zone the start and end were given in (e.g. 'America/New_York') */
+  timeZone?: string;
+  /** How the event repeats, for recurring events */
+  recurrence?: CalendarRecurrence;
+  /** For a changed occurrence of a recurring event: the original start of the occurrence it replaces */
+  recurrenceId?: Date;
+  /** Revision number; each update of an invitation increases it */
+  sequence?: number;
+  /** Message-ID of the email that last updated the event, for events built from invitations */
+  messageId?: string;
+}
+
+/**
+ * An attendee of a calendar event
+ */
+export interface CalendarAttendee {
+  /** Attendee email */
+  email: string;
+  /** Display name, if known */
+  name?: string;
+  /** Attendee's reply (iCalendar PARTSTAT) */
+  status?: 'needs-action' | 'accepted' | 'declined' | 'tentative' | 'delegated';
+  /** Whether attendance is required, optional, or the attendee chairs the event */
+  role?: 'chair' | 'required' | 'optional' | 'non-participant';
+}
+
+/**
+ * Repeat rule of a recurring calendar event (iCalendar RRULE and EXDATE)
+ */
+export interface CalendarRecurrence {
+  /** The rule as written, e.g. 'FREQ=WEEKLY;BYDAY=MO,WE' */
+  rule: string;
+  /** How often the event repeats */
+  frequency: 'secondly' | 'minutely' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+  /** Repeat every `interval` periods */
+  interval: number;
+  /** Number of occurrences, if limited */
+  count?: number;
+  /** Last possible occurrence, if limited */
+  until?: Date;
+  /** Days of the week, optionally numbered within the month or year (e.g. 'MO', '-1FR') */
+  byDay?: string[];
+  /** Days of the month (negative counts from the end) */
+  byMonthDay?: number[];
+  /** Months (1-12) */
+  byMonth?: number[];
+  /** Start times of occurrences removed from the series */
+  exceptions: Date[];
+}
+
+/**
+ * Represents a task (to-do)
+ */
+export interface Task {
+  /** Auto-generated ID */
+  id?: number;
+  /** Task subject */
+  subject: string;
+  /** Task notes */
+  body?: string;
+  /** Date the task starts */
+  startDate?: Date;
+  /** Date the task is due */
+  dueDate?: Date;
+  /** Whether the task has been completed */
+  isCompleted: boolean;
+  /** When the task was completed */
+  completedDate?: Date;
+  /** Importance of the task */
+  priority?: EmailPriority;
+  /** Categories the task is filed under */
+  categories?: string[];
+}
+
+/**
+ * Represents a note
+ */
+export interface Note {
+  /** Auto-generated ID */
+  id?: number;
+  /** Note title */
+  title: string;
+  /** Note text */
+  body: string;
+  /** When the note was created */
+  createdDate?: Date;
+  /** When the note was last changed */
+  modifiedDate?: Date;
+  /** Categories the note is filed under */
+  categories?: string[];
+}
+
+/**
+ * Special-use role of a folder (RFC 6154, plus the inbox and outbox)
+ */
+export type FolderRole = 'inbox' | 'outbox' | 'sent' | 'drafts' | 'trash' | 'spam' | 'archive' | 'all' | 'flagged';
+
+/**
+ * A mailbox folder (or Gmail label)
+ */
+export interface Folder {
+  /** Folder identifier, as used in `Email.folderId` (e.g. 'inbox', 'inbox/projects') */
+  id: string;
+  /** Display name, e.g. 'Projects' */
+  name: string;
+  /** Display path from the top of the mailbox, e.g. 'Inbox/Projects' */
+  path: string;
+  /** ID of the enclosing folder, for subfolders */
+  parentId?: string;
+  /** Role of a well-known top-level folder such as the inbox or sent items */
+  role?: FolderRole;
+  /** Account the folder belongs to, when the archive records it */
+  account?: string;
+  /** Number of emails directly in the folder */
+  emailCount: number;
 }
 
 // ============================================================================
@@ -332,9 +556,54 @@ export type ParsingStage =
   | 'parsing_emails' 
   | 'parsing_contacts' 
   | 'parsing_calendar' 
+  | 'parsing_tasks' 
   | 'detecting' 
   | 'complete';
 
+/**
+ * Severity of a parse diagnostic: errors mean an item could not be parsed,
+ * warnings mean something looked wrong and was skipped or degraded
+ */
+export type DiagnosticSeverity = 'warning' | 'error';
+
+/**
+ * Machine-readable diagnostic codes
+ */
+export type DiagnosticCode =
+  | 'message_parse_failed'
+  | 'xml_parse_failed'
+  | 'entry_read_failed'
+  | 'message_skipped'
+  | 'attachment_missing'
+  | 'attachment_read_failed';
+
+/**
+ * A problem encountered while parsing an archive
+ */
+export interface ParseDiagnostic {
+  /** How serious the problem is */
+  severity: DiagnosticSeverity;
+  /** Machine-readable code */
+  code: DiagnosticCode;
+  /** Human-readable description */
+  message: string;
+  /** Where in the archive the problem occurred */
+  location?: {
+    /** Byte offset of the message in an MBOX file */
+    offset?: number;
+    /** Path of the entry inside an OLM (ZIP) archive, the message file, or the PST folder */
+    path?: string;
+  };
+  /** Message-ID of the affected email, if known */
+  messageId?: string;
+}
+
+/**
+ * Supported email archive formats
+ * (`maildir` is a directory, so it is never detected from file content)
+ */
+export type ArchiveFormat = 'olm' | 'pst' | 'msg' | 'mbox' | 'eml' | 'maildir' | 'takeout' | 'vcard' | 'icalendar';
+
 /**
  * Progress callback information
  */
@@ -368,8 +637,49 @@ export interface ParseOptions {
   detectNewsletters?: boolean;
   /** Whether to include attachment data */
   includeAttachments?: boolean;
+  /** Whether to attach every raw header to each email as `Email.headers` */
+  includeHeaders?: boolean;
+  /**
+   * Charset for text that declares no charset and isn't valid UTF-8,
+   * or declares one the runtime can't decode
+   * @default 'windows-1252'
+   */
+  fallbackCharset?: string;
+  /** Archive format to use instead of detecting it from the content (parseArchive only) */
+  format?: ArchiveFormat;
+  /** Cancels parsing; the parse rejects with a ParseAbortedError once aborted */
+  signal?: AbortSignal;
+  /** Called for every diagnostic (warnings and errors) as it is encountered */
+  onWarning?: (diagnostic: ParseDiagnostic) => void;
+  /** Throw a ParseError on the first error-severity diagnostic instead of skipping the item */
+  strict?: boolean;
 }
 
+/**
+ * Inputs accepted by the streaming API: File/Blob (browser), Buffer or raw bytes,
+ * a file path (Node.js), a WHATWG ReadableStream or a Node.js Readable
+ */
+export type StreamInput =
+  | File
+  | Blob
+  | Buffer
+  | ArrayBuffer
+  | Uint8Array
+  | string
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/**
+ * An item yielded by a parser's `stream()` method
+ */
+export type ArchiveItem =
+  | { type: 'email'; email: Email }
+  | { type: 'contact'; contact: Contact }
+  | { type: 'calendarEvent'; event: CalendarEvent }
+  | { type: 'folder'; folder: Folder }
+  | { type: 'task'; task: Task }
+  | { type: 'note'; note: Note };
+
 /**
  * Result of parsing an email archive
  */
@@ -380,6 +690,12 @@ export interface ParseResult {
   contacts: Contact[];
   /** Parsed calendar events */
   calendarEvents: CalendarEvent[];
+  /** Folders (and Gmail labels) holding the emails */
+  folders: Folder[];
+  /** Parsed tasks (Outlook for Mac archives) */
+  tasks: Task[];
+  /** Parsed notes (Outlook for Mac archives) */
+  notes: Note[];
   /** Detected accounts (if detectAccounts enabled) */
   accounts?: Account[];
   /** Detected purchases (if detectPurchases enabled) */
@@ -388,11 +704,15 @@ export interface ParseResult {
   subscriptions?: Subscription[];
   /** Detected newsletters (if detectNewsletters enabled) */
   newsletters?: Newsletter[];
+  /** Problems encountered while parsing, such as messages that were skipped */
+  diagnostics: ParseDiagnostic[];
   /** Summary statistics */
   stats: {
     emailCount: number;
     contactCount: number;
     calendarEventCount: number;
+    taskCount: number;
+    noteCount: number;
     accountCount: number;
     purchaseCount: number;
     subscriptionCount: number;
@@ -3,6 +3,8 @@
  * @packageDocumentation
  */
 
+import type { EmailAddress, EmailHeader } from './types';
+
 /**
  * Clean and normalize an email address
  * @param email - Raw email string
@@ -149,47 +151,411 @@ export function parseDate(dateStr: string): Date | null {
   }
 }
 
+/**
+ * Convert a binary string (one char per byte, e.g. Latin-1 decoded) to bytes
+ * Characters above 0xFF are encoded as UTF-8
+ * @param str - Binary string
+ * @returns Bytes
+ */
+export function binaryStringToBytes(str: string): Uint8Array {
+  if (!/[^\x00-\xff]/.test(str)) {
+    const bytes = new Uint8Array(str.length);
+    for (let i = 0; i < str.length; i++) {
+      bytes[i] = str.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  const bytes: number[] = [];
+  for (const char of str) {
+    const code = char.codePointAt(0)!;
+    if (code <= 0xff) {
+      bytes.push(code);
+    } else {
+      bytes.push(...new TextEncoder().encode(char));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Convert bytes to a binary string (one char per byte)
+ * @param bytes - Bytes to convert
+ * @returns Binary string
+ */
+export function bytesToBinaryString(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('latin1');
+  }
+
+  let result = '';
+  // Convert in slices to stay under the engine's argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+}
+
+/**
+ * Decode bytes using a MIME charset
+ *
+ * Undeclared content is decoded as UTF-8 when valid, otherwise with the fallback charset.
+ * Declared charsets the runtime doesn't support also use the fallback charset.
+ *
+ * @param bytes - Raw bytes
+ * @param charset - Declared charset (e.g. 'iso-8859-1', 'shift_jis'), if any
+ * @param fallbackCharset - Charset for undeclared non-UTF-8 or unsupported content
+ * @returns Decoded string
+ */
+export function decodeBytes(
+  bytes: Uint8Array,
+  charset?: string,
+  fallbackCharset = 'windows-1252'
+): string {
+  const label = normalizeCharset(charset);
+
+  if (label) {
+    try {
+      return new TextDecoder(label).decode(bytes);
+    } catch {
+      // Unsupported charset - use the fallback below
+    }
+  } else {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      // Not valid UTF-8 - use the fallback below
+    }
+  }
+
+  try {
+    return new TextDecoder(normalizeCharset(fallbackCharset) || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Map a Windows code page number (as stored by Outlook) onto a charset label
+ * @param codePage - Code page, e.g. 1252 or 65001
+ * @returns Charset label for decodeBytes, or undefined if unknown
+ */
+export function codePageToCharset(codePage: number | undefined): string | undefined {
+  if (codePage === undefined) return undefined;
+  if (codePage >= 1250 && codePage <= 1258) return `windows-${codePage}`;
+  if (codePage >= 28591 && codePage <= 28605) return `iso-8859-${codePage - 28590}`;
+
+  const codePages: Record<number, string> = {
+    874: 'windows-874',
+    932: 'shift_jis',
+    936: 'gbk',
+    949: 'euc-kr',
+    950: 'big5',
+    1200: 'utf-16le',
+    1201: 'utf-16be',
+    10000: 'macintosh',
+    20127: 'us-ascii',
+    20866: 'koi8-r',
+    21866: 'koi8-u',
+    50220: 'iso-2022-jp',
+    50221: 'iso-2022-jp',
+    50222: 'iso-2022-jp',
+    51932: 'euc-jp',
+    51949: 'euc-kr',
+    54936: 'gb18030',
+    65001: 'utf-8',
+  };
+  return codePages[codePage];
+}
+
+/**
+ * Map MIME charset names onto labels understood by TextDecoder
+ */
+function normalizeCharset(charset?: string): string | undefined {
+  if (!charset) return undefined;
+
+  // Strip quotes and RFC 2231 language suffix (e.g. "utf-8*en")
+  const label = charset.replace(/["']/g, '').split('*')[0].trim().toLowerCase();
+  if (!label) return undefined;
+
+  const aliases: Record<string, string> = {
+    'utf8': 'utf-8',
+    'ascii': 'us-ascii',
+    'latin1': 'iso-8859-1',
+    'latin-1': 'iso-8859-1',
+    'cp1250': 'windows-1250',
+    'cp1251': 'windows-1251',
+    'cp1252': 'windows-1252',
+    'cp1253': 'windows-1253',
+    'cp1254': 'windows-1254',
+    'cp1255': 'windows-1255',
+    'cp1256': 'windows-1256',
+    'cp1257': 'windows-1257',
+    'cp1258': 'windows-1258',
+    'cp932': 'shift_jis',
+    'sjis': 'shift_jis',
+    'x-sjis': 'shift_jis',
+    'cp936': 'gbk',
+    'gb2312': 'gbk',
+    'x-gbk': 'gbk',
+    'cp949': 'euc-kr',
+    'ks_c_5601-1987': 'euc-kr',
+    'big5-hkscs': 'big5',
+    'cp950': 'big5',
+  };
+
+  return aliases[label] || label;
+}
+
+/**
+ * Decode quoted-printable encoding to raw bytes
+ * @param str - Quoted-printable encoded string
+ * @returns Decoded bytes
+ */
+export function decodeQuotedPrintableBytes(str: string): Uint8Array {
+  return binaryStringToBytes(
+    str
+      .replace(/=\r?\n/g, '') // Remove soft line breaks
+      .replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+  );
+}
+
 /**
  * Decode quoted-printable encoding
  * @param str - Quoted-printable encoded string
+ * @param charset - Charset of the encoded bytes
  * @returns Decoded string
  */
-export function decodeQuotedPrintable(str: string): string {
-  return str
-    .replace(/=\r?\n/g, '') // Remove soft line breaks
-    .replace(/=([0-9A-F]{2})/gi, (_, hex) => 
-      String.fromCharCode(parseInt(hex, 16))
-    );
+export function decodeQuotedPrintable(str: string, charset = 'utf-8'): string {
+  return decodeBytes(decodeQuotedPrintableBytes(str), charset);
+}
+
+/**
+ * Decode base64 to raw bytes
+ * @param str - Base64 encoded string (whitespace is ignored)
+ * @returns Decoded bytes
+ */
+export function decodeBase64Bytes(str: string): Uint8Array {
+  const cleaned = str.replace(/[^A-Za-z0-9+/]/g, '');
+  // Restore padding stripped above (or missing in the source)
+  const padded = cleaned + '='.repeat((4 - (cleaned.length % 4)) % 4);
+
+  if (typeof atob !== 'undefined') {
+    try {
+      return binaryStringToBytes(atob(padded));
+    } catch {
+      // Fall through to Buffer for malformed lengths
+    }
+  }
+  if (typeof Buffer !== 'undefined') {
+    return new Uint8Array(Buffer.from(cleaned, 'base64'));
+  }
+  return new Uint8Array(0);
+}
+
+/**
+ * Encode raw bytes as base64
+ * @param bytes - Bytes to encode
+ * @returns Base64 string without line breaks
+ */
+export function encodeBase64Bytes(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+  }
+  return btoa(bytesToBinaryString(bytes));
 }
 
 /**
  * Decode RFC 2047 encoded header value
+ *
+ * Whitespace between adjacent encoded words is dropped (RFC 2047 §6.2), and
+ * consecutive words in the same charset are decoded together, so a character
+ * split across two words survives.
  * @param str - Encoded header value
+ * @param fallbackCharset - Charset for encoded words with an unsupported charset
  * @returns Decoded string
  */
-export function decodeHeaderValue(str: string): string {
-  // Handle =?charset?encoding?text?= format
+export function decodeHeaderValue(str: string, fallbackCharset?: string): string {
+  // Handle runs of =?charset?encoding?text?= words
   return str.replace(
-    /=\?([^?]+)\?([BQ])\?([^?]+)\?=/gi,
-    (_, _charset, encoding, text) => {
+    /=\?[^?]+\?[BQ]\?[^?]*\?=(?:\s+=\?[^?]+\?[BQ]\?[^?]*\?=)*/gi,
+    (run) => {
       try {
-        if (encoding.toUpperCase() === 'B') {
-          // Base64
-          if (typeof atob !== 'undefined') {
-            return atob(text);
-          }
-          return Buffer.from(text, 'base64').toString('utf-8');
-        } else {
-          // Quoted-printable
-          return decodeQuotedPrintable(text.replace(/_/g, ' '));
-        }
+        return decodeEncodedWords(run, fallbackCharset);
       } catch {
-        return text;
+        return run;
       }
     }
   );
 }
 
+/**
+ * Decode a run of adjacent encoded words, joining the bytes of words that share a charset
+ */
+function decodeEncodedWords(run: string, fallbackCharset?: string): string {
+  let decoded = '';
+  let charset: string | undefined;
+  let chunks: Uint8Array[] = [];
+
+  const flush = () => {
+    if (chunks.length === 0) return;
+    const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    decoded += decodeBytes(bytes, charset, fallbackCharset);
+    chunks = [];
+  };
+
+  for (const [, wordCharset, encoding, text] of run.matchAll(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi)) {
+    if (wordCharset.toLowerCase() !== charset?.toLowerCase()) {
+      flush();
+      charset = wordCharset;
+    }
+    chunks.push(
+      encoding.toUpperCase() === 'B'
+        ? decodeBase64Bytes(text)
+        : decodeQuotedPrintableBytes(text.replace(/_/g, ' '))
+    );
+  }
+  flush();
+
+  return decoded;
+}
+
+/**
+ * Parse an RFC 5322 address list header (To, Cc, From, ...)
+ *
+ * Handles quoted display names containing commas, comments, groups
+ * (e.g. `undisclosed-recipients:;`), `;` separators and RFC 2047 encoded names.
+ *
+ * @param header - Raw header value
+ * @param fallbackCharset - Charset for encoded words with an unsupported charset
+ * @returns Mailboxes with a valid address, in header order
+ */
+export function parseAddressList(header: string, fallbackCharset?: string): EmailAddress[] {
+  if (!header) return [];
+
+  const entries: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+  let commentDepth = 0;
+  let inGroup = false;
+
+  for (let i = 0; i < header.length; i++) {
+    const char = header[i];
+
+    if (inQuotes) {
+      current += char;
+      if (char === '\\' && i + 1 < header.length) {
+        current += header[++i];
+      } else if (char === '"') {
+        inQuotes = false;
+      }
+      continue;
+    }
+
+    if (commentDepth > 0) {
+      current += char;
+      if (char === '\\' && i + 1 < header.length) {
+        current += header[++i];
+      } else if (char === '(') {
+        commentDepth++;
+      } else if (char === ')') {
+        commentDepth--;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === '(') {
+      commentDepth++;
+    } else if (char === '<') {
+      inAngle = true;
+    } else if (char === '>') {
+      inAngle = false;
+    } else if (!inAngle && char === ':' && !inGroup) {
+      // Group display name - its members follow
+      inGroup = true;
+      current = '';
+      continue;
+    } else if (!inAngle && (char === ',' || char === ';')) {
+      if (char === ';') inGroup = false;
+      entries.push(current);
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+  entries.push(current);
+
+  const addresses: EmailAddress[] = [];
+  for (const entry of entries) {
+    const mailbox = parseMailbox(entry, fallbackCharset);
+    if (mailbox) addresses.push(mailbox);
+  }
+  return addresses;
+}
+
+/**
+ * Parse a single mailbox (`"Name" <address>`, `address (Name)` or bare address)
+ */
+function parseMailbox(entry: string, fallbackCharset?: string): EmailAddress | null {
+  // Pull out comments; a comment can stand in for a missing display name
+  const comments: string[] = [];
+  const withoutComments = entry.replace(/\((?:[^()\\]|\\.)*\)/g, (comment) => {
+    comments.push(comment.slice(1, -1).trim());
+    return ' ';
+  });
+
+  const angleMatch = withoutComments.match(/^([\s\S]*)<([^>]*)>/);
+  const rawAddress = angleMatch ? angleMatch[2] : withoutComments;
+  const address = rawAddress.replace(/\s+/g, '').replace(/^mailto:/i, '');
+
+  if (!address.includes('@')) return null;
+
+  let name = angleMatch ? angleMatch[1].trim() : comments.find(Boolean) || '';
+  if (name.startsWith('"') && name.endsWith('"') && name.length >= 2) {
+    name = name.slice(1, -1).replace(/\\(.)/g, '$1');
+  } else {
+    // Unquoted names may contain quoted fragments
+    name = name.replace(/"((?:[^"\\]|\\.)*)"/g, (_, inner: string) => inner.replace(/\\(.)/g, '$1'));
+  }
+  name = decodeHeaderValue(name.replace(/\s+/g, ' ').trim(), fallbackCharset).trim();
+
+  return {
+    name: name || undefined,
+    address: cleanEmailAddress(address),
+  };
+}
+
+/**
+ * Get the first value of a header (case-insensitive)
+ * @param headers - Headers from `Email.headers`
+ * @param name - Header name
+ * @returns Header value, or undefined if absent
+ */
+export function getHeader(headers: EmailHeader[] | undefined, name: string): string | undefined {
+  const key = name.toLowerCase();
+  return headers?.find((h) => h.name.toLowerCase() === key)?.value;
+}
+
+/**
+ * Get every value of a header in source order (case-insensitive)
+ * @param headers - Headers from `Email.headers`
+ * @param name - Header name (e.g. 'Received')
+ * @returns All values, empty if absent
+ */
+export function getHeaderValues(headers: EmailHeader[] | undefined, name: string): string[] {
+  const key = name.toLowerCase();
+  return (headers || []).filter((h) => h.name.toLowerCase() === key).map((h) => h.value);
+}
+
 /**
  * Format domain as a readable service name
  * @param domain - Domain to format
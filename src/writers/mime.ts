@@ -0,0 +1,176 @@
+/**
+ * OLM Parser - RFC 822 Message Writer
+ * @packageDocumentation
+ */
+
+import type { Email, EmailAddress } from '../types';
+import { encodeBase64Bytes } from '../utils';
+
+/** Weekday and month names for asctime-style mbox separator dates */
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Serialize a parsed email as an RFC 822 / MIME message (.eml)
+ *
+ * Plain text and HTML bodies become a multipart/alternative; attachments are
+ * only written when their `data` was extracted (`includeAttachments`).
+ *
+ * @param email - Email to serialize
+ * @param eol - Line ending, CRLF by default as required by RFC 5322
+ * @returns Message text
+ */
+export function formatMessage(email: Omit<Email, 'id'>, eol = '\r\n'): string {
+  const headers: string[] = [];
+
+  headers.push(`From: ${formatAddress(email.fromAddress ?? { name: email.senderName, address: email.sender })}`);
+  const to = email.toAddresses ?? email.recipients.map((address) => ({ address }));
+  if (to.length > 0) {
+    headers.push(`To: ${to.map(formatAddress).join(', ')}`);
+  }
+  const cc = email.ccAddresses ?? (email.cc ?? []).map((address) => ({ address }));
+  if (cc.length > 0) {
+    headers.push(`Cc: ${cc.map(formatAddress).join(', ')}`);
+  }
+  const replyTo = email.replyToAddresses ?? (email.replyTo ?? []).map((address) => ({ address }));
+  if (replyTo.length > 0) {
+    headers.push(`Reply-To: ${replyTo.map(formatAddress).join(', ')}`);
+  }
+  headers.push(`Subject: ${encodeHeaderValue(email.subject)}`);
+  headers.push(`Date: ${formatRfc2822Date(email.date)}`);
+  if (email.messageId) {
+    headers.push(`Message-ID: ${email.messageId}`);
+  }
+  if (email.inReplyTo) {
+    headers.push(`In-Reply-To: ${email.inReplyTo}`);
+  }
+  if (email.references?.length) {
+    headers.push(`References: ${email.references.join(' ')}`);
+  }
+  headers.push('MIME-Version: 1.0');
+
+  const attachments = email.attachments.filter((attachment) => attachment.data !== undefined);
+  let content = email.htmlBody ? formatAlternative(email.body, email.htmlBody) : formatTextPart('text/plain', email.body);
+
+  if (attachments.length > 0) {
+    const boundary = createBoundary();
+    const parts = [content];
+    for (const attachment of attachments) {
+      const filename = encodeHeaderValue(attachment.filename).replace(/"/g, '\\"');
+      parts.push(
+        [
+          `Content-Type: ${attachment.mimeType}; name="${filename}"`,
+          `Content-Disposition: attachment; filename="${filename}"`,
+          'Content-Transfer-Encoding: base64',
+          '',
+          wrapBase64(attachment.data!),
+        ].join('\n')
+      );
+    }
+    content = formatMultipart('mixed', boundary, parts);
+  }
+
+  return (headers.join('\n') + '\n' + content + '\n').replace(/\n/g, eol);
+}
+
+/**
+ * Serialize a parsed email as an mbox entry (separator line, message, blank line)
+ *
+ * Body lines starting with `From ` (or an already quoted `>From `) get an extra
+ * `>` so readers don't mistake them for message separators (mboxrd quoting).
+ *
+ * @param email - Email to serialize
+ * @returns Mbox entry text with LF line endings
+ */
+export function formatMboxEntry(email: Omit<Email, 'id'>): string {
+  const message = formatMessage(email, '\n').replace(/^(>*From )/gm, '>$1');
+  return `From ${email.sender || 'MAILER-DAEMON'} ${formatAsctimeDate(email.date)}\n${message}\n`;
+}
+
+/**
+ * Format a mailbox as `"Name" <address>` (or just the address)
+ */
+function formatAddress(mailbox: EmailAddress): string {
+  if (!mailbox.name) return mailbox.address;
+  const name = /^[\x20-\x7e]*$/.test(mailbox.name)
+    ? `"${mailbox.name.replace(/(["\\])/g, '\\$1')}"`
+    : encodeHeaderValue(mailbox.name);
+  return `${name} <${mailbox.address}>`;
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word if it isn't plain ASCII
+ */
+function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${encodeBase64Bytes(new TextEncoder().encode(value))}?=`;
+}
+
+/**
+ * Build a single text part (headers, blank line, body)
+ */
+function formatTextPart(mimeType: string, text: string): string {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  // 7bit is only valid for ASCII with lines under 998 octets
+  if (/^[\x00-\x7f]*$/.test(normalized) && !/[^\n]{998}/.test(normalized)) {
+    return `Content-Type: ${mimeType}; charset=us-ascii\nContent-Transfer-Encoding: 7bit\n\n${normalized}`;
+  }
+  const encoded = wrapBase64(encodeBase64Bytes(new TextEncoder().encode(normalized)));
+  return `Content-Type: ${mimeType}; charset=utf-8\nContent-Transfer-Encoding: base64\n\n${encoded}`;
+}
+
+/**
+ * Build a multipart/alternative part from plain text and HTML bodies
+ */
+function formatAlternative(text: string, html: string): string {
+  return formatMultipart('alternative', createBoundary(), [
+    formatTextPart('text/plain', text),
+    formatTextPart('text/html', html),
+  ]);
+}
+
+/**
+ * Build a multipart part from already formatted parts
+ */
+function formatMultipart(subtype: string, boundary: string, parts: string[]): string {
+  const body = parts.map((part) => `--${boundary}\n${part}`).join('\n');
+  return `Content-Type: multipart/${subtype}; boundary="${boundary}"\n\n${body}\n--${boundary}--`;
+}
+
+/**
+ * Create a boundary that can't appear in base64 or 7bit content by accident
+ */
+function createBoundary(): string {
+  return `=_Part_${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`;
+}
+
+/**
+ * Wrap base64 text at 76 characters per line
+ */
+function wrapBase64(base64: string): string {
+  return base64.replace(/\s+/g, '').replace(/.{76}/g, '$&\n').replace(/\n$/, '');
+}
+
+/**
+ * Format a date for the Date header, e.g. `Mon, 15 Jan 2024 10:30:00 +0000`
+ */
+function formatRfc2822Date(date: Date): string {
+  const d = isNaN(date.getTime()) ? new Date(0) : date;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${DAYS[d.getUTCDay()]}, ${d.getUTCDate()} ${MONTHS[d.getUTCMonth()]} ${d.getUTCFullYear()} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())} +0000`
+  );
+}
+
+/**
+ * Format a date for an mbox separator line, e.g. `Mon Jan 15 10:30:00 2024`
+ */
+function formatAsctimeDate(date: Date): string {
+  const d = isNaN(date.getTime()) ? new Date(0) : date;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${DAYS[d.getUTCDay()]} ${MONTHS[d.getUTCMonth()]} ${String(d.getUTCDate()).padStart(2, ' ')} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())} ${d.getUTCFullYear()}`
+  );
+}